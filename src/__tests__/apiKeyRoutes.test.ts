@@ -0,0 +1,231 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { Op } from 'sequelize';
+import { buildServer } from '../server.js';
+import { sequelize } from '../database/connection.js';
+import { ApiKey, AuditEvent, User } from '../models/index.js';
+import { userRoutes } from '../routes/api/users/index.js';
+import { apiKeyRoutes } from '../routes/api/apiKeys/index.js';
+import authPlugin from '../plugins/auth.js';
+import rbacPlugin from '../plugins/rbac.js';
+
+describe('API Key Routes', () => {
+  const server = buildServer();
+  let authToken: string;
+  let owner: User;
+  let otherUserToken: string;
+
+  const createKey = async (payload: object, token = authToken) => {
+    const response = await server.inject({
+      method: 'POST',
+      url: '/api/users/me/api-keys',
+      headers: { Authorization: `Bearer ${token}` },
+      payload,
+    });
+    return response.json() as { apiKey: { id: number; prefix: string }; key: string };
+  };
+
+  beforeAll(async () => {
+    await sequelize.authenticate();
+
+    await server.register(authPlugin);
+    await server.register(rbacPlugin);
+    await server.register(userRoutes, { prefix: '/api/users' });
+    await server.register(apiKeyRoutes, { prefix: '/api/users/me/api-keys' });
+    await server.ready();
+
+    await User.destroy({ where: { email: { [Op.like]: 'api-key-%@auth.test' } }, force: true });
+
+    owner = await User.create({ name: 'API Key Owner', email: 'api-key-owner@auth.test' });
+    const other = await User.create({ name: 'Other', email: 'api-key-other@auth.test' });
+
+    authToken = server.jwt.sign({ userId: owner.id, email: owner.email, role: owner.role });
+    otherUserToken = server.jwt.sign({ userId: other.id, email: other.email, role: other.role });
+  });
+
+  afterAll(async () => {
+    await User.destroy({ where: { email: { [Op.like]: 'api-key-%@auth.test' } }, force: true });
+    await sequelize.close();
+    await server.close();
+  });
+
+  describe('POST /api/users/me/api-keys', () => {
+    it('should create a key and only return it once', async () => {
+      const response = await server.inject({
+        method: 'POST',
+        url: '/api/users/me/api-keys',
+        headers: { Authorization: `Bearer ${authToken}` },
+        payload: { name: 'CI deploy', scopes: ['read', 'write'], expiresInDays: 30 },
+      });
+
+      expect(response.statusCode).toBe(201);
+      const { apiKey, key } = response.json();
+      expect(key).toMatch(/^ak_/);
+      expect(key.startsWith(apiKey.prefix)).toBe(true);
+      expect(apiKey.scopes).toEqual(['read', 'write']);
+      expect(apiKey.expiresAt).toBeTruthy();
+      expect(apiKey).not.toHaveProperty('keyHash');
+
+      const stored = await ApiKey.findByPk(apiKey.id);
+      expect(stored!.keyHash).not.toBe(key);
+
+      const audit = await AuditEvent.findOne({
+        where: { action: 'api_key.created', targetId: String(apiKey.id) },
+      });
+      expect(audit!.actorId).toBe(owner.id);
+      expect(audit!.after).toEqual({ name: 'CI deploy', scopes: ['read', 'write'] });
+    });
+
+    it('should default to a read-only key without expiry', async () => {
+      const { apiKey } = await createKey({ name: 'Reporting' });
+
+      const stored = await ApiKey.findByPk(apiKey.id);
+      expect(stored!.scopes).toEqual(['read']);
+      expect(stored!.expiresAt).toBeNull();
+    });
+
+    it('should reject unknown scopes', async () => {
+      const response = await server.inject({
+        method: 'POST',
+        url: '/api/users/me/api-keys',
+        headers: { Authorization: `Bearer ${authToken}` },
+        payload: { name: 'Bad', scopes: ['admin'] },
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+  });
+
+  describe('Authorization: ApiKey', () => {
+    it('should authenticate requests and record the last use', async () => {
+      const { apiKey, key } = await createKey({ name: 'Reader' });
+
+      const response = await server.inject({
+        method: 'GET',
+        url: `/api/users/${owner.id}`,
+        headers: { Authorization: `ApiKey ${key}` },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json().email).toBe('api-key-owner@auth.test');
+      expect((await ApiKey.findByPk(apiKey.id))!.lastUsedAt).toBeInstanceOf(Date);
+    });
+
+    it('should refuse writes with a read-only key', async () => {
+      const { key } = await createKey({ name: 'Reader', scopes: ['read'] });
+
+      const response = await server.inject({
+        method: 'PUT',
+        url: `/api/users/${owner.id}`,
+        headers: { Authorization: `ApiKey ${key}` },
+        payload: { name: 'Changed' },
+      });
+
+      expect(response.statusCode).toBe(403);
+      expect(response.json().detail).toBe('This API key is not allowed to perform this action');
+    });
+
+    it('should allow writes with a write key', async () => {
+      const { key } = await createKey({ name: 'Writer', scopes: ['write'] });
+
+      const response = await server.inject({
+        method: 'PUT',
+        url: `/api/users/${owner.id}`,
+        headers: { Authorization: `ApiKey ${key}` },
+        payload: { name: 'Renamed By Key' },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json().name).toBe('Renamed By Key');
+    });
+
+    it('should reject unknown, revoked and expired keys', async () => {
+      const revoked = await createKey({ name: 'Revoked' });
+      await ApiKey.update({ revokedAt: new Date() }, { where: { id: revoked.apiKey.id } });
+
+      const expired = await createKey({ name: 'Expired', expiresInDays: 1 });
+      const past = new Date(Date.now() - 1000);
+      await ApiKey.update({ expiresAt: past }, { where: { id: expired.apiKey.id } });
+
+      for (const key of ['ak_unknown', revoked.key, expired.key]) {
+        const response = await server.inject({
+          method: 'GET',
+          url: `/api/users/${owner.id}`,
+          headers: { Authorization: `ApiKey ${key}` },
+        });
+        expect(response.statusCode).toBe(401);
+      }
+    });
+
+    it('should not allow managing keys with an API key', async () => {
+      const { key } = await createKey({ name: 'Writer', scopes: ['read', 'write'] });
+
+      const response = await server.inject({
+        method: 'POST',
+        url: '/api/users/me/api-keys',
+        headers: { Authorization: `ApiKey ${key}` },
+        payload: { name: 'Escalation' },
+      });
+
+      expect(response.statusCode).toBe(403);
+      expect(response.json().detail).toBe('API keys can only be managed from a signed-in session');
+    });
+  });
+
+  describe('GET /api/users/me/api-keys', () => {
+    it('should list only the current user keys', async () => {
+      await createKey({ name: 'Other user key' }, otherUserToken);
+
+      const response = await server.inject({
+        method: 'GET',
+        url: '/api/users/me/api-keys',
+        headers: { Authorization: `Bearer ${authToken}` },
+      });
+
+      expect(response.statusCode).toBe(200);
+      const names = response.json().apiKeys.map((k: { name: string }) => k.name);
+      expect(names).toContain('CI deploy');
+      expect(names).not.toContain('Other user key');
+      expect(names).not.toContain('Revoked');
+    });
+  });
+
+  describe('DELETE /api/users/me/api-keys/:id', () => {
+    it('should revoke a key so it stops working', async () => {
+      const { apiKey, key } = await createKey({ name: 'Short-lived' });
+
+      const response = await server.inject({
+        method: 'DELETE',
+        url: `/api/users/me/api-keys/${apiKey.id}`,
+        headers: { Authorization: `Bearer ${authToken}` },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json().message).toBe('API key revoked successfully');
+      expect(
+        await AuditEvent.count({
+          where: { action: 'api_key.revoked', targetId: String(apiKey.id), actorId: owner.id },
+        })
+      ).toBe(1);
+
+      const retry = await server.inject({
+        method: 'GET',
+        url: `/api/users/${owner.id}`,
+        headers: { Authorization: `ApiKey ${key}` },
+      });
+      expect(retry.statusCode).toBe(401);
+    });
+
+    it("should not revoke another user's key", async () => {
+      const { apiKey } = await createKey({ name: 'Not yours' }, otherUserToken);
+
+      const response = await server.inject({
+        method: 'DELETE',
+        url: `/api/users/me/api-keys/${apiKey.id}`,
+        headers: { Authorization: `Bearer ${authToken}` },
+      });
+
+      expect(response.statusCode).toBe(404);
+      expect((await ApiKey.findByPk(apiKey.id))!.revokedAt).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { Op } from 'sequelize';
+import { buildServer } from '../server.js';
+import { sequelize } from '../database/connection.js';
+import { AuditEvent, User } from '../models/index.js';
+import { userRoutes } from '../routes/api/users/index.js';
+import { adminRoutes } from '../routes/api/admin/index.js';
+import { auditRoutes } from '../routes/api/audit/index.js';
+import authPlugin from '../plugins/auth.js';
+import rbacPlugin from '../plugins/rbac.js';
+
+describe('Audit log', () => {
+  const server = buildServer();
+  let admin: User;
+  let target: User;
+  let adminToken: string;
+  let memberToken: string;
+
+  const asAdmin = (url: string) =>
+    server.inject({ method: 'GET', url, headers: { Authorization: `Bearer ${adminToken}` } });
+
+  const cleanUp = () =>
+    User.destroy({ where: { email: { [Op.like]: 'audit-%@auth.test' } }, force: true });
+
+  beforeAll(async () => {
+    await sequelize.authenticate();
+
+    await server.register(authPlugin);
+    await server.register(rbacPlugin);
+    await server.register(userRoutes, { prefix: '/api/users' });
+    await server.register(adminRoutes, { prefix: '/api/admin/users' });
+    await server.register(auditRoutes, { prefix: '/api/admin/audit' });
+    await server.ready();
+
+    await cleanUp();
+
+    admin = await User.create({ name: 'Admin', email: 'audit-admin@auth.test', role: 'admin' });
+    target = await User.create({ name: 'Target', email: 'audit-target@auth.test', role: 'user' });
+    const member = await User.create({
+      name: 'Member',
+      email: 'audit-member@auth.test',
+      role: 'user',
+    });
+    adminToken = server.jwt.sign({ userId: admin.id, email: admin.email, role: admin.role });
+    memberToken = server.jwt.sign({ userId: member.id, email: member.email, role: member.role });
+  });
+
+  afterAll(async () => {
+    await cleanUp();
+    await server.close();
+  });
+
+  it('should record who changed a role, what changed and where the request came from', async () => {
+    const response = await server.inject({
+      method: 'PATCH',
+      url: `/api/admin/users/${target.id}/role`,
+      headers: {
+        Authorization: `Bearer ${adminToken}`,
+        'user-agent': 'audit-test',
+        'x-request-id': 'audit-role-change',
+      },
+      payload: { role: 'admin' },
+    });
+    expect(response.statusCode).toBe(200);
+    expect(response.headers['x-request-id']).toBe('audit-role-change');
+
+    const listed = await asAdmin(`/api/admin/audit?action=user.role_changed&targetId=${target.id}`);
+    expect(listed.statusCode).toBe(200);
+    expect(listed.json().total).toBe(1);
+    expect(listed.json().events[0]).toMatchObject({
+      actorId: admin.id,
+      targetType: 'user',
+      targetId: String(target.id),
+      before: { role: 'user' },
+      after: { role: 'admin' },
+      ipAddress: '127.0.0.1',
+      userAgent: 'audit-test',
+      requestId: 'audit-role-change',
+    });
+  });
+
+  it('should record only the fields an update changed', async () => {
+    const response = await server.inject({
+      method: 'PUT',
+      url: `/api/users/${target.id}`,
+      headers: { Authorization: `Bearer ${adminToken}` },
+      payload: { name: 'Renamed', email: 'audit-target@auth.test' },
+    });
+    expect(response.statusCode).toBe(200);
+
+    const listed = await asAdmin(`/api/admin/audit?action=user.updated&targetId=${target.id}`);
+    expect(listed.json().events[0]).toMatchObject({
+      before: { name: 'Target' },
+      after: { name: 'Renamed' },
+    });
+    expect(listed.json().events[0].before).not.toHaveProperty('email');
+  });
+
+  it('should page through events newest first', async () => {
+    const first = await asAdmin(`/api/admin/audit?targetId=${target.id}&limit=1`);
+    expect(first.json().total).toBe(2);
+    expect(first.json().events[0].action).toBe('user.updated');
+    expect(first.json().nextCursor).toBeTruthy();
+
+    const second = await asAdmin(
+      `/api/admin/audit?targetId=${target.id}&limit=1&cursor=${first.json().nextCursor}`
+    );
+    expect(second.json().events[0].action).toBe('user.role_changed');
+    expect(second.json().nextCursor).toBeNull();
+
+    expect((await asAdmin('/api/admin/audit?cursor=not-a-cursor')).statusCode).toBe(400);
+  });
+
+  it('should export matching events as NDJSON and record the export', async () => {
+    const response = await asAdmin(`/api/admin/audit/export?targetId=${target.id}`);
+    expect(response.statusCode).toBe(200);
+    expect(response.headers['content-type']).toContain('application/x-ndjson');
+
+    const events = response.body
+      .trim()
+      .split('\n')
+      .map((line) => JSON.parse(line));
+    expect(events.map((event) => event.action)).toEqual(['user.updated', 'user.role_changed']);
+
+    const exported = await AuditEvent.findOne({
+      where: { action: 'audit.exported', actorId: admin.id },
+      order: [['id', 'DESC']],
+    });
+    expect(exported?.metadata).toEqual({ targetId: String(target.id) });
+  });
+
+  it('should only let users with audit:read see the log', async () => {
+    const response = await server.inject({
+      method: 'GET',
+      url: '/api/admin/audit',
+      headers: { Authorization: `Bearer ${memberToken}` },
+    });
+    expect(response.statusCode).toBe(403);
+  });
+
+  it('should refuse to change or delete recorded events', async () => {
+    const event = await AuditEvent.findOne({ where: { targetId: String(target.id) } });
+
+    await expect(event!.update({ action: 'tampered' })).rejects.toThrow(/append-only/);
+    await expect(AuditEvent.destroy({ where: { id: event!.id } })).rejects.toThrow(/append-only/);
+  });
+});
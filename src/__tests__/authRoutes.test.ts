@@ -1,9 +1,14 @@
 import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
 import { buildServer } from '../server.js';
 import { sequelize } from '../database/connection.js';
-import { User } from '../models/index.js';
+import { AuditEvent, User, RefreshToken, UserIdentity, MagicLinkToken } from '../models/index.js';
+import { linkIdentity, signInWithIdentity } from '../utils/identities.js';
 import { authRoutes } from '../routes/auth/index.js';
 import authPlugin from '../plugins/auth.js';
+import { config } from '../config/index.js';
+import { listCapturedMail } from '../mailer/index.js';
+import { hashPassword } from '../utils/passwords.js';
+import { createSession, isSessionActive } from '../utils/sessions.js';
 import { Op } from 'sequelize';
 
 describe('Authentication Routes', () => {
@@ -28,6 +33,7 @@ describe('Authentication Routes', () => {
           [Op.like]: '%@auth.test',
         },
       },
+      force: true,
     });
 
     // Create a test user and token with unique email pattern for auth tests
@@ -52,6 +58,7 @@ describe('Authentication Routes', () => {
           [Op.notLike]: 'auth-test-user@auth.test',
         },
       },
+      force: true,
     });
   });
 
@@ -81,6 +88,20 @@ describe('Authentication Routes', () => {
         });
       }
     });
+
+    it('should list magic link sign-in', async () => {
+      const response = await server.inject({
+        method: 'GET',
+        url: '/auth/providers',
+      });
+
+      expect(response.json().providers).toContainEqual({
+        name: 'magic-link',
+        displayName: 'Email link',
+        type: 'magic_link',
+        loginUrl: '/auth/magic-link',
+      });
+    });
   });
 
   describe('POST /auth/dev/token', () => {
@@ -142,7 +163,7 @@ describe('Authentication Routes', () => {
 
       expect(response.statusCode).toBe(400);
       const data = JSON.parse(response.body);
-      expect(data).toHaveProperty('error');
+      expect(data).toHaveProperty('detail');
     });
 
     it('should use default name when not provided', async () => {
@@ -227,7 +248,7 @@ describe('Authentication Routes', () => {
 
       expect(response.statusCode).toBe(404);
       const data = JSON.parse(response.body);
-      expect(data.error).toBe('User not found');
+      expect(data.detail).toBe('User not found');
     });
   });
 
@@ -254,7 +275,663 @@ describe('Authentication Routes', () => {
       const setCookieHeader = response.headers['set-cookie'];
       expect(setCookieHeader).toBeDefined();
       // Should set max-age to 0 or expires to past date
-      expect(setCookieHeader).toContain('refreshToken');
+      expect(response.cookies.map((c) => c.name)).toContain('refreshToken');
+    });
+  });
+
+  describe('POST /auth/refresh', () => {
+    const getRefreshToken = async (email: string) => {
+      const response = await server.inject({
+        method: 'POST',
+        url: '/auth/dev/token',
+        payload: { email },
+      });
+      return JSON.parse(response.body).refreshToken as string;
+    };
+
+    it('should issue a short-lived access token and an opaque refresh token', async () => {
+      const response = await server.inject({
+        method: 'POST',
+        url: '/auth/dev/token',
+        payload: { email: 'tokens@auth.test' },
+      });
+
+      expect(response.statusCode).toBe(200);
+      const data = JSON.parse(response.body);
+      expect(data.refreshToken).toBeDefined();
+      expect(data.refreshToken).not.toBe(data.token);
+      expect(data.expiresIn).toBeGreaterThan(0);
+
+      const decoded = server.jwt.decode(data.token) as { exp: number; iat: number };
+      expect(decoded.exp - decoded.iat).toBe(data.expiresIn);
+
+      const cookies = response.cookies.map((c) => c.name);
+      expect(cookies).toContain('accessToken');
+      expect(cookies).toContain('refreshToken');
+    });
+
+    it('should rotate the refresh token', async () => {
+      const refreshToken = await getRefreshToken('rotate@auth.test');
+
+      const response = await server.inject({
+        method: 'POST',
+        url: '/auth/refresh',
+        payload: { refreshToken },
+      });
+
+      expect(response.statusCode).toBe(200);
+      const data = JSON.parse(response.body);
+      expect(data.token).toBeDefined();
+      expect(data.refreshToken).toBeDefined();
+      expect(data.refreshToken).not.toBe(refreshToken);
+      expect(data.user.email).toBe('rotate@auth.test');
+    });
+
+    it('should accept the refresh token from the cookie', async () => {
+      const refreshToken = await getRefreshToken('cookie@auth.test');
+
+      const response = await server.inject({
+        method: 'POST',
+        url: '/auth/refresh',
+        cookies: { refreshToken },
+      });
+
+      expect(response.statusCode).toBe(200);
+    });
+
+    it('should revoke the whole family when a rotated token is reused', async () => {
+      const original = await getRefreshToken('reuse@auth.test');
+
+      const first = await server.inject({
+        method: 'POST',
+        url: '/auth/refresh',
+        payload: { refreshToken: original },
+      });
+      const rotated = JSON.parse(first.body).refreshToken;
+
+      // Replaying the original token is treated as theft
+      const replay = await server.inject({
+        method: 'POST',
+        url: '/auth/refresh',
+        payload: { refreshToken: original },
+      });
+      expect(replay.statusCode).toBe(401);
+
+      // The legitimate successor is revoked as well
+      const next = await server.inject({
+        method: 'POST',
+        url: '/auth/refresh',
+        payload: { refreshToken: rotated },
+      });
+      expect(next.statusCode).toBe(401);
+
+      const user = await User.findOne({ where: { email: 'reuse@auth.test' } });
+      const reuse = await AuditEvent.findOne({
+        where: { action: 'auth.refresh_token_reused', targetId: String(user!.id) },
+      });
+      expect(reuse).toMatchObject({ actorId: null, targetType: 'user' });
+    });
+
+    it('should reject an expired refresh token', async () => {
+      const refreshToken = await getRefreshToken('expired@auth.test');
+      const user = await User.findOne({ where: { email: 'expired@auth.test' } });
+      await RefreshToken.update(
+        { expiresAt: new Date(Date.now() - 1000) },
+        { where: { userId: user!.id } }
+      );
+
+      const response = await server.inject({
+        method: 'POST',
+        url: '/auth/refresh',
+        payload: { refreshToken },
+      });
+
+      expect(response.statusCode).toBe(401);
+    });
+
+    it('should return 401 without a refresh token', async () => {
+      const response = await server.inject({
+        method: 'POST',
+        url: '/auth/refresh',
+      });
+
+      expect(response.statusCode).toBe(401);
+      const data = JSON.parse(response.body);
+      expect(data.detail).toBe('Invalid or expired refresh token');
+    });
+
+    it('should revoke the refresh token on logout', async () => {
+      const refreshToken = await getRefreshToken('logout@auth.test');
+
+      await server.inject({
+        method: 'POST',
+        url: '/auth/logout',
+        cookies: { refreshToken },
+      });
+
+      const response = await server.inject({
+        method: 'POST',
+        url: '/auth/refresh',
+        payload: { refreshToken },
+      });
+
+      expect(response.statusCode).toBe(401);
+    });
+  });
+
+  describe('Sessions', () => {
+    const login = async (email: string, userAgent = 'vitest') => {
+      const response = await server.inject({
+        method: 'POST',
+        url: '/auth/dev/token',
+        headers: { 'user-agent': userAgent },
+        payload: { email },
+      });
+      return JSON.parse(response.body) as { token: string; refreshToken: string };
+    };
+
+    it('should list active sessions with device information', async () => {
+      await login('sessions@auth.test', 'Laptop Browser');
+      const { token } = await login('sessions@auth.test', 'Phone App');
+
+      const response = await server.inject({
+        method: 'GET',
+        url: '/auth/sessions',
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+      expect(response.statusCode).toBe(200);
+      const { sessions } = JSON.parse(response.body);
+      expect(sessions).toHaveLength(2);
+      expect(sessions.map((s: any) => s.userAgent).sort()).toEqual(['Laptop Browser', 'Phone App']);
+      expect(sessions.filter((s: any) => s.current)).toHaveLength(1);
+      expect(sessions.find((s: any) => s.current).userAgent).toBe('Phone App');
+      expect(sessions[0]).toHaveProperty('ipAddress');
+    });
+
+    it('should reject access tokens of a revoked session', async () => {
+      const laptop = await login('revoke@auth.test');
+      const phone = await login('revoke@auth.test');
+
+      const list = await server.inject({
+        method: 'GET',
+        url: '/auth/sessions',
+        headers: { Authorization: `Bearer ${phone.token}` },
+      });
+      const laptopSession = JSON.parse(list.body).sessions.find((s: any) => !s.current);
+
+      const response = await server.inject({
+        method: 'DELETE',
+        url: `/auth/sessions/${laptopSession.id}`,
+        headers: { Authorization: `Bearer ${phone.token}` },
+      });
+      expect(response.statusCode).toBe(200);
+      expect(
+        await AuditEvent.count({
+          where: { action: 'auth.session_revoked', targetId: laptopSession.id },
+        })
+      ).toBe(1);
+
+      const me = await server.inject({
+        method: 'GET',
+        url: '/auth/me',
+        headers: { Authorization: `Bearer ${laptop.token}` },
+      });
+      expect(me.statusCode).toBe(401);
+
+      const refresh = await server.inject({
+        method: 'POST',
+        url: '/auth/refresh',
+        payload: { refreshToken: laptop.refreshToken },
+      });
+      expect(refresh.statusCode).toBe(401);
+    });
+
+    it("should return 404 for another user's session", async () => {
+      const owner = await login('owner@auth.test');
+      const other = await login('other@auth.test');
+
+      const list = await server.inject({
+        method: 'GET',
+        url: '/auth/sessions',
+        headers: { Authorization: `Bearer ${owner.token}` },
+      });
+      const sessionId = JSON.parse(list.body).sessions[0].id;
+
+      const response = await server.inject({
+        method: 'DELETE',
+        url: `/auth/sessions/${sessionId}`,
+        headers: { Authorization: `Bearer ${other.token}` },
+      });
+
+      expect(response.statusCode).toBe(404);
+    });
+
+    it('should revoke the access token on logout', async () => {
+      const { token } = await login('bearer-logout@auth.test');
+
+      await server.inject({
+        method: 'POST',
+        url: '/auth/logout',
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+      const me = await server.inject({
+        method: 'GET',
+        url: '/auth/me',
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      expect(me.statusCode).toBe(401);
+    });
+
+    it('should log out of every session', async () => {
+      const first = await login('everywhere@auth.test');
+      const second = await login('everywhere@auth.test');
+
+      const response = await server.inject({
+        method: 'POST',
+        url: '/auth/logout-all',
+        headers: { Authorization: `Bearer ${second.token}` },
+      });
+      expect(response.statusCode).toBe(200);
+      const user = await User.findOne({ where: { email: 'everywhere@auth.test' } });
+      expect(
+        await AuditEvent.count({
+          where: { action: 'auth.sessions_revoked', targetId: String(user!.id) },
+        })
+      ).toBe(1);
+
+      for (const token of [first.token, second.token]) {
+        const me = await server.inject({
+          method: 'GET',
+          url: '/auth/me',
+          headers: { Authorization: `Bearer ${token}` },
+        });
+        expect(me.statusCode).toBe(401);
+      }
+    });
+  });
+
+  describe('Linked identities', () => {
+    const tokens = { accessToken: 'provider-access-token', expiresAt: new Date() };
+    const profile = (id: string, email: string, emailVerified = true) => ({
+      id,
+      email,
+      emailVerified,
+      name: 'Linked User',
+    });
+
+    // Sign in and expect the sign-in to succeed
+    const signIn = async (provider: string, info: ReturnType<typeof profile>) => {
+      const result = await signInWithIdentity(provider, info, tokens);
+      if (result.status !== 'signed_in') {
+        throw new Error(`Expected sign-in, got ${result.status}`);
+      }
+      return result;
+    };
+
+    const tokenFor = (user: User) =>
+      server.jwt.sign({ userId: user.id, email: user.email, role: user.role });
+
+    it('should keep every provider linked when the same email signs in again', async () => {
+      const email = 'multi@auth.test';
+      const first = await signIn('google', profile('g-1', email));
+      const second = await signIn('github', profile('gh-1', email));
+
+      expect(first.created).toBe(true);
+      expect(second.created).toBe(false);
+      expect(second.user.id).toBe(first.user.id);
+
+      const identities = await UserIdentity.findAll({ where: { userId: first.user.id } });
+      expect(identities.map((i) => i.provider).sort()).toEqual(['github', 'google']);
+
+      // The primary provider is not overwritten
+      const user = await User.findByPk(first.user.id);
+      expect(user!.oauthProvider).toBe('google');
+      expect(user!.oauthId).toBe('g-1');
+    });
+
+    it('should match accounts whatever the case of the provider email', async () => {
+      const first = await signIn('google', profile('g-case', 'Case.Linked@Auth.Test'));
+      expect(first.user.email).toBe('case.linked@auth.test');
+
+      const second = await signIn('github', profile('gh-case', 'CASE.LINKED@auth.test'));
+      expect(second).toMatchObject({ created: false, user: { id: first.user.id } });
+    });
+
+    it('should find the user through the identity even if the email changed', async () => {
+      const { user } = await signIn('google', profile('g-2', 'old@auth.test'));
+      const again = await signIn('google', profile('g-2', 'new@auth.test'));
+
+      expect(again.user.id).toBe(user.id);
+    });
+
+    it('should refuse to link an identity owned by another user', async () => {
+      await signIn('github', profile('gh-2', 'taken@auth.test'));
+      const [other] = await User.findOrCreate({
+        where: { email: 'linker@auth.test' },
+        defaults: { name: 'Linker', email: 'linker@auth.test' },
+      });
+
+      const result = await linkIdentity(other.id, 'github', profile('gh-2', 'x@auth.test'), tokens);
+      expect(result.status).toBe('conflict');
+    });
+
+    it('should list linked identities', async () => {
+      const { user } = await signIn('google', profile('g-3', 'list@auth.test'));
+      await linkIdentity(user.id, 'microsoft', profile('ms-3', 'list@auth.test'), tokens);
+
+      const response = await server.inject({
+        method: 'GET',
+        url: '/auth/identities',
+        headers: { Authorization: `Bearer ${tokenFor(user)}` },
+      });
+
+      expect(response.statusCode).toBe(200);
+      const { identities } = JSON.parse(response.body);
+      expect(identities.map((i: any) => i.provider)).toEqual(['google', 'microsoft']);
+      expect(identities[0]).not.toHaveProperty('accessToken');
+    });
+
+    it('should unlink an identity and promote the next one', async () => {
+      const { user } = await signIn('google', profile('g-4', 'unlink@auth.test'));
+      await linkIdentity(user.id, 'github', profile('gh-4', 'unlink@auth.test'), tokens);
+
+      const response = await server.inject({
+        method: 'DELETE',
+        url: '/auth/identities/google',
+        headers: { Authorization: `Bearer ${tokenFor(user)}` },
+      });
+
+      expect(response.statusCode).toBe(200);
+      const reloaded = await User.findByPk(user.id);
+      expect(reloaded!.oauthProvider).toBe('github');
+
+      const audit = await AuditEvent.findOne({
+        where: { action: 'auth.identity_unlinked', targetId: String(user.id) },
+      });
+      expect(audit!.metadata).toEqual({ provider: 'google' });
+    });
+
+    it('should refuse to unlink the last identity', async () => {
+      const { user } = await signIn('google', profile('g-5', 'last@auth.test'));
+
+      const response = await server.inject({
+        method: 'DELETE',
+        url: '/auth/identities/google',
+        headers: { Authorization: `Bearer ${tokenFor(user)}` },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(await UserIdentity.count({ where: { userId: user.id } })).toBe(1);
+    });
+
+    it('should unlink the last identity of a user who has a password', async () => {
+      const { user } = await signIn('google', profile('g-11', 'password-left@auth.test'));
+      await user.update({ passwordHash: await hashPassword('correct horse battery staple') });
+
+      const response = await server.inject({
+        method: 'DELETE',
+        url: '/auth/identities/google',
+        headers: { Authorization: `Bearer ${tokenFor(user)}` },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(await UserIdentity.count({ where: { userId: user.id } })).toBe(0);
+      const reloaded = await User.findByPk(user.id);
+      expect(reloaded!.oauthProvider).toBeNull();
+    });
+
+    it('should return 404 when unlinking a provider that is not linked', async () => {
+      const { user } = await signIn('google', profile('g-6', 'none@auth.test'));
+
+      const response = await server.inject({
+        method: 'DELETE',
+        url: '/auth/identities/github',
+        headers: { Authorization: `Bearer ${tokenFor(user)}` },
+      });
+
+      expect(response.statusCode).toBe(404);
+    });
+
+    it('should return 503 when linking a provider that is not configured', async () => {
+      const response = await server.inject({
+        method: 'POST',
+        url: '/auth/link/github',
+        headers: { Authorization: `Bearer ${authToken}` },
+      });
+
+      expect(response.statusCode).toBe(503);
+    });
+
+    it('should require confirmation before linking an unverified email', async () => {
+      const { user } = await signIn('google', profile('g-7', 'victim@auth.test'));
+
+      const result = await signInWithIdentity(
+        'microsoft',
+        profile('ms-7', 'victim@auth.test', false),
+        tokens
+      );
+
+      expect(result).toEqual({ status: 'confirmation_required', userId: user.id });
+      expect(await UserIdentity.count({ where: { userId: user.id } })).toBe(1);
+    });
+
+    it('should honour the confirm and refuse linking policies', async () => {
+      await signIn('google', profile('g-8', 'policy@auth.test'));
+
+      const confirm = await signInWithIdentity(
+        'github',
+        profile('gh-8', 'policy@auth.test'),
+        tokens,
+        'confirm'
+      );
+      expect(confirm.status).toBe('confirmation_required');
+
+      const refuse = await signInWithIdentity(
+        'github',
+        profile('gh-8', 'policy@auth.test'),
+        tokens,
+        'refuse'
+      );
+      expect(refuse.status).toBe('refused');
+    });
+
+    it('should link a pending identity once the account owner confirms', async () => {
+      const { user } = await signIn('google', profile('g-9', 'confirm@auth.test'));
+      const linkToken = server.jwt.sign({
+        pendingLink: {
+          userId: user.id,
+          provider: 'microsoft',
+          userInfo: profile('ms-9', 'confirm@auth.test', false),
+        },
+      });
+
+      const response = await server.inject({
+        method: 'POST',
+        url: '/auth/link/confirm',
+        headers: { Authorization: `Bearer ${tokenFor(user)}` },
+        payload: { linkToken },
+      });
+
+      expect(response.statusCode).toBe(200);
+      const identity = await UserIdentity.findOne({
+        where: { provider: 'microsoft', providerUserId: 'ms-9' },
+      });
+      expect(identity!.userId).toBe(user.id);
+
+      const audit = await AuditEvent.findOne({
+        where: { action: 'auth.identity_linked', targetId: String(user.id) },
+      });
+      expect(audit!.metadata).toEqual({ provider: 'microsoft', confirmed: true });
+    });
+
+    it('should refuse a pending link confirmed by another user', async () => {
+      const { user } = await signIn('google', profile('g-10', 'target@auth.test'));
+      const linkToken = server.jwt.sign({
+        pendingLink: {
+          userId: user.id,
+          provider: 'microsoft',
+          userInfo: profile('ms-10', 'target@auth.test', false),
+        },
+      });
+
+      const response = await server.inject({
+        method: 'POST',
+        url: '/auth/link/confirm',
+        headers: { Authorization: `Bearer ${authToken}` },
+        payload: { linkToken },
+      });
+
+      expect(response.statusCode).toBe(403);
+    });
+  });
+
+  describe('Tokens of other clients', () => {
+    it('should not manage identities, sessions or the active organization', async () => {
+      const user = await User.create({ name: 'Client User', email: 'client-user@auth.test' });
+      const session = await createSession(user.id, { userAgent: 'third-party' });
+      const clientToken = server.jwt.sign({
+        userId: user.id,
+        email: user.email,
+        sid: session.id,
+        client_id: 'third-party-client',
+        scope: 'read write',
+      });
+
+      const requests = [
+        { method: 'POST', url: '/auth/link/google' },
+        { method: 'POST', url: '/auth/link/confirm', payload: { linkToken: 'any' } },
+        { method: 'DELETE', url: '/auth/identities/google' },
+        { method: 'DELETE', url: `/auth/sessions/${session.id}` },
+        { method: 'POST', url: '/auth/logout-all' },
+        { method: 'PUT', url: '/auth/organization', payload: { organizationId: null } },
+      ] as const;
+
+      for (const request of requests) {
+        const response = await server.inject({
+          ...request,
+          headers: { Authorization: `Bearer ${clientToken}` },
+        });
+        expect(response.statusCode).toBe(403);
+        expect(response.json().code).toBe('API_KEY_REQUIRES_SESSION');
+      }
+
+      expect(await isSessionActive(session.id)).toBe(true);
+    });
+  });
+
+  describe('Magic links', () => {
+    beforeEach(async () => {
+      await MagicLinkToken.destroy({ where: { email: { [Op.like]: 'magic-%@auth.test' } } });
+    });
+
+    // Request a link and return the token from the emailed URL
+    const requestLink = async (email: string, payload: object = {}) => {
+      const response = await server.inject({
+        method: 'POST',
+        url: '/auth/magic-link',
+        payload: { email, ...payload },
+      });
+      expect(response.statusCode).toBe(200);
+
+      const mail = listCapturedMail().find((captured) => captured.to === email)!;
+      return new URL(mail.text.match(/https?:\/\/\S+/)![0]).searchParams.get('token')!;
+    };
+
+    const verify = (token: string) =>
+      server.inject({
+        method: 'GET',
+        url: `/auth/magic-link/verify?token=${encodeURIComponent(token)}`,
+      });
+
+    it('should email a link that signs in and creates the account once', async () => {
+      const token = await requestLink('magic-new@auth.test');
+
+      const response = await verify(token);
+
+      expect(response.statusCode).toBe(200);
+      const data = response.json();
+      expect(data.token).toBeDefined();
+      expect(data.refreshToken).toBeDefined();
+      expect(data.user).toMatchObject({ email: 'magic-new@auth.test', name: 'magic-new' });
+      expect(response.cookies.map((cookie) => cookie.name)).toEqual(
+        expect.arrayContaining(['accessToken', 'refreshToken'])
+      );
+
+      const me = await server.inject({
+        method: 'GET',
+        url: '/auth/me',
+        headers: { Authorization: `Bearer ${data.token}` },
+      });
+      expect(me.json().user.email).toBe('magic-new@auth.test');
+
+      const login = await AuditEvent.findOne({
+        where: { action: 'auth.login', targetId: String(data.user.id) },
+      });
+      expect(login!.metadata).toEqual({ method: 'magic_link', created: true });
+
+      const reused = await verify(token);
+      expect(reused.statusCode).toBe(400);
+    });
+
+    it('should sign in an existing account and redirect to returnTo', async () => {
+      const user = await User.create({ name: 'Magic User', email: 'magic-existing@auth.test' });
+      const token = await requestLink('Magic-Existing@auth.test', { returnTo: '/dashboard' });
+
+      const response = await verify(token);
+
+      expect(response.statusCode).toBe(302);
+      expect(response.headers.location).toBe('/dashboard');
+      const session = await RefreshToken.findOne({ where: { userId: user.id } });
+      expect(session).not.toBeNull();
+    });
+
+    it('should reject a returnTo outside the allowlist', async () => {
+      const response = await server.inject({
+        method: 'POST',
+        url: '/auth/magic-link',
+        payload: { email: 'magic-redirect@auth.test', returnTo: 'https://evil.example.com' },
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+
+    it('should reject an expired link', async () => {
+      const token = await requestLink('magic-expired@auth.test');
+      await MagicLinkToken.update(
+        { expiresAt: new Date(Date.now() - 1000) },
+        { where: { email: 'magic-expired@auth.test' } }
+      );
+
+      const response = await verify(token);
+
+      expect(response.statusCode).toBe(400);
+      expect(response.json().detail).toBe('This sign-in link has expired');
+      expect(await User.findOne({ where: { email: 'magic-expired@auth.test' } })).toBeNull();
+    });
+
+    it('should rate limit links per email address', async () => {
+      const { maxRequests } = config.magicLink;
+      config.magicLink.maxRequests = 2;
+
+      try {
+        await requestLink('magic-limited@auth.test');
+        await requestLink('magic-limited@auth.test');
+
+        const limited = await server.inject({
+          method: 'POST',
+          url: '/auth/magic-link',
+          payload: { email: 'magic-limited@auth.test' },
+        });
+        expect(limited.statusCode).toBe(429);
+        expect(Number(limited.headers['retry-after'])).toBeGreaterThan(0);
+
+        // Other addresses are not affected
+        await requestLink('magic-other@auth.test');
+      } finally {
+        config.magicLink.maxRequests = maxRequests;
+      }
     });
   });
 });
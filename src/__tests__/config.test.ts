@@ -1,12 +1,29 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { generateKeyPairSync, randomBytes } from 'crypto';
 import { config } from '../config/index.js';
 
 describe('Config', () => {
+  // Valid production settings, so each test only leaves out what it checks
+  const productionSigningKeys = `main:${Buffer.from(
+    generateKeyPairSync('ec', { namedCurve: 'P-256' })
+      .privateKey.export({ type: 'pkcs8', format: 'pem' })
+      .toString()
+  ).toString('base64')}`;
+
+  const productionEncryptionKeys = `main:${randomBytes(32).toString('base64')}`;
+
+  // Config is read on import: load a fresh copy under the stubbed environment
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.resetModules();
+  });
+
   describe('OAuth Provider Configuration', () => {
     it('should have provider configuration structure', () => {
       expect(config.oauth.providers).toHaveProperty('google');
       expect(config.oauth.providers).toHaveProperty('github');
       expect(config.oauth.providers).toHaveProperty('microsoft');
+      expect(config.oauth.providers).toHaveProperty('oidc');
     });
 
     it('should have provider metadata', () => {
@@ -18,6 +35,9 @@ describe('Config', () => {
 
       expect(config.oauth.providers.microsoft.name).toBe('microsoft');
       expect(config.oauth.providers.microsoft.displayName).toBe('Microsoft');
+
+      expect(config.oauth.providers.oidc.name).toBe('oidc');
+      expect(config.oauth.providers.oidc.scopes).toContain('openid');
     });
 
     it('should have enabledProviders array', () => {
@@ -35,10 +55,23 @@ describe('Config', () => {
     it('should enable provider only when credentials are set', () => {
       // Test that enabled flag matches credential presence
       Object.values(config.oauth.providers).forEach((provider) => {
-        const hasCredentials = !!(provider.clientId && provider.clientSecret);
+        // OpenID Connect also needs an issuer to discover its endpoints from
+        const hasCredentials = !!(
+          provider.clientId &&
+          provider.clientSecret &&
+          (provider.name !== 'oidc' || provider.issuer)
+        );
         expect(provider.enabled).toBe(hasCredentials);
       });
     });
+
+    it('should have a valid account linking policy', () => {
+      expect(['verified', 'confirm', 'refuse']).toContain(config.oauth.accountLinking);
+    });
+
+    it('should allow returning to the app origin by default', () => {
+      expect(config.oauth.returnToAllowlist).toContain(new URL(config.appUrl).origin);
+    });
   });
 
   describe('Database Configuration', () => {
@@ -69,6 +102,58 @@ describe('Config', () => {
     });
   });
 
+  describe('Token Encryption Configuration', () => {
+    it('should have a 256-bit current encryption key', () => {
+      const { currentKeyId, keys } = config.encryption;
+
+      expect(keys[currentKeyId]).toBeInstanceOf(Buffer);
+      expect(keys[currentKeyId].length).toBe(32);
+    });
+
+    it('should refuse to start in production without TOKEN_ENCRYPTION_KEYS', async () => {
+      vi.stubEnv('NODE_ENV', 'production');
+      vi.stubEnv('JWT_SIGNING_KEYS', productionSigningKeys);
+      vi.stubEnv('TOKEN_ENCRYPTION_KEYS', '');
+
+      await expect(import('../config/index.js')).rejects.toThrow(/TOKEN_ENCRYPTION_KEYS/);
+    });
+  });
+
+  describe('JWT Signing Keys', () => {
+    it('should sign with an asymmetric current key', () => {
+      const { currentKeyId, keys } = config.jwt.keyring;
+
+      expect(keys[currentKeyId].privateKey?.type).toBe('private');
+      expect(['RS256', 'ES256']).toContain(keys[currentKeyId].algorithm);
+      expect(config.jwt.issuer).toBeTruthy();
+      expect(config.jwt.audience).toBeTruthy();
+    });
+
+    it('should refuse to start in production without JWT_SIGNING_KEYS', async () => {
+      vi.stubEnv('NODE_ENV', 'production');
+      vi.stubEnv('JWT_SIGNING_KEYS', '');
+
+      await expect(import('../config/index.js')).rejects.toThrow(/JWT_SIGNING_KEYS/);
+    });
+  });
+
+  describe('Mail Configuration', () => {
+    it('should not fall back to the console transport in production', async () => {
+      vi.stubEnv('NODE_ENV', 'production');
+      vi.stubEnv('JWT_SIGNING_KEYS', productionSigningKeys);
+      vi.stubEnv('TOKEN_ENCRYPTION_KEYS', productionEncryptionKeys);
+      vi.stubEnv('MAIL_TRANSPORT', '');
+      vi.stubEnv('SMTP_HOST', '');
+
+      await expect(import('../config/index.js')).rejects.toThrow(/MAIL_TRANSPORT/);
+
+      vi.resetModules();
+      vi.stubEnv('MAIL_TRANSPORT', 'console');
+      const { config: explicit } = await import('../config/index.js');
+      expect(explicit.mail.transport).toBe('console');
+    });
+  });
+
   describe('Cloud Environment Detection', () => {
     it('should have isCloudEnvironment flag', () => {
       expect(typeof config.isCloudEnvironment).toBe('boolean');
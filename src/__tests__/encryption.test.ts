@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { randomBytes } from 'crypto';
+import { QueryTypes } from 'sequelize';
+import { sequelize } from '../database/connection.js';
+import { User, UserIdentity } from '../models/index.js';
+import {
+  decryptSecret,
+  encryptSecret,
+  isEncrypted,
+  needsReencryption,
+  reencryptSecret,
+} from '../utils/encryption.js';
+import type { EncryptionKeyring } from '../types/encryption.js';
+
+describe('Token encryption', () => {
+  const oldKeyring: EncryptionKeyring = {
+    currentKeyId: 'old',
+    keys: { old: randomBytes(32) },
+  };
+  const rotatedKeyring: EncryptionKeyring = {
+    currentKeyId: 'new',
+    keys: { new: randomBytes(32), old: oldKeyring.keys.old },
+  };
+
+  describe('encryptSecret / decryptSecret', () => {
+    it('should round-trip a secret', () => {
+      const encrypted = encryptSecret('provider-token', oldKeyring);
+
+      expect(isEncrypted(encrypted)).toBe(true);
+      expect(encrypted).not.toContain('provider-token');
+      expect(encrypted.split(':')[2]).toBe('old');
+      expect(decryptSecret(encrypted, oldKeyring)).toBe('provider-token');
+    });
+
+    it('should use a fresh data key and IV for every value', () => {
+      expect(encryptSecret('same', oldKeyring)).not.toBe(encryptSecret('same', oldKeyring));
+    });
+
+    it('should reject a tampered ciphertext', () => {
+      const parts = encryptSecret('provider-token', oldKeyring).split(':');
+      const ciphertext = Buffer.from(parts[5], 'base64url');
+      ciphertext[0] ^= 1;
+      parts[5] = ciphertext.toString('base64url');
+
+      expect(() => decryptSecret(parts.join(':'), oldKeyring)).toThrow();
+    });
+
+    it('should fail for a key that is not in the keyring', () => {
+      const encrypted = encryptSecret('provider-token', rotatedKeyring);
+
+      expect(() => decryptSecret(encrypted, oldKeyring)).toThrow('Unknown encryption key ID: new');
+    });
+
+    it('should return plaintext written before encryption as is', () => {
+      expect(decryptSecret('legacy-token', oldKeyring)).toBe('legacy-token');
+    });
+  });
+
+  describe('key rotation', () => {
+    it('should keep values under a retired key readable', () => {
+      const encrypted = encryptSecret('provider-token', oldKeyring);
+
+      expect(decryptSecret(encrypted, rotatedKeyring)).toBe('provider-token');
+      expect(needsReencryption(encrypted, rotatedKeyring)).toBe(true);
+    });
+
+    it('should rewrap values onto the current key', () => {
+      const encrypted = encryptSecret('provider-token', oldKeyring);
+
+      const rewrapped = reencryptSecret(encrypted, rotatedKeyring);
+
+      expect(rewrapped.split(':')[2]).toBe('new');
+      expect(needsReencryption(rewrapped, rotatedKeyring)).toBe(false);
+      expect(
+        decryptSecret(rewrapped, { ...rotatedKeyring, keys: { new: rotatedKeyring.keys.new } })
+      ).toBe('provider-token');
+    });
+
+    it('should encrypt legacy plaintext', () => {
+      expect(needsReencryption('legacy-token', rotatedKeyring)).toBe(true);
+      expect(decryptSecret(reencryptSecret('legacy-token', rotatedKeyring), rotatedKeyring)).toBe(
+        'legacy-token'
+      );
+    });
+  });
+
+  describe('models', () => {
+    let user: User;
+
+    beforeAll(async () => {
+      await sequelize.authenticate();
+      await User.destroy({ where: { email: 'encryption@auth.test' }, force: true });
+
+      user = await User.create({ name: 'Encryption Test', email: 'encryption@auth.test' });
+    });
+
+    afterAll(async () => {
+      await User.destroy({ where: { email: 'encryption@auth.test' }, force: true });
+      await sequelize.close();
+    });
+
+    it('should store identity tokens encrypted and read them transparently', async () => {
+      const identity = await UserIdentity.create({
+        userId: user.id,
+        provider: 'google',
+        providerUserId: 'encryption-test',
+        accessToken: 'plain-access-token',
+        refreshToken: 'plain-refresh-token',
+      });
+
+      const [row] = await sequelize.query<{ access_token: string; refresh_token: string }>(
+        'SELECT access_token, refresh_token FROM user_identities WHERE id = :id',
+        { replacements: { id: identity.id }, type: QueryTypes.SELECT }
+      );
+
+      expect(isEncrypted(row.access_token)).toBe(true);
+      expect(isEncrypted(row.refresh_token)).toBe(true);
+
+      const reloaded = await UserIdentity.findByPk(identity.id);
+      expect(reloaded!.accessToken).toBe('plain-access-token');
+      expect(reloaded!.refreshToken).toBe('plain-refresh-token');
+      expect(JSON.stringify(reloaded)).not.toContain('plain-');
+    });
+
+    it('should store user tokens encrypted', async () => {
+      await user.update({ oauthAccessToken: 'plain-user-token' });
+
+      const [row] = await sequelize.query<{ oauth_access_token: string }>(
+        'SELECT oauth_access_token FROM users WHERE id = :id',
+        { replacements: { id: user.id }, type: QueryTypes.SELECT }
+      );
+
+      expect(isEncrypted(row.oauth_access_token)).toBe(true);
+      expect((await User.findByPk(user.id))!.oauthAccessToken).toBe('plain-user-token');
+    });
+  });
+});
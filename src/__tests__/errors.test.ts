@@ -1,91 +1,190 @@
-import { describe, it, expect } from 'vitest';
-import { sendError, asyncHandler } from '../utils/errors.js';
-import { FastifyReply } from 'fastify';
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { FastifyInstance } from 'fastify';
+import { buildServer } from '../server.js';
+import {
+  AppError,
+  ConflictError,
+  NotFoundError,
+  ValidationError,
+  toAppError,
+  toProblem,
+} from '../utils/errors.js';
 
 describe('Error Utilities', () => {
-  describe('sendError', () => {
-    it('should send error response with correct status and message', () => {
-      const mockReply = {
-        status: (code: number) => mockReply,
-        send: (body: any) => body,
-      } as unknown as FastifyReply;
-
-      const statusSpy = { called: false, code: 0 };
-      const sendSpy = { called: false, body: null as any };
-
-      mockReply.status = (code: number) => {
-        statusSpy.called = true;
-        statusSpy.code = code;
-        return mockReply;
-      };
-
-      mockReply.send = (body: any) => {
-        sendSpy.called = true;
-        sendSpy.body = body;
-        return mockReply;
-      };
-
-      sendError(mockReply, 404, 'Not found');
-
-      expect(statusSpy.called).toBe(true);
-      expect(statusSpy.code).toBe(404);
-      expect(sendSpy.called).toBe(true);
-      expect(sendSpy.body).toEqual({
-        error: 'Not found',
-        statusCode: 404,
+  describe('AppError', () => {
+    it('should derive a stable code and an English message from the message key', () => {
+      const error = new NotFoundError('userNotFound');
+
+      expect(error).toBeInstanceOf(AppError);
+      expect(error.name).toBe('NotFoundError');
+      expect(error.statusCode).toBe(404);
+      expect(error.code).toBe('USER_NOT_FOUND');
+      expect(error.message).toBe('User not found');
+    });
+
+    it('should fill the message parameters', () => {
+      const error = new ConflictError('oauthInvalidRequest', { parameter: 'userId' });
+
+      expect(error.message).toContain('userId');
+      expect(error.code).toBe('OAUTH_INVALID_REQUEST');
+    });
+  });
+
+  describe('toProblem', () => {
+    it('should localize the title and detail', () => {
+      expect(toProblem(new NotFoundError('userNotFound'), 'es')).toEqual({
+        type: 'about:blank',
+        title: 'No encontrado',
+        status: 404,
+        detail: 'Usuario no encontrado',
+        code: 'USER_NOT_FOUND',
+      });
+    });
+
+    it('should include extension members', () => {
+      const error = new ConflictError('accountLinkConfirmationRequired').withExtensions({
+        linkToken: 'token',
+      });
+
+      expect(toProblem(error, 'en')).toMatchObject({ status: 409, linkToken: 'token' });
+    });
+  });
+
+  describe('toAppError', () => {
+    it('should keep application errors', () => {
+      const error = new NotFoundError('userNotFound');
+      expect(toAppError(error)).toBe(error);
+    });
+
+    it('should map schema validation failures to translated field errors', () => {
+      const error = Object.assign(new Error('body/email must match format "email"'), {
+        statusCode: 400,
+        validationContext: 'body',
+        validation: [
+          {
+            keyword: 'format',
+            instancePath: '/email',
+            schemaPath: '#/properties/email/format',
+            params: { format: 'email' },
+          },
+          {
+            keyword: 'required',
+            instancePath: '',
+            schemaPath: '#/required',
+            params: { missingProperty: 'name' },
+          },
+          {
+            keyword: 'format',
+            instancePath: '/redirectUris/0',
+            schemaPath: '#/properties/redirectUris/items/format',
+            params: { format: 'uri' },
+          },
+          {
+            keyword: 'type',
+            instancePath: '',
+            schemaPath: '#/type',
+            params: { type: 'object' },
+          },
+        ],
+      });
+
+      const appError = toAppError(error);
+      expect(appError).toBeInstanceOf(ValidationError);
+      expect(toProblem(appError, 'es').errors).toEqual([
+        { field: 'email', rule: 'format', message: 'Formato de correo electrónico inválido' },
+        { field: 'name', rule: 'required', message: 'Este campo es obligatorio' },
+        { field: 'redirectUris[0]', rule: 'format', message: 'Debe ser una URL válida' },
+        { field: 'body', rule: 'type', message: 'Debe ser de tipo object' },
+      ]);
+    });
+
+    it('should keep the status of other client errors without their message', () => {
+      const error = Object.assign(new Error('Request body is too large'), {
+        statusCode: 413,
+        code: 'FST_ERR_CTP_BODY_TOO_LARGE',
+      });
+
+      expect(toProblem(toAppError(error), 'en')).toEqual({
+        type: 'about:blank',
+        title: 'Payload Too Large',
+        status: 413,
+        code: 'PAYLOAD_TOO_LARGE',
       });
     });
+
+    it('should hide unexpected errors behind an internal error', () => {
+      const appError = toAppError(new Error('connection refused'));
+
+      expect(appError.statusCode).toBe(500);
+      expect(appError.code).toBe('INTERNAL_ERROR');
+    });
   });
 
-  describe('asyncHandler', () => {
-    it('should handle successful async operations', async () => {
-      const mockRequest = {
-        locale: 'en',
-        log: { error: () => {} },
-      };
-
-      const mockReply = {
-        status: () => mockReply,
-        send: () => mockReply,
-      } as unknown as FastifyReply;
-
-      const handler = asyncHandler(async (request, reply, locale) => {
-        expect(locale).toBe('en');
-        return 'success';
+  describe('error handler', () => {
+    let server: FastifyInstance;
+
+    beforeAll(async () => {
+      server = buildServer();
+      server.get('/missing', async () => {
+        throw new NotFoundError('userNotFound');
+      });
+      server.get('/broken', async () => {
+        throw new Error('connection refused');
       });
+      server.post('/echo', async (request) => request.body);
+      await server.ready();
+    });
 
-      await handler(mockRequest, mockReply);
+    afterAll(async () => {
+      await server.close();
     });
 
-    it('should catch and handle errors', async () => {
-      const mockRequest = {
-        locale: 'en',
-        log: { error: () => {} },
-      };
-
-      let errorStatus = 0;
-      let errorBody: any = null;
-
-      const mockReply = {
-        status: (code: number) => {
-          errorStatus = code;
-          return mockReply;
-        },
-        send: (body: any) => {
-          errorBody = body;
-          return mockReply;
-        },
-      } as unknown as FastifyReply;
-
-      const handler = asyncHandler(async () => {
-        throw new Error('Test error');
+    it('should answer thrown errors as problem+json in the request language', async () => {
+      const response = await server.inject({
+        method: 'GET',
+        url: '/missing',
+        headers: { 'accept-language': 'fr' },
       });
 
-      await handler(mockRequest, mockReply);
+      expect(response.statusCode).toBe(404);
+      expect(response.headers['content-type']).toContain('application/problem+json');
+      expect(response.json()).toEqual({
+        type: 'about:blank',
+        title: 'Introuvable',
+        status: 404,
+        detail: 'Utilisateur non trouvé',
+        code: 'USER_NOT_FOUND',
+      });
+    });
 
-      expect(errorStatus).toBe(500);
-      expect(errorBody).toHaveProperty('error');
-      expect(errorBody).toHaveProperty('statusCode');
+    it('should not reveal the message of unexpected errors', async () => {
+      const response = await server.inject({ method: 'GET', url: '/broken' });
+
+      expect(response.statusCode).toBe(500);
+      expect(response.json()).toMatchObject({
+        code: 'INTERNAL_ERROR',
+        detail: 'An unexpected error occurred',
+      });
+      expect(response.body).not.toContain('connection refused');
+    });
+
+    it('should answer malformed JSON and unknown routes', async () => {
+      const invalidJson = await server.inject({
+        method: 'POST',
+        url: '/echo',
+        payload: '{"name":',
+        headers: { 'content-type': 'application/json' },
+      });
+      expect(invalidJson.statusCode).toBe(400);
+      expect(invalidJson.json().code).toBe('INVALID_JSON_BODY');
+
+      const unknown = await server.inject({ method: 'GET', url: '/nowhere?token=secret' });
+      expect(unknown.statusCode).toBe(404);
+      expect(unknown.headers['content-type']).toContain('application/problem+json');
+      expect(unknown.json()).toMatchObject({
+        code: 'ROUTE_NOT_FOUND',
+        detail: 'Route GET /nowhere not found',
+      });
     });
   });
 });
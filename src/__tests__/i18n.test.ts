@@ -45,8 +45,22 @@ describe('i18n Messages', () => {
     it('should have all required validation messages', () => {
       const messages = getMessages('en');
       expect(messages.validation).toHaveProperty('invalidEmail');
-      expect(messages.validation).toHaveProperty('nameRequired');
-      expect(messages.validation).toHaveProperty('emailRequired');
+      expect(messages.validation).toHaveProperty('required');
+      expect(messages.validation).toHaveProperty('invalid');
+    });
+
+    it('should translate every validation rule in every locale', () => {
+      const keys = Object.keys(getMessages('en').validation);
+
+      for (const locale of ['es', 'fr'] as const) {
+        const validation = getMessages(locale).validation;
+        expect(Object.keys(validation)).toEqual(keys);
+        for (const key of keys) {
+          expect(validation[key as keyof typeof validation]).not.toBe(
+            getMessages('en').validation[key as keyof typeof validation]
+          );
+        }
+      }
     });
   });
 
@@ -0,0 +1,275 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { Op } from 'sequelize';
+import { buildServer } from '../server.js';
+import { sequelize } from '../database/connection.js';
+import { config } from '../config/index.js';
+import { AuditEvent, Role, User, UserInvitation } from '../models/index.js';
+import { invitationRoutes } from '../routes/api/invitations/index.js';
+import authPlugin from '../plugins/auth.js';
+import rbacPlugin from '../plugins/rbac.js';
+import { listCapturedMail } from '../mailer/index.js';
+import { createRole } from '../utils/roles.js';
+import type { OutgoingMail } from '../types/mail.js';
+
+describe('User invitations', () => {
+  const server = buildServer();
+  let adminToken: string;
+  let memberToken: string;
+
+  const asAdmin = (method: 'GET' | 'POST' | 'DELETE', url: string, payload?: object) =>
+    server.inject({ method, url, payload, headers: { Authorization: `Bearer ${adminToken}` } });
+
+  // Tests use the in-memory transport, and every sent message is captured
+  const lastMailTo = (email: string): OutgoingMail => {
+    const mail = listCapturedMail().find((captured) => captured.to === email);
+    if (!mail) {
+      throw new Error(`No email sent to ${email}`);
+    }
+    return mail;
+  };
+
+  const tokenFrom = (mail: OutgoingMail) =>
+    decodeURIComponent(mail.text.match(/[?&]token=([^\s&]+)/)![1]);
+
+  const invite = async (email: string, payload: object = {}) => {
+    const response = await asAdmin('POST', '/api/invitations', { email, ...payload });
+    expect(response.statusCode).toBe(201);
+    return { invitation: response.json().invitation, token: tokenFrom(lastMailTo(email)) };
+  };
+
+  const cleanUp = async () => {
+    await UserInvitation.destroy({ where: { email: { [Op.like]: 'invite-%@auth.test' } } });
+    await User.destroy({ where: { email: { [Op.like]: 'invite-%@auth.test' } }, force: true });
+    await Role.destroy({ where: { name: 'test-invite-manager' } });
+  };
+
+  beforeAll(async () => {
+    await sequelize.authenticate();
+
+    await server.register(authPlugin);
+    await server.register(rbacPlugin);
+    await server.register(invitationRoutes, { prefix: '/api/invitations' });
+    await server.ready();
+
+    await cleanUp();
+
+    const admin = await User.create({
+      name: 'Inviting Admin',
+      email: 'invite-admin@auth.test',
+      role: 'admin',
+    });
+    const member = await User.create({ name: 'Member', email: 'invite-member@auth.test' });
+
+    adminToken = server.jwt.sign({ userId: admin.id, email: admin.email, role: admin.role });
+    memberToken = server.jwt.sign({ userId: member.id, email: member.email, role: member.role });
+  });
+
+  afterAll(async () => {
+    await cleanUp();
+    await sequelize.close();
+    await server.close();
+  });
+
+  describe('POST /api/invitations', () => {
+    it('should email a link with a signed token', async () => {
+      const response = await asAdmin('POST', '/api/invitations', {
+        email: 'invite-new@auth.test',
+        name: 'New Hire',
+      });
+
+      expect(response.statusCode).toBe(201);
+      expect(response.json()).toMatchObject({
+        invitation: { email: 'invite-new@auth.test', name: 'New Hire', role: 'user' },
+        emailSent: true,
+      });
+
+      const mail = lastMailTo('invite-new@auth.test');
+      expect(mail.subject).toBe('You have been invited to create an account');
+      expect(mail.text).toContain('Inviting Admin invited you');
+      expect(mail.text).toContain(`${config.invitations.acceptUrl}?token=`);
+      expect(mail.html).toContain('Accept invitation');
+    });
+
+    it('should write the email in the requested locale', async () => {
+      await asAdmin('POST', '/api/invitations', {
+        email: 'invite-es@auth.test',
+        locale: 'es',
+      });
+
+      const mail = lastMailTo('invite-es@auth.test');
+      expect(mail.subject).toBe('Ha sido invitado a crear una cuenta');
+    });
+
+    it('should require users:write', async () => {
+      const response = await server.inject({
+        method: 'POST',
+        url: '/api/invitations',
+        payload: { email: 'invite-denied@auth.test' },
+        headers: { Authorization: `Bearer ${memberToken}` },
+      });
+
+      expect(response.statusCode).toBe(403);
+    });
+
+    it("should only pre-assign roles within the inviter's permissions", async () => {
+      await createRole({ name: 'test-invite-manager', permissions: ['users:read', 'users:write'] });
+      const manager = await User.create({
+        name: 'Manager',
+        email: 'invite-manager@auth.test',
+        role: 'test-invite-manager',
+      });
+      const managerToken = server.jwt.sign({
+        userId: manager.id,
+        email: manager.email,
+        role: manager.role,
+      });
+      const asManager = (payload: object) =>
+        server.inject({
+          method: 'POST',
+          url: '/api/invitations',
+          payload,
+          headers: { Authorization: `Bearer ${managerToken}` },
+        });
+
+      const escalate = await asManager({ email: 'invite-escalate@auth.test', role: 'admin' });
+      expect(escalate.statusCode).toBe(403);
+      expect(escalate.json().code).toBe('CANNOT_ASSIGN_ROLE');
+
+      const peer = await asManager({ email: 'invite-peer@auth.test', role: 'test-invite-manager' });
+      expect(peer.statusCode).toBe(201);
+    });
+
+    it('should reject unknown roles and existing users', async () => {
+      const unknownRole = await asAdmin('POST', '/api/invitations', {
+        email: 'invite-role@auth.test',
+        role: 'no-such-role',
+      });
+      expect(unknownRole.statusCode).toBe(400);
+
+      const existing = await asAdmin('POST', '/api/invitations', {
+        email: 'invite-member@auth.test',
+      });
+      expect(existing.statusCode).toBe(409);
+      expect(existing.json().detail).toBe('A user with this email already exists');
+    });
+
+    it('should replace the pending invitation when inviting again', async () => {
+      const first = await invite('invite-again@auth.test');
+      const second = await invite('invite-again@auth.test');
+
+      const stale = await server.inject({ method: 'GET', url: `/api/invitations/${first.token}` });
+      expect(stale.statusCode).toBe(400);
+
+      const current = await server.inject({
+        method: 'GET',
+        url: `/api/invitations/${second.token}`,
+      });
+      expect(current.statusCode).toBe(200);
+    });
+  });
+
+  describe('GET /api/invitations/:token', () => {
+    it('should preview the invitation without authentication', async () => {
+      const { token } = await invite('invite-preview@auth.test', { role: 'admin' });
+
+      const response = await server.inject({ method: 'GET', url: `/api/invitations/${token}` });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toMatchObject({
+        email: 'invite-preview@auth.test',
+        role: 'admin',
+        invitedBy: 'Inviting Admin',
+      });
+    });
+
+    it('should reject tampered and expired tokens', async () => {
+      const tampered = await server.inject({ method: 'GET', url: '/api/invitations/not-a-token' });
+      expect(tampered.statusCode).toBe(400);
+
+      const { invitation } = await invite('invite-expired@auth.test');
+      const expiredToken = server.signToken({ userInvitation: invitation.id }, { expiresIn: -10 });
+      const expired = await server.inject({
+        method: 'GET',
+        url: `/api/invitations/${expiredToken}`,
+      });
+      expect(expired.statusCode).toBe(400);
+      expect(expired.json().detail).toBe('This invitation has expired');
+    });
+  });
+
+  describe('POST /api/invitations/:token/accept', () => {
+    it('should create the account with the pre-assigned role and sign it in', async () => {
+      const { invitation, token } = await invite('invite-accept@auth.test', {
+        name: 'Suggested',
+        role: 'admin',
+      });
+
+      const response = await server.inject({
+        method: 'POST',
+        url: `/api/invitations/${token}/accept`,
+        payload: { name: 'Chosen Name' },
+      });
+
+      expect(response.statusCode).toBe(201);
+      const body = response.json();
+      expect(body.token).toBeDefined();
+      expect(body.refreshToken).toBeDefined();
+      expect(body.user).toMatchObject({ name: 'Chosen Name', email: 'invite-accept@auth.test' });
+
+      const user = await User.findOne({ where: { email: 'invite-accept@auth.test' } });
+      expect(user!.role).toBe('admin');
+
+      const events = await AuditEvent.findAll({
+        where: { targetType: 'invitation', targetId: String(invitation.id) },
+        order: [['id', 'ASC']],
+      });
+      expect(events.map((event) => event.action)).toEqual([
+        'invitation.created',
+        'invitation.accepted',
+      ]);
+      expect(events[0].after).toEqual({ email: 'invite-accept@auth.test', role: 'admin' });
+      expect(events[1].actorId).toBe(user!.id);
+    });
+
+    it('should only accept a token once', async () => {
+      const { token } = await invite('invite-once@auth.test');
+
+      const first = await server.inject({
+        method: 'POST',
+        url: `/api/invitations/${token}/accept`,
+      });
+      expect(first.statusCode).toBe(201);
+      expect(first.json().user.name).toBe('invite-once');
+
+      const second = await server.inject({
+        method: 'POST',
+        url: `/api/invitations/${token}/accept`,
+      });
+      expect(second.statusCode).toBe(400);
+    });
+
+    it('should not accept revoked invitations', async () => {
+      const { invitation, token } = await invite('invite-revoked@auth.test');
+
+      const pending = await asAdmin('GET', '/api/invitations');
+      expect(pending.json().invitations.map((i: { id: number }) => i.id)).toContain(invitation.id);
+
+      const revoke = await asAdmin('DELETE', `/api/invitations/${invitation.id}`);
+      expect(revoke.statusCode).toBe(200);
+      expect(
+        await AuditEvent.count({
+          where: { action: 'invitation.revoked', targetId: String(invitation.id) },
+        })
+      ).toBe(1);
+
+      const response = await server.inject({
+        method: 'POST',
+        url: `/api/invitations/${token}/accept`,
+      });
+      expect(response.statusCode).toBe(400);
+
+      const again = await asAdmin('DELETE', `/api/invitations/${invitation.id}`);
+      expect(again.statusCode).toBe(404);
+    });
+  });
+});
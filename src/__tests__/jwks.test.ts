@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { Op } from 'sequelize';
+import { createPublicKey, generateKeyPairSync, sign, verify, type webcrypto } from 'crypto';
+import { buildServer } from '../server.js';
+import { sequelize } from '../database/connection.js';
+import { config } from '../config/index.js';
+import { User } from '../models/index.js';
+import { authRoutes } from '../routes/auth/index.js';
+import { wellKnownRoutes } from '../routes/wellKnown/index.js';
+import authPlugin from '../plugins/auth.js';
+
+// A key rotated out of signing that still verifies the tokens it signed
+const previousKey = generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+// Sign a JWT by hand, as the server did before the rotation
+const signRs256 = (payload: object, kid: string, privateKey = previousKey.privateKey) => {
+  const encode = (part: object) => Buffer.from(JSON.stringify(part)).toString('base64url');
+  const signingInput = `${encode({ alg: 'RS256', typ: 'JWT', kid })}.${encode(payload)}`;
+  return `${signingInput}.${sign('sha256', Buffer.from(signingInput), privateKey).toString('base64url')}`;
+};
+
+describe('JWT signing keys', () => {
+  const server = buildServer();
+  let user: User;
+
+  const getMe = (token: string) =>
+    server.inject({
+      method: 'GET',
+      url: '/auth/me',
+      headers: { Authorization: `Bearer ${token}` },
+    });
+
+  beforeAll(async () => {
+    await sequelize.authenticate();
+
+    config.jwt.keyring.keys.previous = {
+      algorithm: 'RS256',
+      publicKey: previousKey.publicKey,
+    };
+
+    await server.register(authPlugin);
+    await server.register(authRoutes);
+    await server.register(wellKnownRoutes);
+    await server.ready();
+
+    await User.destroy({ where: { email: { [Op.like]: 'jwks-%@auth.test' } }, force: true });
+    user = await User.create({ email: 'jwks-user@auth.test', name: 'JWKS User' });
+  });
+
+  afterAll(async () => {
+    delete config.jwt.keyring.keys.previous;
+    await User.destroy({ where: { email: { [Op.like]: 'jwks-%@auth.test' } }, force: true });
+    await server.close();
+  });
+
+  it('should publish every verification key, current key first', async () => {
+    const response = await server.inject({ method: 'GET', url: '/.well-known/jwks.json' });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.headers['cache-control']).toMatch(/max-age=\d+/);
+
+    const { keys } = response.json();
+    expect(keys.map((key: { kid: string }) => key.kid)).toEqual([
+      config.jwt.keyring.currentKeyId,
+      'previous',
+    ]);
+    expect(keys[1]).toMatchObject({ kty: 'RSA', alg: 'RS256', use: 'sig' });
+    // Only public parameters are published
+    expect(keys.some((key: { d?: string }) => key.d)).toBe(false);
+  });
+
+  it('should sign access tokens that other services can verify with the JWKS', async () => {
+    const login = await server.inject({
+      method: 'POST',
+      url: '/auth/dev/token',
+      payload: { email: 'jwks-user@auth.test' },
+    });
+    const { token } = login.json();
+
+    const [header, payload, signature] = token.split('.');
+    const { kid, alg } = JSON.parse(Buffer.from(header, 'base64url').toString());
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString());
+    expect(kid).toBe(config.jwt.keyring.currentKeyId);
+    expect(claims).toMatchObject({
+      iss: config.jwt.issuer,
+      aud: config.jwt.audience,
+      sub: String(user.id),
+      jti: expect.any(String),
+    });
+
+    const { keys } = (await server.inject({ method: 'GET', url: '/.well-known/jwks.json' })).json();
+    const jwk = keys.find((key: { kid: string }) => key.kid === kid) as webcrypto.JsonWebKey;
+    expect(alg).toBe(jwk.alg);
+    const valid = verify(
+      'sha256',
+      Buffer.from(`${header}.${payload}`),
+      { key: createPublicKey({ key: jwk, format: 'jwk' }), dsaEncoding: 'ieee-p1363' },
+      Buffer.from(signature, 'base64url')
+    );
+    expect(valid).toBe(true);
+  });
+
+  it('should accept tokens of a rotated key and refuse unknown keys or audiences', async () => {
+    const now = Math.floor(Date.now() / 1000);
+    const claims = {
+      userId: user.id,
+      email: user.email,
+      role: user.role,
+      iss: config.jwt.issuer,
+      aud: config.jwt.audience,
+      iat: now,
+      exp: now + 60,
+    };
+
+    expect((await getMe(signRs256(claims, 'previous'))).statusCode).toBe(200);
+
+    const stranger = generateKeyPairSync('rsa', { modulusLength: 2048 }).privateKey;
+    expect((await getMe(signRs256(claims, 'previous', stranger))).statusCode).toBe(401);
+    expect((await getMe(signRs256(claims, 'unknown'))).statusCode).toBe(401);
+    expect(
+      (await getMe(signRs256({ ...claims, aud: 'https://other.example.com' }, 'previous')))
+        .statusCode
+    ).toBe(401);
+  });
+});
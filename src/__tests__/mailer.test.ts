@@ -0,0 +1,299 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import net from 'net';
+import { mkdtemp, readdir, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { buildServer } from '../server.js';
+import {
+  clearCapturedMail,
+  createFileTransport,
+  createMemoryTransport,
+  listCapturedMail,
+  MailQueue,
+  queueTemplatedMail,
+  renderEmail,
+  setMailTransport,
+} from '../mailer/index.js';
+import { sendSmtpMail, SmtpError } from '../mailer/smtp.js';
+import { devRoutes } from '../routes/dev/index.js';
+import type { OutgoingMail } from '../types/mail.js';
+
+const mail: OutgoingMail = {
+  from: 'API Starter <no-reply@example.com>',
+  to: 'jane@example.com',
+  subject: 'Café',
+  text: 'Hello\n.leading dot',
+  html: '<p>Hello</p>',
+};
+
+// Scripted SMTP server recording the commands it receives
+const startSmtpServer = (options: { rejectAuth?: boolean } = {}) => {
+  const commands: string[] = [];
+  let data = '';
+
+  const server = net.createServer((socket) => {
+    let buffer = '';
+    let inData = false;
+    socket.write('220 test ESMTP\r\n');
+
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString();
+      let newline: number;
+      while ((newline = buffer.indexOf('\r\n')) !== -1) {
+        const line = buffer.slice(0, newline);
+        buffer = buffer.slice(newline + 2);
+
+        if (inData) {
+          if (line === '.') {
+            inData = false;
+            socket.write('250 queued\r\n');
+          } else {
+            data += `${line}\n`;
+          }
+          continue;
+        }
+
+        commands.push(line);
+        if (line.startsWith('EHLO')) {
+          socket.write('250-test\r\n250 AUTH PLAIN\r\n');
+        } else if (line.startsWith('AUTH')) {
+          socket.write(options.rejectAuth ? '535 bad credentials\r\n' : '235 ok\r\n');
+        } else if (line === 'DATA') {
+          inData = true;
+          socket.write('354 go ahead\r\n');
+        } else if (line === 'QUIT') {
+          socket.end('221 bye\r\n');
+        } else {
+          socket.write('250 ok\r\n');
+        }
+      }
+    });
+  });
+
+  return new Promise<{ port: number; commands: string[]; data: () => string; close: () => void }>(
+    (resolve) => {
+      server.listen(0, '127.0.0.1', () => {
+        resolve({
+          port: (server.address() as net.AddressInfo).port,
+          commands,
+          data: () => data,
+          close: () => server.close(),
+        });
+      });
+    }
+  );
+};
+
+describe('Mailer', () => {
+  const cleanups: Array<() => unknown> = [];
+
+  afterEach(async () => {
+    for (const cleanup of cleanups.splice(0)) {
+      await cleanup();
+    }
+  });
+
+  describe('SMTP transport', () => {
+    it('should authenticate and deliver a MIME message', async () => {
+      const smtp = await startSmtpServer();
+      cleanups.push(smtp.close);
+
+      await sendSmtpMail(
+        {
+          host: '127.0.0.1',
+          port: smtp.port,
+          secure: false,
+          user: 'mailer',
+          password: 'secret',
+          timeoutMs: 5000,
+        },
+        mail
+      );
+
+      expect(smtp.commands[0]).toMatch(/^EHLO /);
+      expect(smtp.commands[1]).toBe(
+        `AUTH PLAIN ${Buffer.from('\0mailer\0secret').toString('base64')}`
+      );
+      expect(smtp.commands.slice(2)).toEqual([
+        'MAIL FROM:<no-reply@example.com>',
+        'RCPT TO:<jane@example.com>',
+        'DATA',
+        'QUIT',
+      ]);
+
+      const data = smtp.data();
+      expect(data).toContain('Subject: =?UTF-8?B?');
+      expect(data).toContain('Content-Type: multipart/alternative');
+      const [, textPart] = data.split('Content-Transfer-Encoding: base64\n\n');
+      const text = Buffer.from(textPart.split('\n--')[0].replace(/\n/g, ''), 'base64');
+      expect(text.toString()).toBe(mail.text);
+    });
+
+    it('should fail without leaking credentials when authentication is rejected', async () => {
+      const smtp = await startSmtpServer({ rejectAuth: true });
+      cleanups.push(smtp.close);
+
+      const error = (await sendSmtpMail(
+        {
+          host: '127.0.0.1',
+          port: smtp.port,
+          secure: false,
+          user: 'mailer',
+          password: 'secret',
+          timeoutMs: 5000,
+        },
+        mail
+      ).catch((e: SmtpError) => e)) as SmtpError;
+
+      expect(error).toBeInstanceOf(SmtpError);
+      expect(error.code).toBe(535);
+      expect(error.message).not.toContain(Buffer.from('\0mailer\0secret').toString('base64'));
+    });
+  });
+
+  describe('file transport', () => {
+    it('should write each message as a JSON file', async () => {
+      const directory = await mkdtemp(path.join(tmpdir(), 'mailer-test-'));
+      cleanups.push(() => rm(directory, { recursive: true, force: true }));
+
+      await createFileTransport(directory).send(mail);
+
+      const files = await readdir(directory);
+      expect(files).toHaveLength(1);
+      const written = JSON.parse(await readFile(path.join(directory, files[0]), 'utf8'));
+      expect(written).toMatchObject({ to: mail.to, subject: mail.subject, text: mail.text });
+      expect(written.sentAt).toBeDefined();
+    });
+  });
+
+  describe('memory transport', () => {
+    it('should keep sent messages', async () => {
+      const transport = createMemoryTransport();
+
+      await transport.send(mail);
+
+      expect(transport.messages).toEqual([mail]);
+    });
+  });
+
+  describe('templates', () => {
+    const params = {
+      inviterName: 'Ada <admin>',
+      url: 'https://app.example.com/accept-invitation?token=abc&x=1',
+      expiresAt: new Date('2026-10-26T12:00:00Z'),
+    };
+
+    it('should render text and HTML bodies in the requested locale', () => {
+      const email = renderEmail('invitation', 'fr', params);
+
+      expect(email.subject).toBe('Vous avez été invité à créer un compte');
+      expect(email.text).toContain('Ada <admin> vous a invité');
+      expect(email.text).toContain(`Accepter l'invitation: ${params.url}`);
+      expect(email.text).toContain('26 octobre 2026');
+      expect(email.html).toContain('<html lang="fr">');
+    });
+
+    it('should escape values in the HTML body', () => {
+      const email = renderEmail('invitation', 'en', params);
+
+      expect(email.html).toContain('Ada &lt;admin&gt; invited you');
+      expect(email.html).toContain(
+        'href="https://app.example.com/accept-invitation?token=abc&amp;x=1"'
+      );
+      expect(email.html).not.toContain('<admin>');
+    });
+
+    it('should greet the recipient by name', () => {
+      const email = renderEmail('welcome', 'es', { name: 'Jane', url: 'https://app.example.com' });
+
+      expect(email.subject).toBe('Bienvenido, Jane');
+      expect(email.text.startsWith('Hola, Jane:')).toBe(true);
+    });
+  });
+
+  describe('retry queue', () => {
+    it('should retry failed sends with backoff until they succeed', async () => {
+      const attempts: number[] = [];
+      const queue = new MailQueue({
+        maxAttempts: 3,
+        retryDelayMs: 5,
+        send: async () => {
+          attempts.push(Date.now());
+          if (attempts.length < 3) {
+            throw new Error('connection refused');
+          }
+        },
+      });
+
+      expect(await queue.enqueue(mail)).toBe(false);
+      expect(queue.size).toBe(1);
+
+      await vi.waitFor(() => expect(attempts).toHaveLength(3));
+      await vi.waitFor(() => expect(queue.size).toBe(0));
+      expect(attempts[2] - attempts[1]).toBeGreaterThanOrEqual(attempts[1] - attempts[0]);
+    });
+
+    it('should give up after the last attempt', async () => {
+      const failures: Array<{ attempt: number; willRetry: boolean }> = [];
+      const queue = new MailQueue({
+        maxAttempts: 2,
+        retryDelayMs: 60_000,
+        send: async () => {
+          throw new Error('mailbox unavailable');
+        },
+        onError: (_error, _mail, attempt, willRetry) => failures.push({ attempt, willRetry }),
+      });
+
+      await queue.enqueue(mail);
+      await queue.flush();
+
+      expect(failures).toEqual([
+        { attempt: 1, willRetry: true },
+        { attempt: 2, willRetry: false },
+      ]);
+      expect(queue.size).toBe(0);
+    });
+  });
+
+  describe('GET /dev/emails', () => {
+    const server = buildServer();
+
+    afterEach(() => setMailTransport(null));
+
+    it('should list captured emails', async () => {
+      await server.register(devRoutes);
+      clearCapturedMail();
+      setMailTransport(createMemoryTransport());
+
+      await queueTemplatedMail('jane@example.com', 'welcome', 'en', {
+        name: 'Jane',
+        url: 'https://app.example.com',
+      });
+      await queueTemplatedMail('john@example.com', 'welcome', 'en', {
+        name: 'John',
+        url: 'https://app.example.com',
+      });
+      expect(listCapturedMail()).toHaveLength(2);
+
+      const response = await server.inject({
+        method: 'GET',
+        url: '/dev/emails?to=jane@example.com',
+      });
+
+      expect(response.statusCode).toBe(200);
+      const { emails } = response.json();
+      expect(emails).toHaveLength(1);
+      expect(emails[0]).toMatchObject({
+        to: 'jane@example.com',
+        subject: 'Welcome, Jane',
+        transport: 'memory',
+      });
+
+      const cleared = await server.inject({ method: 'DELETE', url: '/dev/emails' });
+      expect(cleared.statusCode).toBe(200);
+      expect(listCapturedMail()).toHaveLength(0);
+
+      await server.close();
+    });
+  });
+});
@@ -40,11 +40,23 @@ describe('OAuth Provider Adapters', () => {
       expect(result).toEqual({
         id: 'google-123',
         email: 'user@gmail.com',
+        emailVerified: true,
         name: 'John Doe',
         picture: 'https://example.com/photo.jpg',
       });
     });
 
+    it('should report unverified Google emails', async () => {
+      (global.fetch as any).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ id: 'google-456', email: 'new@gmail.com', verified_email: false }),
+      });
+
+      const result = await fetchGoogleUserInfo('mock-token');
+
+      expect(result.emailVerified).toBe(false);
+    });
+
     it('should throw error when Google API fails', async () => {
       (global.fetch as any).mockResolvedValueOnce({
         ok: false,
@@ -66,10 +78,15 @@ describe('OAuth Provider Adapters', () => {
         avatar_url: 'https://github.com/avatar.jpg',
       };
 
-      (global.fetch as any).mockResolvedValueOnce({
-        ok: true,
-        json: async () => mockGitHubProfile,
-      });
+      (global.fetch as any)
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => mockGitHubProfile,
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => [{ email: 'user@github.com', primary: true, verified: true }],
+        });
 
       const result = await fetchGitHubUserInfo('mock-token');
 
@@ -83,6 +100,7 @@ describe('OAuth Provider Adapters', () => {
       expect(result).toEqual({
         id: '12345',
         email: 'user@github.com',
+        emailVerified: true,
         name: 'Jane Smith',
         picture: 'https://github.com/avatar.jpg',
       });
@@ -123,6 +141,46 @@ describe('OAuth Provider Adapters', () => {
       });
 
       expect(result.email).toBe('primary@example.com');
+      expect(result.emailVerified).toBe(true);
+    });
+
+    it('should mark the fallback email as unverified when no verified primary exists', async () => {
+      const mockGitHubProfile = {
+        id: 12345,
+        email: null,
+        name: 'Jane Smith',
+        login: 'janesmith',
+        avatar_url: 'https://github.com/avatar.jpg',
+      };
+
+      (global.fetch as any)
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => mockGitHubProfile,
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => [{ email: 'unverified@example.com', primary: true, verified: false }],
+        });
+
+      const result = await fetchGitHubUserInfo('mock-token');
+
+      expect(result.email).toBe('unverified@example.com');
+      expect(result.emailVerified).toBe(false);
+    });
+
+    it('should mark the profile email as unverified when the emails lookup fails', async () => {
+      (global.fetch as any)
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ id: 1, email: 'public@example.com', name: 'Jane', login: 'jane' }),
+        })
+        .mockResolvedValueOnce({ ok: false });
+
+      const result = await fetchGitHubUserInfo('mock-token');
+
+      expect(result.email).toBe('public@example.com');
+      expect(result.emailVerified).toBe(false);
     });
 
     it('should use login as name when name is not provided', async () => {
@@ -134,10 +192,12 @@ describe('OAuth Provider Adapters', () => {
         avatar_url: 'https://github.com/avatar.jpg',
       };
 
-      (global.fetch as any).mockResolvedValueOnce({
-        ok: true,
-        json: async () => mockGitHubProfile,
-      });
+      (global.fetch as any)
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => mockGitHubProfile,
+        })
+        .mockResolvedValueOnce({ ok: false });
 
       const result = await fetchGitHubUserInfo('mock-token');
 
@@ -201,6 +261,7 @@ describe('OAuth Provider Adapters', () => {
       expect(result).toEqual({
         id: 'microsoft-abc123',
         email: 'bob.johnson@company.com',
+        emailVerified: false,
         name: 'Bob Johnson',
       });
     });
@@ -265,10 +326,12 @@ describe('OAuth Provider Adapters', () => {
         avatar_url: 'https://github.com/avatar.jpg',
       };
 
-      (global.fetch as any).mockResolvedValueOnce({
-        ok: true,
-        json: async () => mockGitHubProfile,
-      });
+      (global.fetch as any)
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => mockGitHubProfile,
+        })
+        .mockResolvedValueOnce({ ok: false });
 
       const result = await fetchProviderUserInfo('github', 'mock-token');
 
@@ -0,0 +1,416 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { Op } from 'sequelize';
+import { createHash, randomBytes } from 'crypto';
+import { buildServer } from '../server.js';
+import { sequelize } from '../database/connection.js';
+import { AuditEvent, OAuthClient, User } from '../models/index.js';
+import { authRoutes } from '../routes/auth/index.js';
+import { userRoutes } from '../routes/api/users/index.js';
+import { oauthServerRoutes } from '../routes/oauth/index.js';
+import { oauthClientRoutes } from '../routes/api/oauthClients/index.js';
+import authPlugin from '../plugins/auth.js';
+import rbacPlugin from '../plugins/rbac.js';
+
+const REDIRECT_URI = 'https://app.example.com/callback';
+
+describe('OAuth2 authorization server', () => {
+  const server = buildServer();
+  let adminToken: string;
+  let userToken: string;
+  let user: User;
+
+  const bearer = (token: string) => ({ Authorization: `Bearer ${token}` });
+
+  const registerClient = async (body: object) => {
+    const response = await server.inject({
+      method: 'POST',
+      url: '/api/admin/oauth-clients',
+      headers: bearer(adminToken),
+      payload: { name: 'Test App', ...body },
+    });
+    expect(response.statusCode).toBe(201);
+    return response.json() as { client: { clientId: string; id: number }; clientSecret: string };
+  };
+
+  // Token requests are form-encoded, as OAuth clients send them
+  const tokenRequest = (params: Record<string, string>, headers: Record<string, string> = {}) =>
+    server.inject({
+      method: 'POST',
+      url: '/oauth/token',
+      headers: { 'content-type': 'application/x-www-form-urlencoded', ...headers },
+      payload: new URLSearchParams(params).toString(),
+    });
+
+  const pkce = () => {
+    const verifier = randomBytes(32).toString('base64url');
+    return { verifier, challenge: createHash('sha256').update(verifier).digest('base64url') };
+  };
+
+  const authorizeParams = (clientId: string, challenge: string, scope = 'read') => ({
+    response_type: 'code',
+    client_id: clientId,
+    redirect_uri: REDIRECT_URI,
+    scope,
+    state: 'xyz',
+    code_challenge: challenge,
+    code_challenge_method: 'S256',
+  });
+
+  // Approve the consent screen and return the code sent to the redirect URI
+  const authorize = async (clientId: string, challenge: string, scope?: string) => {
+    const response = await server.inject({
+      method: 'POST',
+      url: '/oauth/authorize',
+      headers: bearer(userToken),
+      payload: { ...authorizeParams(clientId, challenge, scope), approve: true },
+    });
+    const redirectTo = new URL(response.json().redirectTo);
+    expect(redirectTo.searchParams.get('state')).toBe('xyz');
+    return redirectTo.searchParams.get('code')!;
+  };
+
+  // Run the authorization code flow of a public client
+  const signInWith = async (clientId: string, scope?: string) => {
+    const { verifier, challenge } = pkce();
+    const code = await authorize(clientId, challenge, scope);
+    const response = await tokenRequest({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: REDIRECT_URI,
+      code_verifier: verifier,
+      client_id: clientId,
+    });
+    expect(response.statusCode).toBe(200);
+    return response.json();
+  };
+
+  const cleanUp = async () => {
+    await OAuthClient.destroy({ where: { name: { [Op.like]: 'Test %' } } });
+    await User.destroy({
+      where: { email: { [Op.like]: 'oauth-server-%@auth.test' } },
+      force: true,
+    });
+  };
+
+  beforeAll(async () => {
+    await sequelize.authenticate();
+
+    await server.register(authPlugin);
+    await server.register(rbacPlugin);
+    await server.register(authRoutes);
+    await server.register(userRoutes, { prefix: '/api/users' });
+    await server.register(oauthServerRoutes);
+    await server.register(oauthClientRoutes, { prefix: '/api/admin/oauth-clients' });
+    await server.ready();
+
+    await cleanUp();
+
+    const admin = await User.create({
+      name: 'Admin',
+      email: 'oauth-server-admin@auth.test',
+      role: 'admin',
+    });
+    adminToken = server.jwt.sign({ userId: admin.id, email: admin.email, role: admin.role });
+  });
+
+  beforeEach(async () => {
+    await User.destroy({ where: { email: 'oauth-server-user@auth.test' }, force: true });
+    userToken = (
+      await server.inject({
+        method: 'POST',
+        url: '/auth/dev/token',
+        payload: { email: 'oauth-server-user@auth.test', name: 'OAuth User' },
+      })
+    ).json().token;
+    user = (await User.findOne({ where: { email: 'oauth-server-user@auth.test' } }))!;
+  });
+
+  afterAll(async () => {
+    await cleanUp();
+    await server.close();
+  });
+
+  describe('client registration', () => {
+    it('should only let admins register clients', async () => {
+      const response = await server.inject({
+        method: 'POST',
+        url: '/api/admin/oauth-clients',
+        headers: bearer(userToken),
+        payload: { name: 'Test Denied', grantTypes: ['authorization_code'] },
+      });
+      expect(response.statusCode).toBe(403);
+
+      const { client, clientSecret } = await registerClient({
+        grantTypes: ['authorization_code'],
+        redirectUris: [REDIRECT_URI],
+        confidential: false,
+      });
+      expect(client.clientId).toMatch(/^oc_/);
+      expect(clientSecret).toBeNull();
+
+      const audit = await AuditEvent.findOne({
+        where: { action: 'oauth_client.created', targetId: String(client.id) },
+      });
+      expect(audit!.after).toMatchObject({
+        clientId: client.clientId,
+        grantTypes: ['authorization_code'],
+      });
+
+      const missingUser = await server.inject({
+        method: 'POST',
+        url: '/api/admin/oauth-clients',
+        headers: bearer(adminToken),
+        payload: { name: 'Test Service', grantTypes: ['client_credentials'] },
+      });
+      expect(missingUser.statusCode).toBe(400);
+    });
+  });
+
+  describe('authorization code grant', () => {
+    it('should ask for consent once, then issue scoped tokens for a PKCE code', async () => {
+      const { client } = await registerClient({
+        grantTypes: ['authorization_code', 'refresh_token'],
+        redirectUris: [REDIRECT_URI],
+        confidential: false,
+      });
+      const { challenge } = pkce();
+
+      const first = await server.inject({
+        method: 'GET',
+        url: '/oauth/authorize',
+        headers: bearer(userToken),
+        query: authorizeParams(client.clientId, challenge),
+      });
+      expect(first.json()).toMatchObject({ consentRequired: true, scopes: ['read'] });
+
+      const tokens = await signInWith(client.clientId);
+      expect(tokens).toMatchObject({ token_type: 'Bearer', scope: 'read' });
+      expect(tokens.refresh_token).toBeDefined();
+
+      // Read access works, writes are outside the granted scope
+      const me = await server.inject({
+        method: 'GET',
+        url: '/auth/me',
+        headers: bearer(tokens.access_token),
+      });
+      expect(me.json().user.email).toBe('oauth-server-user@auth.test');
+      const update = await server.inject({
+        method: 'PUT',
+        url: `/api/users/${user.id}`,
+        headers: bearer(tokens.access_token),
+        payload: { name: 'Renamed' },
+      });
+      expect(update.statusCode).toBe(403);
+
+      // Consent is remembered: the next authorization redirects straight back with a code
+      const again = await server.inject({
+        method: 'GET',
+        url: '/oauth/authorize',
+        headers: bearer(userToken),
+        query: authorizeParams(client.clientId, challenge),
+      });
+      expect(again.statusCode).toBe(302);
+      expect(new URL(again.headers.location as string).searchParams.get('code')).toBeTruthy();
+    });
+
+    it('should refuse a reused code or a wrong verifier', async () => {
+      const { client } = await registerClient({
+        grantTypes: ['authorization_code'],
+        redirectUris: [REDIRECT_URI],
+        confidential: false,
+      });
+      const { verifier, challenge } = pkce();
+      const exchange = (code: string, codeVerifier: string) =>
+        tokenRequest({
+          grant_type: 'authorization_code',
+          code,
+          redirect_uri: REDIRECT_URI,
+          code_verifier: codeVerifier,
+          client_id: client.clientId,
+        });
+
+      const wrongVerifier = await exchange(
+        await authorize(client.clientId, challenge),
+        pkce().verifier
+      );
+      expect(wrongVerifier.json().error).toBe('invalid_grant');
+
+      const code = await authorize(client.clientId, challenge);
+      expect((await exchange(code, verifier)).statusCode).toBe(200);
+      expect((await exchange(code, verifier)).json().error).toBe('invalid_grant');
+    });
+
+    it('should not redirect to unregistered URIs and report a denial to the client', async () => {
+      const { client } = await registerClient({
+        grantTypes: ['authorization_code'],
+        redirectUris: [REDIRECT_URI],
+        confidential: false,
+      });
+      const { challenge } = pkce();
+
+      const foreign = await server.inject({
+        method: 'GET',
+        url: '/oauth/authorize',
+        headers: bearer(userToken),
+        query: {
+          ...authorizeParams(client.clientId, challenge),
+          redirect_uri: 'https://evil.test',
+        },
+      });
+      expect(foreign.statusCode).toBe(400);
+
+      const denied = await server.inject({
+        method: 'POST',
+        url: '/oauth/authorize',
+        headers: bearer(userToken),
+        payload: { ...authorizeParams(client.clientId, challenge), approve: false },
+      });
+      const redirectTo = new URL(denied.json().redirectTo);
+      expect(redirectTo.origin + redirectTo.pathname).toBe(REDIRECT_URI);
+      expect(redirectTo.searchParams.get('error')).toBe('access_denied');
+    });
+  });
+
+  describe('refresh and revocation', () => {
+    it('should rotate refresh tokens for their own client only', async () => {
+      const { client } = await registerClient({
+        grantTypes: ['authorization_code', 'refresh_token'],
+        redirectUris: [REDIRECT_URI],
+        confidential: false,
+        scopes: ['read', 'write'],
+      });
+      const tokens = await signInWith(client.clientId, 'read write');
+
+      // Not usable as a direct sign-in refresh token
+      const direct = await server.inject({
+        method: 'POST',
+        url: '/auth/refresh',
+        payload: { refreshToken: tokens.refresh_token },
+      });
+      expect(direct.statusCode).toBe(401);
+
+      const refreshed = await tokenRequest({
+        grant_type: 'refresh_token',
+        refresh_token: tokens.refresh_token,
+        client_id: client.clientId,
+      });
+      expect(refreshed.json()).toMatchObject({ scope: 'read write' });
+      expect(refreshed.json().refresh_token).not.toBe(tokens.refresh_token);
+
+      // Revoking the refresh token ends the session, so its access tokens stop working too
+      const revoked = await server.inject({
+        method: 'POST',
+        url: '/oauth/revoke',
+        payload: { token: refreshed.json().refresh_token, client_id: client.clientId },
+      });
+      expect(revoked.statusCode).toBe(200);
+      const me = await server.inject({
+        method: 'GET',
+        url: '/auth/me',
+        headers: bearer(refreshed.json().access_token),
+      });
+      expect(me.statusCode).toBe(401);
+    });
+  });
+
+  describe('client credentials grant and introspection', () => {
+    it('should issue tokens to a confidential client until it is removed', async () => {
+      const service = await User.create({
+        name: 'Partner Service',
+        email: 'oauth-server-service@auth.test',
+      });
+      const { client, clientSecret } = await registerClient({
+        name: 'Test Partner',
+        grantTypes: ['client_credentials'],
+        userId: service.id,
+      });
+      const basic = (secret: string) => ({
+        Authorization: `Basic ${Buffer.from(`${client.clientId}:${secret}`).toString('base64')}`,
+      });
+
+      const wrongSecret = await tokenRequest({ grant_type: 'client_credentials' }, basic('nope'));
+      expect(wrongSecret.statusCode).toBe(401);
+      expect(wrongSecret.json().error).toBe('invalid_client');
+
+      const response = await tokenRequest(
+        { grant_type: 'client_credentials' },
+        basic(clientSecret)
+      );
+      const { access_token: accessToken, refresh_token: refreshToken } = response.json();
+      expect(refreshToken).toBeUndefined();
+
+      const introspect = () =>
+        server.inject({
+          method: 'POST',
+          url: '/oauth/introspect',
+          headers: basic(clientSecret),
+          payload: { token: accessToken },
+        });
+      expect((await introspect()).json()).toMatchObject({
+        active: true,
+        client_id: client.clientId,
+        sub: String(service.id),
+        scope: 'read',
+      });
+
+      await server.inject({
+        method: 'DELETE',
+        url: `/api/admin/oauth-clients/${client.id}`,
+        headers: bearer(adminToken),
+      });
+      expect(
+        await AuditEvent.count({
+          where: { action: 'oauth_client.revoked', targetId: String(client.id) },
+        })
+      ).toBe(1);
+      const me = await server.inject({
+        method: 'GET',
+        url: '/auth/me',
+        headers: bearer(accessToken),
+      });
+      expect(me.statusCode).toBe(401);
+    });
+  });
+
+  describe('consents', () => {
+    it('should list allowed applications and revoke their access', async () => {
+      const { client } = await registerClient({
+        grantTypes: ['authorization_code'],
+        redirectUris: [REDIRECT_URI],
+        confidential: false,
+      });
+      const tokens = await signInWith(client.clientId);
+
+      const list = await server.inject({
+        method: 'GET',
+        url: '/oauth/consents',
+        headers: bearer(userToken),
+      });
+      expect(list.json().consents).toEqual([
+        expect.objectContaining({ clientId: client.clientId, scopes: ['read'] }),
+      ]);
+
+      // Tokens of a client cannot manage consents themselves
+      const delegated = await server.inject({
+        method: 'GET',
+        url: '/oauth/consents',
+        headers: bearer(tokens.access_token),
+      });
+      expect(delegated.statusCode).toBe(403);
+
+      const revoke = await server.inject({
+        method: 'DELETE',
+        url: `/oauth/consents/${client.clientId}`,
+        headers: bearer(userToken),
+      });
+      expect(revoke.statusCode).toBe(200);
+
+      const me = await server.inject({
+        method: 'GET',
+        url: '/auth/me',
+        headers: bearer(tokens.access_token),
+      });
+      expect(me.statusCode).toBe(401);
+    });
+  });
+});
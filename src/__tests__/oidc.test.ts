@@ -0,0 +1,397 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import Fastify, { FastifyInstance } from 'fastify';
+import { createHash, generateKeyPairSync, sign, type KeyObject } from 'crypto';
+import {
+  clearOidcCache,
+  discoverOidcConfiguration,
+  fetchOidcUserInfo,
+  IdTokenNonceMismatchError,
+  mapOidcClaims,
+  verifyIdToken,
+} from '../utils/oidc.js';
+
+/**
+ * Stub OpenID Connect issuer serving a discovery document and a JWKS
+ */
+describe('OpenID Connect', () => {
+  const clientId = 'stub-client';
+  const rsa = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const ec = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+  const rogue = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const rotated = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const jwks: object[] = [];
+  // Authorization codes handed out by the stub, with the PKCE challenge and ID token claims
+  const codes = new Map<string, { challenge: string; claims: Record<string, unknown> }>();
+  let stub: FastifyInstance;
+  let issuer: string;
+
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+  const signIdToken = (
+    claims: Record<string, unknown>,
+    { alg = 'RS256', kid = 'rsa-key', key = rsa.privateKey as KeyObject } = {}
+  ) => {
+    const now = Math.floor(Date.now() / 1000);
+    const header = encode({ alg, kid, typ: 'JWT' });
+    const payload = encode({
+      iss: issuer,
+      aud: clientId,
+      sub: 'user-123',
+      iat: now,
+      exp: now + 300,
+      email: 'oidc-user@example.com',
+      email_verified: true,
+      name: 'OIDC User',
+      ...claims,
+    });
+    const signature = sign(
+      'sha256',
+      Buffer.from(`${header}.${payload}`),
+      alg.startsWith('ES') ? { key, dsaEncoding: 'ieee-p1363' } : key
+    );
+    return `${header}.${payload}.${signature.toString('base64url')}`;
+  };
+
+  beforeAll(async () => {
+    stub = Fastify();
+
+    stub.get('/.well-known/openid-configuration', async () => ({
+      issuer,
+      authorization_endpoint: `${issuer}/authorize`,
+      token_endpoint: `${issuer}/token`,
+      jwks_uri: `${issuer}/jwks`,
+      code_challenge_methods_supported: ['S256'],
+    }));
+
+    stub.addContentTypeParser(
+      'application/x-www-form-urlencoded',
+      { parseAs: 'string' },
+      (_request, body, done) => done(null, Object.fromEntries(new URLSearchParams(body as string)))
+    );
+
+    stub.post<{ Body: Record<string, string> }>('/token', async (request, reply) => {
+      const grant = codes.get(request.body.code);
+      const challenge = createHash('sha256')
+        .update(request.body.code_verifier || '')
+        .digest('base64url');
+
+      if (!grant || grant.challenge !== challenge) {
+        return reply.code(400).send({ error: 'invalid_grant' });
+      }
+
+      return {
+        access_token: 'stub-access-token',
+        token_type: 'Bearer',
+        expires_in: 3600,
+        id_token: signIdToken(grant.claims),
+      };
+    });
+
+    stub.get('/jwks', async () => ({ keys: jwks }));
+
+    issuer = await stub.listen({ port: 0, host: '127.0.0.1' });
+  });
+
+  beforeEach(() => {
+    clearOidcCache();
+    jwks.splice(
+      0,
+      jwks.length,
+      { ...rsa.publicKey.export({ format: 'jwk' }), kid: 'rsa-key', use: 'sig', alg: 'RS256' },
+      { ...ec.publicKey.export({ format: 'jwk' }), kid: 'ec-key', use: 'sig', alg: 'ES256' }
+    );
+  });
+
+  afterAll(async () => {
+    await stub.close();
+  });
+
+  describe('discoverOidcConfiguration', () => {
+    it('should read the discovery document', async () => {
+      const document = await discoverOidcConfiguration(issuer);
+
+      expect(document.issuer).toBe(issuer);
+      expect(document.jwks_uri).toBe(`${issuer}/jwks`);
+    });
+
+    it('should reject a document for another issuer', async () => {
+      await expect(discoverOidcConfiguration(`${issuer}/other`)).rejects.toThrow();
+    });
+  });
+
+  describe('verifyIdToken', () => {
+    it('should verify an RS256 ID token', async () => {
+      const claims = await verifyIdToken(signIdToken({}), { issuer, clientId });
+
+      expect(claims.sub).toBe('user-123');
+      expect(claims.email).toBe('oidc-user@example.com');
+    });
+
+    it('should verify an ES256 ID token', async () => {
+      const token = signIdToken({}, { alg: 'ES256', kid: 'ec-key', key: ec.privateKey });
+
+      const claims = await verifyIdToken(token, { issuer, clientId });
+
+      expect(claims.sub).toBe('user-123');
+    });
+
+    it('should reject a token signed with an unknown key', async () => {
+      const token = signIdToken({}, { key: rogue.privateKey });
+
+      await expect(verifyIdToken(token, { issuer, clientId })).rejects.toThrow(
+        'Invalid ID token signature'
+      );
+    });
+
+    it('should refetch the JWKS when the issuer rotates its keys', async () => {
+      await verifyIdToken(signIdToken({}), { issuer, clientId });
+      jwks.push({ ...rotated.publicKey.export({ format: 'jwk' }), kid: 'rotated-key' });
+
+      const token = signIdToken({}, { kid: 'rotated-key', key: rotated.privateKey });
+      const claims = await verifyIdToken(token, { issuer, clientId });
+
+      expect(claims.sub).toBe('user-123');
+    });
+
+    it('should reject unsigned tokens', async () => {
+      const [, payload] = signIdToken({}).split('.');
+      const token = `${encode({ alg: 'none' })}.${payload}.`;
+
+      await expect(verifyIdToken(token, { issuer, clientId })).rejects.toThrow(
+        'Unsupported ID token algorithm: none'
+      );
+    });
+
+    it('should reject a token for another client', async () => {
+      const token = signIdToken({ aud: 'another-client' });
+
+      await expect(verifyIdToken(token, { issuer, clientId })).rejects.toThrow(
+        'ID token audience mismatch'
+      );
+    });
+
+    it('should reject a token from another issuer', async () => {
+      const token = signIdToken({ iss: 'https://evil.example.com' });
+
+      await expect(verifyIdToken(token, { issuer, clientId })).rejects.toThrow(
+        'ID token issuer mismatch'
+      );
+    });
+
+    it('should reject a token with another nonce', async () => {
+      const token = signIdToken({ nonce: 'other' });
+
+      await expect(verifyIdToken(token, { issuer, clientId, nonce: 'expected' })).rejects.toThrow(
+        IdTokenNonceMismatchError
+      );
+    });
+
+    it('should reject an expired token', async () => {
+      const token = signIdToken({ exp: Math.floor(Date.now() / 1000) - 3600 });
+
+      await expect(verifyIdToken(token, { issuer, clientId })).rejects.toThrow(
+        'ID token has expired'
+      );
+    });
+  });
+
+  describe('mapOidcClaims', () => {
+    it('should map standard claims into user info', () => {
+      const userInfo = mapOidcClaims({
+        iss: issuer,
+        sub: 'abc',
+        aud: clientId,
+        exp: 0,
+        iat: 0,
+        email: 'person@example.com',
+        email_verified: false,
+        preferred_username: 'person',
+      });
+
+      expect(userInfo).toEqual({
+        id: 'abc',
+        email: 'person@example.com',
+        emailVerified: false,
+        name: 'person',
+        picture: undefined,
+      });
+    });
+
+    it('should throw when there is no email claim', () => {
+      expect(() =>
+        mapOidcClaims({ iss: issuer, sub: 'abc', aud: clientId, exp: 0, iat: 0 })
+      ).toThrow('No email claim in ID token');
+    });
+  });
+
+  describe('authorization code flow', () => {
+    let server: FastifyInstance;
+
+    // Start a flow and let the stub issue a code for the resulting authorization request
+    const startFlow = async (query = '', claims: Record<string, unknown> = {}) => {
+      const response = await server.inject({ method: 'GET', url: `/auth/oidc${query}` });
+      const location = new URL(response.headers.location as string);
+      const cookies = Object.fromEntries(response.cookies.map((c) => [c.name, c.value]));
+      const code = `code-${codes.size}`;
+
+      codes.set(code, {
+        challenge: location.searchParams.get('code_challenge')!,
+        claims: {
+          email: 'oidc-flow@auth.test',
+          nonce: location.searchParams.get('nonce'),
+          ...claims,
+        },
+      });
+
+      return { response, location, cookies, code, state: location.searchParams.get('state')! };
+    };
+
+    beforeAll(async () => {
+      process.env.OIDC_ISSUER_URL = issuer;
+      process.env.OIDC_CLIENT_ID = clientId;
+      process.env.OIDC_CLIENT_SECRET = 'stub-secret';
+
+      // The provider configuration is read from the environment when the config is loaded
+      const { buildServer } = await import('../server.js');
+      const { default: authPlugin } = await import('../plugins/auth.js');
+      const { authRoutes } = await import('../routes/auth/index.js');
+
+      server = buildServer();
+      await server.register(authPlugin);
+      await server.register(authRoutes);
+      await server.ready();
+    });
+
+    afterAll(async () => {
+      const { User } = await import('../models/index.js');
+      const { sequelize } = await import('../database/connection.js');
+
+      await User.destroy({ where: { email: 'oidc-flow@auth.test' }, force: true });
+      await server.close();
+      await sequelize.close();
+    });
+
+    it('should redirect to the issuer with PKCE, state and nonce', async () => {
+      const { response, location, cookies } = await startFlow();
+
+      expect(response.statusCode).toBe(302);
+      expect(location.origin + location.pathname).toBe(`${issuer}/authorize`);
+      expect(location.searchParams.get('code_challenge_method')).toBe('S256');
+      expect(location.searchParams.get('nonce')).toBeTruthy();
+      expect(cookies.oauthState).toBe(location.searchParams.get('state'));
+      expect(cookies.oauthVerifier).toBeTruthy();
+    });
+
+    it('should sign in and return to the requested path', async () => {
+      const { cookies, code, state } = await startFlow('?returnTo=/dashboard');
+
+      const response = await server.inject({
+        method: 'GET',
+        url: `/auth/oidc/callback?code=${code}&state=${state}`,
+        cookies,
+      });
+
+      expect(response.statusCode).toBe(302);
+      expect(response.headers.location).toBe('/dashboard');
+      expect(response.cookies.map((c) => c.name)).toContain('accessToken');
+
+      // The sign-in is recorded with the request it came from
+      const { AuditEvent, User } = await import('../models/index.js');
+      const user = await User.findOne({ where: { email: 'oidc-flow@auth.test' } });
+      const event = await AuditEvent.findOne({
+        where: { action: 'auth.login', targetId: String(user!.id) },
+        order: [['id', 'DESC']],
+      });
+      expect(event).toMatchObject({
+        actorId: user!.id,
+        metadata: { provider: 'oidc' },
+        requestId: response.headers['x-request-id'],
+      });
+    });
+
+    it('should reject a returnTo URL outside the allowlist', async () => {
+      const response = await server.inject({
+        method: 'GET',
+        url: '/auth/oidc?returnTo=https://evil.example.com/',
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(response.json().detail).toBe('Return URL is not allowed');
+    });
+
+    it('should only accept same-site paths and allowlisted origins as returnTo', async () => {
+      const returnTo = async (value: string) =>
+        (
+          await server.inject({
+            method: 'GET',
+            url: `/auth/oidc?returnTo=${encodeURIComponent(value)}`,
+          })
+        ).statusCode;
+
+      expect(await returnTo('http://localhost:3000/settings')).toBe(302);
+      expect(await returnTo('//evil.example.com')).toBe(400);
+      expect(await returnTo('/\\evil.example.com')).toBe(400);
+      expect(await returnTo('javascript:alert(1)')).toBe(400);
+    });
+
+    it('should reject a state that does not match the state cookie', async () => {
+      const { cookies, code } = await startFlow();
+      const other = await startFlow();
+
+      const response = await server.inject({
+        method: 'GET',
+        url: `/auth/oidc/callback?code=${code}&state=${other.state}`,
+        cookies,
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(response.json().detail).toBe('Invalid or expired OAuth state, please sign in again');
+    });
+
+    it('should reject a callback without the PKCE verifier', async () => {
+      const { cookies, code, state } = await startFlow();
+
+      const response = await server.inject({
+        method: 'GET',
+        url: `/auth/oidc/callback?code=${code}&state=${state}`,
+        cookies: { oauthState: cookies.oauthState },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(response.json().detail).toBe('Missing PKCE code verifier, please sign in again');
+    });
+
+    it('should reject an ID token issued for another sign-in', async () => {
+      const { cookies, code, state } = await startFlow('', { nonce: 'replayed-nonce' });
+
+      const response = await server.inject({
+        method: 'GET',
+        url: `/auth/oidc/callback?code=${code}&state=${state}`,
+        cookies,
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(response.json().detail).toBe('ID token nonce does not match this sign-in');
+    });
+  });
+
+  describe('fetchOidcUserInfo', () => {
+    it('should verify the ID token of a sign-in and return user info', async () => {
+      const provider = {
+        name: 'oidc',
+        displayName: 'Stub',
+        clientId,
+        clientSecret: 'secret',
+        enabled: true,
+        scopes: ['openid', 'email'],
+        issuer,
+      };
+
+      const userInfo = await fetchOidcUserInfo(provider, signIdToken({}));
+
+      expect(userInfo.id).toBe('user-123');
+      expect(userInfo.emailVerified).toBe(true);
+      expect(userInfo.name).toBe('OIDC User');
+    });
+  });
+});
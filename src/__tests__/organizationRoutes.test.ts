@@ -0,0 +1,418 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { Op } from 'sequelize';
+import { buildServer } from '../server.js';
+import { sequelize } from '../database/connection.js';
+import { AuditEvent, Invitation, Organization, User } from '../models/index.js';
+import { authRoutes } from '../routes/auth/index.js';
+import { userRoutes } from '../routes/api/users/index.js';
+import { organizationRoutes, adminOrganizationRoutes } from '../routes/api/organizations/index.js';
+import authPlugin from '../plugins/auth.js';
+import rbacPlugin from '../plugins/rbac.js';
+
+type Method = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+describe('Organizations', () => {
+  const server = buildServer();
+  const tokens: Record<string, string> = {};
+  const users: Record<string, User> = {};
+
+  // Signs in through the dev endpoint so tokens are bound to a session
+  const login = async (name: string) => {
+    const response = await server.inject({
+      method: 'POST',
+      url: '/auth/dev/token',
+      payload: { email: `org-${name}@auth.test`, name },
+    });
+    const body = response.json();
+    tokens[name] = body.token;
+    users[name] = (await User.findByPk(body.user.id))!;
+  };
+
+  const as = (name: string, method: Method, url: string, payload?: object) =>
+    server.inject({ method, url, payload, headers: { Authorization: `Bearer ${tokens[name]}` } });
+
+  const invite = async (orgId: number, email: string, role = 'member') => {
+    const response = await as('owner', 'POST', `/api/organizations/${orgId}/invitations`, {
+      email,
+      role,
+    });
+    return response.json() as { invitation: { id: number }; token: string };
+  };
+
+  const cleanUp = async () => {
+    await Organization.destroy({ where: { slug: { [Op.like]: 'org-test-%' } } });
+    await User.destroy({ where: { email: { [Op.like]: 'org-%@auth.test' } }, force: true });
+  };
+
+  let orgId: number;
+
+  beforeAll(async () => {
+    await sequelize.authenticate();
+
+    await server.register(authPlugin);
+    await server.register(rbacPlugin);
+    await server.register(authRoutes);
+    await server.register(userRoutes, { prefix: '/api/users' });
+    await server.register(organizationRoutes, { prefix: '/api/organizations' });
+    await server.register(adminOrganizationRoutes, { prefix: '/api/admin/organizations' });
+    await server.ready();
+
+    await cleanUp();
+
+    for (const name of ['owner', 'manager', 'member', 'outsider']) {
+      await login(name);
+    }
+    const platformAdmin = await User.create({
+      name: 'Platform Admin',
+      email: 'org-platform-admin@auth.test',
+      role: 'admin',
+    });
+    // Not bound to a session, like an API client
+    tokens.platformAdmin = server.jwt.sign({
+      userId: platformAdmin.id,
+      email: platformAdmin.email,
+      role: platformAdmin.role,
+    });
+
+    const created = await as('owner', 'POST', '/api/organizations', {
+      name: 'Org Test Acme',
+      slug: 'org-test-acme',
+    });
+    orgId = created.json().id;
+
+    for (const [name, role] of [
+      ['manager', 'admin'],
+      ['member', 'member'],
+    ]) {
+      const { token } = await invite(orgId, `org-${name}@auth.test`, role);
+      await as(name, 'POST', '/api/organizations/invitations/accept', { token });
+    }
+  });
+
+  afterAll(async () => {
+    await cleanUp();
+    await sequelize.close();
+    await server.close();
+  });
+
+  describe('creating and listing', () => {
+    it('should make the creator the owner', async () => {
+      const response = await as('owner', 'GET', '/api/organizations');
+
+      expect(response.statusCode).toBe(200);
+      const organizations = response.json().organizations;
+      expect(organizations).toHaveLength(1);
+      expect(organizations[0]).toMatchObject({ slug: 'org-test-acme', role: 'owner' });
+    });
+
+    it('should derive the slug from the name and reject duplicates', async () => {
+      const created = await as('member', 'POST', '/api/organizations', { name: 'Org Test Béta' });
+      expect(created.statusCode).toBe(201);
+      expect(created.json().slug).toBe('org-test-beta');
+
+      const duplicate = await as('owner', 'POST', '/api/organizations', {
+        name: 'Another',
+        slug: 'org-test-beta',
+      });
+      expect(duplicate.statusCode).toBe(409);
+    });
+
+    it('should list members with their role', async () => {
+      const response = await as('member', 'GET', `/api/organizations/${orgId}/members`);
+
+      expect(response.statusCode).toBe(200);
+      const roles = Object.fromEntries(
+        response.json().members.map((m: { email: string; role: string }) => [m.email, m.role])
+      );
+      expect(roles).toEqual({
+        'org-owner@auth.test': 'owner',
+        'org-manager@auth.test': 'admin',
+        'org-member@auth.test': 'member',
+      });
+    });
+
+    it('should hide organizations from non-members', async () => {
+      const response = await as('outsider', 'GET', `/api/organizations/${orgId}`);
+
+      expect(response.statusCode).toBe(403);
+      expect(response.json().detail).toBe('You are not a member of this organization');
+    });
+
+    it('should let platform admins list every organization', async () => {
+      const denied = await as('member', 'GET', '/api/admin/organizations');
+      expect(denied.statusCode).toBe(403);
+
+      const response = await as('platformAdmin', 'GET', '/api/admin/organizations');
+      expect(response.statusCode).toBe(200);
+      const acme = response.json().organizations.find((o: { id: number }) => o.id === orgId);
+      expect(acme.memberCount).toBe(3);
+    });
+  });
+
+  describe('managing', () => {
+    it('should only let managers rename the organization', async () => {
+      const denied = await as('member', 'PATCH', `/api/organizations/${orgId}`, { name: 'Nope' });
+      expect(denied.statusCode).toBe(403);
+
+      const response = await as('manager', 'PATCH', `/api/organizations/${orgId}`, {
+        name: 'Org Test Acme Inc',
+      });
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toMatchObject({ name: 'Org Test Acme Inc', role: 'admin' });
+    });
+
+    it('should keep ownership changes to owners', async () => {
+      const promote = await as(
+        'manager',
+        'PATCH',
+        `/api/organizations/${orgId}/members/${users.member.id}`,
+        { role: 'owner' }
+      );
+      expect(promote.statusCode).toBe(403);
+
+      const demoteOwner = await as(
+        'manager',
+        'DELETE',
+        `/api/organizations/${orgId}/members/${users.owner.id}`
+      );
+      expect(demoteOwner.statusCode).toBe(403);
+    });
+
+    it('should never leave an organization without an owner', async () => {
+      const demote = await as(
+        'owner',
+        'PATCH',
+        `/api/organizations/${orgId}/members/${users.owner.id}`,
+        { role: 'member' }
+      );
+      expect(demote.statusCode).toBe(400);
+
+      const leave = await as('owner', 'POST', `/api/organizations/${orgId}/leave`);
+      expect(leave.statusCode).toBe(400);
+    });
+
+    it('should let owners delete only their organization', async () => {
+      const created = await as('owner', 'POST', '/api/organizations', { name: 'Org Test Temp' });
+      const tempId = created.json().id;
+
+      const denied = await as('manager', 'DELETE', `/api/organizations/${tempId}`);
+      expect(denied.statusCode).toBe(403);
+
+      const response = await as('owner', 'DELETE', `/api/organizations/${tempId}`);
+      expect(response.statusCode).toBe(200);
+      expect(await Organization.findByPk(tempId)).toBeNull();
+    });
+  });
+
+  describe('invitations', () => {
+    it('should store only a hash of the token', async () => {
+      const { invitation, token } = await invite(orgId, 'org-newcomer@auth.test');
+
+      const stored = await Invitation.findByPk(invitation.id);
+      expect(stored!.tokenHash).not.toBe(token);
+      expect(stored!.tokenHash).toHaveLength(64);
+    });
+
+    it('should not let members invite', async () => {
+      const response = await as('member', 'POST', `/api/organizations/${orgId}/invitations`, {
+        email: 'org-other@auth.test',
+      });
+      expect(response.statusCode).toBe(403);
+    });
+
+    it('should reject tokens sent to another email address', async () => {
+      const { token } = await invite(orgId, 'org-someone-else@auth.test');
+
+      const response = await as('outsider', 'POST', '/api/organizations/invitations/accept', {
+        token,
+      });
+      expect(response.statusCode).toBe(403);
+    });
+
+    it('should reject expired, revoked and reused tokens', async () => {
+      const expired = await invite(orgId, 'org-outsider@auth.test');
+      await Invitation.update(
+        { expiresAt: new Date(Date.now() - 1000) },
+        { where: { id: expired.invitation.id } }
+      );
+      const expiredResponse = await as(
+        'outsider',
+        'POST',
+        '/api/organizations/invitations/accept',
+        {
+          token: expired.token,
+        }
+      );
+      expect(expiredResponse.statusCode).toBe(400);
+      expect(expiredResponse.json().detail).toBe('This invitation has expired');
+
+      const revoked = await invite(orgId, 'org-outsider@auth.test');
+      const revoke = await as(
+        'owner',
+        'DELETE',
+        `/api/organizations/${orgId}/invitations/${revoked.invitation.id}`
+      );
+      expect(revoke.statusCode).toBe(200);
+      const revokedResponse = await as(
+        'outsider',
+        'POST',
+        '/api/organizations/invitations/accept',
+        {
+          token: revoked.token,
+        }
+      );
+      expect(revokedResponse.statusCode).toBe(400);
+
+      const valid = await invite(orgId, 'org-outsider@auth.test');
+      const accepted = await as('outsider', 'POST', '/api/organizations/invitations/accept', {
+        token: valid.token,
+      });
+      expect(accepted.statusCode).toBe(200);
+      expect(accepted.json().role).toBe('member');
+
+      const reused = await as('outsider', 'POST', '/api/organizations/invitations/accept', {
+        token: valid.token,
+      });
+      expect(reused.statusCode).toBe(400);
+    });
+
+    it('should list only pending invitations', async () => {
+      const response = await as('manager', 'GET', `/api/organizations/${orgId}/invitations`);
+
+      expect(response.statusCode).toBe(200);
+      const emails = response.json().invitations.map((i: { email: string }) => i.email);
+      expect(emails).toContain('org-newcomer@auth.test');
+      expect(emails).not.toContain('org-outsider@auth.test');
+    });
+  });
+
+  describe('active organization', () => {
+    it('should scope /api/users to the active organization', async () => {
+      const stranger = await User.create({ name: 'Stranger', email: 'org-stranger@auth.test' });
+
+      const switched = await as('member', 'PUT', '/auth/organization', { organizationId: orgId });
+      expect(switched.statusCode).toBe(200);
+      expect(switched.json().organizationId).toBe(orgId);
+      const scopedToken = switched.json().token;
+      expect(server.jwt.decode<{ org: number }>(scopedToken)!.org).toBe(orgId);
+
+      const headers = { Authorization: `Bearer ${scopedToken}` };
+      const list = await server.inject({ method: 'GET', url: '/api/users', headers });
+      expect(list.statusCode).toBe(200);
+      const emails = list.json().users.map((u: { email: string }) => u.email);
+      expect(emails).toContain('org-owner@auth.test');
+      expect(emails).not.toContain('org-stranger@auth.test');
+
+      const outside = await server.inject({
+        method: 'GET',
+        url: `/api/users/${stranger.id}`,
+        headers,
+      });
+      expect(outside.statusCode).toBe(404);
+    });
+
+    it('should only show fellow members once the active organization is cleared', async () => {
+      const loner = await User.create({ name: 'Loner', email: 'org-loner@auth.test' });
+
+      const cleared = await as('member', 'PUT', '/auth/organization', { organizationId: null });
+      expect(cleared.statusCode).toBe(200);
+      const headers = { Authorization: `Bearer ${cleared.json().token}` };
+
+      const list = await server.inject({ method: 'GET', url: '/api/users', headers });
+      expect(list.statusCode).toBe(200);
+      const emails = list.json().users.map((u: { email: string }) => u.email);
+      expect(emails).toContain('org-owner@auth.test');
+      expect(emails).toContain('org-member@auth.test');
+      expect(emails).not.toContain('org-loner@auth.test');
+
+      const outside = await server.inject({
+        method: 'GET',
+        url: `/api/users/${loner.id}`,
+        headers,
+      });
+      expect(outside.statusCode).toBe(404);
+
+      // users:read still sees everyone
+      const everyone = await as('platformAdmin', 'GET', `/api/users/${loner.id}`);
+      expect(everyone.statusCode).toBe(200);
+    });
+
+    it('should refuse organizations the user does not belong to', async () => {
+      const created = await as('owner', 'POST', '/api/organizations', { name: 'Org Test Private' });
+
+      const response = await as('member', 'PUT', '/auth/organization', {
+        organizationId: created.json().id,
+      });
+      expect(response.statusCode).toBe(403);
+    });
+
+    it('should require a session to switch', async () => {
+      const response = await as('platformAdmin', 'PUT', '/auth/organization', {
+        organizationId: null,
+      });
+      expect(response.statusCode).toBe(403);
+    });
+
+    it('should stop scoping once the member is removed', async () => {
+      const switched = await as('manager', 'PUT', '/auth/organization', { organizationId: orgId });
+      const scopedToken = switched.json().token;
+
+      const removed = await as(
+        'owner',
+        'DELETE',
+        `/api/organizations/${orgId}/members/${users.manager.id}`
+      );
+      expect(removed.statusCode).toBe(200);
+
+      const response = await server.inject({
+        method: 'GET',
+        url: '/api/users',
+        headers: { Authorization: `Bearer ${scopedToken}` },
+      });
+      expect(response.statusCode).toBe(403);
+    });
+  });
+
+  describe('audit log', () => {
+    const eventsOf = (action: string) =>
+      AuditEvent.findAll({ where: { action, targetId: String(orgId) }, order: [['id', 'ASC']] });
+
+    it('should record membership and invitation changes', async () => {
+      const accepted = await eventsOf('organization.invitation_accepted');
+      expect(accepted.map((event) => [event.actorId, event.metadata])).toEqual(
+        expect.arrayContaining([
+          [users.manager.id, { role: 'admin' }],
+          [users.member.id, { role: 'member' }],
+        ])
+      );
+
+      const { invitation } = await invite(orgId, 'org-audited@auth.test', 'admin');
+      await as('owner', 'DELETE', `/api/organizations/${orgId}/invitations/${invitation.id}`);
+      const [created] = (await eventsOf('organization.invitation_created')).slice(-1);
+      expect(created.actorId).toBe(users.owner.id);
+      expect(created.metadata).toEqual({
+        invitationId: invitation.id,
+        email: 'org-audited@auth.test',
+        role: 'admin',
+      });
+      const [revoked] = (await eventsOf('organization.invitation_revoked')).slice(-1);
+      expect(revoked.metadata).toEqual({ invitationId: invitation.id });
+
+      await as('owner', 'PATCH', `/api/organizations/${orgId}/members/${users.member.id}`, {
+        role: 'admin',
+      });
+      const [changed] = await eventsOf('organization.member_role_changed');
+      expect(changed.before).toEqual({ role: 'member' });
+      expect(changed.after).toEqual({ role: 'admin' });
+      expect(changed.metadata).toEqual({ userId: users.member.id });
+
+      const [removed] = await eventsOf('organization.member_removed');
+      expect(removed.actorId).toBe(users.owner.id);
+      expect(removed.metadata).toEqual({ userId: users.manager.id });
+
+      await as('outsider', 'POST', `/api/organizations/${orgId}/leave`);
+      const [left] = await eventsOf('organization.member_left');
+      expect(left.actorId).toBe(users.outsider.id);
+    });
+  });
+});
@@ -0,0 +1,408 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { Op } from 'sequelize';
+import { buildServer } from '../server.js';
+import { sequelize } from '../database/connection.js';
+import { config } from '../config/index.js';
+import { AuditEvent, Session, User, UserIdentity, WebAuthnCredential } from '../models/index.js';
+import { authRoutes } from '../routes/auth/index.js';
+import { passwordRoutes } from '../routes/auth/password.js';
+import authPlugin from '../plugins/auth.js';
+import { listCapturedMail } from '../mailer/index.js';
+import { signInWithIdentity } from '../utils/identities.js';
+import { consumeMagicLink, createMagicLink } from '../utils/magicLinks.js';
+import { createSession } from '../utils/sessions.js';
+import { createApiKey, listApiKeys } from '../utils/apiKeys.js';
+import {
+  checkPasswordPolicy,
+  hashPassword,
+  needsRehash,
+  verifyPassword,
+} from '../utils/passwords.js';
+
+const PASSWORD = 'correct horse battery';
+
+describe('Password authentication', () => {
+  const server = buildServer();
+
+  const post = (url: string, payload: object, token?: string) =>
+    server.inject({
+      method: 'POST',
+      url,
+      payload,
+      ...(token && { headers: { Authorization: `Bearer ${token}` } }),
+    });
+
+  const tokenFromMailTo = (email: string) => {
+    const mail = listCapturedMail().find((captured) => captured.to === email)!;
+    return new URL(mail.text.match(/https?:\/\/\S+/)![0]).searchParams.get('token')!;
+  };
+
+  // Register an account, open the verification link and sign in
+  const register = async (email: string, password = PASSWORD) => {
+    const response = await post('/auth/register', { email, password });
+    expect(response.statusCode).toBe(201);
+
+    const verify = await post('/auth/verify-email', { token: tokenFromMailTo(email) });
+    expect(verify.statusCode).toBe(200);
+
+    const login = await post('/auth/login', { email, password });
+    expect(login.statusCode).toBe(200);
+    return login.json();
+  };
+
+  beforeAll(async () => {
+    await sequelize.authenticate();
+
+    await server.register(authPlugin);
+    await server.register(authRoutes);
+    await server.register(passwordRoutes);
+    await server.ready();
+  });
+
+  beforeEach(async () => {
+    await User.destroy({ where: { email: { [Op.like]: 'password-%@auth.test' } }, force: true });
+  });
+
+  afterAll(async () => {
+    await User.destroy({ where: { email: { [Op.like]: 'password-%@auth.test' } }, force: true });
+    await server.close();
+  });
+
+  describe('hashing and policy', () => {
+    it('should hash with scrypt and verify in both directions', async () => {
+      const hash = await hashPassword(PASSWORD);
+
+      expect(hash).toMatch(/^scrypt\$32768\$8\$1\$/);
+      expect(hash).not.toContain(PASSWORD);
+      expect(needsRehash(hash)).toBe(false);
+      expect(await verifyPassword(PASSWORD, hash)).toBe(true);
+      expect(await verifyPassword('wrong password', hash)).toBe(false);
+      expect(await hashPassword(PASSWORD)).not.toBe(hash);
+    });
+
+    it('should reject weak passwords', () => {
+      expect(checkPasswordPolicy('short', 'jane@example.com')).toEqual({
+        rule: 'too_short',
+        minLength: config.passwordAuth.minLength,
+      });
+      expect(checkPasswordPolicy('a'.repeat(200), 'jane@example.com')).toMatchObject({
+        rule: 'too_long',
+      });
+      expect(checkPasswordPolicy('password1234', 'jane@example.com')).toEqual({
+        rule: 'too_common',
+      });
+      expect(checkPasswordPolicy('abababababab', 'jane@example.com')).toEqual({
+        rule: 'too_common',
+      });
+      expect(checkPasswordPolicy('my name is janedoe!', 'janedoe@example.com')).toEqual({
+        rule: 'contains_email',
+      });
+      expect(checkPasswordPolicy(PASSWORD, 'jane@example.com')).toBeNull();
+    });
+  });
+
+  describe('POST /auth/register', () => {
+    it('should create an unverified account that signs in once the emailed link is opened', async () => {
+      const response = await post('/auth/register', {
+        email: 'Password-New@auth.test',
+        password: PASSWORD,
+      });
+      expect(response.statusCode).toBe(201);
+      expect(response.json()).not.toHaveProperty('token');
+
+      const user = await User.findOne({ where: { email: 'password-new@auth.test' } });
+      expect(user!.passwordHash).toMatch(/^scrypt\$/);
+      expect(user!.emailVerifiedAt).toBeNull();
+      expect(JSON.stringify(user)).not.toContain('scrypt');
+
+      const credentials = { email: 'password-new@auth.test', password: PASSWORD };
+      const early = await post('/auth/login', credentials);
+      expect(early.statusCode).toBe(403);
+      expect(early.json().code).toBe('EMAIL_NOT_VERIFIED');
+
+      const verify = await post('/auth/verify-email', {
+        token: tokenFromMailTo('password-new@auth.test'),
+      });
+      expect(verify.statusCode).toBe(200);
+      await user!.reload();
+      expect(user!.emailVerifiedAt).toBeInstanceOf(Date);
+
+      const login = await post('/auth/login', credentials);
+      expect(login.statusCode).toBe(200);
+
+      const resend = await post('/auth/verify-email/resend', {}, login.json().token);
+      expect(resend.statusCode).toBe(409);
+    });
+
+    it('should enforce the password policy with a localized message', async () => {
+      const response = await server.inject({
+        method: 'POST',
+        url: '/auth/register',
+        headers: { 'Accept-Language': 'fr' },
+        payload: { email: 'password-weak@auth.test', password: 'short' },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(response.json().detail).toBe(
+        `Le mot de passe doit contenir au moins ${config.passwordAuth.minLength} caractères`
+      );
+    });
+
+    it('should refuse an email that already has an account', async () => {
+      await User.create({ name: 'OAuth User', email: 'password-oauth@auth.test' });
+
+      const response = await post('/auth/register', {
+        email: 'password-oauth@auth.test',
+        password: PASSWORD,
+      });
+
+      expect(response.statusCode).toBe(409);
+    });
+  });
+
+  describe('POST /auth/login', () => {
+    it('should sign in with the right password only', async () => {
+      await register('password-login@auth.test');
+
+      const wrong = await post('/auth/login', {
+        email: 'password-login@auth.test',
+        password: 'not the password',
+      });
+      expect(wrong.statusCode).toBe(401);
+
+      const unknown = await post('/auth/login', {
+        email: 'password-unknown@auth.test',
+        password: PASSWORD,
+      });
+      expect(unknown.statusCode).toBe(401);
+      expect(unknown.json().detail).toBe(wrong.json().detail);
+
+      const response = await post('/auth/login', {
+        email: 'PASSWORD-login@auth.test',
+        password: PASSWORD,
+      });
+      expect(response.statusCode).toBe(200);
+      expect(response.json().refreshToken).toBeDefined();
+
+      const login = await AuditEvent.findOne({
+        where: { action: 'auth.login', targetId: String(response.json().user.id) },
+      });
+      expect(login!.metadata).toEqual({ method: 'password' });
+    });
+
+    it('should lock the account after repeated failures', async () => {
+      await register('password-locked@auth.test');
+      const attempt = (password: string) =>
+        post('/auth/login', { email: 'password-locked@auth.test', password });
+
+      for (let i = 1; i < config.passwordAuth.maxAttempts; i++) {
+        expect((await attempt('not the password')).statusCode).toBe(401);
+      }
+      const locked = await attempt('not the password');
+      expect(locked.statusCode).toBe(423);
+      expect(Number(locked.headers['retry-after'])).toBe(config.passwordAuth.lockoutDuration);
+
+      // Even the right password is refused while locked
+      expect((await attempt(PASSWORD)).statusCode).toBe(423);
+
+      // The lockout itself is audited once
+      const user = await User.findOne({ where: { email: 'password-locked@auth.test' } });
+      const lockouts = await AuditEvent.findAll({
+        where: { action: 'auth.locked', targetId: String(user!.id) },
+      });
+      expect(lockouts.map((event) => event.metadata)).toEqual([
+        { method: 'password', retryAfter: config.passwordAuth.lockoutDuration },
+      ]);
+
+      await User.update(
+        { lockedUntil: new Date(Date.now() - 1000) },
+        { where: { email: 'password-locked@auth.test' } }
+      );
+      expect((await attempt(PASSWORD)).statusCode).toBe(200);
+    });
+  });
+
+  describe('accounts registered before their owner', () => {
+    // Someone registers the address of a person who has no account yet and sets up their
+    // own ways back in. Sessions of such accounts are no longer issued, but may predate
+    // the verification requirement.
+    const preRegister = async (email: string) => {
+      const response = await post('/auth/register', { email, password: PASSWORD });
+      expect(response.statusCode).toBe(201);
+
+      const user = (await User.findOne({ where: { email } }))!;
+      await createSession(user.id, { userAgent: 'squatter' });
+      await createApiKey(user.id, { name: 'squatter', scopes: ['read', 'write'] });
+      await WebAuthnCredential.create({
+        userId: user.id,
+        credentialId: `squatter-${user.id}`,
+        publicKey: 'squatter-public-key',
+        algorithm: -7,
+        signCount: 0,
+        transports: [],
+        name: 'Squatter passkey',
+      });
+      await UserIdentity.create({
+        userId: user.id,
+        provider: 'github',
+        providerUserId: `squatter-${user.id}`,
+        email,
+      });
+      return user;
+    };
+
+    it('should not link a provider to an account whose email was never verified', async () => {
+      const user = await preRegister('password-squatted@auth.test');
+
+      const result = await signInWithIdentity(
+        'google',
+        {
+          id: 'g-squatted',
+          email: 'password-squatted@auth.test',
+          emailVerified: true,
+          name: 'Owner',
+        },
+        { accessToken: 'provider-access-token' },
+        'verified'
+      );
+      expect(result).toEqual({ status: 'confirmation_required', userId: user.id });
+      expect(await UserIdentity.count({ where: { provider: 'google', userId: user.id } })).toBe(0);
+    });
+
+    it('should remove every credential when the owner opens a magic link', async () => {
+      const user = await preRegister('password-squatted-link@auth.test');
+
+      const link = await createMagicLink('password-squatted-link@auth.test');
+      expect(link.status).toBe('created');
+      const result = await consumeMagicLink((link as { token: string }).token);
+      expect(result).toMatchObject({ status: 'signed_in', created: false });
+
+      await user.reload();
+      expect(user.emailVerifiedAt).toBeInstanceOf(Date);
+      expect(user.passwordHash).toBeNull();
+      expect(
+        await Session.count({ where: { userId: user.id, revokedAt: { [Op.is]: null } } })
+      ).toBe(0);
+      expect(await listApiKeys(user.id)).toHaveLength(0);
+      expect(await WebAuthnCredential.count({ where: { userId: user.id } })).toBe(0);
+      expect(await UserIdentity.count({ where: { userId: user.id } })).toBe(0);
+
+      const login = await post('/auth/login', { email: user.email, password: PASSWORD });
+      expect(login.statusCode).toBe(401);
+    });
+
+    it('should remove every credential when the owner resets the password', async () => {
+      const user = await preRegister('password-squatted-reset@auth.test');
+
+      await post('/auth/password/forgot', { email: 'password-squatted-reset@auth.test' });
+      const reset = await post('/auth/password/reset', {
+        token: tokenFromMailTo('password-squatted-reset@auth.test'),
+        password: 'the owner chose this one',
+      });
+      expect(reset.statusCode).toBe(200);
+
+      await user.reload();
+      expect(user.emailVerifiedAt).toBeInstanceOf(Date);
+      expect(
+        await Session.count({ where: { userId: user.id, revokedAt: { [Op.is]: null } } })
+      ).toBe(0);
+      expect(await listApiKeys(user.id)).toHaveLength(0);
+      expect(await WebAuthnCredential.count({ where: { userId: user.id } })).toBe(0);
+      expect(await UserIdentity.count({ where: { userId: user.id } })).toBe(0);
+
+      const login = await post('/auth/login', {
+        email: user.email,
+        password: 'the owner chose this one',
+      });
+      expect(login.statusCode).toBe(200);
+    });
+  });
+
+  describe('PUT /auth/password', () => {
+    it('should change the password and sign out other sessions', async () => {
+      const { token } = await register('password-change@auth.test');
+      const other = await post('/auth/login', {
+        email: 'password-change@auth.test',
+        password: PASSWORD,
+      });
+
+      const change = (currentPassword: string) =>
+        server.inject({
+          method: 'PUT',
+          url: '/auth/password',
+          headers: { Authorization: `Bearer ${token}` },
+          payload: { currentPassword, newPassword: 'a brand new passphrase' },
+        });
+
+      expect((await change('not the password')).statusCode).toBe(400);
+      expect((await change(PASSWORD)).statusCode).toBe(200);
+
+      const user = await User.findOne({ where: { email: 'password-change@auth.test' } });
+      const active = await Session.count({
+        where: { userId: user!.id, revokedAt: { [Op.is]: null } },
+      });
+      expect(active).toBe(1);
+      expect(
+        await AuditEvent.count({
+          where: { action: 'auth.password_changed', targetId: String(user!.id) },
+        })
+      ).toBe(1);
+
+      const me = await server.inject({
+        method: 'GET',
+        url: '/auth/me',
+        headers: { Authorization: `Bearer ${other.json().token}` },
+      });
+      expect(me.statusCode).toBe(401);
+
+      const login = await post('/auth/login', {
+        email: 'password-change@auth.test',
+        password: 'a brand new passphrase',
+      });
+      expect(login.statusCode).toBe(200);
+    });
+  });
+
+  describe('password reset', () => {
+    it('should let an account without a password set one through an emailed link, once', async () => {
+      await User.create({ name: 'OAuth User', email: 'password-reset@auth.test' });
+
+      const forgot = await post('/auth/password/forgot', { email: 'password-reset@auth.test' });
+      expect(forgot.statusCode).toBe(200);
+      const token = tokenFromMailTo('password-reset@auth.test');
+
+      const reset = await post('/auth/password/reset', { token, password: PASSWORD });
+      expect(reset.statusCode).toBe(200);
+
+      const user = await User.findOne({ where: { email: 'password-reset@auth.test' } });
+      expect(user!.emailVerifiedAt).toBeInstanceOf(Date);
+      const audit = await AuditEvent.findOne({
+        where: { action: 'auth.password_reset', targetId: String(user!.id) },
+      });
+      expect(audit!.actorId).toBe(user!.id);
+
+      const login = await post('/auth/login', {
+        email: 'password-reset@auth.test',
+        password: PASSWORD,
+      });
+      expect(login.statusCode).toBe(200);
+
+      const reused = await post('/auth/password/reset', {
+        token,
+        password: 'another good passphrase',
+      });
+      expect(reused.statusCode).toBe(400);
+    });
+
+    it('should answer the same for unknown addresses', async () => {
+      const known = await post('/auth/password/forgot', { email: 'password-reset@auth.test' });
+      const unknown = await post('/auth/password/forgot', { email: 'password-nobody@auth.test' });
+
+      expect(unknown.statusCode).toBe(200);
+      expect(unknown.json()).toEqual(known.json());
+      expect(listCapturedMail().some((mail) => mail.to === 'password-nobody@auth.test')).toBe(
+        false
+      );
+    });
+  });
+});
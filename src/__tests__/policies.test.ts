@@ -0,0 +1,180 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { Op } from 'sequelize';
+import { buildServer } from '../server.js';
+import { sequelize } from '../database/connection.js';
+import { Role, User } from '../models/index.js';
+import { userRoutes } from '../routes/api/users/index.js';
+import { adminRoutes } from '../routes/api/admin/index.js';
+import authPlugin from '../plugins/auth.js';
+import rbacPlugin from '../plugins/rbac.js';
+import { createRole } from '../utils/roles.js';
+
+describe('Resource policies', () => {
+  const server = buildServer();
+  const denials: object[] = [];
+  let admin: User;
+  let editor: User;
+  let member: User;
+  let target: User;
+
+  const tokenFor = (user: User) =>
+    server.jwt.sign({ userId: user.id, email: user.email, role: user.role });
+
+  const inject = (
+    user: User,
+    method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE',
+    url: string,
+    payload?: object
+  ) =>
+    server.inject({ method, url, payload, headers: { Authorization: `Bearer ${tokenFor(user)}` } });
+
+  const cleanUp = async () => {
+    await User.destroy({ where: { email: { [Op.like]: 'policy-%@auth.test' } }, force: true });
+    await Role.destroy({ where: { name: 'test-editor' } });
+  };
+
+  beforeAll(async () => {
+    await sequelize.authenticate();
+
+    // Capture denial logs of every request
+    server.addHook('onRequest', async (request) => {
+      const warn = request.log.warn.bind(request.log);
+      request.log.warn = ((obj: object, msg?: string) => {
+        if (msg === 'Access denied') denials.push(obj);
+        return warn(obj, msg);
+      }) as typeof request.log.warn;
+    });
+
+    await server.register(authPlugin);
+    await server.register(rbacPlugin);
+    await server.register(userRoutes, { prefix: '/api/users' });
+    await server.register(adminRoutes, { prefix: '/api/admin/users' });
+    await server.ready();
+
+    await cleanUp();
+    await createRole({ name: 'test-editor', permissions: ['users:write'] });
+
+    admin = await User.create({ name: 'Admin', email: 'policy-admin@auth.test', role: 'admin' });
+    editor = await User.create({
+      name: 'Editor',
+      email: 'policy-editor@auth.test',
+      role: 'test-editor',
+    });
+    member = await User.create({ name: 'Member', email: 'policy-member@auth.test' });
+  });
+
+  beforeEach(async () => {
+    denials.length = 0;
+    await User.destroy({ where: { email: 'policy-target@auth.test' }, force: true });
+    target = await User.create({ name: 'Target', email: 'policy-target@auth.test' });
+  });
+
+  afterAll(async () => {
+    await cleanUp();
+    await sequelize.close();
+    await server.close();
+  });
+
+  describe('owner or permission', () => {
+    it('should let the owner update their own account', async () => {
+      const response = await inject(target, 'PUT', `/api/users/${target.id}`, { name: 'Me' });
+
+      expect(response.statusCode).toBe(200);
+    });
+
+    it('should let roles with users:write update other users', async () => {
+      for (const user of [admin, editor]) {
+        const response = await inject(user, 'PUT', `/api/users/${target.id}`, { name: 'Edited' });
+        expect(response.statusCode).toBe(200);
+      }
+    });
+
+    it('should only let roles with users:delete delete other users', async () => {
+      const denied = await inject(editor, 'DELETE', `/api/users/${target.id}`);
+      expect(denied.statusCode).toBe(403);
+      expect(denied.json().detail).toBe('Insufficient permissions to delete this user');
+
+      const allowed = await inject(admin, 'DELETE', `/api/users/${target.id}`);
+      expect(allowed.statusCode).toBe(204);
+    });
+
+    it('should localize denials', async () => {
+      const response = await server.inject({
+        method: 'PUT',
+        url: `/api/users/${target.id}`,
+        headers: { Authorization: `Bearer ${tokenFor(member)}`, 'Accept-Language': 'fr' },
+        payload: { name: 'Nope' },
+      });
+
+      expect(response.statusCode).toBe(403);
+      expect(response.json().detail).toBe(
+        'Permissions insuffisantes pour modifier cet utilisateur'
+      );
+    });
+  });
+
+  describe('role assignment on create', () => {
+    it('should require users:write to create users with another role', async () => {
+      const denied = await inject(member, 'POST', '/api/users', {
+        name: 'Escalated',
+        email: 'policy-escalated@auth.test',
+        role: 'admin',
+      });
+      expect(denied.statusCode).toBe(403);
+      expect(denied.json().detail).toBe('Insufficient permissions to assign roles');
+
+      const allowed = await inject(editor, 'POST', '/api/users', {
+        name: 'Helper',
+        email: 'policy-helper@auth.test',
+        role: 'test-editor',
+      });
+      expect(allowed.statusCode).toBe(201);
+      expect(allowed.json().role).toBe('test-editor');
+    });
+
+    it('should let anyone create users with the default role', async () => {
+      const response = await inject(member, 'POST', '/api/users', {
+        name: 'Plain',
+        email: 'policy-plain@auth.test',
+        role: 'user',
+      });
+
+      expect(response.statusCode).toBe(201);
+    });
+
+    it('should reject unknown roles', async () => {
+      const response = await inject(admin, 'POST', '/api/users', {
+        name: 'Ghost',
+        email: 'policy-ghost@auth.test',
+        role: 'ghost',
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(response.json().detail).toBe('Role not found');
+    });
+  });
+
+  describe('denial logging', () => {
+    it('should log the action, user and resource of every denial', async () => {
+      await inject(member, 'DELETE', `/api/users/${target.id}`);
+      await inject(member, 'GET', '/api/admin/users');
+
+      expect(denials).toEqual([
+        expect.objectContaining({
+          action: 'users.delete',
+          userId: member.id,
+          role: 'user',
+          resourceId: target.id,
+        }),
+        expect.objectContaining({ action: 'admin.users.list', userId: member.id, role: 'user' }),
+      ]);
+    });
+
+    it('should not log allowed requests', async () => {
+      await inject(admin, 'GET', '/api/admin/users');
+      await inject(member, 'GET', `/api/users/${target.id}`);
+
+      expect(denials).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, vi } from 'vitest';
+import { sequelize } from '../database/connection.js';
+import { User, UserIdentity } from '../models/index.js';
+import { getProviderAccessToken } from '../utils/providerTokens.js';
+
+describe('Provider access tokens', () => {
+  let user: User;
+  let fetchMock: ReturnType<typeof vi.spyOn>;
+
+  const minutesFromNow = (minutes: number) => new Date(Date.now() + minutes * 60 * 1000);
+
+  const linkGoogle = (attributes: Partial<UserIdentity> = {}) =>
+    UserIdentity.create({
+      userId: user.id,
+      provider: 'google',
+      providerUserId: 'provider-tokens-test',
+      accessToken: 'old-access-token',
+      refreshToken: 'stored-refresh-token',
+      tokenExpiresAt: minutesFromNow(60),
+      ...attributes,
+    });
+
+  const tokenResponse = (status: number, body: object) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  beforeAll(async () => {
+    await sequelize.authenticate();
+    await User.destroy({ where: { email: 'provider-tokens@auth.test' }, force: true });
+    user = await User.create({ name: 'Provider Tokens', email: 'provider-tokens@auth.test' });
+  });
+
+  beforeEach(async () => {
+    await UserIdentity.destroy({ where: { userId: user.id } });
+    fetchMock = vi.spyOn(globalThis, 'fetch');
+  });
+
+  afterEach(() => {
+    fetchMock.mockRestore();
+  });
+
+  afterAll(async () => {
+    await User.destroy({ where: { email: 'provider-tokens@auth.test' }, force: true });
+    await sequelize.close();
+  });
+
+  it('should report providers the user has not linked', async () => {
+    const result = await getProviderAccessToken(user.id, 'github');
+
+    expect(result.status).toBe('not_linked');
+  });
+
+  it('should return the stored token while it is not close to expiry', async () => {
+    await linkGoogle();
+
+    const result = await getProviderAccessToken(user.id, 'google');
+
+    expect(result).toMatchObject({ status: 'valid', accessToken: 'old-access-token' });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('should return tokens without an expiry as is', async () => {
+    await linkGoogle({ tokenExpiresAt: null, refreshToken: null });
+
+    const result = await getProviderAccessToken(user.id, 'google');
+
+    expect(result).toEqual({ status: 'valid', accessToken: 'old-access-token', expiresAt: null });
+  });
+
+  it('should refresh a token near expiry and save the new values', async () => {
+    await linkGoogle({ tokenExpiresAt: minutesFromNow(1) });
+    fetchMock.mockResolvedValueOnce(
+      tokenResponse(200, {
+        access_token: 'new-access-token',
+        refresh_token: 'rotated-refresh-token',
+        expires_in: 3600,
+      })
+    );
+
+    const result = await getProviderAccessToken(user.id, 'google');
+
+    expect(result).toMatchObject({ status: 'valid', accessToken: 'new-access-token' });
+    const [url, init] = fetchMock.mock.calls[0] as [string, RequestInit];
+    expect(url).toBe('https://oauth2.googleapis.com/token');
+    expect((init.body as URLSearchParams).get('grant_type')).toBe('refresh_token');
+    expect((init.body as URLSearchParams).get('refresh_token')).toBe('stored-refresh-token');
+
+    const identity = await UserIdentity.findOne({ where: { userId: user.id } });
+    expect(identity!.accessToken).toBe('new-access-token');
+    expect(identity!.refreshToken).toBe('rotated-refresh-token');
+    expect(identity!.tokenExpiresAt!.getTime()).toBeGreaterThan(minutesFromNow(59).getTime());
+  });
+
+  it('should share one refresh between concurrent callers', async () => {
+    await linkGoogle({ tokenExpiresAt: minutesFromNow(-5) });
+    fetchMock.mockResolvedValueOnce(
+      tokenResponse(200, { access_token: 'new-access-token', expires_in: 3600 })
+    );
+
+    const results = await Promise.all([
+      getProviderAccessToken(user.id, 'google'),
+      getProviderAccessToken(user.id, 'google'),
+    ]);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(results.map((r) => r.status)).toEqual(['valid', 'valid']);
+  });
+
+  it('should clear tokens and require re-consent when the grant was revoked', async () => {
+    await linkGoogle({ tokenExpiresAt: minutesFromNow(-5) });
+    fetchMock.mockResolvedValueOnce(tokenResponse(400, { error: 'invalid_grant' }));
+
+    const result = await getProviderAccessToken(user.id, 'google');
+
+    expect(result.status).toBe('reconsent_required');
+    const identity = await UserIdentity.findOne({ where: { userId: user.id } });
+    expect(identity!.needsReconsent).toBe(true);
+    expect(identity!.accessToken).toBeNull();
+    expect(identity!.refreshToken).toBeNull();
+
+    // Later calls do not hit the provider again
+    expect((await getProviderAccessToken(user.id, 'google')).status).toBe('reconsent_required');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should require re-consent for an expired token without a refresh token', async () => {
+    await linkGoogle({ tokenExpiresAt: minutesFromNow(-5), refreshToken: null });
+
+    const result = await getProviderAccessToken(user.id, 'google');
+
+    expect(result.status).toBe('reconsent_required');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('should keep the stored tokens when the provider fails temporarily', async () => {
+    await linkGoogle({ tokenExpiresAt: minutesFromNow(1) });
+    fetchMock.mockResolvedValueOnce(tokenResponse(503, {}));
+
+    await expect(getProviderAccessToken(user.id, 'google')).rejects.toThrow(
+      'Failed to refresh google access token'
+    );
+
+    const identity = await UserIdentity.findOne({ where: { userId: user.id } });
+    expect(identity!.needsReconsent).toBe(false);
+    expect(identity!.refreshToken).toBe('stored-refresh-token');
+  });
+});
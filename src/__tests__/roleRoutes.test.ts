@@ -0,0 +1,320 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { Op } from 'sequelize';
+import { buildServer } from '../server.js';
+import { sequelize } from '../database/connection.js';
+import { Role, User } from '../models/index.js';
+import { adminRoutes } from '../routes/api/admin/index.js';
+import { roleRoutes } from '../routes/api/roles/index.js';
+import { userRoutes } from '../routes/api/users/index.js';
+import authPlugin from '../plugins/auth.js';
+import rbacPlugin from '../plugins/rbac.js';
+
+describe('Role management and permissions', () => {
+  const server = buildServer();
+  let adminToken: string;
+  let memberToken: string;
+  let member: User;
+
+  const tokenFor = (user: User) =>
+    server.jwt.sign({ userId: user.id, email: user.email, role: user.role });
+
+  const asAdmin = (method: 'GET' | 'POST' | 'PATCH' | 'DELETE', url: string, payload?: object) =>
+    server.inject({ method, url, payload, headers: { Authorization: `Bearer ${adminToken}` } });
+
+  const cleanUp = async () => {
+    await User.destroy({ where: { email: { [Op.like]: 'rbac-%@auth.test' } }, force: true });
+    await Role.destroy({ where: { name: { [Op.like]: 'test-%' } } });
+  };
+
+  beforeAll(async () => {
+    await sequelize.authenticate();
+
+    await server.register(authPlugin);
+    await server.register(rbacPlugin);
+    await server.register(adminRoutes, { prefix: '/api/admin/users' });
+    await server.register(roleRoutes, { prefix: '/api/admin/roles' });
+    await server.register(userRoutes, { prefix: '/api/users' });
+    await server.ready();
+
+    await cleanUp();
+
+    const admin = await User.create({
+      name: 'Admin',
+      email: 'rbac-admin@auth.test',
+      role: 'admin',
+    });
+    member = await User.create({ name: 'Member', email: 'rbac-member@auth.test' });
+
+    adminToken = tokenFor(admin);
+    memberToken = tokenFor(member);
+  });
+
+  afterAll(async () => {
+    await cleanUp();
+    await sequelize.close();
+    await server.close();
+  });
+
+  describe('seeded roles', () => {
+    it('should map users onto the built-in roles', async () => {
+      const response = await asAdmin('GET', '/api/admin/roles');
+
+      expect(response.statusCode).toBe(200);
+      const roles = response.json().roles as Array<{ name: string; permissions: string[] }>;
+      expect(roles.find((r) => r.name === 'user')!.permissions).toEqual([]);
+      expect(roles.find((r) => r.name === 'admin')!.permissions).toEqual(
+        expect.arrayContaining(['users:read', 'users:write', 'users:delete', 'roles:write'])
+      );
+      expect(member.role).toBe('user');
+    });
+
+    it('should list the available permissions', async () => {
+      const response = await asAdmin('GET', '/api/admin/roles/permissions');
+
+      expect(response.statusCode).toBe(200);
+      const names = response.json().permissions.map((p: { name: string }) => p.name);
+      expect(names).toContain('users:delete');
+    });
+  });
+
+  describe('requirePermission', () => {
+    it('should deny users whose role lacks the permission', async () => {
+      const response = await server.inject({
+        method: 'GET',
+        url: '/api/admin/users',
+        headers: { Authorization: `Bearer ${memberToken}`, 'Accept-Language': 'es' },
+      });
+
+      expect(response.statusCode).toBe(403);
+      expect(response.json().detail).toBe('No tiene permiso para realizar esta acción');
+    });
+
+    it('should require authentication', async () => {
+      const response = await server.inject({ method: 'GET', url: '/api/admin/roles' });
+
+      expect(response.statusCode).toBe(401);
+    });
+
+    it('should apply permissions from a custom role immediately', async () => {
+      const created = await asAdmin('POST', '/api/admin/roles', {
+        name: 'test-support',
+        description: 'Support staff',
+        permissions: ['users:read'],
+      });
+      expect(created.statusCode).toBe(201);
+      expect(created.json()).toMatchObject({ isSystem: false, permissions: ['users:read'] });
+
+      const assigned = await asAdmin('PATCH', `/api/admin/users/${member.id}/role`, {
+        role: 'test-support',
+      });
+      expect(assigned.statusCode).toBe(200);
+      expect(assigned.json().role).toBe('test-support');
+
+      // The token still carries the old role name, permissions come from the database
+      const headers = { Authorization: `Bearer ${memberToken}` };
+      const list = await server.inject({ method: 'GET', url: '/api/admin/users', headers });
+      expect(list.statusCode).toBe(200);
+
+      const remove = await server.inject({
+        method: 'DELETE',
+        url: `/api/admin/users/${member.id}`,
+        headers,
+      });
+      expect(remove.statusCode).toBe(403);
+
+      await asAdmin('PATCH', `/api/admin/roles/${created.json().id}`, { permissions: [] });
+      const denied = await server.inject({ method: 'GET', url: '/api/admin/users', headers });
+      expect(denied.statusCode).toBe(403);
+    });
+
+    it('should reject assigning a role that does not exist', async () => {
+      const response = await asAdmin('PATCH', `/api/admin/users/${member.id}/role`, {
+        role: 'superuser',
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(response.json().detail).toBe('Role not found');
+    });
+  });
+
+  describe('role assignment', () => {
+    // A user manager can write users but holds none of the other admin permissions
+    let manager: User;
+    let managerToken: string;
+
+    const asManager = (method: 'POST' | 'PATCH', url: string, payload: object) =>
+      server.inject({ method, url, payload, headers: { Authorization: `Bearer ${managerToken}` } });
+
+    beforeAll(async () => {
+      const created = await asAdmin('POST', '/api/admin/roles', {
+        name: 'test-user-manager',
+        permissions: ['users:read', 'users:write'],
+      });
+      expect(created.statusCode).toBe(201);
+
+      manager = await User.create({
+        name: 'Manager',
+        email: 'assign-manager@auth.test',
+        role: 'test-user-manager',
+      });
+      managerToken = tokenFor(manager);
+    });
+
+    afterAll(async () => {
+      await User.destroy({ where: { email: { [Op.like]: 'assign-%@auth.test' } }, force: true });
+    });
+
+    it('should only assign roles within the permissions of the caller', async () => {
+      const target = await User.create({ name: 'Target', email: 'assign-target@auth.test' });
+
+      const escalate = await asManager('PATCH', `/api/admin/users/${target.id}/role`, {
+        role: 'admin',
+      });
+      expect(escalate.statusCode).toBe(403);
+      expect(escalate.json().code).toBe('CANNOT_ASSIGN_ROLE');
+
+      const peer = await asManager('PATCH', `/api/admin/users/${target.id}/role`, {
+        role: 'test-user-manager',
+      });
+      expect(peer.statusCode).toBe(200);
+
+      // Nor can they take a role away from someone who holds more permissions
+      const admin = await User.findOne({ where: { email: 'rbac-admin@auth.test' } });
+      const demote = await asManager('PATCH', `/api/admin/users/${admin!.id}/role`, {
+        role: 'user',
+      });
+      expect(demote.statusCode).toBe(403);
+    });
+
+    it("should refuse changes to the caller's own role", async () => {
+      const own = await asManager('PATCH', `/api/admin/users/${manager.id}/role`, {
+        role: 'user',
+      });
+      expect(own.statusCode).toBe(403);
+      expect(own.json().code).toBe('CANNOT_ASSIGN_ROLE');
+
+      const admin = await User.findOne({ where: { email: 'rbac-admin@auth.test' } });
+      const ownAdmin = await asAdmin('PATCH', `/api/admin/users/${admin!.id}/role`, {
+        role: 'user',
+      });
+      expect(ownAdmin.statusCode).toBe(403);
+    });
+
+    it('should not create users with a role beyond the permissions of the caller', async () => {
+      const escalate = await asManager('POST', '/api/users', {
+        name: 'Second Admin',
+        email: 'assign-second-admin@auth.test',
+        role: 'admin',
+      });
+      expect(escalate.statusCode).toBe(403);
+      expect(escalate.json().code).toBe('CANNOT_ASSIGN_ROLE');
+
+      const peer = await asManager('POST', '/api/users', {
+        name: 'Second Manager',
+        email: 'assign-second-manager@auth.test',
+        role: 'test-user-manager',
+      });
+      expect(peer.statusCode).toBe(201);
+    });
+  });
+
+  describe('GET /api/admin/users', () => {
+    it('should page by offset and filter by role', async () => {
+      const admins = await asAdmin('GET', '/api/admin/users?role=admin&search=rbac-');
+      expect(admins.json()).toMatchObject({ total: 1, nextCursor: null });
+      expect(admins.json().users[0].email).toBe('rbac-admin@auth.test');
+
+      const second = await asAdmin(
+        'GET',
+        '/api/admin/users?search=rbac-&sort=email&order=asc&limit=1&offset=1'
+      );
+      expect(second.json().users.map((u: { email: string }) => u.email)).toEqual([
+        'rbac-member@auth.test',
+      ]);
+      expect(second.json().total).toBe(2);
+
+      const both = await asAdmin('GET', '/api/admin/users?offset=1&cursor=abc');
+      expect(both.statusCode).toBe(400);
+      expect(both.json().detail).toBe('Use either cursor or offset, not both');
+    });
+  });
+
+  describe('POST /api/admin/roles', () => {
+    it('should reject duplicate names and unknown permissions', async () => {
+      const duplicate = await asAdmin('POST', '/api/admin/roles', { name: 'admin' });
+      expect(duplicate.statusCode).toBe(409);
+
+      const unknown = await asAdmin('POST', '/api/admin/roles', {
+        name: 'test-unknown',
+        permissions: ['users:read', 'billing:manage'],
+      });
+      expect(unknown.statusCode).toBe(400);
+      expect(unknown.json().detail).toBe('Unknown permissions: billing:manage');
+    });
+
+    it('should reject invalid role names', async () => {
+      const response = await asAdmin('POST', '/api/admin/roles', { name: 'Not A Slug' });
+
+      expect(response.statusCode).toBe(400);
+    });
+
+    it('should not let members manage roles', async () => {
+      const response = await server.inject({
+        method: 'POST',
+        url: '/api/admin/roles',
+        headers: { Authorization: `Bearer ${memberToken}` },
+        payload: { name: 'test-escalation', permissions: ['roles:write'] },
+      });
+
+      expect(response.statusCode).toBe(403);
+    });
+  });
+
+  describe('PATCH /api/admin/roles/:id', () => {
+    it('should keep the admin role permissions locked', async () => {
+      const admin = await Role.findOne({ where: { name: 'admin' } });
+
+      const response = await asAdmin('PATCH', `/api/admin/roles/${admin!.id}`, {
+        permissions: ['users:read'],
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(response.json().detail).toBe('The permissions of the admin role cannot be changed');
+    });
+
+    it('should return 404 for unknown roles', async () => {
+      const response = await asAdmin('PATCH', '/api/admin/roles/999999', { description: 'x' });
+
+      expect(response.statusCode).toBe(404);
+    });
+  });
+
+  describe('DELETE /api/admin/roles/:id', () => {
+    it('should not delete built-in roles', async () => {
+      const user = await Role.findOne({ where: { name: 'user' } });
+
+      const response = await asAdmin('DELETE', `/api/admin/roles/${user!.id}`);
+
+      expect(response.statusCode).toBe(400);
+    });
+
+    it('should only delete roles no user is assigned to', async () => {
+      const created = await asAdmin('POST', '/api/admin/roles', { name: 'test-temporary' });
+      const { id } = created.json();
+      const holder = await User.create({
+        name: 'Holder',
+        email: 'rbac-holder@auth.test',
+        role: 'test-temporary',
+      });
+
+      const inUse = await asAdmin('DELETE', `/api/admin/roles/${id}`);
+      expect(inUse.statusCode).toBe(409);
+
+      await holder.update({ role: 'user' });
+      const deleted = await asAdmin('DELETE', `/api/admin/roles/${id}`);
+      expect(deleted.statusCode).toBe(200);
+      expect(deleted.json().message).toBe('Role deleted successfully');
+      expect(await Role.findByPk(id)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,289 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { Op } from 'sequelize';
+import { buildServer } from '../server.js';
+import { sequelize } from '../database/connection.js';
+import { config } from '../config/index.js';
+import { AuditEvent, User } from '../models/index.js';
+import { authRoutes } from '../routes/auth/index.js';
+import { passwordRoutes } from '../routes/auth/password.js';
+import { twoFactorRoutes } from '../routes/auth/twoFactor.js';
+import { adminRoutes } from '../routes/api/admin/index.js';
+import authPlugin from '../plugins/auth.js';
+import rbacPlugin from '../plugins/rbac.js';
+import { base32Decode, generateTotpCode, totpStep, verifyTotpCode } from '../utils/totp.js';
+
+const PASSWORD = 'correct horse battery';
+
+describe('Two-factor authentication', () => {
+  const server = buildServer();
+
+  const send = (method: 'GET' | 'POST' | 'DELETE', url: string, payload?: object, token?: string) =>
+    server.inject({
+      method,
+      url,
+      payload,
+      ...(token && { headers: { Authorization: `Bearer ${token}` } }),
+    });
+
+  // Register an account with a verified email and sign in
+  const signUp = async (email: string) => {
+    await send('POST', '/auth/register', { email, password: PASSWORD });
+    await User.update({ emailVerifiedAt: new Date() }, { where: { email } });
+    return (await send('POST', '/auth/login', { email, password: PASSWORD })).json() as {
+      token: string;
+    };
+  };
+
+  // Register an account and enable TOTP on it
+  const enroll = async (email: string) => {
+    const { token } = await signUp(email);
+
+    const setup = await send('POST', '/auth/2fa/totp', {}, token);
+    expect(setup.statusCode).toBe(200);
+    const { secret } = setup.json();
+
+    const confirm = await send(
+      'POST',
+      '/auth/2fa/totp/confirm',
+      { code: generateTotpCode(secret) },
+      token
+    );
+    expect(confirm.statusCode).toBe(200);
+
+    return { token, secret, recoveryCodes: confirm.json().recoveryCodes as string[] };
+  };
+
+  const login = (email: string) => send('POST', '/auth/login', { email, password: PASSWORD });
+
+  // Audit events of an action about the account with this email
+  const auditedActions = async (action: string, email: string) => {
+    const user = await User.findOne({ where: { email } });
+    return AuditEvent.count({ where: { action, targetId: String(user!.id) } });
+  };
+
+  // The step after the one used to enroll, still within the allowed drift
+  const nextCode = (secret: string) => generateTotpCode(secret, totpStep() + 1);
+
+  beforeAll(async () => {
+    await sequelize.authenticate();
+
+    await server.register(authPlugin);
+    await server.register(rbacPlugin);
+    await server.register(authRoutes);
+    await server.register(passwordRoutes);
+    await server.register(twoFactorRoutes);
+    await server.register(adminRoutes, { prefix: '/api/admin/users' });
+    await server.ready();
+  });
+
+  beforeEach(async () => {
+    await User.destroy({ where: { email: { [Op.like]: 'twofactor-%@auth.test' } }, force: true });
+  });
+
+  afterAll(async () => {
+    await User.destroy({ where: { email: { [Op.like]: 'twofactor-%@auth.test' } }, force: true });
+    await server.close();
+  });
+
+  describe('TOTP', () => {
+    it('should match the RFC 6238 test vectors', () => {
+      const secret = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+      expect(base32Decode(secret).toString()).toBe('12345678901234567890');
+      expect(generateTotpCode(secret, totpStep(59_000))).toBe('287082');
+      expect(generateTotpCode(secret, totpStep(1_111_111_109_000))).toBe('081804');
+      expect(verifyTotpCode(secret, '287082', 59_000 + 30_000)).toBe(1);
+      expect(verifyTotpCode(secret, '287082', 59_000 + 90_000)).toBeNull();
+    });
+  });
+
+  describe('enrollment', () => {
+    it('should return an otpauth URI and only enable 2FA after a valid code', async () => {
+      const { token } = await signUp('twofactor-enroll@auth.test');
+
+      const setup = await send('POST', '/auth/2fa/totp', {}, token);
+      const { secret, otpauthUri, qrPayload } = setup.json();
+      expect(otpauthUri).toMatch(/^otpauth:\/\/totp\/.+\?secret=[A-Z2-7]+&issuer=/);
+      expect(otpauthUri).toContain(encodeURIComponent('twofactor-enroll@auth.test'));
+      expect(qrPayload).toBe(otpauthUri);
+
+      const user = await User.findOne({ where: { email: 'twofactor-enroll@auth.test' } });
+      expect(user!.totpEnabledAt).toBeNull();
+      expect(user!.totpSecret).toBe(secret);
+      expect(user!.getDataValue('totpSecret')).not.toBe(secret);
+
+      const wrong = await send('POST', '/auth/2fa/totp/confirm', { code: '000000' }, token);
+      expect(wrong.statusCode).toBe(400);
+
+      const confirm = await send(
+        'POST',
+        '/auth/2fa/totp/confirm',
+        { code: generateTotpCode(secret) },
+        token
+      );
+      expect(confirm.statusCode).toBe(200);
+      expect(confirm.json().recoveryCodes).toHaveLength(10);
+
+      const status = await send('GET', '/auth/2fa', undefined, token);
+      expect(status.json()).toEqual({ enabled: true, required: false, recoveryCodesRemaining: 10 });
+      expect(await auditedActions('auth.two_factor_enabled', 'twofactor-enroll@auth.test')).toBe(1);
+
+      expect((await send('POST', '/auth/2fa/totp', {}, token)).statusCode).toBe(409);
+    });
+  });
+
+  describe('login', () => {
+    it('should ask for the second factor before issuing tokens', async () => {
+      const { secret } = await enroll('twofactor-login@auth.test');
+
+      const first = await login('twofactor-login@auth.test');
+      expect(first.statusCode).toBe(200);
+      expect(first.json()).toEqual({ twoFactorRequired: true, challengeToken: expect.any(String) });
+      const { challengeToken } = first.json();
+
+      // The challenge is not an access token
+      const me = await send('GET', '/auth/me', undefined, challengeToken);
+      expect(me.statusCode).toBe(401);
+
+      const wrong = await send('POST', '/auth/2fa/verify', { code: '000000', challengeToken });
+      expect(wrong.statusCode).toBe(401);
+
+      const code = nextCode(secret);
+      const verify = await send('POST', '/auth/2fa/verify', { code, challengeToken });
+      expect(verify.statusCode).toBe(200);
+      expect(verify.json().token).toBeDefined();
+      expect(verify.json().refreshToken).toBeDefined();
+
+      // The same code cannot be used twice
+      const replay = await send('POST', '/auth/2fa/verify', { code, challengeToken });
+      expect(replay.statusCode).toBe(401);
+
+      // Both factors are audited
+      const events = await AuditEvent.findAll({
+        where: { targetId: String(verify.json().user.id), action: { [Op.like]: 'auth.login%' } },
+        order: [['id', 'ASC']],
+      });
+      expect(events.map(({ action, metadata }) => ({ action, metadata })).slice(-2)).toEqual([
+        { action: 'auth.login_challenged', metadata: { method: 'password' } },
+        { action: 'auth.login', metadata: { method: 'totp' } },
+      ]);
+    });
+
+    it('should accept each recovery code once', async () => {
+      const { recoveryCodes } = await enroll('twofactor-recovery@auth.test');
+      const { challengeToken } = (await login('twofactor-recovery@auth.test')).json();
+
+      const verify = await send('POST', '/auth/2fa/verify', {
+        code: recoveryCodes[0].toUpperCase(),
+        challengeToken,
+      });
+      expect(verify.statusCode).toBe(200);
+      expect(verify.json().recoveryCodesRemaining).toBe(9);
+
+      const reused = await send('POST', '/auth/2fa/verify', {
+        code: recoveryCodes[0],
+        challengeToken,
+      });
+      expect(reused.statusCode).toBe(401);
+    });
+
+    it('should count wrong codes toward the lockout', async () => {
+      await enroll('twofactor-locked@auth.test');
+      const { challengeToken } = (await login('twofactor-locked@auth.test')).json();
+
+      for (let i = 1; i < config.passwordAuth.maxAttempts; i++) {
+        const response = await send('POST', '/auth/2fa/verify', { code: '000000', challengeToken });
+        expect(response.statusCode).toBe(401);
+      }
+      const locked = await send('POST', '/auth/2fa/verify', { code: '000000', challengeToken });
+      expect(locked.statusCode).toBe(423);
+
+      const user = await User.findOne({ where: { email: 'twofactor-locked@auth.test' } });
+      const lockout = await AuditEvent.findOne({
+        where: { action: 'auth.locked', targetId: String(user!.id) },
+      });
+      expect(lockout!.metadata).toMatchObject({ method: 'two_factor' });
+
+      // The password alone does not reset the count or the lockout
+      expect((await login('twofactor-locked@auth.test')).statusCode).toBe(423);
+    });
+
+    it('should refuse a verification without a challenge', async () => {
+      const response = await send('POST', '/auth/2fa/verify', { code: '123456' });
+
+      expect(response.statusCode).toBe(401);
+    });
+  });
+
+  describe('management', () => {
+    it('should disable 2FA with a valid code', async () => {
+      const { token, secret } = await enroll('twofactor-disable@auth.test');
+
+      const wrong = await send('DELETE', '/auth/2fa/totp', { code: '000000' }, token);
+      expect(wrong.statusCode).toBe(400);
+
+      const response = await send('DELETE', '/auth/2fa/totp', { code: nextCode(secret) }, token);
+      expect(response.statusCode).toBe(200);
+      expect(await auditedActions('auth.two_factor_disabled', 'twofactor-disable@auth.test')).toBe(
+        1
+      );
+
+      const first = await login('twofactor-disable@auth.test');
+      expect(first.json().token).toBeDefined();
+      expect(first.json().twoFactorRequired).toBeUndefined();
+    });
+
+    it('should replace the recovery codes', async () => {
+      const { token, secret, recoveryCodes } = await enroll('twofactor-regenerate@auth.test');
+
+      const response = await send(
+        'POST',
+        '/auth/2fa/recovery-codes',
+        { code: nextCode(secret) },
+        token
+      );
+      expect(response.statusCode).toBe(200);
+      expect(response.json().recoveryCodes).toHaveLength(10);
+      expect(
+        await auditedActions('auth.recovery_codes_regenerated', 'twofactor-regenerate@auth.test')
+      ).toBe(1);
+
+      const { challengeToken } = (await login('twofactor-regenerate@auth.test')).json();
+      const old = await send('POST', '/auth/2fa/verify', {
+        code: recoveryCodes[1],
+        challengeToken,
+      });
+      expect(old.statusCode).toBe(401);
+    });
+  });
+
+  describe('required for admins', () => {
+    beforeEach(() => {
+      config.twoFactor.requiredForAdmins = true;
+    });
+
+    afterAll(() => {
+      config.twoFactor.requiredForAdmins = false;
+    });
+
+    it('should refuse admins on admin routes until they enroll', async () => {
+      const { token } = await signUp('twofactor-admin@auth.test');
+      await User.update({ role: 'admin' }, { where: { email: 'twofactor-admin@auth.test' } });
+
+      const refused = await send('GET', '/api/admin/users', undefined, token);
+      expect(refused.statusCode).toBe(403);
+
+      const { secret } = (await send('POST', '/auth/2fa/totp', {}, token)).json();
+      await send('POST', '/auth/2fa/totp/confirm', { code: generateTotpCode(secret) }, token);
+
+      const allowed = await send('GET', '/api/admin/users', undefined, token);
+      expect(allowed.statusCode).toBe(200);
+
+      const status = await send('GET', '/auth/2fa', undefined, token);
+      expect(status.json().required).toBe(true);
+
+      const disable = await send('DELETE', '/auth/2fa/totp', { code: nextCode(secret) }, token);
+      expect(disable.statusCode).toBe(403);
+    });
+  });
+});
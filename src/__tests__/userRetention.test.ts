@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { Op } from 'sequelize';
+import { buildServer } from '../server.js';
+import { sequelize } from '../database/connection.js';
+import { User, UserIdentity } from '../models/index.js';
+import { authRoutes } from '../routes/auth/index.js';
+import { userRoutes } from '../routes/api/users/index.js';
+import { adminRoutes } from '../routes/api/admin/index.js';
+import { purgeDeletedUsers } from '../utils/userRetention.js';
+import { signInWithIdentity } from '../utils/identities.js';
+import authPlugin from '../plugins/auth.js';
+import rbacPlugin from '../plugins/rbac.js';
+
+describe('User soft delete and retention', () => {
+  const server = buildServer();
+  let adminToken: string;
+  let target: User;
+  let targetToken: string;
+
+  const asAdmin = (method: 'GET' | 'POST' | 'DELETE', url: string) =>
+    server.inject({ method, url, headers: { Authorization: `Bearer ${adminToken}` } });
+
+  const cleanUp = () =>
+    User.destroy({ where: { email: { [Op.like]: 'retention-%@auth.test' } }, force: true });
+
+  beforeAll(async () => {
+    await sequelize.authenticate();
+
+    await server.register(authPlugin);
+    await server.register(rbacPlugin);
+    await server.register(authRoutes);
+    await server.register(userRoutes, { prefix: '/api/users' });
+    await server.register(adminRoutes, { prefix: '/api/admin/users' });
+    await server.ready();
+
+    await cleanUp();
+
+    const admin = await User.create({
+      name: 'Admin',
+      email: 'retention-admin@auth.test',
+      role: 'admin',
+    });
+    adminToken = server.jwt.sign({ userId: admin.id, email: admin.email, role: admin.role });
+  });
+
+  beforeEach(async () => {
+    await User.destroy({ where: { email: 'retention-target@auth.test' }, force: true });
+
+    // Signed in with a session, so deleting can be seen to revoke it
+    const response = await server.inject({
+      method: 'POST',
+      url: '/auth/dev/token',
+      payload: { email: 'retention-target@auth.test', name: 'Target' },
+    });
+    targetToken = response.json().token;
+    target = (await User.findOne({ where: { email: 'retention-target@auth.test' } }))!;
+  });
+
+  afterAll(async () => {
+    await cleanUp();
+    await server.close();
+  });
+
+  it('should hide deleted users, sign them out and list them only on request', async () => {
+    const deleted = await asAdmin('DELETE', `/api/admin/users/${target.id}`);
+    expect(deleted.statusCode).toBe(200);
+    expect(deleted.json()).toEqual({ success: true, message: 'User deleted successfully' });
+
+    expect((await asAdmin('GET', `/api/users/${target.id}`)).statusCode).toBe(404);
+    expect((await asAdmin('DELETE', `/api/admin/users/${target.id}`)).statusCode).toBe(404);
+
+    const me = await server.inject({
+      method: 'GET',
+      url: '/auth/me',
+      headers: { Authorization: `Bearer ${targetToken}` },
+    });
+    expect(me.statusCode).toBe(401);
+
+    const listed = await asAdmin('GET', '/api/admin/users?search=retention-target');
+    expect(listed.json().total).toBe(0);
+
+    const withDeleted = await asAdmin(
+      'GET',
+      '/api/admin/users?search=retention-target&includeDeleted=true'
+    );
+    expect(withDeleted.json().users).toEqual([
+      expect.objectContaining({ id: target.id, deletedAt: expect.any(String) }),
+    ]);
+
+    // Regular listings ignore the filter
+    const regular = await asAdmin('GET', '/api/users?search=retention-target&includeDeleted=true');
+    expect(regular.json().total).toBe(0);
+  });
+
+  it('should restore a deleted user unless its email was taken again', async () => {
+    expect((await asAdmin('POST', `/api/admin/users/${target.id}/restore`)).statusCode).toBe(404);
+
+    await asAdmin('DELETE', `/api/admin/users/${target.id}`);
+    const restored = await asAdmin('POST', `/api/admin/users/${target.id}/restore`);
+    expect(restored.statusCode).toBe(200);
+    expect(restored.json()).toMatchObject({ id: target.id, deletedAt: null });
+    expect((await asAdmin('GET', `/api/users/${target.id}`)).statusCode).toBe(200);
+
+    await asAdmin('DELETE', `/api/admin/users/${target.id}`);
+    const replacement = await User.create({ name: 'New', email: 'retention-target@auth.test' });
+    const conflict = await asAdmin('POST', `/api/admin/users/${target.id}/restore`);
+    expect(conflict.statusCode).toBe(409);
+    expect(conflict.json().detail).toBe('A user with this email already exists');
+
+    await replacement.destroy({ force: true });
+  });
+
+  it('should refuse provider sign-ins to a deleted account', async () => {
+    await UserIdentity.create({
+      userId: target.id,
+      provider: 'github',
+      providerUserId: 'retention-gh',
+      email: target.email,
+    });
+    await asAdmin('DELETE', `/api/admin/users/${target.id}`);
+
+    const result = await signInWithIdentity(
+      'github',
+      { id: 'retention-gh', email: target.email, name: 'Target', emailVerified: true },
+      { accessToken: 'token' }
+    );
+    expect(result.status).toBe('deleted');
+  });
+
+  it('should purge users deleted before the retention window', async () => {
+    const old = await User.create({ name: 'Old', email: 'retention-old@auth.test' });
+    await old.destroy();
+    await User.update(
+      { deletedAt: new Date(Date.now() - 31 * 24 * 60 * 60 * 1000) },
+      { where: { id: old.id }, paranoid: false }
+    );
+    await target.destroy();
+
+    expect(await purgeDeletedUsers(30)).toBeGreaterThanOrEqual(1);
+
+    expect(await User.findByPk(old.id, { paranoid: false })).toBeNull();
+    expect(await User.findByPk(target.id, { paranoid: false })).not.toBeNull();
+  });
+});
@@ -4,11 +4,17 @@ import { sequelize } from '../database/connection.js';
 import { User } from '../models/index.js';
 import { Op } from 'sequelize';
 import { userRoutes } from '../routes/api/users/index.js';
+import { authRoutes } from '../routes/auth/index.js';
 import authPlugin from '../plugins/auth.js';
+import rbacPlugin from '../plugins/rbac.js';
+import { listCapturedMail } from '../mailer/index.js';
+import { createSession } from '../utils/sessions.js';
 
 describe('User CRUD Operations', () => {
   const server = buildServer();
   let authToken: string;
+  // Regular users only see the members of their organizations, readers see everyone
+  let readerToken: string;
   let testUserId: number;
 
   beforeAll(async () => {
@@ -20,6 +26,8 @@ describe('User CRUD Operations', () => {
 
     // Register auth plugin and routes
     await server.register(authPlugin);
+    await server.register(rbacPlugin);
+    await server.register(authRoutes);
     await server.register(userRoutes, { prefix: '/api/users' });
     await server.ready();
 
@@ -37,6 +45,13 @@ describe('User CRUD Operations', () => {
       email: testUser.email,
       role: testUser.role,
     });
+
+    const reader = await User.create({
+      name: 'Reader',
+      email: 'users-reader@auth.test',
+      role: 'admin',
+    });
+    readerToken = server.jwt.sign({ userId: reader.id, email: reader.email, role: reader.role });
   });
 
   beforeEach(async () => {
@@ -50,6 +65,7 @@ describe('User CRUD Operations', () => {
           ],
         },
       },
+      force: true,
     });
   });
 
@@ -102,8 +118,106 @@ describe('User CRUD Operations', () => {
 
     expect(response.statusCode).toBe(200);
     const data = JSON.parse(response.body);
-    expect(Array.isArray(data)).toBe(true);
-    expect(data.length).toBeGreaterThan(0);
+    expect(Array.isArray(data.users)).toBe(true);
+    expect(data.users.length).toBeGreaterThan(0);
+    expect(data.total).toBeGreaterThanOrEqual(data.users.length);
+  });
+
+  describe('listing', () => {
+    const list = (query: Record<string, string>) =>
+      server.inject({
+        method: 'GET',
+        url: '/api/users',
+        headers: { Authorization: `Bearer ${readerToken}` },
+        query,
+      });
+
+    beforeEach(async () => {
+      await User.bulkCreate([
+        { name: 'Page Alice', email: 'page-alice@example.com', createdAt: new Date('2026-01-01') },
+        { name: 'Page Bob', email: 'page-bob@example.com', createdAt: new Date('2026-02-01') },
+        {
+          name: 'Page Carol',
+          email: 'page-carol@example.com',
+          oauthProvider: 'github',
+          createdAt: new Date('2026-03-01'),
+        },
+        { name: 'Page Dave', email: 'page-dave@example.com', createdAt: new Date('2026-04-01') },
+        { name: 'Page Eve', email: 'page-eve@example.com', createdAt: new Date('2026-05-01') },
+      ]);
+    });
+
+    it('should follow cursors through every page', async () => {
+      const names: string[] = [];
+      let cursor: string | null = null;
+
+      do {
+        const response = await list({
+          search: 'page-',
+          sort: 'name',
+          order: 'asc',
+          limit: '2',
+          ...(cursor ? { cursor } : {}),
+        });
+        expect(response.statusCode).toBe(200);
+        const page = response.json();
+        expect(page.total).toBe(5);
+        names.push(...page.users.map((user: { name: string }) => user.name));
+        cursor = page.nextCursor;
+      } while (cursor);
+
+      expect(names).toEqual(['Page Alice', 'Page Bob', 'Page Carol', 'Page Dave', 'Page Eve']);
+    });
+
+    it('should ignore the admin-only offset parameter', async () => {
+      const response = await list({
+        search: 'page-',
+        sort: 'name',
+        order: 'asc',
+        limit: '2',
+        offset: '2',
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json().users.map((user: { name: string }) => user.name)).toEqual([
+        'Page Alice',
+        'Page Bob',
+      ]);
+    });
+
+    it('should filter by provider and creation date and search case-insensitively', async () => {
+      const github = await list({ search: 'PAGE', oauthProvider: 'github' });
+      expect(github.json().users.map((user: { name: string }) => user.name)).toEqual([
+        'Page Carol',
+      ]);
+
+      const spring = await list({
+        search: 'page',
+        createdAfter: '2026-02-01T00:00:00.000Z',
+        createdBefore: '2026-04-01T00:00:00.000Z',
+      });
+      expect(spring.json()).toMatchObject({ total: 2, nextCursor: null });
+      expect(spring.json().users.map((user: { name: string }) => user.name)).toEqual([
+        'Page Carol',
+        'Page Bob',
+      ]);
+
+      // LIKE wildcards in the search are matched literally
+      expect((await list({ search: 'page%' })).json().total).toBe(0);
+    });
+
+    it('should reject unknown sort fields and cursors of another sort order', async () => {
+      expect((await list({ sort: 'passwordHash' })).statusCode).toBe(400);
+
+      const first = await list({ search: 'page', limit: '1' });
+      const response = await list({
+        search: 'page',
+        sort: 'email',
+        cursor: first.json().nextCursor,
+      });
+      expect(response.statusCode).toBe(400);
+      expect(response.json().detail).toBe('Invalid pagination cursor');
+    });
   });
 
   it('should get a user by id', async () => {
@@ -126,7 +240,7 @@ describe('User CRUD Operations', () => {
       method: 'GET',
       url: `/api/users/${createdUser.id}`,
       headers: {
-        Authorization: `Bearer ${authToken}`,
+        Authorization: `Bearer ${readerToken}`,
       },
     });
 
@@ -136,6 +250,45 @@ describe('User CRUD Operations', () => {
     expect(data.email).toBe('jane@example.com');
   });
 
+  it('should never return stored OAuth tokens', async () => {
+    const user = await User.create({
+      name: 'Token Holder',
+      email: 'token-holder@example.com',
+      oauthAccessToken: 'secret-access-token',
+      oauthRefreshToken: 'secret-refresh-token',
+    });
+
+    const response = await server.inject({
+      method: 'GET',
+      url: `/api/users/${user.id}`,
+      headers: {
+        Authorization: `Bearer ${readerToken}`,
+      },
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.body).not.toContain('secret-');
+    expect(JSON.stringify(user)).not.toContain('secret-');
+  });
+
+  it('should hide users outside the organizations of a regular user', async () => {
+    const stranger = await User.create({ name: 'Stranger', email: 'stranger@example.com' });
+
+    const list = await server.inject({
+      method: 'GET',
+      url: '/api/users',
+      headers: { Authorization: `Bearer ${authToken}` },
+    });
+    expect(list.json().users.map((user: { id: number }) => user.id)).toEqual([testUserId]);
+
+    const response = await server.inject({
+      method: 'GET',
+      url: `/api/users/${stranger.id}`,
+      headers: { Authorization: `Bearer ${authToken}` },
+    });
+    expect(response.statusCode).toBe(404);
+  });
+
   it('should update a user', async () => {
     // User can update their own account
     const response = await server.inject({
@@ -155,6 +308,90 @@ describe('User CRUD Operations', () => {
     expect(data.email).toBe('test@example.com');
   });
 
+  it('should switch to a new email address only once it is verified', async () => {
+    const verifiedAt = new Date();
+    const user = await User.create({
+      name: 'Email Changer',
+      email: 'email-changer@auth.test',
+      emailVerifiedAt: verifiedAt,
+    });
+    const token = server.jwt.sign({ userId: user.id, email: user.email, role: user.role });
+
+    const response = await server.inject({
+      method: 'PUT',
+      url: `/api/users/${user.id}`,
+      headers: { Authorization: `Bearer ${token}` },
+      payload: { email: 'email-changed@auth.test' },
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json()).toMatchObject({
+      email: 'email-changer@auth.test',
+      pendingEmail: 'email-changed@auth.test',
+    });
+    await user.reload();
+    expect(user.email).toBe('email-changer@auth.test');
+    expect(user.emailVerifiedAt).toEqual(verifiedAt);
+
+    // The link is sent to the new address and switches the account to it
+    const mail = listCapturedMail().find((captured) => captured.to === 'email-changed@auth.test');
+    const link = new URL(mail!.text.match(/https?:\/\/\S+/)![0]);
+    const verify = await server.inject({
+      method: 'POST',
+      url: '/auth/verify-email',
+      payload: { token: link.searchParams.get('token') },
+    });
+    expect(verify.statusCode).toBe(200);
+
+    await user.reload();
+    expect(user.email).toBe('email-changed@auth.test');
+    expect(user.pendingEmail).toBeNull();
+    expect(user.emailVerifiedAt!.getTime()).toBeGreaterThan(verifiedAt.getTime());
+  });
+
+  it('should refuse to change the email to an address in use', async () => {
+    const user = await User.create({ name: 'Email Taker', email: 'email-taker@auth.test' });
+    const token = server.jwt.sign({ userId: user.id, email: user.email, role: user.role });
+
+    const response = await server.inject({
+      method: 'PUT',
+      url: `/api/users/${user.id}`,
+      headers: { Authorization: `Bearer ${token}` },
+      payload: { email: 'users-reader@auth.test' },
+    });
+
+    expect(response.statusCode).toBe(409);
+    expect(response.json().code).toBe('USER_ALREADY_EXISTS');
+  });
+
+  it('should refuse email changes with tokens of other clients', async () => {
+    const user = await User.create({ name: 'Client User', email: 'client-email@auth.test' });
+    const token = server.jwt.sign({
+      userId: user.id,
+      email: user.email,
+      role: user.role,
+      sid: (await createSession(user.id, { userAgent: 'third-party' })).id,
+      client_id: 'third-party-client',
+      scope: 'read write',
+    });
+    const update = (payload: object) =>
+      server.inject({
+        method: 'PUT',
+        url: `/api/users/${user.id}`,
+        headers: { Authorization: `Bearer ${token}` },
+        payload,
+      });
+
+    const emailChange = await update({ email: 'client-email-taken@auth.test' });
+    expect(emailChange.statusCode).toBe(403);
+    expect(emailChange.json().code).toBe('API_KEY_REQUIRES_SESSION');
+    await user.reload();
+    expect(user.email).toBe('client-email@auth.test');
+
+    // Other fields can still be updated
+    expect((await update({ name: 'Renamed By Client' })).statusCode).toBe(200);
+  });
+
   it('should delete a user', async () => {
     // Create a new user to delete (users can only delete themselves)
     const newUser = await User.create({
@@ -219,7 +456,7 @@ describe('User CRUD Operations', () => {
 
     expect(response.statusCode).toBe(403);
     const data = JSON.parse(response.body);
-    expect(data.error).toBe('Insufficient permissions to update this user');
+    expect(data.detail).toBe('Insufficient permissions to update this user');
   });
 
   it('should return 404 when deleting non-existent user', async () => {
@@ -235,7 +472,7 @@ describe('User CRUD Operations', () => {
 
     expect(response.statusCode).toBe(403);
     const data = JSON.parse(response.body);
-    expect(data.error).toBe('Insufficient permissions to delete this user');
+    expect(data.detail).toBe('Insufficient permissions to delete this user');
   });
 
   it('should handle duplicate email errors', async () => {
@@ -268,7 +505,25 @@ describe('User CRUD Operations', () => {
 
     expect(response.statusCode).toBe(500);
     const data = JSON.parse(response.body);
-    expect(data.error).toBeDefined();
+    expect(data.detail).toBeDefined();
+  });
+
+  it('should store emails in lowercase so each address has one account', async () => {
+    const response = await server.inject({
+      method: 'POST',
+      url: '/api/users',
+      headers: { Authorization: `Bearer ${authToken}` },
+      payload: { name: 'Mixed Case', email: 'Mixed.Case@Example.com' },
+    });
+    expect(response.statusCode).toBe(201);
+    expect(response.json().email).toBe('mixed.case@example.com');
+
+    // The database refuses the same address in another case, even when written directly
+    await expect(
+      sequelize.query(
+        "INSERT INTO users (name, email, created_at, updated_at) VALUES ('Other', 'MIXED.case@example.com', now(), now())"
+      )
+    ).rejects.toThrow();
   });
 
   it('should handle invalid email validation', async () => {
@@ -286,7 +541,47 @@ describe('User CRUD Operations', () => {
 
     expect(response.statusCode).toBe(400); // Swagger schema validation returns 400
     const data = JSON.parse(response.body);
-    expect(data.message || data.error).toBeDefined();
+    expect(data.code).toBe('VALIDATION_FAILED');
+    expect(data.errors).toEqual([
+      { field: 'email', rule: 'format', message: 'Invalid email format' },
+    ]);
+  });
+
+  it('should list every invalid field in the request language', async () => {
+    const response = await server.inject({
+      method: 'POST',
+      url: '/api/users',
+      headers: {
+        Authorization: `Bearer ${authToken}`,
+        'accept-language': 'es',
+      },
+      payload: { role: 'user' },
+    });
+
+    expect(response.statusCode).toBe(400);
+    expect(response.json()).toMatchObject({
+      title: 'Solicitud incorrecta',
+      detail: 'La solicitud no superó la validación',
+    });
+    expect(response.json().errors).toEqual([
+      { field: 'name', rule: 'required', message: 'Este campo es obligatorio' },
+      { field: 'email', rule: 'required', message: 'Este campo es obligatorio' },
+    ]);
+
+    const listing = await server.inject({
+      method: 'GET',
+      url: '/api/users?limit=500&order=sideways',
+      headers: {
+        Authorization: `Bearer ${authToken}`,
+        'accept-language': 'fr',
+      },
+    });
+
+    expect(listing.statusCode).toBe(400);
+    expect(listing.json().errors).toEqual([
+      { field: 'limit', rule: 'maximum', message: 'Doit être inférieur ou égal à 100' },
+      { field: 'order', rule: 'enum', message: "Doit être l'une des valeurs : asc, desc" },
+    ]);
   });
 
   it('should handle invalid JSON body', async () => {
@@ -302,7 +597,7 @@ describe('User CRUD Operations', () => {
 
     expect(response.statusCode).toBe(400);
     const data = JSON.parse(response.body);
-    expect(data.error).toBeDefined();
+    expect(data.detail).toBeDefined();
   });
 
   it('should get health check', async () => {
@@ -340,7 +635,7 @@ describe('User CRUD Operations', () => {
 
     expect(response.statusCode).toBe(500);
     const data = JSON.parse(response.body);
-    expect(data.error).toBe('Failed to fetch users');
+    expect(data.detail).toBe('Failed to fetch users');
 
     vi.restoreAllMocks();
   });
@@ -358,7 +653,7 @@ describe('User CRUD Operations', () => {
 
     expect(response.statusCode).toBe(500);
     const data = JSON.parse(response.body);
-    expect(data.error).toBe('Failed to fetch user');
+    expect(data.detail).toBe('Failed to fetch user');
 
     vi.restoreAllMocks();
   });
@@ -381,7 +676,7 @@ describe('User CRUD Operations', () => {
 
     expect(response.statusCode).toBe(500);
     const data = JSON.parse(response.body);
-    expect(data.error).toBe('Failed to update user');
+    expect(data.detail).toBe('Failed to update user');
 
     vi.restoreAllMocks();
   });
@@ -401,7 +696,7 @@ describe('User CRUD Operations', () => {
 
     expect(response.statusCode).toBe(500);
     const data = JSON.parse(response.body);
-    expect(data.error).toBe('Failed to delete user');
+    expect(data.detail).toBe('Failed to delete user');
 
     vi.restoreAllMocks();
   });
@@ -0,0 +1,313 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { Op } from 'sequelize';
+import { createHash, generateKeyPairSync, randomBytes, sign } from 'crypto';
+import { buildServer } from '../server.js';
+import { sequelize } from '../database/connection.js';
+import { config } from '../config/index.js';
+import { AuditEvent, User, WebAuthnCredential } from '../models/index.js';
+import { authRoutes } from '../routes/auth/index.js';
+import { twoFactorRoutes } from '../routes/auth/twoFactor.js';
+import { webauthnRoutes } from '../routes/auth/webauthn.js';
+import authPlugin from '../plugins/auth.js';
+import { decodeCbor, encodeCbor } from '../utils/cbor.js';
+import { generateTotpSecret } from '../utils/totp.js';
+
+/**
+ * Software authenticator: an ES256 key pair with a signature counter, producing
+ * responses in the PublicKeyCredential.toJSON() form a browser would post
+ */
+const createAuthenticator = (origin = config.webauthn.origins[0]) => {
+  const { privateKey, publicKey } = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+  const credentialId = randomBytes(16);
+  const id = credentialId.toString('base64url');
+  let counter = 0;
+
+  const rpIdHash = createHash('sha256').update(config.webauthn.rpId).digest();
+
+  const authenticatorData = (flags: number, signCount: number, attested?: Buffer) => {
+    const header = Buffer.alloc(37);
+    rpIdHash.copy(header);
+    header[32] = flags;
+    header.writeUInt32BE(signCount, 33);
+    return Buffer.concat([header, ...(attested ? [attested] : [])]);
+  };
+
+  const clientData = (type: string, challenge: string) =>
+    Buffer.from(JSON.stringify({ type, challenge, origin, crossOrigin: false }));
+
+  return {
+    id,
+    register(challenge: string) {
+      const jwk = publicKey.export({ format: 'jwk' });
+      const coseKey = new Map<number, number | Buffer>([
+        [1, 2],
+        [3, -7],
+        [-1, 1],
+        [-2, Buffer.from(jwk.x!, 'base64url')],
+        [-3, Buffer.from(jwk.y!, 'base64url')],
+      ]);
+      const idLength = Buffer.alloc(2);
+      idLength.writeUInt16BE(credentialId.length);
+      const attested = Buffer.concat([
+        Buffer.alloc(16),
+        idLength,
+        credentialId,
+        encodeCbor(coseKey),
+      ]);
+
+      const attestationObject = encodeCbor({
+        fmt: 'none',
+        attStmt: new Map(),
+        authData: authenticatorData(0x45, counter, attested),
+      });
+
+      return {
+        id,
+        rawId: id,
+        type: 'public-key',
+        response: {
+          clientDataJSON: clientData('webauthn.create', challenge).toString('base64url'),
+          attestationObject: attestationObject.toString('base64url'),
+          transports: ['internal'],
+        },
+      };
+    },
+    authenticate(
+      challenge: string,
+      userHandle: string,
+      { userVerified = true, signCount = ++counter } = {}
+    ) {
+      const data = authenticatorData(userVerified ? 0x05 : 0x01, signCount);
+      const clientDataJSON = clientData('webauthn.get', challenge);
+      const signed = Buffer.concat([data, createHash('sha256').update(clientDataJSON).digest()]);
+
+      return {
+        id,
+        rawId: id,
+        type: 'public-key',
+        response: {
+          clientDataJSON: clientDataJSON.toString('base64url'),
+          authenticatorData: data.toString('base64url'),
+          signature: sign('sha256', signed, privateKey).toString('base64url'),
+          userHandle,
+        },
+      };
+    },
+  };
+};
+
+describe('WebAuthn passkeys', () => {
+  const server = buildServer();
+  let user: User;
+  let token: string;
+
+  const post = (url: string, payload: object = {}, bearer?: string) =>
+    server.inject({
+      method: 'POST',
+      url,
+      payload,
+      ...(bearer && { headers: { Authorization: `Bearer ${bearer}` } }),
+    });
+
+  // Register a new software authenticator for the test user
+  const registerPasskey = async (name?: string) => {
+    const authenticator = createAuthenticator();
+    const options = (await post('/auth/webauthn/register/options', {}, token)).json();
+    const response = await post(
+      '/auth/webauthn/register/verify',
+      { credential: authenticator.register(options.challenge), name },
+      token
+    );
+    expect(response.statusCode).toBe(201);
+
+    return { authenticator, userHandle: options.user.id as string };
+  };
+
+  const signIn = async (
+    authenticator: ReturnType<typeof createAuthenticator>,
+    userHandle: string,
+    overrides?: { userVerified?: boolean; signCount?: number }
+  ) => {
+    const { challenge } = (await post('/auth/webauthn/login/options')).json();
+    return post('/auth/webauthn/login/verify', {
+      credential: authenticator.authenticate(challenge, userHandle, overrides),
+    });
+  };
+
+  beforeAll(async () => {
+    await sequelize.authenticate();
+
+    await server.register(authPlugin);
+    await server.register(authRoutes);
+    await server.register(twoFactorRoutes);
+    await server.register(webauthnRoutes);
+    await server.ready();
+  });
+
+  beforeEach(async () => {
+    await User.destroy({ where: { email: { [Op.like]: 'webauthn-%@auth.test' } }, force: true });
+    token = (
+      await post('/auth/dev/token', { email: 'webauthn-user@auth.test', name: 'Passkey User' })
+    ).json().token;
+    user = (await User.findOne({ where: { email: 'webauthn-user@auth.test' } }))!;
+  });
+
+  afterAll(async () => {
+    await User.destroy({ where: { email: { [Op.like]: 'webauthn-%@auth.test' } }, force: true });
+    await server.close();
+  });
+
+  describe('CBOR', () => {
+    it('should round-trip the values WebAuthn uses', () => {
+      const value = new Map<any, any>([
+        [1, 2],
+        [-7, 'text'],
+        ['bytes', Buffer.from([1, 2, 3])],
+        ['list', [0, 23, 24, 255, 65536, -1, -300]],
+        ['flags', [true, false, null]],
+      ]);
+
+      expect(decodeCbor(encodeCbor(value))).toEqual(value);
+      expect(() => decodeCbor(Buffer.from([0x82, 0x01]))).toThrow('Unexpected end');
+    });
+  });
+
+  describe('registration', () => {
+    it('should register several passkeys with their options', async () => {
+      const options = (await post('/auth/webauthn/register/options', {}, token)).json();
+      expect(options.rp).toEqual({ id: config.webauthn.rpId, name: config.webauthn.rpName });
+      expect(options.user.name).toBe('webauthn-user@auth.test');
+      expect(options.attestation).toBe('none');
+      expect(options.pubKeyCredParams).toContainEqual({ type: 'public-key', alg: -7 });
+
+      await registerPasskey('Laptop');
+      await registerPasskey('Phone');
+
+      const list = await server.inject({
+        method: 'GET',
+        url: '/auth/webauthn/credentials',
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      expect(list.json().passkeys.map((p: { name: string }) => p.name)).toEqual([
+        'Laptop',
+        'Phone',
+      ]);
+
+      const registered = await AuditEvent.findAll({
+        where: { action: 'auth.passkey_registered', actorId: user.id },
+        order: [['id', 'ASC']],
+      });
+      expect(registered.map((event) => event.metadata)).toEqual([
+        { name: 'Laptop' },
+        { name: 'Phone' },
+      ]);
+
+      // Registered authenticators are excluded from later registrations
+      const next = (await post('/auth/webauthn/register/options', {}, token)).json();
+      expect(next.excludeCredentials).toHaveLength(2);
+    });
+
+    it('should reject a response for another origin or a used challenge', async () => {
+      const { challenge } = (await post('/auth/webauthn/register/options', {}, token)).json();
+
+      const foreign = createAuthenticator('https://evil.example.com');
+      const phished = await post(
+        '/auth/webauthn/register/verify',
+        { credential: foreign.register(challenge) },
+        token
+      );
+      expect(phished.statusCode).toBe(400);
+
+      // The challenge is used up even by a rejected attempt
+      const retry = await post(
+        '/auth/webauthn/register/verify',
+        { credential: createAuthenticator().register(challenge) },
+        token
+      );
+      expect(retry.statusCode).toBe(400);
+      expect(await WebAuthnCredential.count({ where: { userId: user.id } })).toBe(0);
+    });
+  });
+
+  describe('sign-in', () => {
+    it('should sign in with a passkey and track the signature counter', async () => {
+      const { authenticator, userHandle } = await registerPasskey();
+
+      const response = await signIn(authenticator, userHandle);
+      expect(response.statusCode).toBe(200);
+      expect(response.json().token).toBeDefined();
+      expect(response.json().user.email).toBe('webauthn-user@auth.test');
+
+      const credential = await WebAuthnCredential.findOne({ where: { userId: user.id } });
+      expect(credential!.signCount).toBe(1);
+      expect(credential!.lastUsedAt).toBeInstanceOf(Date);
+
+      const login = await AuditEvent.findOne({
+        where: { action: 'auth.login', targetId: String(user.id) },
+        order: [['id', 'DESC']],
+      });
+      expect(login!.metadata).toEqual({ method: 'passkey' });
+
+      // A counter that does not increase points to a cloned authenticator
+      const cloned = await signIn(authenticator, userHandle, { signCount: 1 });
+      expect(cloned.statusCode).toBe(401);
+    });
+
+    it('should refuse a replayed response', async () => {
+      const { authenticator, userHandle } = await registerPasskey();
+      const { challenge } = (await post('/auth/webauthn/login/options')).json();
+      const credential = authenticator.authenticate(challenge, userHandle);
+
+      expect((await post('/auth/webauthn/login/verify', { credential })).statusCode).toBe(200);
+      expect((await post('/auth/webauthn/login/verify', { credential })).statusCode).toBe(401);
+    });
+
+    it('should refuse unknown passkeys and bad signatures', async () => {
+      const { authenticator, userHandle } = await registerPasskey();
+
+      const unknown = await signIn(createAuthenticator(), userHandle);
+      expect(unknown.statusCode).toBe(401);
+
+      const { challenge } = (await post('/auth/webauthn/login/options')).json();
+      const credential = authenticator.authenticate(challenge, userHandle);
+      credential.response.signature = Buffer.from('not a signature').toString('base64url');
+      const forged = await post('/auth/webauthn/login/verify', { credential });
+      expect(forged.statusCode).toBe(401);
+    });
+
+    it('should ask for the second factor when the authenticator did not verify the user', async () => {
+      const { authenticator, userHandle } = await registerPasskey();
+      await user.update({ totpSecret: generateTotpSecret(), totpEnabledAt: new Date() });
+
+      const presenceOnly = await signIn(authenticator, userHandle, { userVerified: false });
+      expect(presenceOnly.json()).toEqual({
+        twoFactorRequired: true,
+        challengeToken: expect.any(String),
+      });
+
+      const verified = await signIn(authenticator, userHandle);
+      expect(verified.json().token).toBeDefined();
+    });
+  });
+
+  describe('DELETE /auth/webauthn/credentials/:id', () => {
+    it('should remove a passkey so it no longer signs in', async () => {
+      const { authenticator, userHandle } = await registerPasskey();
+      const credential = await WebAuthnCredential.findOne({ where: { userId: user.id } });
+
+      const response = await server.inject({
+        method: 'DELETE',
+        url: `/auth/webauthn/credentials/${credential!.id}`,
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      expect(response.statusCode).toBe(200);
+
+      const removed = await AuditEvent.findOne({
+        where: { action: 'auth.passkey_removed', targetId: String(credential!.id) },
+      });
+      expect(removed!.actorId).toBe(user.id);
+
+      expect((await signIn(authenticator, userHandle)).statusCode).toBe(401);
+    });
+  });
+});
@@ -1,5 +1,11 @@
 import 'dotenv/config';
-import type { OAuthProvider } from '../types/oauth.js';
+import { createECDH, createHash, createPrivateKey, createPublicKey, type KeyObject } from 'crypto';
+import { tmpdir } from 'os';
+import path from 'path';
+import type { AccountLinkingPolicy, OAuthProvider } from '../types/oauth.js';
+import type { EncryptionKeyring } from '../types/encryption.js';
+import type { JwtAlgorithm, JwtKey, JwtKeyring } from '../types/jwt.js';
+import type { MailConfig, MailTransportName } from '../types/mail.js';
 
 // Validate NODE_ENV
 const validEnvironments = ['development', 'test', 'staging', 'production'] as const;
@@ -39,6 +45,7 @@ const providers: Record<string, OAuthProvider> = {
     clientId: process.env.GOOGLE_CLIENT_ID || '',
     clientSecret: process.env.GOOGLE_CLIENT_SECRET || '',
     enabled: !!(process.env.GOOGLE_CLIENT_ID && process.env.GOOGLE_CLIENT_SECRET),
+    scopes: ['profile', 'email'],
   },
   github: {
     name: 'github',
@@ -46,6 +53,7 @@ const providers: Record<string, OAuthProvider> = {
     clientId: process.env.GITHUB_CLIENT_ID || '',
     clientSecret: process.env.GITHUB_CLIENT_SECRET || '',
     enabled: !!(process.env.GITHUB_CLIENT_ID && process.env.GITHUB_CLIENT_SECRET),
+    scopes: ['user:email', 'read:user'],
   },
   microsoft: {
     name: 'microsoft',
@@ -53,6 +61,21 @@ const providers: Record<string, OAuthProvider> = {
     clientId: process.env.MICROSOFT_CLIENT_ID || '',
     clientSecret: process.env.MICROSOFT_CLIENT_SECRET || '',
     enabled: !!(process.env.MICROSOFT_CLIENT_ID && process.env.MICROSOFT_CLIENT_SECRET),
+    scopes: ['openid', 'profile', 'email'],
+  },
+  // Generic OpenID Connect provider (Okta, Keycloak, Auth0, ...) configured through discovery
+  oidc: {
+    name: 'oidc',
+    displayName: process.env.OIDC_DISPLAY_NAME || 'Single Sign-On',
+    clientId: process.env.OIDC_CLIENT_ID || '',
+    clientSecret: process.env.OIDC_CLIENT_SECRET || '',
+    enabled: !!(
+      process.env.OIDC_ISSUER_URL &&
+      process.env.OIDC_CLIENT_ID &&
+      process.env.OIDC_CLIENT_SECRET
+    ),
+    scopes: (process.env.OIDC_SCOPES || 'openid profile email').split(/[\s,]+/).filter(Boolean),
+    issuer: process.env.OIDC_ISSUER_URL || '',
   },
 };
 
@@ -61,6 +84,241 @@ const getEnabledProviders = () => {
   return Object.values(providers).filter((p) => p.enabled);
 };
 
+// Get account linking policy, defaulting to the safe automatic mode
+const getAccountLinkingPolicy = (): AccountLinkingPolicy => {
+  const policy = process.env.OAUTH_ACCOUNT_LINKING || 'verified';
+  if (!['verified', 'confirm', 'refuse'].includes(policy)) {
+    throw new Error(
+      `Invalid OAUTH_ACCOUNT_LINKING: ${policy}. Must be one of: verified, confirm, refuse`
+    );
+  }
+  return policy as AccountLinkingPolicy;
+};
+
+// Get origins a post-login returnTo URL may point to (relative paths are always allowed)
+const getReturnToAllowlist = (): string[] => {
+  const origins =
+    process.env.OAUTH_RETURN_TO_ALLOWLIST || process.env.APP_URL || 'http://localhost:3000';
+  return origins
+    .split(',')
+    .map((origin) => origin.trim())
+    .filter(Boolean)
+    .map((origin) => {
+      try {
+        return new URL(origin).origin;
+      } catch {
+        throw new Error(`Invalid origin in OAUTH_RETURN_TO_ALLOWLIST: ${origin}`);
+      }
+    });
+};
+
+// Get the relying party WebAuthn credentials are bound to: the RP ID is a registrable
+// domain (default: the APP_URL host) and assertions must come from one of the origins
+const getWebAuthnConfig = () => {
+  const appUrl = new URL(process.env.APP_URL || 'http://localhost:3000');
+  const origins = (process.env.WEBAUTHN_ORIGINS || appUrl.origin)
+    .split(',')
+    .map((origin) => origin.trim())
+    .filter(Boolean)
+    .map((origin) => {
+      try {
+        return new URL(origin).origin;
+      } catch {
+        throw new Error(`Invalid origin in WEBAUTHN_ORIGINS: ${origin}`);
+      }
+    });
+
+  return {
+    rpId: process.env.WEBAUTHN_RP_ID || appUrl.hostname,
+    rpName: process.env.WEBAUTHN_RP_NAME || 'API Starter',
+    origins,
+    // Lifetime of registration and sign-in challenges, in seconds
+    challengeTtl: parseInt(process.env.WEBAUTHN_CHALLENGE_TTL || '300', 10),
+  };
+};
+
+// Get the keys protecting OAuth tokens at rest, as "keyId:base64Key" pairs (the first is current).
+// In development and tests they default to a key derived from JWT_SECRET.
+const getEncryptionKeyring = (): EncryptionKeyring => {
+  const value = process.env.TOKEN_ENCRYPTION_KEYS;
+
+  if (!value) {
+    // The derived key is only as secret as JWT_SECRET, which has a public default
+    if (currentEnv === 'production' || currentEnv === 'staging') {
+      throw new Error(`TOKEN_ENCRYPTION_KEYS must be set when NODE_ENV is ${currentEnv}`);
+    }
+    const secret = process.env.JWT_SECRET || 'change-this-secret-in-production';
+    return {
+      currentKeyId: 'default',
+      keys: { default: createHash('sha256').update(`token-encryption:${secret}`).digest() },
+    };
+  }
+
+  const invalid = new Error(
+    'Invalid TOKEN_ENCRYPTION_KEYS: expected comma-separated "keyId:base64Key" pairs with 32-byte keys'
+  );
+  const entries = value
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const separator = entry.indexOf(':');
+      const keyId = entry.slice(0, separator);
+      const key = Buffer.from(entry.slice(separator + 1), 'base64');
+      if (separator < 1 || key.length !== 32) {
+        throw invalid;
+      }
+      return [keyId, key] as const;
+    });
+
+  if (entries.length === 0) {
+    throw invalid;
+  }
+
+  return { currentKeyId: entries[0][0], keys: Object.fromEntries(entries) };
+};
+
+// Signing algorithm for a key: RS256 for RSA (2048 bits or more), ES256 for P-256
+const jwtAlgorithmFor = (key: KeyObject): JwtAlgorithm | null => {
+  const details = key.asymmetricKeyDetails;
+  if (key.asymmetricKeyType === 'rsa' && (details?.modulusLength ?? 0) >= 2048) {
+    return 'RS256';
+  }
+  if (key.asymmetricKeyType === 'ec' && details?.namedCurve === 'prime256v1') {
+    return 'ES256';
+  }
+  return null;
+};
+
+// Get the keys signing JWTs, as "kid:base64Pem" pairs. The first must be a private key and
+// signs new tokens; the others (private or public keys) are still accepted for verification.
+// In development and tests they default to a key derived from JWT_SECRET.
+const getJwtKeyring = (): JwtKeyring => {
+  const value = process.env.JWT_SIGNING_KEYS;
+
+  if (!value) {
+    // Anyone who knows JWT_SECRET could rebuild the derived key and forge tokens
+    if (currentEnv === 'production' || currentEnv === 'staging') {
+      throw new Error(`JWT_SIGNING_KEYS must be set when NODE_ENV is ${currentEnv}`);
+    }
+    // P-256 private key derived from the secret, so every instance signs with the same key
+    const secret = process.env.JWT_SECRET || 'change-this-secret-in-production';
+    const d = createHash('sha256').update(`jwt-signing:${secret}`).digest();
+    const ecdh = createECDH('prime256v1');
+    ecdh.setPrivateKey(d);
+    const point = ecdh.getPublicKey();
+    const privateKey = createPrivateKey({
+      key: {
+        kty: 'EC',
+        crv: 'P-256',
+        d: d.toString('base64url'),
+        x: point.subarray(1, 33).toString('base64url'),
+        y: point.subarray(33).toString('base64url'),
+      },
+      format: 'jwk',
+    });
+    const publicKey = createPublicKey(privateKey);
+    const kid = createHash('sha256')
+      .update(publicKey.export({ type: 'spki', format: 'der' }))
+      .digest('base64url')
+      .slice(0, 16);
+
+    return { currentKeyId: kid, keys: { [kid]: { algorithm: 'ES256', privateKey, publicKey } } };
+  }
+
+  const invalid = (reason: string) => new Error(`Invalid JWT_SIGNING_KEYS: ${reason}`);
+  const entries = value
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry): [string, JwtKey] => {
+      const separator = entry.indexOf(':');
+      const kid = entry.slice(0, separator);
+      if (separator < 1) {
+        throw invalid('expected comma-separated "kid:base64Pem" pairs');
+      }
+
+      const pem = Buffer.from(entry.slice(separator + 1), 'base64').toString('utf8');
+      let privateKey: KeyObject | undefined;
+      let publicKey: KeyObject;
+      try {
+        if (pem.includes('PRIVATE KEY')) {
+          privateKey = createPrivateKey(pem);
+          publicKey = createPublicKey(privateKey);
+        } else {
+          publicKey = createPublicKey(pem);
+        }
+      } catch {
+        throw invalid(`key ${kid} is not a PEM key`);
+      }
+
+      const algorithm = jwtAlgorithmFor(publicKey);
+      if (!algorithm) {
+        throw invalid(`key ${kid} must be RSA (2048 bits or more) or EC P-256`);
+      }
+      return [kid, { algorithm, privateKey, publicKey }];
+    });
+
+  if (entries.length === 0) {
+    throw invalid('no keys');
+  }
+  if (!entries[0][1].privateKey) {
+    throw invalid('the first key signs new tokens and must be a private key');
+  }
+
+  return { currentKeyId: entries[0][0], keys: Object.fromEntries(entries) };
+};
+
+// Get outgoing mail settings. Without MAIL_TRANSPORT, SMTP is used when SMTP_HOST is set;
+// otherwise messages are kept in memory in tests and logged to the console in development.
+const getMailConfig = (): MailConfig => {
+  // The console transport prints sign-in and reset links, so it is never picked implicitly
+  if (
+    (currentEnv === 'production' || currentEnv === 'staging') &&
+    !process.env.MAIL_TRANSPORT &&
+    !process.env.SMTP_HOST
+  ) {
+    throw new Error(`SMTP_HOST or MAIL_TRANSPORT must be set when NODE_ENV is ${currentEnv}`);
+  }
+
+  const transport =
+    process.env.MAIL_TRANSPORT ||
+    (process.env.SMTP_HOST ? 'smtp' : currentEnv === 'test' ? 'memory' : 'console');
+
+  if (!['smtp', 'file', 'console', 'memory'].includes(transport)) {
+    throw new Error(
+      `Invalid MAIL_TRANSPORT: ${transport}. Must be one of: smtp, file, console, memory`
+    );
+  }
+  if (transport === 'smtp' && !process.env.SMTP_HOST) {
+    throw new Error('MAIL_TRANSPORT=smtp requires SMTP_HOST');
+  }
+  if (transport !== 'smtp' && currentEnv === 'production') {
+    console.warn(`⚠️  WARNING: MAIL_TRANSPORT is ${transport}. Emails will not be delivered.`);
+  }
+
+  const secure = process.env.SMTP_SECURE === 'true';
+
+  return {
+    transport: transport as MailTransportName,
+    from: process.env.MAIL_FROM || 'API Starter <no-reply@localhost>',
+    fileDir: process.env.MAIL_FILE_DIR || path.join(tmpdir(), 'api-starter-mail'),
+    smtp: {
+      host: process.env.SMTP_HOST || '',
+      port: parseInt(process.env.SMTP_PORT || (secure ? '465' : '587'), 10),
+      secure,
+      user: process.env.SMTP_USER || undefined,
+      password: process.env.SMTP_PASSWORD || undefined,
+      timeoutMs: parseInt(process.env.SMTP_TIMEOUT_MS || '10000', 10),
+    },
+    retry: {
+      maxAttempts: parseInt(process.env.MAIL_MAX_ATTEMPTS || '5', 10),
+      retryDelayMs: parseInt(process.env.MAIL_RETRY_DELAY_MS || '30000', 10),
+    },
+    capture: currentEnv === 'development' || currentEnv === 'test',
+  };
+};
+
 // Get database name based on environment
 const getDatabaseName = () => {
   const baseName = process.env.DB_NAME || 'api_starter_db';
@@ -87,12 +345,80 @@ export const config = {
   },
   jwt: {
     secret: process.env.JWT_SECRET || 'change-this-secret-in-production',
+    // Asymmetric keys signing every JWT, published at /.well-known/jwks.json
+    keyring: getJwtKeyring(),
+    // iss and aud claims of access tokens (both default to APP_URL)
+    issuer: process.env.JWT_ISSUER || process.env.APP_URL || 'http://localhost:3000',
+    audience: process.env.JWT_AUDIENCE || process.env.APP_URL || 'http://localhost:3000',
+    // Lifetime of signed access tokens, in seconds (default: 15 minutes)
+    accessTokenTtl: parseInt(process.env.JWT_ACCESS_TOKEN_TTL || '900', 10),
+    // Lifetime of opaque refresh tokens, in seconds (default: 7 days)
+    refreshTokenTtl: parseInt(process.env.JWT_REFRESH_TOKEN_TTL || '604800', 10),
   },
+  // Envelope encryption of stored OAuth tokens (AES-256-GCM)
+  encryption: getEncryptionKeyring(),
   oauth: {
     providers,
     enabledProviders: getEnabledProviders(),
+    accountLinking: getAccountLinkingPolicy(),
+    returnToAllowlist: getReturnToAllowlist(),
     // Keep legacy google config for backward compatibility
     google: providers.google,
   },
+  mail: getMailConfig(),
+  invitations: {
+    // Lifetime of invitation tokens, in seconds (default: 7 days)
+    ttl: parseInt(process.env.INVITATION_TTL || '604800', 10),
+    // Page the emailed link opens, with the token in a "token" query parameter
+    acceptUrl:
+      process.env.INVITATION_ACCEPT_URL ||
+      `${process.env.APP_URL || 'http://localhost:3000'}/accept-invitation`,
+  },
+  magicLink: {
+    // Lifetime of emailed sign-in links, in seconds (default: 15 minutes)
+    ttl: parseInt(process.env.MAGIC_LINK_TTL || '900', 10),
+    // At most maxRequests links per email address within rateLimitWindow seconds
+    maxRequests: parseInt(process.env.MAGIC_LINK_MAX_REQUESTS || '5', 10),
+    rateLimitWindow: parseInt(process.env.MAGIC_LINK_RATE_WINDOW || '3600', 10),
+  },
+  passwordAuth: {
+    // Email/password registration and login (on unless PASSWORD_AUTH_ENABLED=false)
+    enabled: process.env.PASSWORD_AUTH_ENABLED !== 'false',
+    minLength: parseInt(process.env.PASSWORD_MIN_LENGTH || '12', 10),
+    // Failed logins in a row before the account is locked, and for how many seconds
+    maxAttempts: parseInt(process.env.PASSWORD_MAX_ATTEMPTS || '5', 10),
+    lockoutDuration: parseInt(process.env.PASSWORD_LOCKOUT_DURATION || '900', 10),
+    // Lifetime of password reset links, in seconds (default: 1 hour)
+    resetTtl: parseInt(process.env.PASSWORD_RESET_TTL || '3600', 10),
+    // Page the reset email links to, with the token in a "token" query parameter
+    resetUrl:
+      process.env.PASSWORD_RESET_URL ||
+      `${process.env.APP_URL || 'http://localhost:3000'}/reset-password`,
+    // Lifetime of email verification links, in seconds (default: 2 days)
+    verificationTtl: parseInt(process.env.EMAIL_VERIFICATION_TTL || '172800', 10),
+    verificationUrl:
+      process.env.EMAIL_VERIFICATION_URL ||
+      `${process.env.APP_URL || 'http://localhost:3000'}/verify-email`,
+  },
+  twoFactor: {
+    // Issuer shown next to the account in authenticator apps
+    issuer: process.env.TOTP_ISSUER || 'API Starter',
+    // Admins must enroll a second factor before admin routes accept them
+    requiredForAdmins: process.env.TWO_FACTOR_REQUIRED_FOR_ADMINS === 'true',
+    // Seconds between a first-factor login and the second-factor step
+    challengeTtl: parseInt(process.env.TWO_FACTOR_CHALLENGE_TTL || '300', 10),
+  },
+  webauthn: getWebAuthnConfig(),
+  // OAuth2 authorization server for our own clients (mobile app, partner integrations)
+  oauthServer: {
+    // Seconds an authorization code can wait before being exchanged
+    authorizationCodeTtl: parseInt(process.env.OAUTH_AUTHORIZATION_CODE_TTL || '60', 10),
+  },
+  userRetention: {
+    // Days a deleted user can still be restored before the purge removes it for good
+    retentionDays: parseInt(process.env.USER_RETENTION_DAYS || '30', 10),
+    // Minutes between purge runs (0 turns the scheduled purge off)
+    purgeInterval: parseInt(process.env.USER_PURGE_INTERVAL || '60', 10),
+  },
   appUrl: process.env.APP_URL || 'http://localhost:3000',
 };
@@ -0,0 +1,79 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.createTable('user_identities', {
+      id: {
+        type: Sequelize.INTEGER,
+        autoIncrement: true,
+        primaryKey: true,
+        allowNull: false,
+      },
+      user_id: {
+        type: Sequelize.INTEGER,
+        allowNull: false,
+        references: { model: 'users', key: 'id' },
+        onDelete: 'CASCADE',
+      },
+      provider: {
+        type: Sequelize.STRING(50),
+        allowNull: false,
+        comment: 'OAuth provider name (google, github, microsoft)',
+      },
+      provider_user_id: {
+        type: Sequelize.STRING(255),
+        allowNull: false,
+        comment: 'User ID from OAuth provider',
+      },
+      email: {
+        type: Sequelize.STRING(255),
+        allowNull: true,
+        comment: 'Email reported by the provider when the identity was last used',
+      },
+      access_token: {
+        type: Sequelize.TEXT,
+        allowNull: true,
+        comment: 'OAuth access token',
+      },
+      refresh_token: {
+        type: Sequelize.TEXT,
+        allowNull: true,
+        comment: 'OAuth refresh token',
+      },
+      token_expires_at: {
+        type: Sequelize.DATE,
+        allowNull: true,
+        comment: 'OAuth token expiration time',
+      },
+      created_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+      },
+      updated_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+      },
+    });
+
+    await queryInterface.addIndex('user_identities', ['provider', 'provider_user_id'], {
+      unique: true,
+    });
+    await queryInterface.addIndex('user_identities', ['user_id', 'provider'], { unique: true });
+
+    // Move the single provider link stored on users into the identities table
+    await queryInterface.sequelize.query(`
+      INSERT INTO user_identities
+        (user_id, provider, provider_user_id, email, access_token, refresh_token,
+         token_expires_at, created_at, updated_at)
+      SELECT id, oauth_provider, oauth_id, email, oauth_access_token, oauth_refresh_token,
+             oauth_token_expires_at, NOW(), NOW()
+      FROM users
+      WHERE oauth_provider IS NOT NULL AND oauth_id IS NOT NULL
+    `);
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.dropTable('user_identities');
+  },
+};
@@ -0,0 +1,33 @@
+'use strict';
+
+// Columns holding OAuth provider tokens, which are now stored as encrypted envelopes.
+// Existing plaintext values stay readable; encrypt them with: pnpm tokens:reencrypt
+const tokenColumns = [
+  ['users', 'oauth_access_token', 'OAuth access token'],
+  ['users', 'oauth_refresh_token', 'OAuth refresh token'],
+  ['user_identities', 'access_token', 'OAuth access token'],
+  ['user_identities', 'refresh_token', 'OAuth refresh token'],
+];
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    for (const [table, column, comment] of tokenColumns) {
+      await queryInterface.changeColumn(table, column, {
+        type: Sequelize.TEXT,
+        allowNull: true,
+        comment: `${comment} (encrypted)`,
+      });
+    }
+  },
+
+  async down(queryInterface, Sequelize) {
+    for (const [table, column, comment] of tokenColumns) {
+      await queryInterface.changeColumn(table, column, {
+        type: Sequelize.TEXT,
+        allowNull: true,
+        comment,
+      });
+    }
+  },
+};
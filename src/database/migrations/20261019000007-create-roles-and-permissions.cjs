@@ -0,0 +1,152 @@
+'use strict';
+
+// Permissions known at the time of this migration; admin is granted all of them
+const PERMISSIONS = [
+  { name: 'users:read', description: 'List and view all users' },
+  { name: 'users:write', description: 'Update any user and assign roles' },
+  { name: 'users:delete', description: 'Delete any user' },
+  { name: 'roles:read', description: 'List roles and permissions' },
+  { name: 'roles:write', description: 'Create, update and delete roles' },
+];
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.createTable('roles', {
+      id: {
+        type: Sequelize.INTEGER,
+        autoIncrement: true,
+        primaryKey: true,
+        allowNull: false,
+      },
+      name: {
+        type: Sequelize.STRING(50),
+        allowNull: false,
+        unique: true,
+      },
+      description: {
+        type: Sequelize.STRING(255),
+        allowNull: true,
+      },
+      is_system: {
+        type: Sequelize.BOOLEAN,
+        allowNull: false,
+        defaultValue: false,
+        comment: 'Built-in roles cannot be deleted',
+      },
+      created_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+      },
+      updated_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+      },
+    });
+
+    await queryInterface.createTable('permissions', {
+      id: {
+        type: Sequelize.INTEGER,
+        autoIncrement: true,
+        primaryKey: true,
+        allowNull: false,
+      },
+      name: {
+        type: Sequelize.STRING(100),
+        allowNull: false,
+        unique: true,
+        comment: 'Permission in resource:action form (e.g. users:read)',
+      },
+      description: {
+        type: Sequelize.STRING(255),
+        allowNull: true,
+      },
+      created_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+      },
+      updated_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+      },
+    });
+
+    await queryInterface.createTable('role_permissions', {
+      role_id: {
+        type: Sequelize.INTEGER,
+        allowNull: false,
+        primaryKey: true,
+        references: { model: 'roles', key: 'id' },
+        onDelete: 'CASCADE',
+      },
+      permission_id: {
+        type: Sequelize.INTEGER,
+        allowNull: false,
+        primaryKey: true,
+        references: { model: 'permissions', key: 'id' },
+        onDelete: 'CASCADE',
+      },
+      created_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+      },
+    });
+
+    const now = new Date();
+
+    await queryInterface.bulkInsert('roles', [
+      {
+        name: 'user',
+        description: 'Default role for new accounts',
+        is_system: true,
+        created_at: now,
+        updated_at: now,
+      },
+      {
+        name: 'admin',
+        description: 'Full access to users and roles',
+        is_system: true,
+        created_at: now,
+        updated_at: now,
+      },
+    ]);
+
+    await queryInterface.bulkInsert(
+      'permissions',
+      PERMISSIONS.map((permission) => ({ ...permission, created_at: now, updated_at: now }))
+    );
+
+    await queryInterface.sequelize.query(`
+      INSERT INTO role_permissions (role_id, permission_id, created_at)
+      SELECT roles.id, permissions.id, NOW()
+      FROM roles CROSS JOIN permissions
+      WHERE roles.name = 'admin'
+    `);
+
+    // Existing 'user'/'admin' values map onto the seeded roles of the same name
+    await queryInterface.sequelize.query(`
+      ALTER TABLE users ALTER COLUMN role DROP DEFAULT;
+      ALTER TABLE users ALTER COLUMN role TYPE VARCHAR(50) USING role::text;
+      ALTER TABLE users ALTER COLUMN role SET DEFAULT 'user';
+      ALTER TABLE users ADD CONSTRAINT users_role_fkey
+        FOREIGN KEY (role) REFERENCES roles (name) ON UPDATE CASCADE ON DELETE RESTRICT;
+      DROP TYPE IF EXISTS "enum_users_role";
+    `);
+  },
+
+  async down(queryInterface, Sequelize) {
+    // Custom roles cannot be represented by the enum, so their users fall back to 'user'
+    await queryInterface.sequelize.query(`
+      ALTER TABLE users DROP CONSTRAINT IF EXISTS users_role_fkey;
+      UPDATE users SET role = 'user' WHERE role NOT IN ('user', 'admin');
+      CREATE TYPE "enum_users_role" AS ENUM ('user', 'admin');
+      ALTER TABLE users ALTER COLUMN role DROP DEFAULT;
+      ALTER TABLE users ALTER COLUMN role TYPE "enum_users_role" USING role::"enum_users_role";
+      ALTER TABLE users ALTER COLUMN role SET DEFAULT 'user';
+    `);
+
+    await queryInterface.dropTable('role_permissions');
+    await queryInterface.dropTable('permissions');
+    await queryInterface.dropTable('roles');
+  },
+};
@@ -0,0 +1,166 @@
+'use strict';
+
+const PERMISSIONS = [
+  { name: 'organizations:read', description: 'List and view all organizations' },
+  { name: 'organizations:write', description: 'Manage any organization and its members' },
+];
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.createTable('organizations', {
+      id: {
+        type: Sequelize.INTEGER,
+        autoIncrement: true,
+        primaryKey: true,
+        allowNull: false,
+      },
+      name: {
+        type: Sequelize.STRING(255),
+        allowNull: false,
+      },
+      slug: {
+        type: Sequelize.STRING(100),
+        allowNull: false,
+        unique: true,
+        comment: 'URL-friendly unique identifier',
+      },
+      created_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+      },
+      updated_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+      },
+    });
+
+    await queryInterface.createTable('memberships', {
+      id: {
+        type: Sequelize.INTEGER,
+        autoIncrement: true,
+        primaryKey: true,
+        allowNull: false,
+      },
+      organization_id: {
+        type: Sequelize.INTEGER,
+        allowNull: false,
+        references: { model: 'organizations', key: 'id' },
+        onDelete: 'CASCADE',
+      },
+      user_id: {
+        type: Sequelize.INTEGER,
+        allowNull: false,
+        references: { model: 'users', key: 'id' },
+        onDelete: 'CASCADE',
+      },
+      role: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+        defaultValue: 'member',
+        comment: 'Role within the organization (owner, admin, member)',
+      },
+      created_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+      },
+      updated_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+      },
+    });
+
+    await queryInterface.addIndex('memberships', ['organization_id', 'user_id'], { unique: true });
+    await queryInterface.addIndex('memberships', ['user_id']);
+
+    await queryInterface.createTable('invitations', {
+      id: {
+        type: Sequelize.INTEGER,
+        autoIncrement: true,
+        primaryKey: true,
+        allowNull: false,
+      },
+      organization_id: {
+        type: Sequelize.INTEGER,
+        allowNull: false,
+        references: { model: 'organizations', key: 'id' },
+        onDelete: 'CASCADE',
+      },
+      email: {
+        type: Sequelize.STRING(255),
+        allowNull: false,
+      },
+      role: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+        comment: 'Organization role granted on acceptance',
+      },
+      token_hash: {
+        type: Sequelize.STRING(64),
+        allowNull: false,
+        unique: true,
+        comment: 'SHA-256 hash of the invitation token (the token itself is never stored)',
+      },
+      invited_by_id: {
+        type: Sequelize.INTEGER,
+        allowNull: true,
+        references: { model: 'users', key: 'id' },
+        onDelete: 'SET NULL',
+      },
+      expires_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+      },
+      accepted_at: {
+        type: Sequelize.DATE,
+        allowNull: true,
+      },
+      revoked_at: {
+        type: Sequelize.DATE,
+        allowNull: true,
+      },
+      created_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+      },
+      updated_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+      },
+    });
+
+    await queryInterface.addIndex('invitations', ['organization_id']);
+
+    await queryInterface.addColumn('sessions', 'active_organization_id', {
+      type: Sequelize.INTEGER,
+      allowNull: true,
+      references: { model: 'organizations', key: 'id' },
+      onDelete: 'SET NULL',
+      comment: 'Organization carried in the org claim of access tokens for this session',
+    });
+
+    const now = new Date();
+    await queryInterface.bulkInsert(
+      'permissions',
+      PERMISSIONS.map((permission) => ({ ...permission, created_at: now, updated_at: now }))
+    );
+
+    // The admin role keeps every permission
+    await queryInterface.sequelize.query(`
+      INSERT INTO role_permissions (role_id, permission_id, created_at)
+      SELECT roles.id, permissions.id, NOW()
+      FROM roles CROSS JOIN permissions
+      WHERE roles.name = 'admin' AND permissions.name LIKE 'organizations:%'
+    `);
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.bulkDelete('permissions', {
+      name: PERMISSIONS.map((permission) => permission.name),
+    });
+    await queryInterface.removeColumn('sessions', 'active_organization_id');
+    await queryInterface.dropTable('invitations');
+    await queryInterface.dropTable('memberships');
+    await queryInterface.dropTable('organizations');
+  },
+};
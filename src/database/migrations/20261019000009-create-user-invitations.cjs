@@ -0,0 +1,71 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.createTable('user_invitations', {
+      id: {
+        type: Sequelize.INTEGER,
+        autoIncrement: true,
+        primaryKey: true,
+        allowNull: false,
+      },
+      email: {
+        type: Sequelize.STRING(255),
+        allowNull: false,
+      },
+      name: {
+        type: Sequelize.STRING(255),
+        allowNull: true,
+        comment: 'Suggested name for the new account',
+      },
+      role: {
+        type: Sequelize.STRING(50),
+        allowNull: false,
+        defaultValue: 'user',
+        references: { model: 'roles', key: 'name' },
+        onUpdate: 'CASCADE',
+        onDelete: 'CASCADE',
+        comment: 'Role assigned to the account created on acceptance',
+      },
+      invited_by_id: {
+        type: Sequelize.INTEGER,
+        allowNull: true,
+        references: { model: 'users', key: 'id' },
+        onDelete: 'SET NULL',
+      },
+      expires_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+      },
+      accepted_at: {
+        type: Sequelize.DATE,
+        allowNull: true,
+      },
+      accepted_user_id: {
+        type: Sequelize.INTEGER,
+        allowNull: true,
+        references: { model: 'users', key: 'id' },
+        onDelete: 'SET NULL',
+      },
+      revoked_at: {
+        type: Sequelize.DATE,
+        allowNull: true,
+      },
+      created_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+      },
+      updated_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+      },
+    });
+
+    await queryInterface.addIndex('user_invitations', ['email']);
+  },
+
+  async down(queryInterface) {
+    await queryInterface.dropTable('user_invitations');
+  },
+};
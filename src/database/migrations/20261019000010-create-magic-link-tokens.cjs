@@ -0,0 +1,53 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.createTable('magic_link_tokens', {
+      id: {
+        type: Sequelize.INTEGER,
+        autoIncrement: true,
+        primaryKey: true,
+        allowNull: false,
+      },
+      email: {
+        type: Sequelize.STRING(255),
+        allowNull: false,
+      },
+      token_hash: {
+        type: Sequelize.STRING(64),
+        allowNull: false,
+        unique: true,
+        comment: 'SHA-256 hash of the emailed token (the token itself is never stored)',
+      },
+      return_to: {
+        type: Sequelize.STRING(2048),
+        allowNull: true,
+        comment: 'Where to redirect after signing in',
+      },
+      expires_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+      },
+      used_at: {
+        type: Sequelize.DATE,
+        allowNull: true,
+      },
+      created_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+      },
+      updated_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+      },
+    });
+
+    // Rate limiting counts recent links per address
+    await queryInterface.addIndex('magic_link_tokens', ['email', 'created_at']);
+  },
+
+  async down(queryInterface) {
+    await queryInterface.dropTable('magic_link_tokens');
+  },
+};
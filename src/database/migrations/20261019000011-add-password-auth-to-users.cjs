@@ -0,0 +1,44 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.addColumn('users', 'password_hash', {
+      type: Sequelize.STRING(255),
+      allowNull: true,
+      comment: 'scrypt hash with its parameters (null when the user has no password)',
+    });
+
+    await queryInterface.addColumn('users', 'password_changed_at', {
+      type: Sequelize.DATE,
+      allowNull: true,
+    });
+
+    await queryInterface.addColumn('users', 'email_verified_at', {
+      type: Sequelize.DATE,
+      allowNull: true,
+      comment: 'When the user proved they own the email address',
+    });
+
+    await queryInterface.addColumn('users', 'failed_login_attempts', {
+      type: Sequelize.INTEGER,
+      allowNull: false,
+      defaultValue: 0,
+      comment: 'Consecutive failed password logins',
+    });
+
+    await queryInterface.addColumn('users', 'locked_until', {
+      type: Sequelize.DATE,
+      allowNull: true,
+      comment: 'Password login is refused until this time',
+    });
+  },
+
+  async down(queryInterface) {
+    await queryInterface.removeColumn('users', 'password_hash');
+    await queryInterface.removeColumn('users', 'password_changed_at');
+    await queryInterface.removeColumn('users', 'email_verified_at');
+    await queryInterface.removeColumn('users', 'failed_login_attempts');
+    await queryInterface.removeColumn('users', 'locked_until');
+  },
+};
@@ -0,0 +1,65 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.addColumn('users', 'totp_secret', {
+      type: Sequelize.TEXT,
+      allowNull: true,
+      comment: 'TOTP secret (encrypted), set when enrollment starts',
+    });
+
+    await queryInterface.addColumn('users', 'totp_enabled_at', {
+      type: Sequelize.DATE,
+      allowNull: true,
+      comment: 'When TOTP enrollment was confirmed (null while pending or disabled)',
+    });
+
+    await queryInterface.addColumn('users', 'totp_last_step', {
+      type: Sequelize.INTEGER,
+      allowNull: true,
+      comment: 'Time step of the last accepted code, so a code cannot be replayed',
+    });
+
+    await queryInterface.createTable('recovery_codes', {
+      id: {
+        type: Sequelize.INTEGER,
+        autoIncrement: true,
+        primaryKey: true,
+        allowNull: false,
+      },
+      user_id: {
+        type: Sequelize.INTEGER,
+        allowNull: false,
+        references: { model: 'users', key: 'id' },
+        onDelete: 'CASCADE',
+      },
+      code_hash: {
+        type: Sequelize.STRING(64),
+        allowNull: false,
+        comment: 'SHA-256 hash of the recovery code (the code itself is never stored)',
+      },
+      used_at: {
+        type: Sequelize.DATE,
+        allowNull: true,
+      },
+      created_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+      },
+      updated_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+      },
+    });
+
+    await queryInterface.addIndex('recovery_codes', ['user_id']);
+  },
+
+  async down(queryInterface) {
+    await queryInterface.dropTable('recovery_codes');
+    await queryInterface.removeColumn('users', 'totp_secret');
+    await queryInterface.removeColumn('users', 'totp_enabled_at');
+    await queryInterface.removeColumn('users', 'totp_last_step');
+  },
+};
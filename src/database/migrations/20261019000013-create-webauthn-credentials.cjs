@@ -0,0 +1,110 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.createTable('webauthn_credentials', {
+      id: {
+        type: Sequelize.INTEGER,
+        autoIncrement: true,
+        primaryKey: true,
+        allowNull: false,
+      },
+      user_id: {
+        type: Sequelize.INTEGER,
+        allowNull: false,
+        references: { model: 'users', key: 'id' },
+        onDelete: 'CASCADE',
+      },
+      credential_id: {
+        type: Sequelize.STRING(1366),
+        allowNull: false,
+        unique: true,
+        comment: 'Credential ID chosen by the authenticator (base64url)',
+      },
+      public_key: {
+        type: Sequelize.TEXT,
+        allowNull: false,
+        comment: 'Credential public key as SPKI DER (base64url)',
+      },
+      algorithm: {
+        type: Sequelize.INTEGER,
+        allowNull: false,
+        comment: 'COSE algorithm identifier (-7 ES256, -8 EdDSA, -257 RS256)',
+      },
+      sign_count: {
+        type: Sequelize.BIGINT,
+        allowNull: false,
+        defaultValue: 0,
+        comment: 'Last signature counter reported by the authenticator',
+      },
+      transports: {
+        type: Sequelize.ARRAY(Sequelize.STRING),
+        allowNull: false,
+        defaultValue: [],
+      },
+      name: {
+        type: Sequelize.STRING(255),
+        allowNull: false,
+      },
+      last_used_at: {
+        type: Sequelize.DATE,
+        allowNull: true,
+      },
+      created_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+      },
+      updated_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+      },
+    });
+
+    await queryInterface.addIndex('webauthn_credentials', ['user_id']);
+
+    await queryInterface.createTable('webauthn_challenges', {
+      id: {
+        type: Sequelize.INTEGER,
+        autoIncrement: true,
+        primaryKey: true,
+        allowNull: false,
+      },
+      challenge: {
+        type: Sequelize.STRING(64),
+        allowNull: false,
+        unique: true,
+        comment: 'Random challenge sent to the client (base64url), deleted once used',
+      },
+      ceremony: {
+        type: Sequelize.STRING(20),
+        allowNull: false,
+        comment: 'registration or authentication',
+      },
+      user_id: {
+        type: Sequelize.INTEGER,
+        allowNull: true,
+        references: { model: 'users', key: 'id' },
+        onDelete: 'CASCADE',
+        comment: 'User registering a credential (null for sign-in)',
+      },
+      expires_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+      },
+      created_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+      },
+      updated_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+      },
+    });
+  },
+
+  async down(queryInterface) {
+    await queryInterface.dropTable('webauthn_challenges');
+    await queryInterface.dropTable('webauthn_credentials');
+  },
+};
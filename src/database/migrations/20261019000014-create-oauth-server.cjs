@@ -0,0 +1,205 @@
+'use strict';
+
+// Permission added by this migration; admin is granted it
+const PERMISSIONS = [
+  { name: 'oauth-clients:write', description: 'Register and remove OAuth clients' },
+];
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.createTable('oauth_clients', {
+      id: {
+        type: Sequelize.INTEGER,
+        autoIncrement: true,
+        primaryKey: true,
+        allowNull: false,
+      },
+      client_id: {
+        type: Sequelize.STRING(64),
+        allowNull: false,
+        unique: true,
+      },
+      client_secret_hash: {
+        type: Sequelize.STRING(64),
+        allowNull: true,
+        comment: 'SHA-256 hash of the client secret (null for public clients such as mobile apps)',
+      },
+      name: {
+        type: Sequelize.STRING(100),
+        allowNull: false,
+      },
+      redirect_uris: {
+        type: Sequelize.ARRAY(Sequelize.STRING(2048)),
+        allowNull: false,
+        defaultValue: [],
+      },
+      grant_types: {
+        type: Sequelize.ARRAY(Sequelize.STRING(30)),
+        allowNull: false,
+        defaultValue: [],
+      },
+      scopes: {
+        type: Sequelize.ARRAY(Sequelize.STRING(50)),
+        allowNull: false,
+        defaultValue: [],
+        comment: 'Scopes the client may request',
+      },
+      first_party: {
+        type: Sequelize.BOOLEAN,
+        allowNull: false,
+        defaultValue: false,
+        comment: 'First-party clients are authorized without a consent screen',
+      },
+      user_id: {
+        type: Sequelize.INTEGER,
+        allowNull: true,
+        references: { model: 'users', key: 'id' },
+        onDelete: 'CASCADE',
+        comment: 'User the client acts as with the client credentials grant',
+      },
+      revoked_at: {
+        type: Sequelize.DATE,
+        allowNull: true,
+      },
+      created_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+      },
+      updated_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+      },
+    });
+
+    await queryInterface.createTable('oauth_authorization_codes', {
+      id: {
+        type: Sequelize.INTEGER,
+        autoIncrement: true,
+        primaryKey: true,
+        allowNull: false,
+      },
+      code_hash: {
+        type: Sequelize.STRING(64),
+        allowNull: false,
+        unique: true,
+        comment: 'SHA-256 hash of the code, deleted once exchanged',
+      },
+      oauth_client_id: {
+        type: Sequelize.INTEGER,
+        allowNull: false,
+        references: { model: 'oauth_clients', key: 'id' },
+        onDelete: 'CASCADE',
+      },
+      user_id: {
+        type: Sequelize.INTEGER,
+        allowNull: false,
+        references: { model: 'users', key: 'id' },
+        onDelete: 'CASCADE',
+      },
+      redirect_uri: {
+        type: Sequelize.STRING(2048),
+        allowNull: false,
+      },
+      scopes: {
+        type: Sequelize.ARRAY(Sequelize.STRING(50)),
+        allowNull: false,
+        defaultValue: [],
+      },
+      code_challenge: {
+        type: Sequelize.STRING(128),
+        allowNull: false,
+        comment: 'PKCE S256 challenge the code verifier must match',
+      },
+      expires_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+      },
+      created_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+      },
+      updated_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+      },
+    });
+
+    await queryInterface.createTable('oauth_consents', {
+      id: {
+        type: Sequelize.INTEGER,
+        autoIncrement: true,
+        primaryKey: true,
+        allowNull: false,
+      },
+      user_id: {
+        type: Sequelize.INTEGER,
+        allowNull: false,
+        references: { model: 'users', key: 'id' },
+        onDelete: 'CASCADE',
+      },
+      oauth_client_id: {
+        type: Sequelize.INTEGER,
+        allowNull: false,
+        references: { model: 'oauth_clients', key: 'id' },
+        onDelete: 'CASCADE',
+      },
+      scopes: {
+        type: Sequelize.ARRAY(Sequelize.STRING(50)),
+        allowNull: false,
+        defaultValue: [],
+        comment: 'Scopes the user granted to the client',
+      },
+      created_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+      },
+      updated_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+      },
+    });
+
+    await queryInterface.addIndex('oauth_consents', ['user_id', 'oauth_client_id'], {
+      unique: true,
+    });
+
+    await queryInterface.addColumn('sessions', 'oauth_client_id', {
+      type: Sequelize.INTEGER,
+      allowNull: true,
+      references: { model: 'oauth_clients', key: 'id' },
+      onDelete: 'CASCADE',
+      comment: 'OAuth client the session was authorized for (null for direct sign-ins)',
+    });
+
+    await queryInterface.addColumn('sessions', 'scopes', {
+      type: Sequelize.ARRAY(Sequelize.STRING(50)),
+      allowNull: true,
+      comment: 'Scopes granted to the OAuth client (null for direct sign-ins)',
+    });
+
+    const now = new Date();
+    await queryInterface.bulkInsert(
+      'permissions',
+      PERMISSIONS.map((permission) => ({ ...permission, created_at: now, updated_at: now }))
+    );
+
+    await queryInterface.sequelize.query(`
+      INSERT INTO role_permissions (role_id, permission_id, created_at)
+      SELECT roles.id, permissions.id, NOW()
+      FROM roles CROSS JOIN permissions
+      WHERE roles.name = 'admin' AND permissions.name = 'oauth-clients:write'
+    `);
+  },
+
+  async down(queryInterface) {
+    await queryInterface.bulkDelete('permissions', {
+      name: PERMISSIONS.map((permission) => permission.name),
+    });
+    await queryInterface.removeColumn('sessions', 'scopes');
+    await queryInterface.removeColumn('sessions', 'oauth_client_id');
+    await queryInterface.dropTable('oauth_consents');
+    await queryInterface.dropTable('oauth_authorization_codes');
+    await queryInterface.dropTable('oauth_clients');
+  },
+};
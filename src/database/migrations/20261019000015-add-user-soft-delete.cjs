@@ -0,0 +1,35 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.addColumn('users', 'deleted_at', {
+      type: Sequelize.DATE,
+      allowNull: true,
+      comment: 'When the user was deleted (restorable until purged after the retention window)',
+    });
+
+    await queryInterface.addIndex('users', ['deleted_at']);
+
+    // A deleted user keeps its email, so only active users must have unique ones
+    await queryInterface.removeConstraint('users', 'users_email_key');
+    await queryInterface.addIndex('users', ['email'], {
+      name: 'users_email_active',
+      unique: true,
+      where: { deleted_at: null },
+    });
+  },
+
+  async down(queryInterface) {
+    // Deleted users would come back as active ones, and may share an email with them
+    await queryInterface.sequelize.query('DELETE FROM users WHERE deleted_at IS NOT NULL');
+    await queryInterface.removeIndex('users', 'users_email_active');
+    await queryInterface.addConstraint('users', {
+      fields: ['email'],
+      type: 'unique',
+      name: 'users_email_key',
+    });
+    await queryInterface.removeIndex('users', ['deleted_at']);
+    await queryInterface.removeColumn('users', 'deleted_at');
+  },
+};
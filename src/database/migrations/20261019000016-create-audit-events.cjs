@@ -0,0 +1,105 @@
+'use strict';
+
+// Permission added by this migration; admin is granted it
+const PERMISSIONS = [{ name: 'audit:read', description: 'Query and export the audit log' }];
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.createTable('audit_events', {
+      id: {
+        type: Sequelize.BIGINT,
+        autoIncrement: true,
+        primaryKey: true,
+        allowNull: false,
+      },
+      actor_id: {
+        type: Sequelize.INTEGER,
+        allowNull: true,
+        comment: 'User who acted (no foreign key, so events outlive purged users)',
+      },
+      action: {
+        type: Sequelize.STRING(100),
+        allowNull: false,
+        comment: 'What happened, e.g. user.role_changed',
+      },
+      target_type: {
+        type: Sequelize.STRING(50),
+        allowNull: true,
+      },
+      target_id: {
+        type: Sequelize.STRING(100),
+        allowNull: true,
+      },
+      before: {
+        type: Sequelize.JSONB,
+        allowNull: true,
+        comment: 'Changed fields before the action',
+      },
+      after: {
+        type: Sequelize.JSONB,
+        allowNull: true,
+        comment: 'Changed fields after the action',
+      },
+      metadata: {
+        type: Sequelize.JSONB,
+        allowNull: true,
+      },
+      ip_address: {
+        type: Sequelize.STRING(45),
+        allowNull: true,
+      },
+      user_agent: {
+        type: Sequelize.STRING(512),
+        allowNull: true,
+      },
+      request_id: {
+        type: Sequelize.STRING(100),
+        allowNull: true,
+      },
+      created_at: {
+        type: Sequelize.DATE,
+        allowNull: false,
+      },
+    });
+
+    await queryInterface.addIndex('audit_events', ['created_at']);
+    await queryInterface.addIndex('audit_events', ['actor_id']);
+    await queryInterface.addIndex('audit_events', ['action']);
+    await queryInterface.addIndex('audit_events', ['target_type', 'target_id']);
+
+    // Append-only: the database refuses to change or delete recorded events
+    await queryInterface.sequelize.query(`
+      CREATE OR REPLACE FUNCTION audit_events_append_only() RETURNS trigger AS $$
+      BEGIN
+        RAISE EXCEPTION 'audit_events is append-only';
+      END;
+      $$ LANGUAGE plpgsql;
+
+      CREATE TRIGGER audit_events_append_only
+      BEFORE UPDATE OR DELETE ON audit_events
+      FOR EACH ROW EXECUTE FUNCTION audit_events_append_only();
+    `);
+
+    const now = new Date();
+    await queryInterface.bulkInsert(
+      'permissions',
+      PERMISSIONS.map((permission) => ({ ...permission, created_at: now, updated_at: now }))
+    );
+
+    await queryInterface.sequelize.query(`
+      INSERT INTO role_permissions (role_id, permission_id, created_at)
+      SELECT roles.id, permissions.id, NOW()
+      FROM roles CROSS JOIN permissions
+      WHERE roles.name = 'admin' AND permissions.name = 'audit:read'
+    `);
+  },
+
+  async down(queryInterface) {
+    await queryInterface.bulkDelete('permissions', {
+      name: PERMISSIONS.map((permission) => permission.name),
+    });
+    await queryInterface.dropTable('audit_events');
+    await queryInterface.sequelize.query('DROP FUNCTION IF EXISTS audit_events_append_only()');
+  },
+};
@@ -0,0 +1,16 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.addColumn('users', 'pending_email', {
+      type: Sequelize.STRING(255),
+      allowNull: true,
+      comment: 'New email address, used once its owner follows the verification link',
+    });
+  },
+
+  async down(queryInterface) {
+    await queryInterface.removeColumn('users', 'pending_email');
+  },
+};
@@ -0,0 +1,25 @@
+'use strict';
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface) {
+    // Fails if two active users share an address in different case: merge them first
+    await queryInterface.sequelize.query(
+      'UPDATE users SET email = lower(email), pending_email = lower(pending_email)'
+    );
+
+    await queryInterface.removeIndex('users', 'users_email_active');
+    await queryInterface.sequelize.query(
+      'CREATE UNIQUE INDEX users_email_active ON users (lower(email)) WHERE deleted_at IS NULL'
+    );
+  },
+
+  async down(queryInterface) {
+    await queryInterface.removeIndex('users', 'users_email_active');
+    await queryInterface.addIndex('users', ['email'], {
+      name: 'users_email_active',
+      unique: true,
+      where: { deleted_at: null },
+    });
+  },
+};
@@ -5,31 +5,189 @@
 
 export type Locale = 'en' | 'es' | 'fr';
 
-interface Messages {
+export interface Messages {
   errors: {
     userNotFound: string;
     failedToCreateUser: string;
     failedToFetchUsers: string;
+    invalidCursor: string;
+    cursorWithOffset: string;
     failedToFetchUser: string;
     failedToUpdateUser: string;
     failedToDeleteUser: string;
+    routeNotFound: string;
+    invalidJsonBody: string;
+    validationFailed: string;
+    internalError: string;
     emailRequired: string;
     authenticationFailed: string;
+    oauthProviderNotConfigured: string;
     googleOAuthNotConfigured: string;
     failedToFetchGoogleUserInfo: string;
     unauthorized: string;
+    authenticationRequired: string;
     invalidToken: string;
+    invalidRefreshToken: string;
+    sessionNotFound: string;
+    identityNotFound: string;
+    identityLinkedToAnotherUser: string;
+    cannotUnlinkLastIdentity: string;
+    accountLinkConfirmationRequired: string;
+    accountLinkingRefused: string;
+    invalidLinkToken: string;
+    invalidOAuthState: string;
+    invalidReturnTo: string;
+    missingPkceVerifier: string;
+    invalidOidcNonce: string;
+    apiKeyNotFound: string;
+    apiKeyScopeDenied: string;
+    apiKeyRequiresSession: string;
+    permissionDenied: string;
+    roleRequired: string;
+    roleNotFound: string;
+    roleAlreadyExists: string;
+    unknownPermissions: string;
+    adminRolePermissionsLocked: string;
+    systemRoleNotDeletable: string;
+    roleInUse: string;
+    cannotAssignRole: string;
+    cannotUpdateUser: string;
+    cannotDeleteUser: string;
+    cannotDeleteSelf: string;
+    organizationNotFound: string;
+    organizationSlugTaken: string;
+    notOrganizationMember: string;
+    memberNotFound: string;
+    lastOrganizationOwner: string;
+    invitationNotFound: string;
+    invitationInvalid: string;
+    invitationExpired: string;
+    invitationEmailMismatch: string;
+    alreadyOrganizationMember: string;
+    organizationSwitchRequiresSession: string;
+    userAlreadyExists: string;
+    accountDeleted: string;
+    deletedUserNotFound: string;
+    magicLinkInvalid: string;
+    magicLinkExpired: string;
+    tooManyMagicLinkRequests: string;
+    invalidCredentials: string;
+    accountLocked: string;
+    passwordTooShort: string;
+    passwordTooLong: string;
+    passwordTooCommon: string;
+    passwordContainsEmail: string;
+    currentPasswordIncorrect: string;
+    passwordNotSet: string;
+    passwordResetInvalid: string;
+    emailVerificationInvalid: string;
+    emailAlreadyVerified: string;
+    emailNotVerified: string;
+    twoFactorAlreadyEnabled: string;
+    twoFactorNotEnabled: string;
+    twoFactorSetupNotStarted: string;
+    invalidTwoFactorCode: string;
+    twoFactorChallengeInvalid: string;
+    twoFactorSetupRequired: string;
+    twoFactorRequiredCannotDisable: string;
+    passkeyRegistrationFailed: string;
+    passkeyAlreadyRegistered: string;
+    passkeyAuthenticationFailed: string;
+    passkeyNotFound: string;
+    oauthInvalidClient: string;
+    oauthInvalidRedirectUri: string;
+    oauthInvalidRequest: string;
+    oauthInvalidGrant: string;
+    oauthUnsupportedGrantType: string;
+    oauthInvalidScope: string;
+    oauthAccessDenied: string;
+    oauthScopeDenied: string;
+    oauthClientNotFound: string;
+    oauthConsentNotFound: string;
   };
   success: {
     loggedOutSuccessfully: string;
+    loggedOutEverywhere: string;
+    sessionRevoked: string;
     userCreated: string;
     userUpdated: string;
     userDeleted: string;
+    identityLinked: string;
+    identityUnlinked: string;
+    apiKeyRevoked: string;
+    roleDeleted: string;
+    organizationDeleted: string;
+    leftOrganization: string;
+    memberRemoved: string;
+    invitationRevoked: string;
+    magicLinkSent: string;
+    passwordChanged: string;
+    passwordResetEmailSent: string;
+    passwordReset: string;
+    emailVerified: string;
+    verificationEmailSent: string;
+    accountCreated: string;
+    twoFactorDisabled: string;
+    passkeyDeleted: string;
+    oauthClientRevoked: string;
+    oauthConsentRevoked: string;
   };
+  // Field errors of schema validation, by AJV keyword (and format)
   validation: {
+    required: string;
+    type: string;
+    format: string;
     invalidEmail: string;
-    nameRequired: string;
-    emailRequired: string;
+    invalidDateTime: string;
+    invalidUri: string;
+    invalidUuid: string;
+    minLength: string;
+    maxLength: string;
+    minimum: string;
+    maximum: string;
+    minItems: string;
+    enum: string;
+    pattern: string;
+    additionalProperties: string;
+    invalid: string;
+  };
+  // Titles of problem+json error responses, by HTTP status
+  problems: {
+    badRequest: string;
+    unauthorized: string;
+    forbidden: string;
+    notFound: string;
+    conflict: string;
+    payloadTooLarge: string;
+    unsupportedMediaType: string;
+    locked: string;
+    tooManyRequests: string;
+    internalServerError: string;
+    serviceUnavailable: string;
+  };
+  emails: {
+    invitationSubject: string;
+    invitationBody: string;
+    invitationAction: string;
+    invitationExpiry: string;
+    welcomeSubject: string;
+    welcomeBody: string;
+    welcomeAction: string;
+    securityAlertSubject: string;
+    securityAlertBody: string;
+    securityAlertAdvice: string;
+    magicLinkSubject: string;
+    magicLinkBody: string;
+    magicLinkAction: string;
+    linkExpiry: string;
+    verifyEmailSubject: string;
+    verifyEmailBody: string;
+    verifyEmailAction: string;
+    passwordResetSubject: string;
+    passwordResetBody: string;
+    passwordResetAction: string;
+    greeting: string;
+    ignoreNotice: string;
   };
 }
 
@@ -39,27 +197,191 @@ const messages: Record<Locale, Messages> = {
       userNotFound: 'User not found',
       failedToCreateUser: 'Failed to create user',
       failedToFetchUsers: 'Failed to fetch users',
+      invalidCursor: 'Invalid pagination cursor',
+      cursorWithOffset: 'Use either cursor or offset, not both',
       failedToFetchUser: 'Failed to fetch user',
       failedToUpdateUser: 'Failed to update user',
       failedToDeleteUser: 'Failed to delete user',
+      routeNotFound: 'Route {method} {url} not found',
+      invalidJsonBody: 'The request body is not valid JSON',
+      validationFailed: 'The request did not pass validation',
+      internalError: 'An unexpected error occurred',
       emailRequired: 'Email is required',
       authenticationFailed: 'Authentication failed',
+      oauthProviderNotConfigured: '{provider} OAuth is not configured',
       googleOAuthNotConfigured:
         'Google OAuth not configured. Please set GOOGLE_CLIENT_ID and GOOGLE_CLIENT_SECRET',
       failedToFetchGoogleUserInfo: 'Failed to fetch user info from Google',
       unauthorized: 'Unauthorized',
+      authenticationRequired: 'Authentication required',
       invalidToken: 'Invalid token',
+      invalidRefreshToken: 'Invalid or expired refresh token',
+      sessionNotFound: 'Session not found',
+      identityNotFound: 'Linked account not found',
+      identityLinkedToAnotherUser: 'This provider account is already linked to another user',
+      cannotUnlinkLastIdentity: 'Cannot unlink the last sign-in method of an account',
+      accountLinkConfirmationRequired:
+        'An account with this email already exists. Sign in with your existing method and confirm linking this provider',
+      accountLinkingRefused:
+        'An account with this email already exists. Sign in with your existing method and link this provider from your account',
+      invalidLinkToken: 'Invalid or expired link token',
+      invalidOAuthState: 'Invalid or expired OAuth state, please sign in again',
+      invalidReturnTo: 'Return URL is not allowed',
+      missingPkceVerifier: 'Missing PKCE code verifier, please sign in again',
+      invalidOidcNonce: 'ID token nonce does not match this sign-in',
+      apiKeyNotFound: 'API key not found',
+      apiKeyScopeDenied: 'This API key is not allowed to perform this action',
+      apiKeyRequiresSession: 'API keys can only be managed from a signed-in session',
+      permissionDenied: 'You do not have permission to perform this action',
+      roleRequired: 'Access denied. Required role: {roles}',
+      roleNotFound: 'Role not found',
+      roleAlreadyExists: 'A role with this name already exists',
+      unknownPermissions: 'Unknown permissions: {permissions}',
+      adminRolePermissionsLocked: 'The permissions of the admin role cannot be changed',
+      systemRoleNotDeletable: 'Built-in roles cannot be deleted',
+      roleInUse: 'This role is still assigned to users',
+      cannotAssignRole: 'Insufficient permissions to assign roles',
+      cannotUpdateUser: 'Insufficient permissions to update this user',
+      cannotDeleteUser: 'Insufficient permissions to delete this user',
+      cannotDeleteSelf: 'Cannot delete your own account',
+      organizationNotFound: 'Organization not found',
+      organizationSlugTaken: 'An organization with this slug already exists',
+      notOrganizationMember: 'You are not a member of this organization',
+      memberNotFound: 'Member not found',
+      lastOrganizationOwner: 'An organization must keep at least one owner',
+      invitationNotFound: 'Invitation not found',
+      invitationInvalid: 'This invitation is invalid or has already been used',
+      invitationExpired: 'This invitation has expired',
+      invitationEmailMismatch: 'This invitation was sent to a different email address',
+      alreadyOrganizationMember: 'You are already a member of this organization',
+      organizationSwitchRequiresSession: 'Switching organizations requires a signed-in session',
+      userAlreadyExists: 'A user with this email already exists',
+      accountDeleted: 'This account has been deleted',
+      deletedUserNotFound: 'No deleted user with this id',
+      magicLinkInvalid: 'Invalid or already used sign-in link',
+      magicLinkExpired: 'This sign-in link has expired',
+      tooManyMagicLinkRequests: 'Too many sign-in links requested for this email. Try again later.',
+      invalidCredentials: 'Invalid email or password',
+      accountLocked: 'Too many failed login attempts. Try again later.',
+      passwordTooShort: 'Password must be at least {minLength} characters',
+      passwordTooLong: 'Password must be at most {maxLength} characters',
+      passwordTooCommon: 'This password is too common or too simple',
+      passwordContainsEmail: 'Password must not contain your email address',
+      currentPasswordIncorrect: 'Current password is incorrect',
+      passwordNotSet: 'This account has no password yet. Use the forgot password link to set one.',
+      passwordResetInvalid: 'Invalid or expired password reset link',
+      emailVerificationInvalid: 'Invalid or expired verification link',
+      emailAlreadyVerified: 'Email address is already verified',
+      emailNotVerified: 'Verify your email address before signing in with a password',
+      twoFactorAlreadyEnabled: 'Two-factor authentication is already enabled',
+      twoFactorNotEnabled: 'Two-factor authentication is not enabled',
+      twoFactorSetupNotStarted: 'Start two-factor setup before confirming it',
+      invalidTwoFactorCode: 'Invalid authentication code',
+      twoFactorChallengeInvalid: 'The sign-in attempt has expired. Sign in again.',
+      twoFactorSetupRequired: 'Set up two-factor authentication to use this feature',
+      twoFactorRequiredCannotDisable:
+        'Two-factor authentication is required for your role and cannot be disabled',
+      passkeyRegistrationFailed: 'The passkey could not be registered',
+      passkeyAlreadyRegistered: 'This passkey is already registered',
+      passkeyAuthenticationFailed: 'Passkey sign-in failed',
+      passkeyNotFound: 'Passkey not found',
+      oauthInvalidClient: 'Unknown OAuth client or wrong client credentials',
+      oauthInvalidRedirectUri: 'This redirect URI is not registered for the client',
+      oauthInvalidRequest: 'Missing or invalid parameter: {parameter}',
+      oauthInvalidGrant:
+        'The authorization code or refresh token is invalid, expired or was issued to another client',
+      oauthUnsupportedGrantType: 'This grant type is not allowed for the client',
+      oauthInvalidScope: 'The requested scope is not allowed for the client',
+      oauthAccessDenied: 'The user denied the authorization request',
+      oauthScopeDenied: 'The scope of this token does not allow this action',
+      oauthClientNotFound: 'OAuth client not found',
+      oauthConsentNotFound: 'No authorization found for this application',
     },
     success: {
       loggedOutSuccessfully: 'Logged out successfully',
+      loggedOutEverywhere: 'Logged out of all sessions',
+      sessionRevoked: 'Session revoked',
+      identityLinked: 'Account linked successfully',
+      identityUnlinked: 'Account unlinked successfully',
+      apiKeyRevoked: 'API key revoked successfully',
+      roleDeleted: 'Role deleted successfully',
+      organizationDeleted: 'Organization deleted successfully',
+      leftOrganization: 'You left the organization',
+      memberRemoved: 'Member removed successfully',
+      invitationRevoked: 'Invitation revoked successfully',
+      magicLinkSent: 'Check your email for a sign-in link',
+      passwordChanged: 'Password changed successfully',
+      passwordResetEmailSent:
+        'If an account exists for this email, a password reset link has been sent',
+      passwordReset: 'Password reset successfully',
+      emailVerified: 'Email address verified',
+      verificationEmailSent: 'Verification email sent',
+      accountCreated:
+        'Account created. Open the link we emailed you to verify your address, then sign in',
+      twoFactorDisabled: 'Two-factor authentication disabled',
+      passkeyDeleted: 'Passkey removed',
+      oauthClientRevoked: 'OAuth client removed and its tokens revoked',
+      oauthConsentRevoked: 'Application access revoked',
       userCreated: 'User created successfully',
       userUpdated: 'User updated successfully',
       userDeleted: 'User deleted successfully',
     },
     validation: {
+      required: 'This field is required',
+      type: 'Must be of type {type}',
+      format: 'Must match the {format} format',
       invalidEmail: 'Invalid email format',
-      nameRequired: 'Name is required',
-      emailRequired: 'Email is required',
+      invalidDateTime: 'Must be an ISO 8601 date and time',
+      invalidUri: 'Must be a valid URL',
+      invalidUuid: 'Must be a valid UUID',
+      minLength: 'Must be at least {limit} characters long',
+      maxLength: 'Must be at most {limit} characters long',
+      minimum: 'Must be greater than or equal to {limit}',
+      maximum: 'Must be less than or equal to {limit}',
+      minItems: 'Must contain at least {limit} items',
+      enum: 'Must be one of: {allowedValues}',
+      pattern: 'Has an invalid format',
+      additionalProperties: 'Is not an allowed field',
+      invalid: 'Is invalid',
+    },
+    problems: {
+      badRequest: 'Bad Request',
+      unauthorized: 'Unauthorized',
+      forbidden: 'Forbidden',
+      notFound: 'Not Found',
+      conflict: 'Conflict',
+      payloadTooLarge: 'Payload Too Large',
+      unsupportedMediaType: 'Unsupported Media Type',
+      locked: 'Locked',
+      tooManyRequests: 'Too Many Requests',
+      internalServerError: 'Internal Server Error',
+      serviceUnavailable: 'Service Unavailable',
+    },
+    emails: {
+      invitationSubject: 'You have been invited to create an account',
+      invitationBody: '{inviter} invited you to create an account. Open this link to accept:',
+      invitationAction: 'Accept invitation',
+      invitationExpiry: 'This invitation expires on {date}.',
+      welcomeSubject: 'Welcome, {name}',
+      welcomeBody:
+        'Your account has been created. You can sign in at any time with the account you used to sign up.',
+      welcomeAction: 'Open the app',
+      securityAlertSubject: 'Security alert: you have been signed out',
+      securityAlertBody:
+        'A sign-in token for your account was used twice, which can mean it was stolen. As a precaution, that session has been signed out.',
+      securityAlertAdvice: 'If this was not you, sign in again and review your active sessions.',
+      magicLinkSubject: 'Your sign-in link',
+      magicLinkBody: 'Use the link below to sign in. It can only be used once.',
+      magicLinkAction: 'Sign in',
+      linkExpiry: 'This link expires in {minutes} minutes.',
+      verifyEmailSubject: 'Confirm your email address',
+      verifyEmailBody: 'Confirm that this is your email address to finish setting up your account.',
+      verifyEmailAction: 'Confirm email address',
+      passwordResetSubject: 'Reset your password',
+      passwordResetBody: 'We received a request to reset the password of your account.',
+      passwordResetAction: 'Choose a new password',
+      greeting: 'Hello {name},',
+      ignoreNotice: 'If you did not expect this email, you can ignore it.',
     },
   },
   es: {
@@ -67,27 +389,196 @@ const messages: Record<Locale, Messages> = {
       userNotFound: 'Usuario no encontrado',
       failedToCreateUser: 'Error al crear usuario',
       failedToFetchUsers: 'Error al obtener usuarios',
+      invalidCursor: 'Cursor de paginación no válido',
+      cursorWithOffset: 'Use cursor u offset, no ambos',
       failedToFetchUser: 'Error al obtener usuario',
       failedToUpdateUser: 'Error al actualizar usuario',
       failedToDeleteUser: 'Error al eliminar usuario',
+      routeNotFound: 'Ruta {method} {url} no encontrada',
+      invalidJsonBody: 'El cuerpo de la solicitud no es un JSON válido',
+      validationFailed: 'La solicitud no superó la validación',
+      internalError: 'Se produjo un error inesperado',
       emailRequired: 'El correo electrónico es obligatorio',
       authenticationFailed: 'Autenticación fallida',
+      oauthProviderNotConfigured: 'OAuth de {provider} no está configurado',
       googleOAuthNotConfigured:
         'Google OAuth no configurado. Por favor, configure GOOGLE_CLIENT_ID y GOOGLE_CLIENT_SECRET',
       failedToFetchGoogleUserInfo: 'Error al obtener información del usuario de Google',
       unauthorized: 'No autorizado',
+      authenticationRequired: 'Se requiere autenticación',
       invalidToken: 'Token inválido',
+      invalidRefreshToken: 'Token de actualización inválido o expirado',
+      sessionNotFound: 'Sesión no encontrada',
+      identityNotFound: 'Cuenta vinculada no encontrada',
+      identityLinkedToAnotherUser: 'Esta cuenta del proveedor ya está vinculada a otro usuario',
+      cannotUnlinkLastIdentity: 'No se puede desvincular el último método de inicio de sesión',
+      accountLinkConfirmationRequired:
+        'Ya existe una cuenta con este correo. Inicie sesión con su método actual y confirme la vinculación de este proveedor',
+      accountLinkingRefused:
+        'Ya existe una cuenta con este correo. Inicie sesión con su método actual y vincule este proveedor desde su cuenta',
+      invalidLinkToken: 'Token de vinculación inválido o expirado',
+      invalidOAuthState: 'Estado OAuth inválido o expirado, inicie sesión de nuevo',
+      invalidReturnTo: 'La URL de retorno no está permitida',
+      missingPkceVerifier: 'Falta el verificador de código PKCE, inicie sesión de nuevo',
+      invalidOidcNonce: 'El nonce del token de ID no coincide con este inicio de sesión',
+      apiKeyNotFound: 'Clave de API no encontrada',
+      apiKeyScopeDenied: 'Esta clave de API no tiene permiso para realizar esta acción',
+      apiKeyRequiresSession: 'Las claves de API solo se pueden gestionar desde una sesión iniciada',
+      permissionDenied: 'No tiene permiso para realizar esta acción',
+      roleRequired: 'Acceso denegado. Rol requerido: {roles}',
+      roleNotFound: 'Rol no encontrado',
+      roleAlreadyExists: 'Ya existe un rol con este nombre',
+      unknownPermissions: 'Permisos desconocidos: {permissions}',
+      adminRolePermissionsLocked: 'Los permisos del rol de administrador no se pueden cambiar',
+      systemRoleNotDeletable: 'Los roles integrados no se pueden eliminar',
+      roleInUse: 'Este rol todavía está asignado a usuarios',
+      cannotAssignRole: 'Permisos insuficientes para asignar roles',
+      cannotUpdateUser: 'Permisos insuficientes para actualizar este usuario',
+      cannotDeleteUser: 'Permisos insuficientes para eliminar este usuario',
+      cannotDeleteSelf: 'No puedes eliminar tu propia cuenta',
+      organizationNotFound: 'Organización no encontrada',
+      organizationSlugTaken: 'Ya existe una organización con este identificador',
+      notOrganizationMember: 'No es miembro de esta organización',
+      memberNotFound: 'Miembro no encontrado',
+      lastOrganizationOwner: 'Una organización debe conservar al menos un propietario',
+      invitationNotFound: 'Invitación no encontrada',
+      invitationInvalid: 'Esta invitación no es válida o ya se ha utilizado',
+      invitationExpired: 'Esta invitación ha caducado',
+      invitationEmailMismatch: 'Esta invitación se envió a otra dirección de correo electrónico',
+      alreadyOrganizationMember: 'Ya es miembro de esta organización',
+      organizationSwitchRequiresSession: 'Cambiar de organización requiere una sesión iniciada',
+      userAlreadyExists: 'Ya existe un usuario con este correo electrónico',
+      accountDeleted: 'Esta cuenta ha sido eliminada',
+      deletedUserNotFound: 'No hay ningún usuario eliminado con este id',
+      magicLinkInvalid: 'Enlace de inicio de sesión inválido o ya utilizado',
+      magicLinkExpired: 'Este enlace de inicio de sesión ha expirado',
+      tooManyMagicLinkRequests:
+        'Se han solicitado demasiados enlaces de inicio de sesión para este correo. Inténtelo más tarde.',
+      invalidCredentials: 'Correo electrónico o contraseña inválidos',
+      accountLocked: 'Demasiados intentos fallidos de inicio de sesión. Inténtelo más tarde.',
+      passwordTooShort: 'La contraseña debe tener al menos {minLength} caracteres',
+      passwordTooLong: 'La contraseña debe tener como máximo {maxLength} caracteres',
+      passwordTooCommon: 'Esta contraseña es demasiado común o demasiado simple',
+      passwordContainsEmail: 'La contraseña no debe contener su correo electrónico',
+      currentPasswordIncorrect: 'La contraseña actual es incorrecta',
+      passwordNotSet:
+        'Esta cuenta aún no tiene contraseña. Use el enlace de contraseña olvidada para crear una.',
+      passwordResetInvalid: 'Enlace de restablecimiento de contraseña inválido o expirado',
+      emailVerificationInvalid: 'Enlace de verificación inválido o expirado',
+      emailAlreadyVerified: 'El correo electrónico ya está verificado',
+      emailNotVerified: 'Verifica tu correo electrónico antes de iniciar sesión con una contraseña',
+      twoFactorAlreadyEnabled: 'La autenticación de dos factores ya está activada',
+      twoFactorNotEnabled: 'La autenticación de dos factores no está activada',
+      twoFactorSetupNotStarted: 'Inicie la configuración de dos factores antes de confirmarla',
+      invalidTwoFactorCode: 'Código de autenticación no válido',
+      twoFactorChallengeInvalid:
+        'El intento de inicio de sesión ha expirado. Inicie sesión de nuevo.',
+      twoFactorSetupRequired: 'Configure la autenticación de dos factores para usar esta función',
+      twoFactorRequiredCannotDisable:
+        'La autenticación de dos factores es obligatoria para su rol y no se puede desactivar',
+      passkeyRegistrationFailed: 'No se pudo registrar la llave de acceso',
+      passkeyAlreadyRegistered: 'Esta llave de acceso ya está registrada',
+      passkeyAuthenticationFailed: 'Error al iniciar sesión con la llave de acceso',
+      passkeyNotFound: 'Llave de acceso no encontrada',
+      oauthInvalidClient: 'Cliente OAuth desconocido o credenciales de cliente incorrectas',
+      oauthInvalidRedirectUri: 'Esta URI de redirección no está registrada para el cliente',
+      oauthInvalidRequest: 'Parámetro ausente o no válido: {parameter}',
+      oauthInvalidGrant:
+        'El código de autorización o el token de actualización no es válido, ha caducado o se emitió para otro cliente',
+      oauthUnsupportedGrantType: 'Este tipo de concesión no está permitido para el cliente',
+      oauthInvalidScope: 'El alcance solicitado no está permitido para el cliente',
+      oauthAccessDenied: 'El usuario rechazó la solicitud de autorización',
+      oauthScopeDenied: 'El alcance de este token no permite esta acción',
+      oauthClientNotFound: 'Cliente OAuth no encontrado',
+      oauthConsentNotFound: 'No se encontró ninguna autorización para esta aplicación',
     },
     success: {
       loggedOutSuccessfully: 'Sesión cerrada exitosamente',
+      loggedOutEverywhere: 'Se cerraron todas las sesiones',
+      sessionRevoked: 'Sesión revocada',
+      identityLinked: 'Cuenta vinculada exitosamente',
+      identityUnlinked: 'Cuenta desvinculada exitosamente',
+      apiKeyRevoked: 'Clave de API revocada exitosamente',
+      roleDeleted: 'Rol eliminado exitosamente',
+      organizationDeleted: 'Organización eliminada exitosamente',
+      leftOrganization: 'Ha abandonado la organización',
+      memberRemoved: 'Miembro eliminado exitosamente',
+      invitationRevoked: 'Invitación revocada exitosamente',
+      magicLinkSent: 'Revise su correo electrónico para obtener un enlace de inicio de sesión',
+      passwordChanged: 'Contraseña cambiada exitosamente',
+      passwordResetEmailSent:
+        'Si existe una cuenta con este correo, se ha enviado un enlace para restablecer la contraseña',
+      passwordReset: 'Contraseña restablecida exitosamente',
+      emailVerified: 'Correo electrónico verificado',
+      verificationEmailSent: 'Correo de verificación enviado',
+      accountCreated:
+        'Cuenta creada. Abre el enlace que te enviamos por correo para verificar tu dirección y luego inicia sesión',
+      twoFactorDisabled: 'Autenticación de dos factores desactivada',
+      passkeyDeleted: 'Llave de acceso eliminada',
+      oauthClientRevoked: 'Cliente OAuth eliminado y sus tokens revocados',
+      oauthConsentRevoked: 'Acceso de la aplicación revocado',
       userCreated: 'Usuario creado exitosamente',
       userUpdated: 'Usuario actualizado exitosamente',
       userDeleted: 'Usuario eliminado exitosamente',
     },
     validation: {
+      required: 'Este campo es obligatorio',
+      type: 'Debe ser de tipo {type}',
+      format: 'Debe tener el formato {format}',
       invalidEmail: 'Formato de correo electrónico inválido',
-      nameRequired: 'El nombre es obligatorio',
-      emailRequired: 'El correo electrónico es obligatorio',
+      invalidDateTime: 'Debe ser una fecha y hora ISO 8601',
+      invalidUri: 'Debe ser una URL válida',
+      invalidUuid: 'Debe ser un UUID válido',
+      minLength: 'Debe tener al menos {limit} caracteres',
+      maxLength: 'Debe tener como máximo {limit} caracteres',
+      minimum: 'Debe ser mayor o igual que {limit}',
+      maximum: 'Debe ser menor o igual que {limit}',
+      minItems: 'Debe contener al menos {limit} elementos',
+      enum: 'Debe ser uno de: {allowedValues}',
+      pattern: 'Tiene un formato no válido',
+      additionalProperties: 'No es un campo permitido',
+      invalid: 'No es válido',
+    },
+    problems: {
+      badRequest: 'Solicitud incorrecta',
+      unauthorized: 'No autorizado',
+      forbidden: 'Prohibido',
+      notFound: 'No encontrado',
+      conflict: 'Conflicto',
+      payloadTooLarge: 'Contenido demasiado grande',
+      unsupportedMediaType: 'Tipo de contenido no admitido',
+      locked: 'Bloqueado',
+      tooManyRequests: 'Demasiadas solicitudes',
+      internalServerError: 'Error interno del servidor',
+      serviceUnavailable: 'Servicio no disponible',
+    },
+    emails: {
+      invitationSubject: 'Ha sido invitado a crear una cuenta',
+      invitationBody: '{inviter} le ha invitado a crear una cuenta. Abra este enlace para aceptar:',
+      invitationAction: 'Aceptar invitación',
+      invitationExpiry: 'Esta invitación caduca el {date}.',
+      welcomeSubject: 'Bienvenido, {name}',
+      welcomeBody:
+        'Su cuenta ha sido creada. Puede iniciar sesión en cualquier momento con la cuenta que usó para registrarse.',
+      welcomeAction: 'Abrir la aplicación',
+      securityAlertSubject: 'Alerta de seguridad: se ha cerrado su sesión',
+      securityAlertBody:
+        'Un token de inicio de sesión de su cuenta se usó dos veces, lo que puede indicar que fue robado. Como precaución, se ha cerrado esa sesión.',
+      securityAlertAdvice: 'Si no fue usted, inicie sesión de nuevo y revise sus sesiones activas.',
+      magicLinkSubject: 'Su enlace de inicio de sesión',
+      magicLinkBody:
+        'Use el enlace a continuación para iniciar sesión. Solo se puede usar una vez.',
+      magicLinkAction: 'Iniciar sesión',
+      linkExpiry: 'Este enlace expira en {minutes} minutos.',
+      verifyEmailSubject: 'Confirme su correo electrónico',
+      verifyEmailBody:
+        'Confirme que este es su correo electrónico para terminar de configurar su cuenta.',
+      verifyEmailAction: 'Confirmar correo electrónico',
+      passwordResetSubject: 'Restablezca su contraseña',
+      passwordResetBody: 'Recibimos una solicitud para restablecer la contraseña de su cuenta.',
+      passwordResetAction: 'Elegir una nueva contraseña',
+      greeting: 'Hola, {name}:',
+      ignoreNotice: 'Si no esperaba este correo, puede ignorarlo.',
     },
   },
   fr: {
@@ -95,28 +586,202 @@ const messages: Record<Locale, Messages> = {
       userNotFound: 'Utilisateur non trouvé',
       failedToCreateUser: "Échec de la création de l'utilisateur",
       failedToFetchUsers: 'Échec de la récupération des utilisateurs',
+      invalidCursor: 'Curseur de pagination invalide',
+      cursorWithOffset: 'Utilisez cursor ou offset, pas les deux',
       failedToFetchUser: "Échec de la récupération de l'utilisateur",
       failedToUpdateUser: "Échec de la mise à jour de l'utilisateur",
       failedToDeleteUser: "Échec de la suppression de l'utilisateur",
+      routeNotFound: 'Route {method} {url} introuvable',
+      invalidJsonBody: "Le corps de la requête n'est pas un JSON valide",
+      validationFailed: "La requête n'a pas passé la validation",
+      internalError: "Une erreur inattendue s'est produite",
       emailRequired: "L'e-mail est requis",
       authenticationFailed: "L'authentification a échoué",
+      oauthProviderNotConfigured: "OAuth {provider} n'est pas configuré",
       googleOAuthNotConfigured:
         'Google OAuth non configuré. Veuillez définir GOOGLE_CLIENT_ID et GOOGLE_CLIENT_SECRET',
       failedToFetchGoogleUserInfo:
         "Échec de la récupération des informations de l'utilisateur Google",
       unauthorized: 'Non autorisé',
+      authenticationRequired: 'Authentification requise',
       invalidToken: 'Jeton invalide',
+      invalidRefreshToken: 'Jeton de rafraîchissement invalide ou expiré',
+      sessionNotFound: 'Session introuvable',
+      identityNotFound: 'Compte lié introuvable',
+      identityLinkedToAnotherUser: 'Ce compte du fournisseur est déjà lié à un autre utilisateur',
+      cannotUnlinkLastIdentity:
+        'Impossible de dissocier la dernière méthode de connexion du compte',
+      accountLinkConfirmationRequired:
+        'Un compte avec cet e-mail existe déjà. Connectez-vous avec votre méthode habituelle et confirmez la liaison de ce fournisseur',
+      accountLinkingRefused:
+        'Un compte avec cet e-mail existe déjà. Connectez-vous avec votre méthode habituelle et liez ce fournisseur depuis votre compte',
+      invalidLinkToken: 'Jeton de liaison invalide ou expiré',
+      invalidOAuthState: 'État OAuth invalide ou expiré, veuillez vous reconnecter',
+      invalidReturnTo: "L'URL de retour n'est pas autorisée",
+      missingPkceVerifier: 'Vérificateur de code PKCE manquant, veuillez vous reconnecter',
+      invalidOidcNonce: 'Le nonce du jeton ID ne correspond pas à cette connexion',
+      apiKeyNotFound: 'Clé API introuvable',
+      apiKeyScopeDenied: "Cette clé API n'est pas autorisée à effectuer cette action",
+      apiKeyRequiresSession: 'Les clés API ne peuvent être gérées que depuis une session connectée',
+      permissionDenied: "Vous n'avez pas la permission d'effectuer cette action",
+      roleRequired: 'Accès refusé. Rôle requis : {roles}',
+      roleNotFound: 'Rôle introuvable',
+      roleAlreadyExists: 'Un rôle portant ce nom existe déjà',
+      unknownPermissions: 'Permissions inconnues : {permissions}',
+      adminRolePermissionsLocked:
+        'Les permissions du rôle administrateur ne peuvent pas être modifiées',
+      systemRoleNotDeletable: 'Les rôles intégrés ne peuvent pas être supprimés',
+      roleInUse: 'Ce rôle est encore attribué à des utilisateurs',
+      cannotAssignRole: 'Permissions insuffisantes pour attribuer des rôles',
+      cannotUpdateUser: 'Permissions insuffisantes pour modifier cet utilisateur',
+      cannotDeleteUser: 'Permissions insuffisantes pour supprimer cet utilisateur',
+      cannotDeleteSelf: 'Vous ne pouvez pas supprimer votre propre compte',
+      organizationNotFound: 'Organisation introuvable',
+      organizationSlugTaken: 'Une organisation avec cet identifiant existe déjà',
+      notOrganizationMember: "Vous n'êtes pas membre de cette organisation",
+      memberNotFound: 'Membre introuvable',
+      lastOrganizationOwner: 'Une organisation doit conserver au moins un propriétaire',
+      invitationNotFound: 'Invitation introuvable',
+      invitationInvalid: 'Cette invitation est invalide ou a déjà été utilisée',
+      invitationExpired: 'Cette invitation a expiré',
+      invitationEmailMismatch: 'Cette invitation a été envoyée à une autre adresse e-mail',
+      alreadyOrganizationMember: 'Vous êtes déjà membre de cette organisation',
+      organizationSwitchRequiresSession: "Changer d'organisation nécessite une session connectée",
+      userAlreadyExists: 'Un utilisateur avec cet e-mail existe déjà',
+      accountDeleted: 'Ce compte a été supprimé',
+      deletedUserNotFound: 'Aucun utilisateur supprimé avec cet identifiant',
+      magicLinkInvalid: 'Lien de connexion invalide ou déjà utilisé',
+      magicLinkExpired: 'Ce lien de connexion a expiré',
+      tooManyMagicLinkRequests:
+        'Trop de liens de connexion demandés pour cet e-mail. Réessayez plus tard.',
+      invalidCredentials: 'E-mail ou mot de passe invalide',
+      accountLocked: 'Trop de tentatives de connexion échouées. Réessayez plus tard.',
+      passwordTooShort: 'Le mot de passe doit contenir au moins {minLength} caractères',
+      passwordTooLong: 'Le mot de passe doit contenir au plus {maxLength} caractères',
+      passwordTooCommon: 'Ce mot de passe est trop courant ou trop simple',
+      passwordContainsEmail: 'Le mot de passe ne doit pas contenir votre adresse e-mail',
+      currentPasswordIncorrect: 'Le mot de passe actuel est incorrect',
+      passwordNotSet:
+        "Ce compte n'a pas encore de mot de passe. Utilisez le lien de mot de passe oublié pour en définir un.",
+      passwordResetInvalid: 'Lien de réinitialisation du mot de passe invalide ou expiré',
+      emailVerificationInvalid: 'Lien de vérification invalide ou expiré',
+      emailAlreadyVerified: "L'adresse e-mail est déjà vérifiée",
+      emailNotVerified:
+        'Vérifiez votre adresse e-mail avant de vous connecter avec un mot de passe',
+      twoFactorAlreadyEnabled: "L'authentification à deux facteurs est déjà activée",
+      twoFactorNotEnabled: "L'authentification à deux facteurs n'est pas activée",
+      twoFactorSetupNotStarted: 'Commencez la configuration à deux facteurs avant de la confirmer',
+      invalidTwoFactorCode: "Code d'authentification invalide",
+      twoFactorChallengeInvalid: 'La tentative de connexion a expiré. Reconnectez-vous.',
+      twoFactorSetupRequired:
+        "Configurez l'authentification à deux facteurs pour utiliser cette fonctionnalité",
+      twoFactorRequiredCannotDisable:
+        "L'authentification à deux facteurs est obligatoire pour votre rôle et ne peut pas être désactivée",
+      passkeyRegistrationFailed: "La clé d'accès n'a pas pu être enregistrée",
+      passkeyAlreadyRegistered: "Cette clé d'accès est déjà enregistrée",
+      passkeyAuthenticationFailed: "La connexion avec la clé d'accès a échoué",
+      passkeyNotFound: "Clé d'accès introuvable",
+      oauthInvalidClient: 'Client OAuth inconnu ou identifiants client incorrects',
+      oauthInvalidRedirectUri: "Cette URI de redirection n'est pas enregistrée pour le client",
+      oauthInvalidRequest: 'Paramètre manquant ou invalide : {parameter}',
+      oauthInvalidGrant:
+        "Le code d'autorisation ou le jeton de rafraîchissement est invalide, expiré ou a été émis pour un autre client",
+      oauthUnsupportedGrantType: "Ce type d'autorisation n'est pas permis pour le client",
+      oauthInvalidScope: "La portée demandée n'est pas permise pour le client",
+      oauthAccessDenied: "L'utilisateur a refusé la demande d'autorisation",
+      oauthScopeDenied: 'La portée de ce jeton ne permet pas cette action',
+      oauthClientNotFound: 'Client OAuth introuvable',
+      oauthConsentNotFound: 'Aucune autorisation trouvée pour cette application',
     },
     success: {
       loggedOutSuccessfully: 'Déconnexion réussie',
+      loggedOutEverywhere: 'Déconnexion de toutes les sessions réussie',
+      sessionRevoked: 'Session révoquée',
+      identityLinked: 'Compte lié avec succès',
+      identityUnlinked: 'Compte dissocié avec succès',
+      apiKeyRevoked: 'Clé API révoquée avec succès',
+      roleDeleted: 'Rôle supprimé avec succès',
+      organizationDeleted: 'Organisation supprimée avec succès',
+      leftOrganization: "Vous avez quitté l'organisation",
+      memberRemoved: 'Membre retiré avec succès',
+      invitationRevoked: 'Invitation révoquée avec succès',
+      magicLinkSent: 'Consultez vos e-mails pour obtenir un lien de connexion',
+      passwordChanged: 'Mot de passe modifié avec succès',
+      passwordResetEmailSent:
+        'Si un compte existe pour cet e-mail, un lien de réinitialisation du mot de passe a été envoyé',
+      passwordReset: 'Mot de passe réinitialisé avec succès',
+      emailVerified: 'Adresse e-mail vérifiée',
+      verificationEmailSent: 'E-mail de vérification envoyé',
+      accountCreated:
+        'Compte créé. Ouvrez le lien envoyé par e-mail pour vérifier votre adresse, puis connectez-vous',
+      twoFactorDisabled: 'Authentification à deux facteurs désactivée',
+      passkeyDeleted: "Clé d'accès supprimée",
+      oauthClientRevoked: 'Client OAuth supprimé et ses jetons révoqués',
+      oauthConsentRevoked: "Accès de l'application révoqué",
       userCreated: 'Utilisateur créé avec succès',
       userUpdated: 'Utilisateur mis à jour avec succès',
       userDeleted: 'Utilisateur supprimé avec succès',
     },
     validation: {
+      required: 'Ce champ est obligatoire',
+      type: 'Doit être de type {type}',
+      format: 'Doit respecter le format {format}',
       invalidEmail: "Format d'e-mail invalide",
-      nameRequired: 'Le nom est requis',
-      emailRequired: "L'e-mail est requis",
+      invalidDateTime: 'Doit être une date et heure ISO 8601',
+      invalidUri: 'Doit être une URL valide',
+      invalidUuid: 'Doit être un UUID valide',
+      minLength: 'Doit contenir au moins {limit} caractères',
+      maxLength: 'Doit contenir au plus {limit} caractères',
+      minimum: 'Doit être supérieur ou égal à {limit}',
+      maximum: 'Doit être inférieur ou égal à {limit}',
+      minItems: 'Doit contenir au moins {limit} éléments',
+      enum: "Doit être l'une des valeurs : {allowedValues}",
+      pattern: 'A un format invalide',
+      additionalProperties: "N'est pas un champ autorisé",
+      invalid: "N'est pas valide",
+    },
+    problems: {
+      badRequest: 'Requête incorrecte',
+      unauthorized: 'Non autorisé',
+      forbidden: 'Interdit',
+      notFound: 'Introuvable',
+      conflict: 'Conflit',
+      payloadTooLarge: 'Contenu trop volumineux',
+      unsupportedMediaType: 'Type de contenu non pris en charge',
+      locked: 'Verrouillé',
+      tooManyRequests: 'Trop de requêtes',
+      internalServerError: 'Erreur interne du serveur',
+      serviceUnavailable: 'Service indisponible',
+    },
+    emails: {
+      invitationSubject: 'Vous avez été invité à créer un compte',
+      invitationBody: '{inviter} vous a invité à créer un compte. Ouvrez ce lien pour accepter :',
+      invitationAction: "Accepter l'invitation",
+      invitationExpiry: 'Cette invitation expire le {date}.',
+      welcomeSubject: 'Bienvenue, {name}',
+      welcomeBody:
+        "Votre compte a été créé. Vous pouvez vous connecter à tout moment avec le compte utilisé lors de l'inscription.",
+      welcomeAction: "Ouvrir l'application",
+      securityAlertSubject: 'Alerte de sécurité : vous avez été déconnecté',
+      securityAlertBody:
+        "Un jeton de connexion de votre compte a été utilisé deux fois, ce qui peut signifier qu'il a été volé. Par précaution, cette session a été fermée.",
+      securityAlertAdvice:
+        "Si ce n'était pas vous, reconnectez-vous et vérifiez vos sessions actives.",
+      magicLinkSubject: 'Votre lien de connexion',
+      magicLinkBody:
+        "Utilisez le lien ci-dessous pour vous connecter. Il ne peut être utilisé qu'une seule fois.",
+      magicLinkAction: 'Se connecter',
+      linkExpiry: 'Ce lien expire dans {minutes} minutes.',
+      verifyEmailSubject: 'Confirmez votre adresse e-mail',
+      verifyEmailBody:
+        "Confirmez qu'il s'agit de votre adresse e-mail pour terminer la configuration de votre compte.",
+      verifyEmailAction: "Confirmer l'adresse e-mail",
+      passwordResetSubject: 'Réinitialisez votre mot de passe',
+      passwordResetBody:
+        'Nous avons reçu une demande de réinitialisation du mot de passe de votre compte.',
+      passwordResetAction: 'Choisir un nouveau mot de passe',
+      greeting: 'Bonjour {name},',
+      ignoreNotice: "Si vous n'attendiez pas cet e-mail, vous pouvez l'ignorer.",
     },
   },
 };
@@ -130,6 +795,16 @@ export const getMessages = (locale: Locale = 'en'): Messages => {
   return messages[locale] || messages.en;
 };
 
+/**
+ * Fill {placeholders} in a message
+ * @param template - Message with {name} placeholders
+ * @param values - Replacement for each placeholder
+ * @returns Formatted message
+ */
+export const formatMessage = (template: string, values: Record<string, string>): string => {
+  return template.replace(/\{(\w+)\}/g, (match, key: string) => values[key] ?? match);
+};
+
 /**
  * Get locale from request headers
  * @param acceptLanguage - Accept-Language header value
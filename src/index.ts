@@ -4,7 +4,21 @@ import { config } from './config/index.js';
 import './models/index.js';
 import { userRoutes } from './routes/api/users/index.js';
 import { adminRoutes } from './routes/api/admin/index.js';
+import { apiKeyRoutes } from './routes/api/apiKeys/index.js';
+import { roleRoutes } from './routes/api/roles/index.js';
+import { invitationRoutes } from './routes/api/invitations/index.js';
+import { organizationRoutes, adminOrganizationRoutes } from './routes/api/organizations/index.js';
 import { authRoutes } from './routes/auth/index.js';
+import { passwordRoutes } from './routes/auth/password.js';
+import { twoFactorRoutes } from './routes/auth/twoFactor.js';
+import { webauthnRoutes } from './routes/auth/webauthn.js';
+import { devRoutes } from './routes/dev/index.js';
+import { wellKnownRoutes } from './routes/wellKnown/index.js';
+import { oauthServerRoutes } from './routes/oauth/index.js';
+import { oauthClientRoutes } from './routes/api/oauthClients/index.js';
+import { auditRoutes } from './routes/api/audit/index.js';
+import { setMailLogger } from './mailer/index.js';
+import { scheduleUserPurge } from './utils/userRetention.js';
 import authPlugin from './plugins/auth.js';
 import rbacPlugin from './plugins/rbac.js';
 import swaggerPlugin from './plugins/swagger.js';
@@ -16,6 +30,7 @@ const start = async () => {
 
     // Build Fastify server
     const server = buildServer();
+    setMailLogger(server.log);
 
     // Register Swagger documentation (before routes)
     await server.register(swaggerPlugin);
@@ -28,12 +43,36 @@ const start = async () => {
 
     // Register routes
     await server.register(authRoutes);
+    if (config.passwordAuth.enabled) {
+      await server.register(passwordRoutes);
+    }
+    await server.register(twoFactorRoutes);
+    await server.register(webauthnRoutes);
+    await server.register(wellKnownRoutes);
+    await server.register(oauthServerRoutes);
     await server.register(userRoutes, { prefix: '/api/users' });
+    await server.register(apiKeyRoutes, { prefix: '/api/users/me/api-keys' });
     await server.register(adminRoutes, { prefix: '/api/admin/users' });
+    await server.register(roleRoutes, { prefix: '/api/admin/roles' });
+    await server.register(invitationRoutes, { prefix: '/api/invitations' });
+    await server.register(organizationRoutes, { prefix: '/api/organizations' });
+    await server.register(adminOrganizationRoutes, { prefix: '/api/admin/organizations' });
+    await server.register(oauthClientRoutes, { prefix: '/api/admin/oauth-clients' });
+    await server.register(auditRoutes, { prefix: '/api/admin/audit' });
+
+    // Development-only routes
+    if (config.isDevelopment || config.isTest) {
+      await server.register(devRoutes);
+    }
 
     // Start server
     await server.listen({ port: config.port, host: '0.0.0.0' });
     console.log(`Server running on http://localhost:${config.port}`);
+
+    // Remove deleted users once they can no longer be restored
+    if (config.userRetention.purgeInterval > 0) {
+      scheduleUserPurge(server.log);
+    }
   } catch (error) {
     console.error('Error starting server:', error);
     process.exit(1);
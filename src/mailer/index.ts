@@ -0,0 +1,131 @@
+/**
+ * Mailer
+ *
+ * Outgoing email for the application. Messages are rendered from localized
+ * templates, delivered through the transport chosen by MAIL_TRANSPORT, and
+ * retried with exponential backoff when delivery fails. Outside production,
+ * sent messages are also kept in memory for the dev-only /dev/emails route.
+ */
+
+import { config } from '../config/index.js';
+import { MailQueue } from './queue.js';
+import { createMailTransport } from './transports.js';
+import { renderEmail, type EmailTemplate, type EmailTemplateParams } from './templates.js';
+import type { Locale } from '../i18n/messages.js';
+import type { CapturedMail, MailMessage, MailTransport, OutgoingMail } from '../types/mail.js';
+
+export { renderEmail, escapeHtml, type EmailTemplate } from './templates.js';
+export {
+  createConsoleTransport,
+  createFileTransport,
+  createMailTransport,
+  createMemoryTransport,
+  createSmtpTransport,
+  type MemoryTransport,
+} from './transports.js';
+export { MailQueue } from './queue.js';
+
+// Most recent messages kept for /dev/emails
+const CAPTURE_LIMIT = 100;
+
+interface MailLogger {
+  warn(obj: object, msg: string): void;
+  error(obj: object, msg: string): void;
+}
+
+let transport: MailTransport | null = null;
+let logger: MailLogger = {
+  warn: (obj, msg) => console.warn(msg, obj),
+  error: (obj, msg) => console.error(msg, obj),
+};
+const captured: CapturedMail[] = [];
+
+/**
+ * Get the configured transport (created on first use)
+ */
+export const getMailTransport = (): MailTransport => {
+  transport ??= createMailTransport(config.mail);
+  return transport;
+};
+
+/**
+ * Replace the transport, e.g. from a script that needs a different one (null restores the default)
+ */
+export const setMailTransport = (next: MailTransport | null): void => {
+  transport = next;
+};
+
+/**
+ * Log delivery failures through the server logger instead of the console
+ */
+export const setMailLogger = (next: MailLogger): void => {
+  logger = next;
+};
+
+const deliver = async (mail: OutgoingMail): Promise<void> => {
+  const current = getMailTransport();
+  await current.send(mail);
+
+  if (config.mail.capture) {
+    captured.unshift({ ...mail, transport: current.name, sentAt: new Date() });
+    captured.splice(CAPTURE_LIMIT);
+  }
+};
+
+const queue = new MailQueue({
+  ...config.mail.retry,
+  send: deliver,
+  onError: (error, mail, attempt, willRetry) => {
+    const details = { err: error, to: mail.to, subject: mail.subject, attempt };
+    if (willRetry) {
+      logger.warn(details, 'Email delivery failed, will retry');
+    } else {
+      logger.error(details, 'Email delivery failed, giving up');
+    }
+  },
+});
+
+/**
+ * The queue holding messages waiting for a retry
+ */
+export const getMailQueue = (): MailQueue => queue;
+
+/**
+ * Send a message once, from the configured sender address. Throws if delivery fails.
+ */
+export async function sendMail(message: MailMessage): Promise<void> {
+  await deliver({ from: config.mail.from, ...message });
+}
+
+/**
+ * Send a message, retrying in the background if delivery fails
+ * @returns Whether the first attempt succeeded
+ */
+export function queueMail(message: MailMessage): Promise<boolean> {
+  return queue.enqueue({ from: config.mail.from, ...message });
+}
+
+/**
+ * Render a template and queue it for delivery
+ * @returns Whether the first attempt succeeded
+ */
+export function queueTemplatedMail<T extends EmailTemplate>(
+  to: string,
+  template: T,
+  locale: Locale,
+  params: EmailTemplateParams<T>
+): Promise<boolean> {
+  return queueMail({ to, ...renderEmail(template, locale, params) });
+}
+
+/**
+ * Recently sent messages, newest first (empty in production)
+ */
+export const listCapturedMail = (): CapturedMail[] => [...captured];
+
+/**
+ * Forget the captured messages
+ */
+export const clearCapturedMail = (): void => {
+  captured.length = 0;
+};
@@ -0,0 +1,101 @@
+/**
+ * Mail retry queue
+ *
+ * Delivery is attempted right away. A failed message stays queued in memory and is
+ * retried with exponential backoff until it is delivered or runs out of attempts.
+ * Retry timers do not keep the process alive; call flush() before a graceful
+ * shutdown to make a last attempt.
+ */
+
+import type { MailRetryOptions, OutgoingMail } from '../types/mail.js';
+
+export interface MailQueueOptions extends MailRetryOptions {
+  send: (mail: OutgoingMail) => Promise<void>;
+  // Called after every failed attempt
+  onError?: (error: unknown, mail: OutgoingMail, attempt: number, willRetry: boolean) => void;
+}
+
+interface QueuedMail {
+  mail: OutgoingMail;
+  attempts: number;
+  timer: NodeJS.Timeout | null;
+  inFlight: boolean;
+}
+
+export class MailQueue {
+  private readonly pending = new Set<QueuedMail>();
+
+  constructor(private readonly options: MailQueueOptions) {}
+
+  /**
+   * Deliver a message, retrying in the background if the first attempt fails
+   * @returns Whether the first attempt succeeded
+   */
+  enqueue(mail: OutgoingMail): Promise<boolean> {
+    return this.attempt({ mail, attempts: 0, timer: null, inFlight: false });
+  }
+
+  /**
+   * Number of messages waiting for a retry
+   */
+  get size(): number {
+    return this.pending.size;
+  }
+
+  /**
+   * Retry every waiting message now instead of at its scheduled time
+   */
+  async flush(): Promise<void> {
+    const waiting = [...this.pending].filter((entry) => !entry.inFlight);
+    await Promise.all(
+      waiting.map((entry) => {
+        if (entry.timer) {
+          clearTimeout(entry.timer);
+          entry.timer = null;
+        }
+        return this.attempt(entry);
+      })
+    );
+  }
+
+  /**
+   * Drop every waiting message
+   */
+  clear(): void {
+    for (const entry of this.pending) {
+      if (entry.timer) {
+        clearTimeout(entry.timer);
+      }
+    }
+    this.pending.clear();
+  }
+
+  private async attempt(entry: QueuedMail): Promise<boolean> {
+    entry.attempts += 1;
+    entry.inFlight = true;
+
+    try {
+      await this.options.send(entry.mail);
+      this.pending.delete(entry);
+      return true;
+    } catch (error) {
+      const willRetry = entry.attempts < this.options.maxAttempts;
+      this.options.onError?.(error, entry.mail, entry.attempts, willRetry);
+
+      if (willRetry) {
+        this.pending.add(entry);
+        const delay = this.options.retryDelayMs * 2 ** (entry.attempts - 1);
+        entry.timer = setTimeout(() => {
+          entry.timer = null;
+          void this.attempt(entry);
+        }, delay);
+        entry.timer.unref();
+      } else {
+        this.pending.delete(entry);
+      }
+      return false;
+    } finally {
+      entry.inFlight = false;
+    }
+  }
+}
@@ -0,0 +1,251 @@
+/**
+ * Minimal SMTP client
+ *
+ * Delivers one message per connection: EHLO, optional STARTTLS upgrade, AUTH
+ * PLAIN when credentials are configured, then MAIL FROM / RCPT TO / DATA. The
+ * message is built as MIME with base64-encoded UTF-8 parts, with a text and an
+ * optional HTML alternative.
+ */
+
+import { randomBytes } from 'crypto';
+import net from 'net';
+import tls from 'tls';
+import { hostname } from 'os';
+import type { OutgoingMail, SmtpOptions } from '../types/mail.js';
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+export class SmtpError extends Error {
+  constructor(
+    message: string,
+    public readonly code?: number
+  ) {
+    super(message);
+    this.name = 'SmtpError';
+  }
+}
+
+/**
+ * Extract the bare address from "Name <address>"
+ */
+export const parseAddress = (value: string): string => {
+  const match = value.match(/<([^>]+)>/);
+  return (match ? match[1] : value).trim();
+};
+
+// RFC 2047 encoded word for non-ASCII header values
+const encodeHeader = (value: string): string => {
+  return /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+};
+
+const encodeBody = (value: string): string => {
+  return (
+    Buffer.from(value, 'utf8')
+      .toString('base64')
+      .match(/.{1,76}/g)
+      ?.join('\r\n') ?? ''
+  );
+};
+
+/**
+ * Build the MIME source of a message
+ */
+export const buildMimeMessage = (mail: OutgoingMail): string => {
+  const domain = parseAddress(mail.from).split('@')[1] || 'localhost';
+  const headers = [
+    `From: ${encodeHeader(mail.from)}`,
+    `To: ${mail.to}`,
+    `Subject: ${encodeHeader(mail.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomBytes(16).toString('hex')}@${domain}>`,
+    'MIME-Version: 1.0',
+  ];
+  const part = (type: string, content: string) =>
+    [
+      `Content-Type: ${type}; charset=utf-8`,
+      'Content-Transfer-Encoding: base64',
+      '',
+      encodeBody(content),
+    ].join('\r\n');
+
+  if (!mail.html) {
+    return [...headers, part('text/plain', mail.text)].join('\r\n');
+  }
+
+  const boundary = `=_${randomBytes(12).toString('hex')}`;
+  return [
+    ...headers,
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    part('text/plain', mail.text),
+    `--${boundary}`,
+    part('text/html', mail.html),
+    `--${boundary}--`,
+  ].join('\r\n');
+};
+
+/**
+ * A single SMTP conversation over a (possibly upgraded) socket
+ */
+class SmtpConnection {
+  private buffer = '';
+  private pending: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null =
+    null;
+  private failure: Error | null = null;
+
+  constructor(
+    private socket: net.Socket,
+    private readonly timeoutMs: number
+  ) {
+    this.attach(socket);
+  }
+
+  private attach(socket: net.Socket) {
+    this.socket = socket;
+    socket.setTimeout(this.timeoutMs, () => socket.destroy(new SmtpError('SMTP timeout')));
+    socket.on('data', this.onData);
+    socket.on('error', this.onError);
+    socket.on('close', this.onClose);
+  }
+
+  private detach() {
+    this.socket.off('data', this.onData);
+    this.socket.off('error', this.onError);
+    this.socket.off('close', this.onClose);
+    this.socket.setTimeout(0);
+  }
+
+  private onData = (chunk: Buffer) => {
+    this.buffer += chunk.toString('utf8');
+    this.flush();
+  };
+
+  private onError = (error: Error) => {
+    this.failure = error;
+    this.pending?.reject(error);
+    this.pending = null;
+  };
+
+  private onClose = () => this.onError(new SmtpError('SMTP connection closed'));
+
+  // Resolve the pending read once a complete (possibly multi-line) reply is buffered
+  private flush() {
+    if (!this.pending) {
+      return;
+    }
+
+    const lines: string[] = [];
+    let consumed = 0;
+    let newline: number;
+    while ((newline = this.buffer.indexOf('\r\n', consumed)) !== -1) {
+      const line = this.buffer.slice(consumed, newline);
+      consumed = newline + 2;
+      lines.push(line.slice(4));
+
+      if (/^\d{3}(?: |$)/.test(line)) {
+        this.buffer = this.buffer.slice(consumed);
+        const { resolve } = this.pending;
+        this.pending = null;
+        resolve({ code: parseInt(line.slice(0, 3), 10), lines });
+        return;
+      }
+    }
+  }
+
+  read(): Promise<SmtpReply> {
+    if (this.failure) {
+      return Promise.reject(this.failure);
+    }
+    return new Promise((resolve, reject) => {
+      this.pending = { resolve, reject };
+      this.flush();
+    });
+  }
+
+  async command(line: string | null, expected: number[]): Promise<SmtpReply> {
+    if (line !== null) {
+      this.socket.write(`${line}\r\n`);
+    }
+    const reply = await this.read();
+    if (!expected.includes(reply.code)) {
+      // Never echo credentials back in errors
+      const sent = line?.startsWith('AUTH') ? 'AUTH' : line;
+      throw new SmtpError(
+        `SMTP ${sent ?? 'greeting'} failed: ${reply.code} ${reply.lines.join(' ')}`,
+        reply.code
+      );
+    }
+    return reply;
+  }
+
+  async startTls(servername: string) {
+    this.detach();
+    const secured = await new Promise<tls.TLSSocket>((resolve, reject) => {
+      const upgraded = tls.connect({ socket: this.socket, servername }, () => resolve(upgraded));
+      upgraded.once('error', reject);
+    });
+    this.attach(secured);
+  }
+
+  close() {
+    this.detach();
+    this.socket.end();
+  }
+}
+
+const connect = (options: SmtpOptions): Promise<net.Socket> => {
+  return new Promise((resolve, reject) => {
+    const socket = options.secure
+      ? tls.connect({ host: options.host, port: options.port, servername: options.host })
+      : net.connect({ host: options.host, port: options.port });
+    socket.once(options.secure ? 'secureConnect' : 'connect', () => {
+      socket.off('error', reject);
+      resolve(socket);
+    });
+    socket.once('error', reject);
+    socket.setTimeout(options.timeoutMs, () => socket.destroy(new SmtpError('SMTP timeout')));
+  });
+};
+
+/**
+ * Deliver a message through an SMTP server
+ */
+export async function sendSmtpMail(options: SmtpOptions, mail: OutgoingMail): Promise<void> {
+  const connection = new SmtpConnection(await connect(options), options.timeoutMs);
+
+  try {
+    const client = hostname() || 'localhost';
+    await connection.command(null, [220]);
+    const ehlo = await connection.command(`EHLO ${client}`, [250]);
+
+    if (!options.secure && ehlo.lines.some((line) => /^STARTTLS\b/i.test(line))) {
+      await connection.command('STARTTLS', [220]);
+      await connection.startTls(options.host);
+      await connection.command(`EHLO ${client}`, [250]);
+    }
+
+    if (options.user) {
+      const credentials = Buffer.from(`\0${options.user}\0${options.password ?? ''}`).toString(
+        'base64'
+      );
+      await connection.command(`AUTH PLAIN ${credentials}`, [235]);
+    }
+
+    await connection.command(`MAIL FROM:<${parseAddress(mail.from)}>`, [250]);
+    await connection.command(`RCPT TO:<${parseAddress(mail.to)}>`, [250, 251]);
+    await connection.command('DATA', [354]);
+
+    // Dot-stuff lines starting with "." so they are not read as the end of data
+    const data = buildMimeMessage(mail).replace(/^\./gm, '..');
+    await connection.command(`${data}\r\n.`, [250]);
+    await connection.command('QUIT', [221]).catch(() => undefined);
+  } finally {
+    connection.close();
+  }
+}
@@ -0,0 +1,180 @@
+/**
+ * Email templates
+ *
+ * Each template turns its parameters into localized content (subject, paragraphs,
+ * an optional call-to-action link and notes) using the `emails` strings in
+ * src/i18n/messages.ts. The content is then rendered into a plain text body and
+ * an HTML body sharing the same layout, so every email reads the same in both.
+ */
+
+import { formatMessage, getMessages, type Locale } from '../i18n/messages.js';
+import type { MailMessage } from '../types/mail.js';
+
+type EmailStrings = ReturnType<typeof getMessages>['emails'];
+
+interface EmailContent {
+  subject: string;
+  greeting?: string;
+  paragraphs: string[];
+  action?: { label: string; url: string };
+  notes?: string[];
+}
+
+export interface InvitationEmailParams {
+  inviterName: string;
+  url: string;
+  expiresAt: Date;
+}
+
+export interface WelcomeEmailParams {
+  name: string;
+  url: string;
+}
+
+export interface SecurityAlertEmailParams {
+  name: string;
+  url: string;
+}
+
+export interface MagicLinkEmailParams {
+  url: string;
+  expiresInMinutes: number;
+}
+
+export interface VerifyEmailParams {
+  name: string;
+  url: string;
+}
+
+export interface PasswordResetEmailParams {
+  name: string;
+  url: string;
+  expiresInMinutes: number;
+}
+
+const formatDate = (date: Date, locale: Locale) =>
+  date.toLocaleDateString(locale, { dateStyle: 'long' });
+
+const templates = {
+  invitation: (emails: EmailStrings, params: InvitationEmailParams, locale: Locale) => ({
+    subject: emails.invitationSubject,
+    paragraphs: [formatMessage(emails.invitationBody, { inviter: params.inviterName })],
+    action: { label: emails.invitationAction, url: params.url },
+    notes: [
+      formatMessage(emails.invitationExpiry, { date: formatDate(params.expiresAt, locale) }),
+      emails.ignoreNotice,
+    ],
+  }),
+  welcome: (emails: EmailStrings, params: WelcomeEmailParams) => ({
+    subject: formatMessage(emails.welcomeSubject, { name: params.name }),
+    greeting: formatMessage(emails.greeting, { name: params.name }),
+    paragraphs: [emails.welcomeBody],
+    action: { label: emails.welcomeAction, url: params.url },
+  }),
+  securityAlert: (emails: EmailStrings, params: SecurityAlertEmailParams) => ({
+    subject: emails.securityAlertSubject,
+    greeting: formatMessage(emails.greeting, { name: params.name }),
+    paragraphs: [emails.securityAlertBody, emails.securityAlertAdvice],
+    action: { label: emails.welcomeAction, url: params.url },
+  }),
+  magicLink: (emails: EmailStrings, params: MagicLinkEmailParams) => ({
+    subject: emails.magicLinkSubject,
+    paragraphs: [emails.magicLinkBody],
+    action: { label: emails.magicLinkAction, url: params.url },
+    notes: [
+      formatMessage(emails.linkExpiry, { minutes: String(params.expiresInMinutes) }),
+      emails.ignoreNotice,
+    ],
+  }),
+  verifyEmail: (emails: EmailStrings, params: VerifyEmailParams) => ({
+    subject: emails.verifyEmailSubject,
+    greeting: formatMessage(emails.greeting, { name: params.name }),
+    paragraphs: [emails.verifyEmailBody],
+    action: { label: emails.verifyEmailAction, url: params.url },
+    notes: [emails.ignoreNotice],
+  }),
+  passwordReset: (emails: EmailStrings, params: PasswordResetEmailParams) => ({
+    subject: emails.passwordResetSubject,
+    greeting: formatMessage(emails.greeting, { name: params.name }),
+    paragraphs: [emails.passwordResetBody],
+    action: { label: emails.passwordResetAction, url: params.url },
+    notes: [
+      formatMessage(emails.linkExpiry, { minutes: String(params.expiresInMinutes) }),
+      emails.ignoreNotice,
+    ],
+  }),
+} satisfies Record<string, (emails: EmailStrings, params: never, locale: Locale) => EmailContent>;
+
+export type EmailTemplate = keyof typeof templates;
+export type EmailTemplateParams<T extends EmailTemplate> = Parameters<(typeof templates)[T]>[1];
+
+/**
+ * Escape text for inclusion in an HTML email
+ */
+export const escapeHtml = (value: string): string => {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+};
+
+const renderText = (content: EmailContent): string => {
+  const blocks = [
+    content.greeting,
+    ...content.paragraphs,
+    content.action && `${content.action.label}: ${content.action.url}`,
+    ...(content.notes ?? []),
+  ];
+  return `${blocks.filter(Boolean).join('\n\n')}\n`;
+};
+
+const renderHtml = (content: EmailContent, locale: Locale): string => {
+  const paragraph = (text: string) => `<p style="margin:0 0 16px">${escapeHtml(text)}</p>`;
+  const note = (text: string) =>
+    `<p style="margin:0 0 8px;color:#6b7280;font-size:13px">${escapeHtml(text)}</p>`;
+  const action = content.action
+    ? `<p style="margin:24px 0"><a href="${escapeHtml(content.action.url)}" style="background:#2563eb;color:#ffffff;padding:12px 20px;border-radius:6px;text-decoration:none;display:inline-block">${escapeHtml(content.action.label)}</a></p>`
+    : '';
+
+  return [
+    '<!DOCTYPE html>',
+    `<html lang="${locale}">`,
+    '<head><meta charset="utf-8"><meta name="viewport" content="width=device-width">',
+    `<title>${escapeHtml(content.subject)}</title></head>`,
+    '<body style="margin:0;padding:24px;background:#f3f4f6;font-family:Helvetica,Arial,sans-serif;color:#111827;line-height:1.5">',
+    '<div style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:8px;padding:32px">',
+    content.greeting ? paragraph(content.greeting) : '',
+    ...content.paragraphs.map(paragraph),
+    action,
+    ...(content.notes ?? []).map(note),
+    '</div>',
+    '</body>',
+    '</html>',
+  ]
+    .filter(Boolean)
+    .join('\n');
+};
+
+/**
+ * Render a template into the subject and bodies of an email
+ */
+export function renderEmail<T extends EmailTemplate>(
+  template: T,
+  locale: Locale,
+  params: EmailTemplateParams<T>
+): Omit<MailMessage, 'to'> {
+  const render = templates[template] as (
+    emails: EmailStrings,
+    params: EmailTemplateParams<T>,
+    locale: Locale
+  ) => EmailContent;
+  const content = render(getMessages(locale).emails, params, locale);
+
+  return {
+    subject: content.subject,
+    text: renderText(content),
+    html: renderHtml(content, locale),
+  };
+}
@@ -0,0 +1,82 @@
+/**
+ * Mail transports
+ *
+ * - smtp: delivers through the configured SMTP server
+ * - file: writes each message as a JSON file to a local directory
+ * - console: logs each message to stdout (default in development)
+ * - memory: keeps messages in an array (default in tests, so they run offline)
+ */
+
+import { randomBytes } from 'crypto';
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import { sendSmtpMail } from './smtp.js';
+import type { MailConfig, MailTransport, OutgoingMail, SmtpOptions } from '../types/mail.js';
+
+export interface MemoryTransport extends MailTransport {
+  name: 'memory';
+  messages: OutgoingMail[];
+}
+
+export const createSmtpTransport = (options: SmtpOptions): MailTransport => ({
+  name: 'smtp',
+  send: (mail) => sendSmtpMail(options, mail),
+});
+
+export const createFileTransport = (directory: string): MailTransport => ({
+  name: 'file',
+  async send(mail) {
+    await mkdir(directory, { recursive: true });
+    // Timestamp first so a directory listing sorts in delivery order
+    const fileName = `${Date.now()}-${randomBytes(4).toString('hex')}.json`;
+    await writeFile(
+      path.join(directory, fileName),
+      JSON.stringify({ ...mail, sentAt: new Date().toISOString() }, null, 2)
+    );
+  },
+});
+
+export const createConsoleTransport = (): MailTransport => ({
+  name: 'console',
+  async send(mail) {
+    console.log(
+      [
+        '📧 Email',
+        `From: ${mail.from}`,
+        `To: ${mail.to}`,
+        `Subject: ${mail.subject}`,
+        '',
+        mail.text,
+      ]
+        .concat('')
+        .join('\n')
+    );
+  },
+});
+
+export const createMemoryTransport = (): MemoryTransport => {
+  const messages: OutgoingMail[] = [];
+  return {
+    name: 'memory',
+    messages,
+    async send(mail) {
+      messages.push(mail);
+    },
+  };
+};
+
+/**
+ * Create the transport described by a mail configuration
+ */
+export const createMailTransport = (mailConfig: MailConfig): MailTransport => {
+  switch (mailConfig.transport) {
+    case 'smtp':
+      return createSmtpTransport(mailConfig.smtp);
+    case 'file':
+      return createFileTransport(mailConfig.fileDir);
+    case 'console':
+      return createConsoleTransport();
+    case 'memory':
+      return createMemoryTransport();
+  }
+};
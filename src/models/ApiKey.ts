@@ -0,0 +1,96 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import { sequelize } from '../database/connection.js';
+
+interface ApiKeyAttributes {
+  id: number;
+  userId: number;
+  name: string;
+  prefix: string;
+  keyHash: string;
+  scopes: string[];
+  expiresAt?: Date | null;
+  lastUsedAt?: Date | null;
+  revokedAt?: Date | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+interface ApiKeyCreationAttributes extends Optional<
+  ApiKeyAttributes,
+  'id' | 'expiresAt' | 'lastUsedAt' | 'revokedAt'
+> {}
+
+export class ApiKey
+  extends Model<ApiKeyAttributes, ApiKeyCreationAttributes>
+  implements ApiKeyAttributes
+{
+  declare id: number;
+  declare userId: number;
+  declare name: string;
+  declare prefix: string;
+  declare keyHash: string;
+  declare scopes: string[];
+  declare expiresAt?: Date | null;
+  declare lastUsedAt?: Date | null;
+  declare revokedAt?: Date | null;
+  declare readonly createdAt: Date;
+  declare readonly updatedAt: Date;
+}
+
+ApiKey.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    userId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      field: 'user_id',
+    },
+    name: {
+      type: DataTypes.STRING(100),
+      allowNull: false,
+      comment: 'Label chosen by the user (e.g. "CI deploy")',
+    },
+    prefix: {
+      type: DataTypes.STRING(16),
+      allowNull: false,
+      comment: 'First characters of the key, shown to tell keys apart',
+    },
+    keyHash: {
+      type: DataTypes.STRING(64),
+      allowNull: false,
+      unique: true,
+      field: 'key_hash',
+      comment: 'SHA-256 hash of the key (the key itself is never stored)',
+    },
+    scopes: {
+      type: DataTypes.ARRAY(DataTypes.STRING(50)),
+      allowNull: false,
+      defaultValue: [],
+    },
+    expiresAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      field: 'expires_at',
+    },
+    lastUsedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      field: 'last_used_at',
+    },
+    revokedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      field: 'revoked_at',
+    },
+  },
+  {
+    sequelize,
+    tableName: 'api_keys',
+    timestamps: true,
+    underscored: true,
+  }
+);
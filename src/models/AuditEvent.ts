@@ -0,0 +1,108 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import { sequelize } from '../database/connection.js';
+
+interface AuditEventAttributes {
+  id: number;
+  actorId?: number | null;
+  action: string;
+  targetType?: string | null;
+  targetId?: string | null;
+  before?: Record<string, unknown> | null;
+  after?: Record<string, unknown> | null;
+  metadata?: Record<string, unknown> | null;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+  requestId?: string | null;
+  createdAt?: Date;
+}
+
+interface AuditEventCreationAttributes extends Optional<AuditEventAttributes, 'id'> {}
+
+// Append-only: events are never updated or deleted (a database trigger enforces it)
+export class AuditEvent
+  extends Model<AuditEventAttributes, AuditEventCreationAttributes>
+  implements AuditEventAttributes
+{
+  declare id: number;
+  declare actorId?: number | null;
+  declare action: string;
+  declare targetType?: string | null;
+  declare targetId?: string | null;
+  declare before?: Record<string, unknown> | null;
+  declare after?: Record<string, unknown> | null;
+  declare metadata?: Record<string, unknown> | null;
+  declare ipAddress?: string | null;
+  declare userAgent?: string | null;
+  declare requestId?: string | null;
+  declare readonly createdAt: Date;
+}
+
+AuditEvent.init(
+  {
+    id: {
+      // BIGINT comes back from Postgres as a string unless parsed
+      type: DataTypes.BIGINT,
+      autoIncrement: true,
+      primaryKey: true,
+      get() {
+        return Number(this.getDataValue('id'));
+      },
+    },
+    actorId: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      field: 'actor_id',
+      comment: 'User who acted (no foreign key, so events outlive purged users)',
+    },
+    action: {
+      type: DataTypes.STRING(100),
+      allowNull: false,
+    },
+    targetType: {
+      type: DataTypes.STRING(50),
+      allowNull: true,
+      field: 'target_type',
+    },
+    targetId: {
+      type: DataTypes.STRING(100),
+      allowNull: true,
+      field: 'target_id',
+    },
+    before: {
+      type: DataTypes.JSONB,
+      allowNull: true,
+      comment: 'Changed fields before the action',
+    },
+    after: {
+      type: DataTypes.JSONB,
+      allowNull: true,
+      comment: 'Changed fields after the action',
+    },
+    metadata: {
+      type: DataTypes.JSONB,
+      allowNull: true,
+    },
+    ipAddress: {
+      type: DataTypes.STRING(45),
+      allowNull: true,
+      field: 'ip_address',
+    },
+    userAgent: {
+      type: DataTypes.STRING(512),
+      allowNull: true,
+      field: 'user_agent',
+    },
+    requestId: {
+      type: DataTypes.STRING(100),
+      allowNull: true,
+      field: 'request_id',
+    },
+  },
+  {
+    sequelize,
+    tableName: 'audit_events',
+    timestamps: true,
+    updatedAt: false,
+    underscored: true,
+  }
+);
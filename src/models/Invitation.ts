@@ -0,0 +1,99 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import { sequelize } from '../database/connection.js';
+import type { OrganizationRole } from './Membership.js';
+
+interface InvitationAttributes {
+  id: number;
+  organizationId: number;
+  email: string;
+  role: OrganizationRole;
+  tokenHash: string;
+  invitedById?: number | null;
+  expiresAt: Date;
+  acceptedAt?: Date | null;
+  revokedAt?: Date | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+interface InvitationCreationAttributes extends Optional<
+  InvitationAttributes,
+  'id' | 'invitedById' | 'acceptedAt' | 'revokedAt'
+> {}
+
+export class Invitation
+  extends Model<InvitationAttributes, InvitationCreationAttributes>
+  implements InvitationAttributes
+{
+  declare id: number;
+  declare organizationId: number;
+  declare email: string;
+  declare role: OrganizationRole;
+  declare tokenHash: string;
+  declare invitedById?: number | null;
+  declare expiresAt: Date;
+  declare acceptedAt?: Date | null;
+  declare revokedAt?: Date | null;
+  declare readonly createdAt: Date;
+  declare readonly updatedAt: Date;
+}
+
+Invitation.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    organizationId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      field: 'organization_id',
+    },
+    email: {
+      type: DataTypes.STRING(255),
+      allowNull: false,
+      validate: {
+        isEmail: true,
+      },
+    },
+    role: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+      comment: 'Organization role granted on acceptance',
+    },
+    tokenHash: {
+      type: DataTypes.STRING(64),
+      allowNull: false,
+      unique: true,
+      field: 'token_hash',
+      comment: 'SHA-256 hash of the invitation token (the token itself is never stored)',
+    },
+    invitedById: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      field: 'invited_by_id',
+    },
+    expiresAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      field: 'expires_at',
+    },
+    acceptedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      field: 'accepted_at',
+    },
+    revokedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      field: 'revoked_at',
+    },
+  },
+  {
+    sequelize,
+    tableName: 'invitations',
+    timestamps: true,
+    underscored: true,
+  }
+);
@@ -0,0 +1,77 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import { sequelize } from '../database/connection.js';
+
+interface MagicLinkTokenAttributes {
+  id: number;
+  email: string;
+  tokenHash: string;
+  returnTo?: string | null;
+  expiresAt: Date;
+  usedAt?: Date | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+interface MagicLinkTokenCreationAttributes extends Optional<
+  MagicLinkTokenAttributes,
+  'id' | 'returnTo' | 'usedAt'
+> {}
+
+export class MagicLinkToken
+  extends Model<MagicLinkTokenAttributes, MagicLinkTokenCreationAttributes>
+  implements MagicLinkTokenAttributes
+{
+  declare id: number;
+  declare email: string;
+  declare tokenHash: string;
+  declare returnTo?: string | null;
+  declare expiresAt: Date;
+  declare usedAt?: Date | null;
+  declare readonly createdAt: Date;
+  declare readonly updatedAt: Date;
+}
+
+MagicLinkToken.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    email: {
+      type: DataTypes.STRING(255),
+      allowNull: false,
+      validate: {
+        isEmail: true,
+      },
+    },
+    tokenHash: {
+      type: DataTypes.STRING(64),
+      allowNull: false,
+      unique: true,
+      field: 'token_hash',
+      comment: 'SHA-256 hash of the emailed token (the token itself is never stored)',
+    },
+    returnTo: {
+      type: DataTypes.STRING(2048),
+      allowNull: true,
+      field: 'return_to',
+    },
+    expiresAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      field: 'expires_at',
+    },
+    usedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      field: 'used_at',
+    },
+  },
+  {
+    sequelize,
+    tableName: 'magic_link_tokens',
+    timestamps: true,
+    underscored: true,
+  }
+);
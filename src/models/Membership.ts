@@ -0,0 +1,69 @@
+import { DataTypes, Model, Optional, NonAttribute } from 'sequelize';
+import { sequelize } from '../database/connection.js';
+import type { Organization } from './Organization.js';
+import type { User } from './User.js';
+
+// Roles within an organization, from most to least privileged
+export const ORGANIZATION_ROLES = ['owner', 'admin', 'member'] as const;
+export type OrganizationRole = (typeof ORGANIZATION_ROLES)[number];
+
+interface MembershipAttributes {
+  id: number;
+  organizationId: number;
+  userId: number;
+  role: OrganizationRole;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+interface MembershipCreationAttributes extends Optional<MembershipAttributes, 'id' | 'role'> {}
+
+export class Membership
+  extends Model<MembershipAttributes, MembershipCreationAttributes>
+  implements MembershipAttributes
+{
+  declare id: number;
+  declare organizationId: number;
+  declare userId: number;
+  declare role: OrganizationRole;
+  declare readonly createdAt: Date;
+  declare readonly updatedAt: Date;
+
+  declare organization?: NonAttribute<Organization>;
+  declare user?: NonAttribute<User>;
+}
+
+Membership.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    organizationId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      field: 'organization_id',
+    },
+    userId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      field: 'user_id',
+    },
+    role: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+      defaultValue: 'member',
+      validate: {
+        isIn: [[...ORGANIZATION_ROLES]],
+      },
+      comment: 'Role within the organization (owner, admin, member)',
+    },
+  },
+  {
+    sequelize,
+    tableName: 'memberships',
+    timestamps: true,
+    underscored: true,
+  }
+);
@@ -0,0 +1,90 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import { sequelize } from '../database/connection.js';
+
+interface OAuthAuthorizationCodeAttributes {
+  id: number;
+  codeHash: string;
+  oauthClientId: number;
+  userId: number;
+  redirectUri: string;
+  scopes: string[];
+  codeChallenge: string;
+  expiresAt: Date;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+interface OAuthAuthorizationCodeCreationAttributes extends Optional<
+  OAuthAuthorizationCodeAttributes,
+  'id'
+> {}
+
+export class OAuthAuthorizationCode
+  extends Model<OAuthAuthorizationCodeAttributes, OAuthAuthorizationCodeCreationAttributes>
+  implements OAuthAuthorizationCodeAttributes
+{
+  declare id: number;
+  declare codeHash: string;
+  declare oauthClientId: number;
+  declare userId: number;
+  declare redirectUri: string;
+  declare scopes: string[];
+  declare codeChallenge: string;
+  declare expiresAt: Date;
+  declare readonly createdAt: Date;
+  declare readonly updatedAt: Date;
+}
+
+OAuthAuthorizationCode.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    codeHash: {
+      type: DataTypes.STRING(64),
+      allowNull: false,
+      unique: true,
+      field: 'code_hash',
+      comment: 'SHA-256 hash of the code, deleted once exchanged',
+    },
+    oauthClientId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      field: 'oauth_client_id',
+    },
+    userId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      field: 'user_id',
+    },
+    redirectUri: {
+      type: DataTypes.STRING(2048),
+      allowNull: false,
+      field: 'redirect_uri',
+    },
+    scopes: {
+      type: DataTypes.ARRAY(DataTypes.STRING(50)),
+      allowNull: false,
+      defaultValue: [],
+    },
+    codeChallenge: {
+      type: DataTypes.STRING(128),
+      allowNull: false,
+      field: 'code_challenge',
+      comment: 'PKCE S256 challenge the code verifier must match',
+    },
+    expiresAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      field: 'expires_at',
+    },
+  },
+  {
+    sequelize,
+    tableName: 'oauth_authorization_codes',
+    timestamps: true,
+    underscored: true,
+  }
+);
@@ -0,0 +1,115 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import { sequelize } from '../database/connection.js';
+
+export type OAuthGrantType = 'authorization_code' | 'refresh_token' | 'client_credentials';
+
+interface OAuthClientAttributes {
+  id: number;
+  clientId: string;
+  clientSecretHash?: string | null;
+  name: string;
+  redirectUris: string[];
+  grantTypes: OAuthGrantType[];
+  scopes: string[];
+  firstParty: boolean;
+  userId?: number | null;
+  revokedAt?: Date | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+interface OAuthClientCreationAttributes extends Optional<
+  OAuthClientAttributes,
+  'id' | 'clientSecretHash' | 'firstParty' | 'userId' | 'revokedAt'
+> {}
+
+export class OAuthClient
+  extends Model<OAuthClientAttributes, OAuthClientCreationAttributes>
+  implements OAuthClientAttributes
+{
+  declare id: number;
+  declare clientId: string;
+  declare clientSecretHash?: string | null;
+  declare name: string;
+  declare redirectUris: string[];
+  declare grantTypes: OAuthGrantType[];
+  declare scopes: string[];
+  declare firstParty: boolean;
+  declare userId?: number | null;
+  declare revokedAt?: Date | null;
+  declare readonly createdAt: Date;
+  declare readonly updatedAt: Date;
+
+  // Confidential clients authenticate with a secret; public clients rely on PKCE alone
+  get confidential(): boolean {
+    return !!this.clientSecretHash;
+  }
+}
+
+OAuthClient.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    clientId: {
+      type: DataTypes.STRING(64),
+      allowNull: false,
+      unique: true,
+      field: 'client_id',
+    },
+    clientSecretHash: {
+      type: DataTypes.STRING(64),
+      allowNull: true,
+      field: 'client_secret_hash',
+      comment: 'SHA-256 hash of the client secret (null for public clients such as mobile apps)',
+    },
+    name: {
+      type: DataTypes.STRING(100),
+      allowNull: false,
+    },
+    redirectUris: {
+      type: DataTypes.ARRAY(DataTypes.STRING(2048)),
+      allowNull: false,
+      defaultValue: [],
+      field: 'redirect_uris',
+    },
+    grantTypes: {
+      type: DataTypes.ARRAY(DataTypes.STRING(30)),
+      allowNull: false,
+      defaultValue: [],
+      field: 'grant_types',
+    },
+    scopes: {
+      type: DataTypes.ARRAY(DataTypes.STRING(50)),
+      allowNull: false,
+      defaultValue: [],
+      comment: 'Scopes the client may request',
+    },
+    firstParty: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: false,
+      field: 'first_party',
+      comment: 'First-party clients are authorized without a consent screen',
+    },
+    userId: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      field: 'user_id',
+      comment: 'User the client acts as with the client credentials grant',
+    },
+    revokedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      field: 'revoked_at',
+    },
+  },
+  {
+    sequelize,
+    tableName: 'oauth_clients',
+    timestamps: true,
+    underscored: true,
+  }
+);
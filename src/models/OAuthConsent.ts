@@ -0,0 +1,61 @@
+import { DataTypes, Model, NonAttribute, Optional } from 'sequelize';
+import { sequelize } from '../database/connection.js';
+import type { OAuthClient } from './OAuthClient.js';
+
+interface OAuthConsentAttributes {
+  id: number;
+  userId: number;
+  oauthClientId: number;
+  scopes: string[];
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+interface OAuthConsentCreationAttributes extends Optional<OAuthConsentAttributes, 'id'> {}
+
+export class OAuthConsent
+  extends Model<OAuthConsentAttributes, OAuthConsentCreationAttributes>
+  implements OAuthConsentAttributes
+{
+  declare id: number;
+  declare userId: number;
+  declare oauthClientId: number;
+  declare scopes: string[];
+  declare readonly createdAt: Date;
+  declare readonly updatedAt: Date;
+
+  declare client?: NonAttribute<OAuthClient>;
+}
+
+OAuthConsent.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    userId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      field: 'user_id',
+    },
+    oauthClientId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      field: 'oauth_client_id',
+    },
+    scopes: {
+      type: DataTypes.ARRAY(DataTypes.STRING(50)),
+      allowNull: false,
+      defaultValue: [],
+      comment: 'Scopes the user granted to the client',
+    },
+  },
+  {
+    sequelize,
+    tableName: 'oauth_consents',
+    timestamps: true,
+    underscored: true,
+    indexes: [{ unique: true, fields: ['user_id', 'oauth_client_id'] }],
+  }
+);
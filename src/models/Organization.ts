@@ -0,0 +1,52 @@
+import { DataTypes, Model, Optional, NonAttribute } from 'sequelize';
+import { sequelize } from '../database/connection.js';
+import type { Membership } from './Membership.js';
+
+interface OrganizationAttributes {
+  id: number;
+  name: string;
+  slug: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+interface OrganizationCreationAttributes extends Optional<OrganizationAttributes, 'id'> {}
+
+export class Organization
+  extends Model<OrganizationAttributes, OrganizationCreationAttributes>
+  implements OrganizationAttributes
+{
+  declare id: number;
+  declare name: string;
+  declare slug: string;
+  declare readonly createdAt: Date;
+  declare readonly updatedAt: Date;
+
+  declare memberships?: NonAttribute<Membership[]>;
+}
+
+Organization.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    name: {
+      type: DataTypes.STRING(255),
+      allowNull: false,
+    },
+    slug: {
+      type: DataTypes.STRING(100),
+      allowNull: false,
+      unique: true,
+      comment: 'URL-friendly unique identifier',
+    },
+  },
+  {
+    sequelize,
+    tableName: 'organizations',
+    timestamps: true,
+    underscored: true,
+  }
+);
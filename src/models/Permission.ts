@@ -0,0 +1,52 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import { sequelize } from '../database/connection.js';
+
+interface PermissionAttributes {
+  id: number;
+  name: string;
+  description?: string | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+interface PermissionCreationAttributes extends Optional<
+  PermissionAttributes,
+  'id' | 'description'
+> {}
+
+export class Permission
+  extends Model<PermissionAttributes, PermissionCreationAttributes>
+  implements PermissionAttributes
+{
+  declare id: number;
+  declare name: string;
+  declare description?: string | null;
+  declare readonly createdAt: Date;
+  declare readonly updatedAt: Date;
+}
+
+Permission.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    name: {
+      type: DataTypes.STRING(100),
+      allowNull: false,
+      unique: true,
+      comment: 'Permission in resource:action form (e.g. users:read)',
+    },
+    description: {
+      type: DataTypes.STRING(255),
+      allowNull: true,
+    },
+  },
+  {
+    sequelize,
+    tableName: 'permissions',
+    timestamps: true,
+    underscored: true,
+  }
+);
@@ -0,0 +1,60 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import { sequelize } from '../database/connection.js';
+
+interface RecoveryCodeAttributes {
+  id: number;
+  userId: number;
+  codeHash: string;
+  usedAt?: Date | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+interface RecoveryCodeCreationAttributes extends Optional<
+  RecoveryCodeAttributes,
+  'id' | 'usedAt'
+> {}
+
+export class RecoveryCode
+  extends Model<RecoveryCodeAttributes, RecoveryCodeCreationAttributes>
+  implements RecoveryCodeAttributes
+{
+  declare id: number;
+  declare userId: number;
+  declare codeHash: string;
+  declare usedAt?: Date | null;
+  declare readonly createdAt: Date;
+  declare readonly updatedAt: Date;
+}
+
+RecoveryCode.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    userId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      field: 'user_id',
+    },
+    codeHash: {
+      type: DataTypes.STRING(64),
+      allowNull: false,
+      field: 'code_hash',
+      comment: 'SHA-256 hash of the recovery code (the code itself is never stored)',
+    },
+    usedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      field: 'used_at',
+    },
+  },
+  {
+    sequelize,
+    tableName: 'recovery_codes',
+    timestamps: true,
+    underscored: true,
+  }
+);
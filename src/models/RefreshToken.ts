@@ -0,0 +1,84 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import { sequelize } from '../database/connection.js';
+
+interface RefreshTokenAttributes {
+  id: number;
+  userId: number;
+  familyId: string;
+  tokenHash: string;
+  expiresAt: Date;
+  rotatedAt?: Date | null;
+  revokedAt?: Date | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+interface RefreshTokenCreationAttributes extends Optional<
+  RefreshTokenAttributes,
+  'id' | 'rotatedAt' | 'revokedAt'
+> {}
+
+export class RefreshToken
+  extends Model<RefreshTokenAttributes, RefreshTokenCreationAttributes>
+  implements RefreshTokenAttributes
+{
+  declare id: number;
+  declare userId: number;
+  declare familyId: string;
+  declare tokenHash: string;
+  declare expiresAt: Date;
+  declare rotatedAt?: Date | null;
+  declare revokedAt?: Date | null;
+  declare readonly createdAt: Date;
+  declare readonly updatedAt: Date;
+}
+
+RefreshToken.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    userId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      field: 'user_id',
+    },
+    familyId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      field: 'family_id',
+      comment: 'Shared by every token issued from the same login',
+    },
+    tokenHash: {
+      type: DataTypes.STRING(64),
+      allowNull: false,
+      unique: true,
+      field: 'token_hash',
+      comment: 'SHA-256 hash of the opaque refresh token',
+    },
+    expiresAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      field: 'expires_at',
+    },
+    rotatedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      field: 'rotated_at',
+      comment: 'Set when the token was exchanged for a new one',
+    },
+    revokedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      field: 'revoked_at',
+    },
+  },
+  {
+    sequelize,
+    tableName: 'refresh_tokens',
+    timestamps: true,
+    underscored: true,
+  }
+);
@@ -0,0 +1,67 @@
+import {
+  DataTypes,
+  Model,
+  Optional,
+  BelongsToManySetAssociationsMixin,
+  NonAttribute,
+} from 'sequelize';
+import { sequelize } from '../database/connection.js';
+import type { Permission } from './Permission.js';
+
+interface RoleAttributes {
+  id: number;
+  name: string;
+  description?: string | null;
+  isSystem: boolean;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+interface RoleCreationAttributes extends Optional<
+  RoleAttributes,
+  'id' | 'description' | 'isSystem'
+> {}
+
+export class Role extends Model<RoleAttributes, RoleCreationAttributes> implements RoleAttributes {
+  declare id: number;
+  declare name: string;
+  declare description?: string | null;
+  declare isSystem: boolean;
+  declare readonly createdAt: Date;
+  declare readonly updatedAt: Date;
+
+  declare permissions?: NonAttribute<Permission[]>;
+  declare setPermissions: BelongsToManySetAssociationsMixin<Permission, number>;
+}
+
+Role.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    name: {
+      type: DataTypes.STRING(50),
+      allowNull: false,
+      unique: true,
+    },
+    description: {
+      type: DataTypes.STRING(255),
+      allowNull: true,
+    },
+    isSystem: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: false,
+      field: 'is_system',
+      comment: 'Built-in roles cannot be deleted',
+    },
+  },
+  {
+    sequelize,
+    tableName: 'roles',
+    timestamps: true,
+    underscored: true,
+  }
+);
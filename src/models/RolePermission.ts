@@ -0,0 +1,41 @@
+import { DataTypes, Model } from 'sequelize';
+import { sequelize } from '../database/connection.js';
+
+interface RolePermissionAttributes {
+  roleId: number;
+  permissionId: number;
+  createdAt?: Date;
+}
+
+export class RolePermission
+  extends Model<RolePermissionAttributes>
+  implements RolePermissionAttributes
+{
+  declare roleId: number;
+  declare permissionId: number;
+  declare readonly createdAt: Date;
+}
+
+RolePermission.init(
+  {
+    roleId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      primaryKey: true,
+      field: 'role_id',
+    },
+    permissionId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      primaryKey: true,
+      field: 'permission_id',
+    },
+  },
+  {
+    sequelize,
+    tableName: 'role_permissions',
+    timestamps: true,
+    updatedAt: false,
+    underscored: true,
+  }
+);
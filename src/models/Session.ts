@@ -0,0 +1,113 @@
+import { DataTypes, Model, NonAttribute, Optional } from 'sequelize';
+import { sequelize } from '../database/connection.js';
+import type { OAuthClient } from './OAuthClient.js';
+
+interface SessionAttributes {
+  id: string;
+  userId: number;
+  userAgent?: string | null;
+  ipAddress?: string | null;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  revokedAt?: Date | null;
+  activeOrganizationId?: number | null;
+  oauthClientId?: number | null;
+  scopes?: string[] | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+interface SessionCreationAttributes extends Optional<
+  SessionAttributes,
+  | 'id'
+  | 'userAgent'
+  | 'ipAddress'
+  | 'revokedAt'
+  | 'activeOrganizationId'
+  | 'oauthClientId'
+  | 'scopes'
+> {}
+
+export class Session
+  extends Model<SessionAttributes, SessionCreationAttributes>
+  implements SessionAttributes
+{
+  declare id: string;
+  declare userId: number;
+  declare userAgent?: string | null;
+  declare ipAddress?: string | null;
+  declare lastUsedAt: Date;
+  declare expiresAt: Date;
+  declare revokedAt?: Date | null;
+  declare activeOrganizationId?: number | null;
+  declare oauthClientId?: number | null;
+  declare scopes?: string[] | null;
+  declare readonly createdAt: Date;
+  declare readonly updatedAt: Date;
+
+  declare oauthClient?: NonAttribute<OAuthClient>;
+}
+
+Session.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+      comment: 'Also the family ID of the refresh tokens issued for this session',
+    },
+    userId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      field: 'user_id',
+    },
+    userAgent: {
+      type: DataTypes.STRING(512),
+      allowNull: true,
+      field: 'user_agent',
+    },
+    ipAddress: {
+      type: DataTypes.STRING(45),
+      allowNull: true,
+      field: 'ip_address',
+    },
+    lastUsedAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      field: 'last_used_at',
+    },
+    expiresAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      field: 'expires_at',
+    },
+    revokedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      field: 'revoked_at',
+    },
+    activeOrganizationId: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      field: 'active_organization_id',
+      comment: 'Organization carried in the org claim of access tokens for this session',
+    },
+    oauthClientId: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      field: 'oauth_client_id',
+      comment: 'OAuth client the session was authorized for (null for direct sign-ins)',
+    },
+    scopes: {
+      type: DataTypes.ARRAY(DataTypes.STRING(50)),
+      allowNull: true,
+      comment: 'Scopes granted to the OAuth client (null for direct sign-ins)',
+    },
+  },
+  {
+    sequelize,
+    tableName: 'sessions',
+    timestamps: true,
+    underscored: true,
+  }
+);
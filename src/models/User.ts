@@ -1,20 +1,37 @@
 import { DataTypes, Model, Optional } from 'sequelize';
 import { sequelize } from '../database/connection.js';
+import { decryptSecret, encryptSecret } from '../utils/encryption.js';
 
-export type UserRole = 'user' | 'admin';
+// Name of a row in the roles table (the built-in roles are 'user' and 'admin')
+export type UserRole = string;
+
+export const DEFAULT_ROLE = 'user';
+
+// Emails are stored and looked up in lowercase, so an address cannot belong to two accounts
+export const normalizeEmail = (email: string): string => email.toLowerCase();
 
 interface UserAttributes {
   id: number;
   name: string;
   email: string;
   role: UserRole;
-  oauthProvider?: string;
-  oauthId?: string;
+  oauthProvider?: string | null;
+  oauthId?: string | null;
   oauthAccessToken?: string;
   oauthRefreshToken?: string;
   oauthTokenExpiresAt?: Date;
+  passwordHash?: string | null;
+  passwordChangedAt?: Date | null;
+  emailVerifiedAt?: Date | null;
+  pendingEmail?: string | null;
+  failedLoginAttempts?: number;
+  lockedUntil?: Date | null;
+  totpSecret?: string | null;
+  totpEnabledAt?: Date | null;
+  totpLastStep?: number | null;
   createdAt?: Date;
   updatedAt?: Date;
+  deletedAt?: Date | null;
 }
 
 interface UserCreationAttributes extends Optional<UserAttributes, 'id' | 'role'> {}
@@ -24,13 +41,33 @@ export class User extends Model<UserAttributes, UserCreationAttributes> implemen
   declare name: string;
   declare email: string;
   declare role: UserRole;
-  declare oauthProvider?: string;
-  declare oauthId?: string;
+  declare oauthProvider?: string | null;
+  declare oauthId?: string | null;
   declare oauthAccessToken?: string;
   declare oauthRefreshToken?: string;
   declare oauthTokenExpiresAt?: Date;
+  declare passwordHash?: string | null;
+  declare passwordChangedAt?: Date | null;
+  declare emailVerifiedAt?: Date | null;
+  declare pendingEmail?: string | null;
+  declare failedLoginAttempts: number;
+  declare lockedUntil?: Date | null;
+  declare totpSecret?: string | null;
+  declare totpEnabledAt?: Date | null;
+  declare totpLastStep?: number | null;
   declare readonly createdAt: Date;
   declare readonly updatedAt: Date;
+  declare deletedAt?: Date | null;
+
+  // Provider tokens, the password hash and the TOTP secret are secrets: keep them out of
+  // serialized output and logs
+  toJSON<T extends UserAttributes>(): T;
+  toJSON(): object;
+  toJSON(): object {
+    const { oauthAccessToken, oauthRefreshToken, passwordHash, totpSecret, ...values } =
+      super.toJSON<UserAttributes>();
+    return values;
+  }
 }
 
 User.init(
@@ -47,15 +84,18 @@ User.init(
     email: {
       type: DataTypes.STRING(255),
       allowNull: false,
-      unique: true,
       validate: {
         isEmail: true,
       },
+      set(value: string) {
+        this.setDataValue('email', normalizeEmail(value));
+      },
     },
     role: {
-      type: DataTypes.ENUM('user', 'admin'),
+      type: DataTypes.STRING(50),
       allowNull: false,
-      defaultValue: 'user',
+      defaultValue: DEFAULT_ROLE,
+      references: { model: 'roles', key: 'name' },
       comment: 'User role for access control',
     },
     oauthProvider: {
@@ -74,13 +114,27 @@ User.init(
       type: DataTypes.TEXT,
       allowNull: true,
       field: 'oauth_access_token',
-      comment: 'OAuth access token',
+      comment: 'OAuth access token (encrypted)',
+      get() {
+        const value = this.getDataValue('oauthAccessToken');
+        return value ? decryptSecret(value) : value;
+      },
+      set(value: string | undefined) {
+        this.setDataValue('oauthAccessToken', value ? encryptSecret(value) : value);
+      },
     },
     oauthRefreshToken: {
       type: DataTypes.TEXT,
       allowNull: true,
       field: 'oauth_refresh_token',
-      comment: 'OAuth refresh token',
+      comment: 'OAuth refresh token (encrypted)',
+      get() {
+        const value = this.getDataValue('oauthRefreshToken');
+        return value ? decryptSecret(value) : value;
+      },
+      set(value: string | undefined) {
+        this.setDataValue('oauthRefreshToken', value ? encryptSecret(value) : value);
+      },
     },
     oauthTokenExpiresAt: {
       type: DataTypes.DATE,
@@ -88,11 +142,89 @@ User.init(
       field: 'oauth_token_expires_at',
       comment: 'OAuth token expiration time',
     },
+    passwordHash: {
+      type: DataTypes.STRING(255),
+      allowNull: true,
+      field: 'password_hash',
+      comment: 'scrypt hash with its parameters (null when the user has no password)',
+    },
+    passwordChangedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      field: 'password_changed_at',
+    },
+    emailVerifiedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      field: 'email_verified_at',
+      comment: 'When the user proved they own the email address',
+    },
+    pendingEmail: {
+      type: DataTypes.STRING(255),
+      allowNull: true,
+      field: 'pending_email',
+      comment: 'New email address, used once its owner follows the verification link',
+      validate: {
+        isEmail: true,
+      },
+      set(value: string | null) {
+        this.setDataValue('pendingEmail', value && normalizeEmail(value));
+      },
+    },
+    failedLoginAttempts: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0,
+      field: 'failed_login_attempts',
+      comment: 'Consecutive failed password logins',
+    },
+    lockedUntil: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      field: 'locked_until',
+      comment: 'Password login is refused until this time',
+    },
+    totpSecret: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+      field: 'totp_secret',
+      comment: 'TOTP secret (encrypted), set when enrollment starts',
+      get() {
+        const value = this.getDataValue('totpSecret');
+        return value ? decryptSecret(value) : value;
+      },
+      set(value: string | null | undefined) {
+        this.setDataValue('totpSecret', value ? encryptSecret(value) : value);
+      },
+    },
+    totpEnabledAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      field: 'totp_enabled_at',
+      comment: 'When TOTP enrollment was confirmed (null while pending or disabled)',
+    },
+    totpLastStep: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      field: 'totp_last_step',
+      comment: 'Time step of the last accepted code, so a code cannot be replayed',
+    },
   },
   {
     sequelize,
     tableName: 'users',
     timestamps: true,
     underscored: true,
+    // Deleting sets deleted_at; the row stays restorable until the retention purge
+    paranoid: true,
+    // Emails only need to be unique among users that are not deleted, whatever their case
+    indexes: [
+      {
+        name: 'users_email_active',
+        unique: true,
+        fields: [sequelize.fn('lower', sequelize.col('email'))],
+        where: { deleted_at: null },
+      },
+    ],
   }
 );
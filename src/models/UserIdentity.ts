@@ -0,0 +1,127 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import { sequelize } from '../database/connection.js';
+import { decryptSecret, encryptSecret } from '../utils/encryption.js';
+
+interface UserIdentityAttributes {
+  id: number;
+  userId: number;
+  provider: string;
+  providerUserId: string;
+  email?: string | null;
+  accessToken?: string | null;
+  refreshToken?: string | null;
+  tokenExpiresAt?: Date | null;
+  needsReconsent: boolean;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+interface UserIdentityCreationAttributes extends Optional<
+  UserIdentityAttributes,
+  'id' | 'email' | 'accessToken' | 'refreshToken' | 'tokenExpiresAt' | 'needsReconsent'
+> {}
+
+export class UserIdentity
+  extends Model<UserIdentityAttributes, UserIdentityCreationAttributes>
+  implements UserIdentityAttributes
+{
+  declare id: number;
+  declare userId: number;
+  declare provider: string;
+  declare providerUserId: string;
+  declare email?: string | null;
+  declare accessToken?: string | null;
+  declare refreshToken?: string | null;
+  declare tokenExpiresAt?: Date | null;
+  declare needsReconsent: boolean;
+  declare readonly createdAt: Date;
+  declare readonly updatedAt: Date;
+
+  // Provider tokens are secrets: keep them out of serialized output and logs
+  toJSON<T extends UserIdentityAttributes>(): T;
+  toJSON(): object;
+  toJSON(): object {
+    const { accessToken, refreshToken, ...values } = super.toJSON<UserIdentityAttributes>();
+    return values;
+  }
+}
+
+UserIdentity.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    userId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      field: 'user_id',
+    },
+    provider: {
+      type: DataTypes.STRING(50),
+      allowNull: false,
+      comment: 'OAuth provider name (google, github, microsoft)',
+    },
+    providerUserId: {
+      type: DataTypes.STRING(255),
+      allowNull: false,
+      field: 'provider_user_id',
+      comment: 'User ID from OAuth provider',
+    },
+    email: {
+      type: DataTypes.STRING(255),
+      allowNull: true,
+      comment: 'Email reported by the provider when the identity was last used',
+    },
+    accessToken: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+      field: 'access_token',
+      comment: 'OAuth access token (encrypted)',
+      get() {
+        const value = this.getDataValue('accessToken');
+        return value ? decryptSecret(value) : value;
+      },
+      set(value: string | null | undefined) {
+        this.setDataValue('accessToken', value ? encryptSecret(value) : value);
+      },
+    },
+    refreshToken: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+      field: 'refresh_token',
+      comment: 'OAuth refresh token (encrypted)',
+      get() {
+        const value = this.getDataValue('refreshToken');
+        return value ? decryptSecret(value) : value;
+      },
+      set(value: string | null | undefined) {
+        this.setDataValue('refreshToken', value ? encryptSecret(value) : value);
+      },
+    },
+    tokenExpiresAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      field: 'token_expires_at',
+      comment: 'OAuth token expiration time',
+    },
+    needsReconsent: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: false,
+      field: 'needs_reconsent',
+      comment: 'Provider grant was revoked, the user must sign in with the provider again',
+    },
+  },
+  {
+    sequelize,
+    tableName: 'user_identities',
+    timestamps: true,
+    underscored: true,
+    indexes: [
+      { unique: true, fields: ['provider', 'provider_user_id'] },
+      { unique: true, fields: ['user_id', 'provider'] },
+    ],
+  }
+);
@@ -0,0 +1,104 @@
+import { DataTypes, Model, Optional, NonAttribute } from 'sequelize';
+import { sequelize } from '../database/connection.js';
+import type { User, UserRole } from './User.js';
+
+interface UserInvitationAttributes {
+  id: number;
+  email: string;
+  name?: string | null;
+  role: UserRole;
+  invitedById?: number | null;
+  expiresAt: Date;
+  acceptedAt?: Date | null;
+  acceptedUserId?: number | null;
+  revokedAt?: Date | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+interface UserInvitationCreationAttributes extends Optional<
+  UserInvitationAttributes,
+  'id' | 'name' | 'role' | 'invitedById' | 'acceptedAt' | 'acceptedUserId' | 'revokedAt'
+> {}
+
+export class UserInvitation
+  extends Model<UserInvitationAttributes, UserInvitationCreationAttributes>
+  implements UserInvitationAttributes
+{
+  declare id: number;
+  declare email: string;
+  declare name?: string | null;
+  declare role: UserRole;
+  declare invitedById?: number | null;
+  declare expiresAt: Date;
+  declare acceptedAt?: Date | null;
+  declare acceptedUserId?: number | null;
+  declare revokedAt?: Date | null;
+  declare readonly createdAt: Date;
+  declare readonly updatedAt: Date;
+
+  declare invitedBy?: NonAttribute<User | null>;
+}
+
+UserInvitation.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    email: {
+      type: DataTypes.STRING(255),
+      allowNull: false,
+      validate: {
+        isEmail: true,
+      },
+    },
+    name: {
+      type: DataTypes.STRING(255),
+      allowNull: true,
+      comment: 'Suggested name for the new account',
+    },
+    role: {
+      type: DataTypes.STRING(50),
+      allowNull: false,
+      defaultValue: 'user',
+      references: {
+        model: 'roles',
+        key: 'name',
+      },
+      comment: 'Role assigned to the account created on acceptance',
+    },
+    invitedById: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      field: 'invited_by_id',
+    },
+    expiresAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      field: 'expires_at',
+    },
+    acceptedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      field: 'accepted_at',
+    },
+    acceptedUserId: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      field: 'accepted_user_id',
+    },
+    revokedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      field: 'revoked_at',
+    },
+  },
+  {
+    sequelize,
+    tableName: 'user_invitations',
+    timestamps: true,
+    underscored: true,
+  }
+);
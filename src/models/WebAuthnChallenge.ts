@@ -0,0 +1,71 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import { sequelize } from '../database/connection.js';
+
+export type WebAuthnCeremony = 'registration' | 'authentication';
+
+interface WebAuthnChallengeAttributes {
+  id: number;
+  challenge: string;
+  ceremony: WebAuthnCeremony;
+  userId?: number | null;
+  expiresAt: Date;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+interface WebAuthnChallengeCreationAttributes extends Optional<
+  WebAuthnChallengeAttributes,
+  'id' | 'userId'
+> {}
+
+export class WebAuthnChallenge
+  extends Model<WebAuthnChallengeAttributes, WebAuthnChallengeCreationAttributes>
+  implements WebAuthnChallengeAttributes
+{
+  declare id: number;
+  declare challenge: string;
+  declare ceremony: WebAuthnCeremony;
+  declare userId?: number | null;
+  declare expiresAt: Date;
+  declare readonly createdAt: Date;
+  declare readonly updatedAt: Date;
+}
+
+WebAuthnChallenge.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    challenge: {
+      type: DataTypes.STRING(64),
+      allowNull: false,
+      unique: true,
+      comment: 'Random challenge sent to the client (base64url), deleted once used',
+    },
+    ceremony: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+      validate: {
+        isIn: [['registration', 'authentication']],
+      },
+    },
+    userId: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      field: 'user_id',
+    },
+    expiresAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      field: 'expires_at',
+    },
+  },
+  {
+    sequelize,
+    tableName: 'webauthn_challenges',
+    timestamps: true,
+    underscored: true,
+  }
+);
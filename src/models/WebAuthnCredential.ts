@@ -0,0 +1,101 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import { sequelize } from '../database/connection.js';
+
+interface WebAuthnCredentialAttributes {
+  id: number;
+  userId: number;
+  credentialId: string;
+  publicKey: string;
+  algorithm: number;
+  signCount: number;
+  transports: string[];
+  name: string;
+  lastUsedAt?: Date | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+interface WebAuthnCredentialCreationAttributes extends Optional<
+  WebAuthnCredentialAttributes,
+  'id' | 'signCount' | 'transports' | 'lastUsedAt'
+> {}
+
+export class WebAuthnCredential
+  extends Model<WebAuthnCredentialAttributes, WebAuthnCredentialCreationAttributes>
+  implements WebAuthnCredentialAttributes
+{
+  declare id: number;
+  declare userId: number;
+  declare credentialId: string;
+  declare publicKey: string;
+  declare algorithm: number;
+  declare signCount: number;
+  declare transports: string[];
+  declare name: string;
+  declare lastUsedAt?: Date | null;
+  declare readonly createdAt: Date;
+  declare readonly updatedAt: Date;
+}
+
+WebAuthnCredential.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    userId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      field: 'user_id',
+    },
+    credentialId: {
+      type: DataTypes.STRING(1366),
+      allowNull: false,
+      unique: true,
+      field: 'credential_id',
+      comment: 'Credential ID chosen by the authenticator (base64url)',
+    },
+    publicKey: {
+      type: DataTypes.TEXT,
+      allowNull: false,
+      field: 'public_key',
+      comment: 'Credential public key as SPKI DER (base64url)',
+    },
+    algorithm: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      comment: 'COSE algorithm identifier (-7 ES256, -8 EdDSA, -257 RS256)',
+    },
+    signCount: {
+      type: DataTypes.BIGINT,
+      allowNull: false,
+      defaultValue: 0,
+      field: 'sign_count',
+      // Counters are 32-bit unsigned, which pg returns as strings for BIGINT
+      get() {
+        return Number(this.getDataValue('signCount'));
+      },
+    },
+    transports: {
+      type: DataTypes.ARRAY(DataTypes.STRING),
+      allowNull: false,
+      defaultValue: [],
+    },
+    name: {
+      type: DataTypes.STRING(255),
+      allowNull: false,
+    },
+    lastUsedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      field: 'last_used_at',
+    },
+  },
+  {
+    sequelize,
+    tableName: 'webauthn_credentials',
+    timestamps: true,
+    underscored: true,
+  }
+);
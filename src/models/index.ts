@@ -1 +1,97 @@
-export { User } from './User.js';
+import { User } from './User.js';
+import { RefreshToken } from './RefreshToken.js';
+import { Session } from './Session.js';
+import { UserIdentity } from './UserIdentity.js';
+import { ApiKey } from './ApiKey.js';
+import { Role } from './Role.js';
+import { Permission } from './Permission.js';
+import { RolePermission } from './RolePermission.js';
+import { Organization } from './Organization.js';
+import { Membership, type OrganizationRole } from './Membership.js';
+import { Invitation } from './Invitation.js';
+import { UserInvitation } from './UserInvitation.js';
+import { MagicLinkToken } from './MagicLinkToken.js';
+import { RecoveryCode } from './RecoveryCode.js';
+import { WebAuthnCredential } from './WebAuthnCredential.js';
+import { WebAuthnChallenge } from './WebAuthnChallenge.js';
+import { OAuthClient } from './OAuthClient.js';
+import { OAuthAuthorizationCode } from './OAuthAuthorizationCode.js';
+import { OAuthConsent } from './OAuthConsent.js';
+import { AuditEvent } from './AuditEvent.js';
+
+// Associations
+User.hasMany(RefreshToken, { foreignKey: 'userId', as: 'refreshTokens', onDelete: 'CASCADE' });
+RefreshToken.belongsTo(User, { foreignKey: 'userId', as: 'user' });
+User.hasMany(Session, { foreignKey: 'userId', as: 'sessions', onDelete: 'CASCADE' });
+Session.belongsTo(User, { foreignKey: 'userId', as: 'user' });
+User.hasMany(UserIdentity, { foreignKey: 'userId', as: 'identities', onDelete: 'CASCADE' });
+UserIdentity.belongsTo(User, { foreignKey: 'userId', as: 'user' });
+User.hasMany(ApiKey, { foreignKey: 'userId', as: 'apiKeys', onDelete: 'CASCADE' });
+ApiKey.belongsTo(User, { foreignKey: 'userId', as: 'user' });
+Role.belongsToMany(Permission, {
+  through: RolePermission,
+  foreignKey: 'roleId',
+  otherKey: 'permissionId',
+  as: 'permissions',
+});
+Permission.belongsToMany(Role, {
+  through: RolePermission,
+  foreignKey: 'permissionId',
+  otherKey: 'roleId',
+  as: 'roles',
+});
+Organization.hasMany(Membership, {
+  foreignKey: 'organizationId',
+  as: 'memberships',
+  onDelete: 'CASCADE',
+});
+Membership.belongsTo(Organization, { foreignKey: 'organizationId', as: 'organization' });
+User.hasMany(Membership, { foreignKey: 'userId', as: 'memberships', onDelete: 'CASCADE' });
+Membership.belongsTo(User, { foreignKey: 'userId', as: 'user' });
+Organization.hasMany(Invitation, {
+  foreignKey: 'organizationId',
+  as: 'invitations',
+  onDelete: 'CASCADE',
+});
+Invitation.belongsTo(Organization, { foreignKey: 'organizationId', as: 'organization' });
+UserInvitation.belongsTo(User, { foreignKey: 'invitedById', as: 'invitedBy' });
+User.hasMany(RecoveryCode, { foreignKey: 'userId', as: 'recoveryCodes', onDelete: 'CASCADE' });
+User.hasMany(WebAuthnCredential, {
+  foreignKey: 'userId',
+  as: 'webauthnCredentials',
+  onDelete: 'CASCADE',
+});
+WebAuthnCredential.belongsTo(User, { foreignKey: 'userId', as: 'user' });
+OAuthClient.belongsTo(User, { foreignKey: 'userId', as: 'user' });
+Session.belongsTo(OAuthClient, { foreignKey: 'oauthClientId', as: 'oauthClient' });
+OAuthClient.hasMany(OAuthConsent, {
+  foreignKey: 'oauthClientId',
+  as: 'consents',
+  onDelete: 'CASCADE',
+});
+OAuthConsent.belongsTo(OAuthClient, { foreignKey: 'oauthClientId', as: 'client' });
+User.hasMany(OAuthConsent, { foreignKey: 'userId', as: 'oauthConsents', onDelete: 'CASCADE' });
+
+export {
+  User,
+  RefreshToken,
+  Session,
+  UserIdentity,
+  ApiKey,
+  Role,
+  Permission,
+  RolePermission,
+  Organization,
+  Membership,
+  Invitation,
+  UserInvitation,
+  MagicLinkToken,
+  RecoveryCode,
+  WebAuthnCredential,
+  WebAuthnChallenge,
+  OAuthClient,
+  OAuthAuthorizationCode,
+  OAuthConsent,
+  AuditEvent,
+};
+export type { OrganizationRole };
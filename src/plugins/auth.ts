@@ -2,12 +2,65 @@ import fp from 'fastify-plugin';
 import fastifyOAuth2 from '@fastify/oauth2';
 import fastifyJwt from '@fastify/jwt';
 import fastifyCookie from '@fastify/cookie';
+import { randomUUID, type KeyObject } from 'crypto';
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { config } from '../config/index.js';
+import { OAuthClient, Session, type User } from '../models/index.js';
+import { DEFAULT_ROLE, type UserRole } from '../models/User.js';
+import { issueRefreshToken, type IssuedRefreshToken } from '../utils/refreshTokens.js';
+import { createSession, isSessionActive } from '../utils/sessions.js';
+import { apiKeyAllowsMethod, verifyApiKey } from '../utils/apiKeys.js';
+import { findActiveOAuthClient } from '../utils/oauthServer.js';
+import { ForbiddenError, UnauthorizedError } from '../utils/errors.js';
+import {
+  OAUTH_STATE_COOKIE,
+  OAUTH_STATE_TTL,
+  OAUTH_VERIFIER_COOKIE,
+  createOAuthFlowState,
+  oauthStateCookieOptions,
+  type OAuthFlowState,
+} from '../utils/oauthState.js';
+
+export interface AuthTokens {
+  token: string;
+  refreshToken: string;
+  expiresIn: number;
+}
+
+// Claims of tokens issued to OAuth clients: granted scopes ("read write") and the client ID
+export interface AccessTokenClaims {
+  scope: string;
+  client_id: string;
+}
 
 declare module 'fastify' {
   interface FastifyInstance {
     authenticate: (request: FastifyRequest, reply: FastifyReply) => Promise<void>;
+    issueAuthTokens: (
+      reply: FastifyReply,
+      user: Pick<User, 'id' | 'email' | 'role'>,
+      refreshToken?: IssuedRefreshToken
+    ) => Promise<AuthTokens>;
+    issueAccessToken: (
+      reply: FastifyReply,
+      user: Pick<User, 'id' | 'email' | 'role'>,
+      sessionId: string
+    ) => Promise<Omit<AuthTokens, 'refreshToken'>>;
+    issueTwoFactorChallenge: (reply: FastifyReply, user: Pick<User, 'id'>) => string;
+    signAccessToken: (
+      user: Pick<User, 'id' | 'email' | 'role'>,
+      sessionId: string | null,
+      claims?: AccessTokenClaims
+    ) => Promise<string>;
+    signToken: (payload: Record<string, unknown>, options?: { expiresIn?: number }) => string;
+    verifyToken: <T extends object = Record<string, any>>(token: string) => T;
+    startOAuthFlow: (
+      request: FastifyRequest,
+      reply: FastifyReply,
+      provider: string,
+      returnTo?: string
+    ) => Promise<string>;
+    readOAuthFlow: (request: FastifyRequest, provider: string) => OAuthFlowState | null;
     oauth: Record<string, any>;
   }
 }
@@ -18,11 +71,35 @@ declare module '@fastify/jwt' {
       userId: number;
       id: number;
       email: string;
-      role: 'user' | 'admin';
+      role: UserRole;
+      sessionId?: string;
+      // Active organization from the org claim (null when none is selected)
+      organizationId?: number | null;
+      // Set when the request is authenticated with an API key instead of a JWT
+      apiKeyId?: number;
+      // Set when the token was issued to an OAuth client
+      oauthClientId?: string;
     };
   }
 }
 
+// Short-lived access JWT (also accepted when no Authorization header is sent)
+export const ACCESS_TOKEN_COOKIE = 'accessToken';
+// Opaque rotating refresh token, only sent to the /auth routes
+export const REFRESH_TOKEN_COOKIE = 'refreshToken';
+
+// Signed challenge between a first-factor login and the second-factor step
+export const TWO_FACTOR_CHALLENGE_COOKIE = 'twoFactorChallenge';
+
+export const refreshTokenCookieOptions = {
+  httpOnly: true,
+  secure: process.env.NODE_ENV === 'production',
+  sameSite: 'lax' as const,
+  path: '/auth',
+};
+
+const pem = (key: KeyObject) => key.export({ type: 'spki', format: 'pem' }).toString();
+
 // OAuth provider configurations
 const oauthConfigurations = {
   google: fastifyOAuth2.GOOGLE_CONFIGURATION,
@@ -30,63 +107,320 @@ const oauthConfigurations = {
   microsoft: fastifyOAuth2.MICROSOFT_CONFIGURATION,
 };
 
-export default fp(async (fastify: FastifyInstance) => {
-  // Register cookie support
-  await fastify.register(fastifyCookie);
-
-  // Register JWT
-  await fastify.register(fastifyJwt, {
-    secret: config.jwt.secret,
-    cookie: {
-      cookieName: 'refreshToken',
-      signed: false,
-    },
-  });
-
-  // Initialize oauth object to store provider instances
-  fastify.decorate('oauth', {});
-
-  // Register OAuth providers dynamically
-  for (const provider of config.oauth.enabledProviders) {
-    const oauthConfig = oauthConfigurations[provider.name as keyof typeof oauthConfigurations];
-
-    if (oauthConfig) {
-      await fastify.register(fastifyOAuth2, {
-        name: `${provider.name}OAuth2`,
-        credentials: {
-          client: {
-            id: provider.clientId,
-            secret: provider.clientSecret,
-          },
-          auth: oauthConfig,
+// Flow state handed from startOAuthFlow to the generateStateFunction of the same request
+const pendingFlows = new WeakMap<FastifyRequest, OAuthFlowState>();
+
+export default fp(
+  async (fastify: FastifyInstance) => {
+    // Register cookie support
+    await fastify.register(fastifyCookie);
+
+    // Register JWT: new tokens are signed with the current key of the keyring and name it in
+    // their kid header; any key of the keyring verifies them (see verifyToken)
+    const { currentKeyId, keys } = config.jwt.keyring;
+    const currentKey = keys[currentKeyId];
+    const signOptions = {
+      algorithm: currentKey.algorithm,
+      kid: currentKeyId,
+      iss: config.jwt.issuer,
+      aud: config.jwt.audience,
+    };
+    const verifyOptions = new Map(
+      Object.entries(keys).map(([kid, key]) => [
+        kid,
+        {
+          key: pem(key.publicKey),
+          algorithms: [key.algorithm],
+          allowedIss: config.jwt.issuer,
+          allowedAud: config.jwt.audience,
         },
-        startRedirectPath: `/auth/${provider.name}`,
-        callbackUri: `${config.appUrl}/auth/${provider.name}/callback`,
-        scope:
-          provider.name === 'google'
-            ? ['profile', 'email']
-            : provider.name === 'github'
-              ? ['user:email', 'read:user']
-              : ['openid', 'profile', 'email'],
-      });
-
-      // Store reference to OAuth instance
-      fastify.oauth[provider.name] = (fastify as any)[`${provider.name}OAuth2`];
+      ])
+    );
+
+    await fastify.register(fastifyJwt, {
+      secret: {
+        private: currentKey.privateKey!.export({ type: 'pkcs8', format: 'pem' }).toString(),
+        public: pem(currentKey.publicKey),
+      },
+      sign: signOptions,
+      cookie: {
+        cookieName: ACCESS_TOKEN_COOKIE,
+        signed: false,
+      },
+    });
+
+    // Sign a token with the issuer, audience and key id of every token, and a unique jti.
+    // (Options given to fastify.jwt.sign replace the global sign options instead of extending them.)
+    fastify.decorate(
+      'signToken',
+      function (payload: Record<string, unknown>, options: { expiresIn?: number } = {}): string {
+        return fastify.jwt.sign({ ...payload, jti: randomUUID() }, { ...signOptions, ...options });
+      }
+    );
+
+    // Verify a token with the key its kid header names, so tokens signed before a key
+    // rotation stay valid while their key is still in the keyring
+    fastify.decorate('verifyToken', function <
+      T extends object = Record<string, any>,
+    >(token: string): T {
+      const kid = fastify.jwt.decode<{ header: { kid?: string } }>(token, { complete: true })
+        ?.header.kid;
+      const options = kid ? verifyOptions.get(kid) : undefined;
+      if (!options) {
+        throw new Error('Token is not signed with a known key');
+      }
+
+      return fastify.jwt.verify<T>(token, options);
+    });
+
+    // Initialize oauth object to store provider instances
+    fastify.decorate('oauth', {});
+
+    // Verify the state returned to a callback against the signed state cookie of this browser
+    fastify.decorate(
+      'readOAuthFlow',
+      function (request: FastifyRequest, provider: string): OAuthFlowState | null {
+        const { state } = request.query as { state?: string };
+        const cookie = request.cookies[OAUTH_STATE_COOKIE];
+        if (!state || state !== cookie) {
+          return null;
+        }
+
+        try {
+          const { oauthFlow } = fastify.verifyToken<{ oauthFlow: OAuthFlowState }>(state);
+          return oauthFlow?.provider === provider ? oauthFlow : null;
+        } catch {
+          return null;
+        }
+      }
+    );
+
+    // Build the authorization URL of a new flow: signed state cookie, PKCE verifier cookie
+    // and, for OpenID Connect providers, a nonce the ID token must echo
+    fastify.decorate(
+      'startOAuthFlow',
+      async function (
+        request: FastifyRequest,
+        reply: FastifyReply,
+        provider: string,
+        returnTo?: string
+      ): Promise<string> {
+        const flow = createOAuthFlowState(provider, returnTo);
+        pendingFlows.set(request, flow);
+
+        const url = new URL(await fastify.oauth[provider].generateAuthorizationUri(request, reply));
+        if (config.oauth.providers[provider]?.issuer) {
+          url.searchParams.set('nonce', flow.nonce);
+        }
+
+        return url.toString();
+      }
+    );
+
+    // Register OAuth providers dynamically
+    for (const provider of config.oauth.enabledProviders) {
+      const oauthConfig = oauthConfigurations[provider.name as keyof typeof oauthConfigurations];
+
+      // Generic OpenID Connect providers read their endpoints from the issuer's discovery document
+      if (oauthConfig || provider.issuer) {
+        await fastify.register(fastifyOAuth2, {
+          name: `${provider.name}OAuth2`,
+          credentials: {
+            client: {
+              id: provider.clientId,
+              secret: provider.clientSecret,
+            },
+            ...(oauthConfig && { auth: oauthConfig }),
+          },
+          ...(provider.issuer && { discovery: { issuer: provider.issuer } }),
+          callbackUri: `${config.appUrl}/auth/${provider.name}/callback`,
+          scope: provider.scopes,
+          pkce: 'S256',
+          redirectStateCookieName: OAUTH_STATE_COOKIE,
+          verifierCookieName: OAUTH_VERIFIER_COOKIE,
+          cookie: oauthStateCookieOptions,
+          generateStateFunction: (request: FastifyRequest) => {
+            const flow = pendingFlows.get(request);
+            if (!flow) {
+              throw new Error('OAuth flow must be started with startOAuthFlow');
+            }
+            return fastify.signToken({ oauthFlow: flow }, { expiresIn: OAUTH_STATE_TTL });
+          },
+          checkStateFunction: (request: FastifyRequest) =>
+            fastify.readOAuthFlow(request, provider.name) !== null,
+        });
+
+        // Store reference to OAuth instance
+        fastify.oauth[provider.name] = (fastify as any)[`${provider.name}OAuth2`];
+      }
     }
-  }
 
-  // Auth decorator for protected routes
-  fastify.decorate('authenticate', async function (request: FastifyRequest, reply: FastifyReply) {
-    try {
-      const decoded = (await request.jwtVerify()) as any;
+    // Sign an access token for a user. Tokens of a session carry its ID and active organization,
+    // and keep the scopes of the OAuth client the session was authorized for, if any.
+    fastify.decorate(
+      'signAccessToken',
+      async function (
+        user: Pick<User, 'id' | 'email' | 'role'>,
+        sessionId: string | null,
+        claims?: AccessTokenClaims
+      ): Promise<string> {
+        const session = sessionId
+          ? await Session.findByPk(sessionId, {
+              include: [{ model: OAuthClient, as: 'oauthClient' }],
+            })
+          : null;
+
+        return fastify.signToken(
+          {
+            sub: String(user.id),
+            userId: user.id,
+            email: user.email,
+            role: user.role,
+            ...(sessionId && { sid: sessionId, org: session?.activeOrganizationId ?? null }),
+            ...(session?.oauthClient && {
+              scope: (session.scopes ?? []).join(' '),
+              client_id: session.oauthClient.clientId,
+            }),
+            ...claims,
+          },
+          { expiresIn: config.jwt.accessTokenTtl }
+        );
+      }
+    );
+
+    // Sign an access token for a session and set its cookie
+    fastify.decorate(
+      'issueAccessToken',
+      async function (
+        reply: FastifyReply,
+        user: Pick<User, 'id' | 'email' | 'role'>,
+        sessionId: string
+      ): Promise<Omit<AuthTokens, 'refreshToken'>> {
+        const token = await fastify.signAccessToken(user, sessionId);
+
+        reply.setCookie(ACCESS_TOKEN_COOKIE, token, {
+          httpOnly: true,
+          secure: process.env.NODE_ENV === 'production',
+          sameSite: 'lax',
+          path: '/',
+          maxAge: config.jwt.accessTokenTtl,
+        });
+
+        return { token, expiresIn: config.jwt.accessTokenTtl };
+      }
+    );
+
+    // Sign an access token, issue (or reuse a rotated) refresh token and set both cookies.
+    // Without a rotated refresh token this is a new login and starts a new session.
+    fastify.decorate(
+      'issueAuthTokens',
+      async function (
+        reply: FastifyReply,
+        user: Pick<User, 'id' | 'email' | 'role'>,
+        refreshToken?: IssuedRefreshToken
+      ): Promise<AuthTokens> {
+        let issued = refreshToken;
+        if (!issued) {
+          const session = await createSession(user.id, {
+            userAgent: reply.request.headers['user-agent'],
+            ipAddress: reply.request.ip,
+          });
+          issued = await issueRefreshToken(user.id, session.id);
+        }
+
+        const { token } = await fastify.issueAccessToken(reply, user, issued.familyId);
+
+        reply.setCookie(REFRESH_TOKEN_COOKIE, issued.token, {
+          ...refreshTokenCookieOptions,
+          expires: issued.expiresAt,
+        });
+
+        return { token, refreshToken: issued.token, expiresIn: config.jwt.accessTokenTtl };
+      }
+    );
+
+    // Sign the challenge a login answers with when the user has a second factor, and set
+    // its cookie. It only identifies the user to POST /auth/2fa/verify, not to other routes.
+    fastify.decorate(
+      'issueTwoFactorChallenge',
+      function (reply: FastifyReply, user: Pick<User, 'id'>): string {
+        const challengeToken = fastify.signToken(
+          { twoFactorChallenge: user.id },
+          { expiresIn: config.twoFactor.challengeTtl }
+        );
+
+        reply.setCookie(TWO_FACTOR_CHALLENGE_COOKIE, challengeToken, {
+          ...refreshTokenCookieOptions,
+          maxAge: config.twoFactor.challengeTtl,
+        });
+
+        return challengeToken;
+      }
+    );
+
+    // Auth decorator for protected routes
+    fastify.decorate('authenticate', async function (request: FastifyRequest, reply: FastifyReply) {
+      // Machine clients: Authorization: ApiKey <key>
+      const [scheme, credentials] = (request.headers.authorization || '').split(' ');
+      if (scheme === 'ApiKey') {
+        const result = await verifyApiKey(credentials || '');
+        if (result.status !== 'valid') {
+          throw new UnauthorizedError('unauthorized');
+        }
+
+        const { apiKey, user } = result;
+        if (!apiKeyAllowsMethod(apiKey.scopes, request.method)) {
+          throw new ForbiddenError('apiKeyScopeDenied');
+        }
+
+        request.user = {
+          userId: user.id,
+          id: user.id,
+          email: user.email,
+          role: user.role,
+          apiKeyId: apiKey.id,
+        };
+        return;
+      }
+
+      let decoded: any;
+      try {
+        decoded = fastify.verifyToken<any>(fastify.jwt.lookupToken(request));
+      } catch {
+        throw new UnauthorizedError('unauthorized');
+      }
+
+      // Other tokens signed with the same key (invitations, 2FA challenges...) are not logins
+      if (!decoded.userId) {
+        throw new UnauthorizedError('unauthorized');
+      }
+
+      // Tokens bound to a session stop working as soon as the session is revoked
+      if (decoded.sid && !(await isSessionActive(decoded.sid))) {
+        throw new UnauthorizedError('unauthorized');
+      }
+
+      // Tokens issued to OAuth clients are limited to their scopes, and client credentials
+      // tokens (without a session) stop working when the client is revoked
+      if (decoded.client_id) {
+        if (!decoded.sid && !(await findActiveOAuthClient(decoded.client_id))) {
+          throw new UnauthorizedError('unauthorized');
+        }
+        if (!apiKeyAllowsMethod(String(decoded.scope ?? '').split(' '), request.method)) {
+          throw new ForbiddenError('oauthScopeDenied');
+        }
+      }
+
       request.user = {
         userId: decoded.userId,
         id: decoded.userId, // Alias for consistency
         email: decoded.email,
-        role: decoded.role || 'user',
+        role: decoded.role || DEFAULT_ROLE,
+        sessionId: decoded.sid,
+        organizationId: decoded.org ?? null,
+        ...(decoded.client_id && { oauthClientId: decoded.client_id }),
       };
-    } catch (err) {
-      reply.code(401).send({ error: 'Unauthorized' });
-    }
-  });
-});
+    });
+  },
+  { name: 'auth' }
+);
@@ -1,43 +1,224 @@
 import { FastifyPluginAsync, FastifyRequest, FastifyReply, FastifyInstance } from 'fastify';
 import fp from 'fastify-plugin';
-import { User, UserRole } from '../models/User.js';
+import { DEFAULT_ROLE, User, UserRole } from '../models/User.js';
+import type { Organization, OrganizationRole } from '../models/index.js';
+import { getRolePermissions, type RoleAssignment } from '../utils/roles.js';
+import { ORGANIZATION_MANAGER_ROLES, type MemberChange } from '../utils/organizations.js';
+import { ForbiddenError, UnauthorizedError, type ErrorMessageKey } from '../utils/errors.js';
+import { isTwoFactorRequired } from '../utils/twoFactor.js';
+
+// Loads the resource a route acts on (null when it does not exist)
+export type ResourceLoader = (request: FastifyRequest) => Promise<unknown> | unknown;
+
+export interface PolicyContext {
+  user: FastifyRequest['user'];
+  role: UserRole;
+  permissions: string[];
+  resource: unknown;
+}
+
+interface Policy {
+  // Without a rule, any authenticated user is allowed
+  allow?: (context: PolicyContext) => boolean;
+  // Error shown on denial (defaults to permissionDenied)
+  message?: ErrorMessageKey;
+}
 
 declare module 'fastify' {
   interface FastifyRequest {
     requireRole(role: UserRole | UserRole[]): Promise<void>;
+    requirePermission(...permissions: string[]): Promise<void>;
+    // Resource loaded by fastify.authorize, for handlers that need it
+    resource: unknown;
   }
   interface FastifyInstance {
     requireRole(
       role: UserRole | UserRole[]
     ): (request: FastifyRequest, reply: FastifyReply) => Promise<void>;
+    requirePermission(
+      ...permissions: string[]
+    ): (request: FastifyRequest, reply: FastifyReply) => Promise<void>;
+    authorize(
+      action: PolicyAction,
+      loadResource?: ResourceLoader
+    ): (request: FastifyRequest, reply: FastifyReply) => Promise<void>;
   }
 }
 
+const can =
+  (permission: string) =>
+  ({ permissions }: PolicyContext) =>
+    permissions.includes(permission);
+
+const isSelf = ({ user, resource }: PolicyContext) => (resource as User | null)?.id === user.id;
+
+// Organizations are loaded with the current user's membership only
+const organizationRole = ({ resource }: PolicyContext): OrganizationRole | undefined =>
+  (resource as Organization | null)?.memberships?.[0]?.role;
+
+const isOrganizationManager = (role: OrganizationRole | undefined) =>
+  !!role && ORGANIZATION_MANAGER_ROLES.includes(role);
+
+// Managers can change members, but only owners can grant, change or remove ownership
+const canChangeMember = ({ resource }: PolicyContext) => {
+  const change = resource as MemberChange | null;
+  if (!change || !isOrganizationManager(change.actorRole)) {
+    return false;
+  }
+  const involvesOwner = change.targetRole === 'owner' || change.requestedRole === 'owner';
+  return !involvesOwner || change.actorRole === 'owner';
+};
+
+// Roles are only given or taken away by someone who holds every permission involved, and
+// never by the user whose role it is
+const canAssignRole = ({ user, permissions, resource }: PolicyContext) => {
+  const assignment = resource as RoleAssignment | null;
+  if (!assignment || assignment.id === user.id) {
+    return false;
+  }
+  return [...assignment.requestedPermissions, ...assignment.currentPermissions].every(
+    (permission) => permissions.includes(permission)
+  );
+};
+
+/**
+ * Central access policy: every user and admin route declares one of these actions
+ */
+const policies = {
+  // Any signed-in user can list and view users; the routes limit which ones they see
+  'users.list': {},
+  'users.read': {},
+  // Creating a user with a role other than the default counts as assigning a role
+  'users.create': {
+    allow: (context) => {
+      const { role } = (context.resource as RoleAssignment | null) ?? {};
+      return (
+        !role || role === DEFAULT_ROLE || (can('users:write')(context) && canAssignRole(context))
+      );
+    },
+    message: 'cannotAssignRole',
+  },
+  'users.update': {
+    allow: (context) => isSelf(context) || can('users:write')(context),
+    message: 'cannotUpdateUser',
+  },
+  'users.delete': {
+    allow: (context) => isSelf(context) || can('users:delete')(context),
+    message: 'cannotDeleteUser',
+  },
+  // Organization members see their organization, managers (owner, admin) manage it
+  'organizations.read': {
+    allow: (context) => !!organizationRole(context) || can('organizations:read')(context),
+    message: 'notOrganizationMember',
+  },
+  'organizations.update': {
+    allow: (context) =>
+      isOrganizationManager(organizationRole(context)) || can('organizations:write')(context),
+  },
+  'organizations.delete': {
+    allow: (context) =>
+      organizationRole(context) === 'owner' || can('organizations:write')(context),
+  },
+  'organizations.invitations.manage': {
+    allow: (context) =>
+      isOrganizationManager(organizationRole(context)) || can('organizations:write')(context),
+  },
+  'organizations.members.change': {
+    allow: (context) => canChangeMember(context) || can('organizations:write')(context),
+  },
+  'admin.users.list': { allow: can('users:read') },
+  'admin.users.assignRole': {
+    allow: (context) => can('users:write')(context) && canAssignRole(context),
+    message: 'cannotAssignRole',
+  },
+  'admin.users.delete': { allow: can('users:delete') },
+  'admin.users.restore': { allow: can('users:delete') },
+  'admin.roles.read': { allow: can('roles:read') },
+  'admin.roles.write': { allow: can('roles:write') },
+  'invitations.create': {
+    allow: (context) => can('users:write')(context) && canAssignRole(context),
+    message: 'cannotAssignRole',
+  },
+  'invitations.manage': { allow: can('users:write') },
+  'admin.organizations.list': { allow: can('organizations:read') },
+  'admin.audit.read': { allow: can('audit:read') },
+  'admin.oauthClients.manage': { allow: can('oauth-clients:write') },
+} satisfies Record<string, Policy>;
+
+export type PolicyAction = keyof typeof policies;
+
+/**
+ * Log an access denial with the same fields wherever it happens
+ */
+const logDenial = (
+  request: FastifyRequest,
+  role: UserRole,
+  details: { action?: PolicyAction; required?: string[]; resourceId?: unknown }
+) => {
+  request.log.warn(
+    { userId: request.user.id, role, method: request.method, url: request.url, ...details },
+    'Access denied'
+  );
+};
+
+/**
+ * Refuse users who must use two-factor authentication but have not enrolled yet
+ */
+const refuseWithoutTwoFactor = (request: FastifyRequest, user: User) => {
+  if (!isTwoFactorRequired(user) || user.totpEnabledAt) {
+    return;
+  }
+
+  logDenial(request, user.role, { required: ['two-factor authentication'] });
+  throw new ForbiddenError('twoFactorSetupRequired');
+};
+
 const rbacPlugin: FastifyPluginAsync = async (fastify: FastifyInstance) => {
   // Add requireRole helper to request object
   // Initialize with a no-op function that will be replaced in the hook
   fastify.decorateRequest('requireRole', async () => {});
+  fastify.decorateRequest('requirePermission', async () => {});
+  fastify.decorateRequest('resource', null);
 
   fastify.addHook('onRequest', async (request: FastifyRequest, reply: FastifyReply) => {
     request.requireRole = async (role: UserRole | UserRole[]) => {
       // Check if user is authenticated
       if (!request.user) {
-        return reply.code(401).send({ error: 'Authentication required', statusCode: 401 });
+        throw new UnauthorizedError('authenticationRequired');
       }
 
       // Get user from database to ensure we have latest role
       const user = await User.findByPk(request.user.id);
       if (!user) {
-        return reply.code(401).send({ error: 'User not found', statusCode: 401 });
+        throw new UnauthorizedError('userNotFound');
       }
+      refuseWithoutTwoFactor(request, user);
 
       // Check if user has required role
       const requiredRoles = Array.isArray(role) ? role : [role];
       if (!requiredRoles.includes(user.role)) {
-        return reply.code(403).send({
-          error: `Access denied. Required role: ${requiredRoles.join(' or ')}`,
-          statusCode: 403,
-        });
+        logDenial(request, user.role, { required: requiredRoles });
+        throw new ForbiddenError('roleRequired', { roles: requiredRoles.join(' or ') });
+      }
+    };
+
+    request.requirePermission = async (...permissions: string[]) => {
+      if (!request.user) {
+        throw new UnauthorizedError('authenticationRequired');
+      }
+
+      // Resolve the role from the database so role and permission changes apply immediately
+      const user = await User.findByPk(request.user.id);
+      if (!user) {
+        throw new UnauthorizedError('userNotFound');
+      }
+      refuseWithoutTwoFactor(request, user);
+
+      // Every listed permission is required
+      const granted = await getRolePermissions(user.role);
+      if (!permissions.every((permission) => granted.includes(permission))) {
+        logDenial(request, user.role, { required: permissions });
+        throw new ForbiddenError('permissionDenied');
       }
     };
   });
@@ -48,9 +229,55 @@ const rbacPlugin: FastifyPluginAsync = async (fastify: FastifyInstance) => {
       await request.requireRole(role);
     };
   });
+
+  // Add permission checking decorator for routes
+  fastify.decorate('requirePermission', (...permissions: string[]) => {
+    return async (request: FastifyRequest, reply: FastifyReply) => {
+      await request.requirePermission(...permissions);
+    };
+  });
+
+  // Add policy decorator for routes (use as a preHandler so the body is available to loaders)
+  fastify.decorate('authorize', (action: PolicyAction, loadResource?: ResourceLoader) => {
+    const policy: Policy = policies[action];
+
+    return async (request: FastifyRequest, reply: FastifyReply) => {
+      if (!request.user) {
+        throw new UnauthorizedError('authenticationRequired');
+      }
+
+      if (!policy.allow) {
+        return;
+      }
+
+      const user = await User.findByPk(request.user.id);
+      if (!user) {
+        throw new UnauthorizedError('userNotFound');
+      }
+      refuseWithoutTwoFactor(request, user);
+
+      // A missing resource is still checked, so non-owners cannot probe which ids exist
+      request.resource = loadResource ? ((await loadResource(request)) ?? null) : null;
+
+      const allowed = policy.allow({
+        user: request.user,
+        role: user.role,
+        permissions: await getRolePermissions(user.role),
+        resource: request.resource,
+      });
+
+      if (!allowed) {
+        logDenial(request, user.role, {
+          action,
+          resourceId: (request.resource as { id?: unknown } | null)?.id,
+        });
+        throw new ForbiddenError(policy.message ?? 'permissionDenied');
+      }
+    };
+  });
 };
 
 export default fp(rbacPlugin, {
   name: 'rbac',
-  dependencies: ['jwt'],
+  dependencies: ['auth'],
 });
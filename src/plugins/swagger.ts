@@ -27,12 +27,25 @@ export default fp(async (fastify: FastifyInstance) => {
             bearerFormat: 'JWT',
             description: 'JWT token obtained from /auth/google or /auth/dev/token',
           },
+          apiKeyAuth: {
+            type: 'apiKey',
+            in: 'header',
+            name: 'Authorization',
+            description:
+              'API key created with POST /api/users/me/api-keys, sent as "Authorization: ApiKey <key>"',
+          },
         },
       },
       tags: [
         { name: 'Health', description: 'Health check endpoints' },
         { name: 'Authentication', description: 'Google OAuth and JWT authentication' },
         { name: 'Users', description: 'User CRUD operations (requires authentication)' },
+        { name: 'API Keys', description: 'API keys for scripts and CI jobs' },
+        { name: 'Admin', description: 'User and role administration (requires permissions)' },
+        { name: 'Organizations', description: 'Organizations, memberships and invitations' },
+        { name: 'Invitations', description: 'Email invitations to create an account' },
+        { name: 'OAuth', description: 'OAuth2 authorization server for registered clients' },
+        { name: 'Development', description: 'Development-only helpers' },
       ],
     },
   });
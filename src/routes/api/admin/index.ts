@@ -1,41 +1,70 @@
 import { FastifyPluginAsync } from 'fastify';
-import { User } from '../../../models/User.js';
-import { userSchema, usersArraySchema, errorSchema } from '../../../schemas/common.js';
+import { User, UserRole } from '../../../models/User.js';
+import { getMessages } from '../../../i18n/messages.js';
+import { describeRoleAssignment, roleExists } from '../../../utils/roles.js';
+import { BadRequestError, ConflictError, NotFoundError } from '../../../utils/errors.js';
+import { listUsers, type UserListQuery } from '../../../utils/userListing.js';
+import { deleteUser, restoreUser } from '../../../utils/userRetention.js';
+import { recordAuditEvent } from '../../../utils/audit.js';
+import {
+  userSchema,
+  adminUserListQuerystringSchema,
+  userPageSchema,
+  errorSchema,
+  successSchema,
+} from '../../../schemas/common.js';
 
 export const adminRoutes: FastifyPluginAsync = async (fastify) => {
-  // Get all users (admin only)
-  fastify.get(
+  // Get all users
+  fastify.get<{ Querystring: UserListQuery }>(
     '/',
     {
-      onRequest: [fastify.authenticate, fastify.requireRole('admin')],
+      onRequest: fastify.authenticate,
+      preHandler: fastify.authorize('admin.users.list'),
       schema: {
         tags: ['Admin'],
-        description: 'Get all users (admin only)',
+        description:
+          'List users a page at a time (requires users:read). Follow nextCursor, or pass offset for numbered pages. includeDeleted also lists deleted users that can still be restored.',
         security: [{ bearerAuth: [] }],
+        querystring: adminUserListQuerystringSchema,
         response: {
-          200: usersArraySchema,
+          200: userPageSchema,
+          400: errorSchema,
           401: errorSchema,
           403: errorSchema,
         },
       },
     },
     async (request, reply) => {
-      const users = await User.findAll({
+      if (request.query.cursor && request.query.offset !== undefined) {
+        throw new BadRequestError('cursorWithOffset');
+      }
+
+      const page = await listUsers(request.query, {
         attributes: { exclude: ['oauthAccessToken', 'oauthRefreshToken'] },
-        order: [['createdAt', 'DESC']],
       });
-      return users;
+      if (!page) {
+        throw new BadRequestError('invalidCursor');
+      }
+      return page;
     }
   );
 
-  // Update user role (admin only)
+  // Update user role
   fastify.patch(
     '/:id/role',
     {
-      onRequest: [fastify.authenticate, fastify.requireRole('admin')],
+      onRequest: fastify.authenticate,
+      preHandler: fastify.authorize('admin.users.assignRole', (request) =>
+        describeRoleAssignment(
+          (request.body as { role: UserRole }).role,
+          (request.params as { id: number }).id
+        )
+      ),
       schema: {
         tags: ['Admin'],
-        description: 'Update user role (admin only)',
+        description:
+          'Assign a role to another user (requires users:write and every permission of both the current and the new role)',
         security: [{ bearerAuth: [] }],
         params: {
           type: 'object',
@@ -47,12 +76,13 @@ export const adminRoutes: FastifyPluginAsync = async (fastify) => {
         body: {
           type: 'object',
           properties: {
-            role: { type: 'string', enum: ['user', 'admin'] },
+            role: { type: 'string', minLength: 1 },
           },
           required: ['role'],
         },
         response: {
           200: userSchema,
+          400: errorSchema,
           401: errorSchema,
           403: errorSchema,
           404: errorSchema,
@@ -61,28 +91,43 @@ export const adminRoutes: FastifyPluginAsync = async (fastify) => {
     },
     async (request, reply) => {
       const { id } = request.params as { id: number };
-      const { role } = request.body as { role: 'user' | 'admin' };
+      const { role } = request.body as { role: UserRole };
+
+      if (!(await roleExists(role))) {
+        throw new BadRequestError('roleNotFound');
+      }
 
       const user = await User.findByPk(id);
       if (!user) {
-        return reply.code(404).send({ error: 'User not found', statusCode: 404 });
+        throw new NotFoundError('userNotFound');
       }
 
+      const previousRole = user.role;
       user.role = role;
       await user.save();
 
+      await recordAuditEvent(request, {
+        action: 'user.role_changed',
+        targetType: 'user',
+        targetId: user.id,
+        before: { role: previousRole },
+        after: { role },
+      });
+
       return user;
     }
   );
 
-  // Delete user (admin only)
+  // Delete user
   fastify.delete(
     '/:id',
     {
-      onRequest: [fastify.authenticate, fastify.requireRole('admin')],
+      onRequest: fastify.authenticate,
+      preHandler: fastify.authorize('admin.users.delete'),
       schema: {
         tags: ['Admin'],
-        description: 'Delete a user (admin only)',
+        description:
+          'Delete a user (requires users:delete). It can be restored until USER_RETENTION_DAYS have passed.',
         security: [{ bearerAuth: [] }],
         params: {
           type: 'object',
@@ -92,12 +137,7 @@ export const adminRoutes: FastifyPluginAsync = async (fastify) => {
           required: ['id'],
         },
         response: {
-          200: {
-            type: 'object',
-            properties: {
-              message: { type: 'string' },
-            },
-          },
+          200: successSchema,
           400: errorSchema,
           401: errorSchema,
           403: errorSchema,
@@ -106,21 +146,76 @@ export const adminRoutes: FastifyPluginAsync = async (fastify) => {
       },
     },
     async (request, reply) => {
+      const messages = getMessages(request.locale);
       const { id } = request.params as { id: number };
 
       // Prevent self-deletion
       if (request.user.id === id) {
-        return reply.code(400).send({ error: 'Cannot delete your own account', statusCode: 400 });
+        throw new BadRequestError('cannotDeleteSelf');
       }
 
-      const user = await User.findByPk(id);
+      const user = await deleteUser(id);
       if (!user) {
-        return reply.code(404).send({ error: 'User not found', statusCode: 404 });
+        throw new NotFoundError('userNotFound');
+      }
+
+      await recordAuditEvent(request, {
+        action: 'user.deleted',
+        targetType: 'user',
+        targetId: id,
+        before: { email: user.email, role: user.role },
+      });
+
+      return reply.send({ success: true, message: messages.success.userDeleted });
+    }
+  );
+
+  // Restore a deleted user
+  fastify.post(
+    '/:id/restore',
+    {
+      onRequest: fastify.authenticate,
+      preHandler: fastify.authorize('admin.users.restore'),
+      schema: {
+        tags: ['Admin'],
+        description:
+          'Restore a deleted user before the retention purge removes it (requires users:delete)',
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: 'object',
+          properties: {
+            id: { type: 'number' },
+          },
+          required: ['id'],
+        },
+        response: {
+          200: userSchema,
+          401: errorSchema,
+          403: errorSchema,
+          404: errorSchema,
+          409: errorSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const { id } = request.params as { id: number };
+
+      const result = await restoreUser(id);
+      if (result.status === 'not_found') {
+        throw new NotFoundError('deletedUserNotFound');
+      }
+      if (result.status === 'email_taken') {
+        throw new ConflictError('userAlreadyExists');
       }
 
-      await user.destroy();
+      await recordAuditEvent(request, {
+        action: 'user.restored',
+        targetType: 'user',
+        targetId: id,
+        after: { email: result.user.email, role: result.user.role },
+      });
 
-      return { message: 'User deleted successfully' };
+      return result.user;
     }
   );
 };
@@ -0,0 +1,168 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { getMessages } from '../../../i18n/messages.js';
+import { ForbiddenError, NotFoundError } from '../../../utils/errors.js';
+import { apiKeySchema, errorSchema, successSchema } from '../../../schemas/common.js';
+import {
+  API_KEY_SCOPES,
+  createApiKey,
+  listApiKeys,
+  revokeApiKey,
+  type ApiKeyScope,
+} from '../../../utils/apiKeys.js';
+import { recordAuditEvent } from '../../../utils/audit.js';
+import type { ApiKey } from '../../../models/index.js';
+
+interface CreateApiKeyBody {
+  name: string;
+  scopes?: ApiKeyScope[];
+  expiresInDays?: number;
+}
+
+interface ApiKeyParams {
+  id: number;
+}
+
+const toApiKeyResponse = (apiKey: ApiKey) => ({
+  id: apiKey.id,
+  name: apiKey.name,
+  prefix: apiKey.prefix,
+  scopes: apiKey.scopes,
+  expiresAt: apiKey.expiresAt ?? null,
+  lastUsedAt: apiKey.lastUsedAt ?? null,
+  createdAt: apiKey.createdAt,
+});
+
+export const apiKeyRoutes = async (fastify: FastifyInstance) => {
+  fastify.addHook('onRequest', fastify.authenticate);
+
+  // Keys are managed from a signed-in session only, so a leaked key or token cannot mint new ones
+  fastify.addHook('onRequest', async (request: FastifyRequest, reply: FastifyReply) => {
+    if (request.user?.apiKeyId || request.user?.oauthClientId) {
+      throw new ForbiddenError('apiKeyRequiresSession');
+    }
+  });
+
+  // Create a key (the plain key is only returned here)
+  fastify.post<{ Body: CreateApiKeyBody }>(
+    '/',
+    {
+      schema: {
+        tags: ['API Keys'],
+        description:
+          'Create an API key for the current user. The key is only shown in this response; send it as "Authorization: ApiKey <key>".',
+        security: [{ bearerAuth: [] }],
+        body: {
+          type: 'object',
+          required: ['name'],
+          properties: {
+            name: { type: 'string', minLength: 1, maxLength: 100 },
+            scopes: {
+              type: 'array',
+              items: { type: 'string', enum: [...API_KEY_SCOPES] },
+              minItems: 1,
+              default: ['read'],
+            },
+            expiresInDays: { type: 'integer', minimum: 1, maximum: 365 },
+          },
+        },
+        response: {
+          201: {
+            type: 'object',
+            properties: {
+              apiKey: apiKeySchema,
+              key: { type: 'string' },
+            },
+          },
+          401: errorSchema,
+          403: errorSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Body: CreateApiKeyBody }>, reply: FastifyReply) => {
+      const { name, scopes = ['read'], expiresInDays } = request.body;
+
+      const { apiKey, key } = await createApiKey(request.user.id, {
+        name,
+        scopes,
+        expiresAt: expiresInDays ? new Date(Date.now() + expiresInDays * 86400 * 1000) : null,
+      });
+
+      await recordAuditEvent(request, {
+        action: 'api_key.created',
+        targetType: 'api_key',
+        targetId: apiKey.id,
+        after: { name, scopes },
+      });
+
+      return reply.code(201).send({ apiKey: toApiKeyResponse(apiKey), key });
+    }
+  );
+
+  // List keys
+  fastify.get(
+    '/',
+    {
+      schema: {
+        tags: ['API Keys'],
+        description: "List the current user's API keys with their last use",
+        security: [{ bearerAuth: [] }],
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              apiKeys: { type: 'array', items: apiKeySchema },
+            },
+          },
+          401: errorSchema,
+          403: errorSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const apiKeys = await listApiKeys(request.user.id);
+
+      return reply.send({ apiKeys: apiKeys.map(toApiKeyResponse) });
+    }
+  );
+
+  // Revoke a key
+  fastify.delete<{ Params: ApiKeyParams }>(
+    '/:id',
+    {
+      schema: {
+        tags: ['API Keys'],
+        description: "Revoke one of the current user's API keys",
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: 'object',
+          properties: {
+            id: { type: 'integer' },
+          },
+          required: ['id'],
+        },
+        response: {
+          200: successSchema,
+          401: errorSchema,
+          403: errorSchema,
+          404: errorSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Params: ApiKeyParams }>, reply: FastifyReply) => {
+      const messages = getMessages(request.locale);
+
+      const revoked = await revokeApiKey(request.user.id, request.params.id);
+      if (!revoked) {
+        throw new NotFoundError('apiKeyNotFound');
+      }
+
+      await recordAuditEvent(request, {
+        action: 'api_key.revoked',
+        targetType: 'api_key',
+        targetId: request.params.id,
+      });
+
+      return reply.send({ success: true, message: messages.success.apiKeyRevoked });
+    }
+  );
+};
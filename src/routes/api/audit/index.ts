@@ -0,0 +1,93 @@
+import { Readable } from 'stream';
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { BadRequestError } from '../../../utils/errors.js';
+import { auditEventSchema, auditQuerystringSchema, errorSchema } from '../../../schemas/common.js';
+import {
+  exportAuditEvents,
+  listAuditEvents,
+  recordAuditEvent,
+  type AuditQuery,
+} from '../../../utils/audit.js';
+
+// Export filters are the listing filters without the page
+const exportQuerystringSchema = {
+  ...auditQuerystringSchema,
+  properties: Object.fromEntries(
+    Object.entries(auditQuerystringSchema.properties).filter(
+      ([name]) => name !== 'limit' && name !== 'cursor'
+    )
+  ),
+};
+
+// Query and export the audit log
+export const auditRoutes = async (fastify: FastifyInstance) => {
+  fastify.addHook('onRequest', fastify.authenticate);
+
+  fastify.get<{ Querystring: AuditQuery }>(
+    '/',
+    {
+      preHandler: fastify.authorize('admin.audit.read'),
+      schema: {
+        tags: ['Admin'],
+        description:
+          'List audit events, newest first (requires audit:read). Filter by actor, action, target or date and follow nextCursor for the next page.',
+        security: [{ bearerAuth: [] }],
+        querystring: auditQuerystringSchema,
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              events: { type: 'array', items: auditEventSchema },
+              nextCursor: { type: ['string', 'null'] },
+              total: { type: 'number' },
+            },
+          },
+          400: errorSchema,
+          401: errorSchema,
+          403: errorSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Querystring: AuditQuery }>, reply: FastifyReply) => {
+      const page = await listAuditEvents(request.query);
+      if (!page) {
+        throw new BadRequestError('invalidCursor');
+      }
+
+      return reply.send(page);
+    }
+  );
+
+  fastify.get<{ Querystring: AuditQuery }>(
+    '/export',
+    {
+      preHandler: fastify.authorize('admin.audit.read'),
+      schema: {
+        tags: ['Admin'],
+        description:
+          'Export every audit event matching the filters as NDJSON, one event per line (requires audit:read)',
+        security: [{ bearerAuth: [] }],
+        querystring: exportQuerystringSchema,
+        produces: ['application/x-ndjson'],
+        response: {
+          401: errorSchema,
+          403: errorSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Querystring: AuditQuery }>, reply: FastifyReply) => {
+      await recordAuditEvent(request, { action: 'audit.exported', metadata: { ...request.query } });
+
+      const lines = async function* () {
+        for await (const event of exportAuditEvents(request.query)) {
+          yield `${JSON.stringify(event)}\n`;
+        }
+      };
+
+      return reply
+        .type('application/x-ndjson')
+        .header('content-disposition', 'attachment; filename="audit-events.ndjson"')
+        .send(Readable.from(lines()));
+    }
+  );
+};
@@ -0,0 +1,330 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { getMessages, type Locale } from '../../../i18n/messages.js';
+import { BadRequestError, ConflictError, NotFoundError } from '../../../utils/errors.js';
+import {
+  errorSchema,
+  successSchema,
+  tokenResponseSchema,
+  userInvitationSchema,
+} from '../../../schemas/common.js';
+import { config } from '../../../config/index.js';
+import { User, type UserInvitation } from '../../../models/index.js';
+import type { UserRole } from '../../../models/User.js';
+import { describeRoleAssignment, roleExists } from '../../../utils/roles.js';
+import { recordAuditEvent } from '../../../utils/audit.js';
+import {
+  acceptUserInvitation,
+  createUserInvitation,
+  findPendingUserInvitation,
+  listPendingUserInvitations,
+  revokeUserInvitation,
+  sendUserInvitationEmail,
+  type FindUserInvitationResult,
+} from '../../../utils/userInvitations.js';
+
+interface CreateInvitationBody {
+  email: string;
+  name?: string;
+  role?: UserRole;
+  locale?: Locale;
+}
+
+interface TokenParams {
+  token: string;
+}
+
+const tokenParamsSchema = {
+  type: 'object',
+  properties: {
+    token: { type: 'string', minLength: 1 },
+  },
+  required: ['token'],
+} as const;
+
+const toInvitationResponse = (invitation: UserInvitation) => ({
+  id: invitation.id,
+  email: invitation.email,
+  name: invitation.name ?? null,
+  role: invitation.role,
+  invitedById: invitation.invitedById ?? null,
+  expiresAt: invitation.expiresAt,
+  createdAt: invitation.createdAt,
+});
+
+export const invitationRoutes = async (fastify: FastifyInstance) => {
+  // Resolve an emailed token to its invitation. The token is a signed JWT naming the invitation.
+  const resolveToken = async (token: string): Promise<FindUserInvitationResult> => {
+    let userInvitation: number | undefined;
+    try {
+      ({ userInvitation } = fastify.verifyToken<{ userInvitation?: number }>(token));
+    } catch (error) {
+      return (error as { code?: string }).code === 'FAST_JWT_EXPIRED'
+        ? { status: 'expired' }
+        : { status: 'invalid' };
+    }
+
+    return userInvitation ? findPendingUserInvitation(userInvitation) : { status: 'invalid' };
+  };
+
+  // Invite someone to create an account
+  fastify.post<{ Body: CreateInvitationBody }>(
+    '/',
+    {
+      onRequest: fastify.authenticate,
+      preHandler: fastify.authorize('invitations.create', (request) =>
+        describeRoleAssignment((request.body as CreateInvitationBody).role)
+      ),
+      schema: {
+        tags: ['Invitations'],
+        description:
+          'Invite an email address to create an account with a pre-assigned role (requires users:write and every permission of that role). The link is emailed in the given locale.',
+        security: [{ bearerAuth: [] }],
+        body: {
+          type: 'object',
+          required: ['email'],
+          properties: {
+            email: { type: 'string', format: 'email' },
+            name: { type: 'string', minLength: 1, maxLength: 255 },
+            role: { type: 'string', minLength: 1 },
+            locale: { type: 'string', enum: ['en', 'es', 'fr'] },
+          },
+        },
+        response: {
+          201: {
+            type: 'object',
+            properties: {
+              invitation: userInvitationSchema,
+              emailSent: { type: 'boolean' },
+            },
+          },
+          400: errorSchema,
+          401: errorSchema,
+          403: errorSchema,
+          409: errorSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Body: CreateInvitationBody }>, reply: FastifyReply) => {
+      const locale = request.locale;
+      const { email, name, role, locale: emailLocale = locale } = request.body;
+
+      if (role && !(await roleExists(role))) {
+        throw new BadRequestError('roleNotFound');
+      }
+
+      const result = await createUserInvitation({
+        email,
+        name,
+        role,
+        invitedById: request.user.id,
+      });
+      if (result.status === 'user_exists') {
+        throw new ConflictError('userAlreadyExists');
+      }
+
+      const { invitation } = result;
+      await recordAuditEvent(request, {
+        action: 'invitation.created',
+        targetType: 'invitation',
+        targetId: invitation.id,
+        after: { email: invitation.email, role: invitation.role },
+      });
+
+      const token = fastify.signToken(
+        { userInvitation: invitation.id },
+        { expiresIn: config.invitations.ttl }
+      );
+
+      // Failed deliveries are retried in the background; inviting the address again resends it
+      const inviter = await User.findByPk(request.user.id, { attributes: ['name'] });
+      const emailSent = await sendUserInvitationEmail(invitation, {
+        token,
+        inviterName: inviter?.name ?? request.user.email,
+        locale: emailLocale,
+      });
+
+      return reply.code(201).send({ invitation: toInvitationResponse(invitation), emailSent });
+    }
+  );
+
+  // List pending invitations
+  fastify.get(
+    '/',
+    {
+      onRequest: fastify.authenticate,
+      preHandler: fastify.authorize('invitations.manage'),
+      schema: {
+        tags: ['Invitations'],
+        description: 'List invitations that have not been accepted, revoked or expired',
+        security: [{ bearerAuth: [] }],
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              invitations: { type: 'array', items: userInvitationSchema },
+            },
+          },
+          401: errorSchema,
+          403: errorSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const invitations = await listPendingUserInvitations();
+
+      return reply.send({ invitations: invitations.map(toInvitationResponse) });
+    }
+  );
+
+  // Revoke an invitation
+  fastify.delete<{ Params: { id: number } }>(
+    '/:id',
+    {
+      onRequest: fastify.authenticate,
+      preHandler: fastify.authorize('invitations.manage'),
+      schema: {
+        tags: ['Invitations'],
+        description: 'Revoke a pending invitation so its link stops working',
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: 'object',
+          properties: {
+            id: { type: 'integer' },
+          },
+          required: ['id'],
+        },
+        response: {
+          200: successSchema,
+          401: errorSchema,
+          403: errorSchema,
+          404: errorSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Params: { id: number } }>, reply: FastifyReply) => {
+      const messages = getMessages(request.locale);
+
+      const revoked = await revokeUserInvitation(request.params.id);
+      if (!revoked) {
+        throw new NotFoundError('invitationNotFound');
+      }
+
+      await recordAuditEvent(request, {
+        action: 'invitation.revoked',
+        targetType: 'invitation',
+        targetId: request.params.id,
+      });
+
+      return reply.send({ success: true, message: messages.success.invitationRevoked });
+    }
+  );
+
+  // Preview an invitation (public, for the accept page)
+  fastify.get<{ Params: TokenParams }>(
+    '/:token',
+    {
+      schema: {
+        tags: ['Invitations'],
+        description: 'Show who an invitation is for and the role it grants, from its emailed token',
+        params: tokenParamsSchema,
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              email: { type: 'string', format: 'email' },
+              name: { type: ['string', 'null'] },
+              role: { type: 'string' },
+              invitedBy: { type: ['string', 'null'] },
+              expiresAt: { type: 'string', format: 'date-time' },
+            },
+          },
+          400: errorSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Params: TokenParams }>, reply: FastifyReply) => {
+      const result = await resolveToken(request.params.token);
+      if (result.status === 'expired') {
+        throw new BadRequestError('invitationExpired');
+      }
+      if (result.status === 'invalid') {
+        throw new BadRequestError('invitationInvalid');
+      }
+
+      const { invitation } = result;
+      return reply.send({
+        email: invitation.email,
+        name: invitation.name ?? null,
+        role: invitation.role,
+        invitedBy: invitation.invitedBy?.name ?? null,
+        expiresAt: invitation.expiresAt,
+      });
+    }
+  );
+
+  // Accept an invitation: creates the account and signs it in
+  fastify.post<{ Params: TokenParams; Body: { name?: string } }>(
+    '/:token/accept',
+    {
+      schema: {
+        tags: ['Invitations'],
+        description:
+          'Create the invited account with its pre-assigned role and sign it in. Returns the same tokens as a login.',
+        params: tokenParamsSchema,
+        body: {
+          type: 'object',
+          nullable: true,
+          properties: {
+            name: { type: 'string', minLength: 1, maxLength: 255 },
+          },
+        },
+        response: {
+          201: tokenResponseSchema,
+          400: errorSchema,
+          409: errorSchema,
+        },
+      },
+    },
+    async (
+      request: FastifyRequest<{ Params: TokenParams; Body: { name?: string } }>,
+      reply: FastifyReply
+    ) => {
+      const found = await resolveToken(request.params.token);
+      if (found.status === 'expired') {
+        throw new BadRequestError('invitationExpired');
+      }
+      if (found.status === 'invalid') {
+        throw new BadRequestError('invitationInvalid');
+      }
+
+      const result = await acceptUserInvitation(found.invitation, request.body?.name);
+      if (result.status === 'invalid') {
+        throw new BadRequestError('invitationInvalid');
+      }
+      if (result.status === 'user_exists') {
+        throw new ConflictError('userAlreadyExists');
+      }
+
+      const { user } = result;
+      await recordAuditEvent(request, {
+        action: 'invitation.accepted',
+        actorId: user.id,
+        targetType: 'invitation',
+        targetId: found.invitation.id,
+        metadata: { userId: user.id, role: user.role },
+      });
+
+      const tokens = await fastify.issueAuthTokens(reply, user);
+
+      return reply.code(201).send({
+        ...tokens,
+        user: {
+          id: user.id,
+          name: user.name,
+          email: user.email,
+          role: user.role,
+        },
+      });
+    }
+  );
+};
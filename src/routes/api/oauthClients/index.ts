@@ -0,0 +1,202 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { getMessages } from '../../../i18n/messages.js';
+import { BadRequestError, NotFoundError } from '../../../utils/errors.js';
+import { errorSchema, oauthClientSchema, successSchema } from '../../../schemas/common.js';
+import {
+  OAUTH_GRANT_TYPES,
+  OAUTH_SCOPES,
+  createOAuthClient,
+  listOAuthClients,
+  revokeOAuthClient,
+} from '../../../utils/oauthServer.js';
+import { recordAuditEvent } from '../../../utils/audit.js';
+import { User, type OAuthClient } from '../../../models/index.js';
+import type { OAuthGrantType } from '../../../models/OAuthClient.js';
+
+interface CreateOAuthClientBody {
+  name: string;
+  redirectUris?: string[];
+  grantTypes: OAuthGrantType[];
+  scopes?: string[];
+  confidential?: boolean;
+  firstParty?: boolean;
+  userId?: number;
+}
+
+const toOAuthClientResponse = (client: OAuthClient) => ({
+  id: client.id,
+  clientId: client.clientId,
+  name: client.name,
+  redirectUris: client.redirectUris,
+  grantTypes: client.grantTypes,
+  scopes: client.scopes,
+  confidential: client.confidential,
+  firstParty: client.firstParty,
+  userId: client.userId ?? null,
+  createdAt: client.createdAt,
+});
+
+// Registration of the apps that get tokens from /oauth/token
+export const oauthClientRoutes = async (fastify: FastifyInstance) => {
+  // Register a client (its secret is only returned here)
+  fastify.post<{ Body: CreateOAuthClientBody }>(
+    '/',
+    {
+      onRequest: fastify.authenticate,
+      preHandler: fastify.authorize('admin.oauthClients.manage'),
+      schema: {
+        tags: ['Admin'],
+        description:
+          'Register an OAuth client (requires oauth-clients:write). Confidential clients get a secret, only shown in this response. The client credentials grant needs a confidential client and the user it acts as.',
+        security: [{ bearerAuth: [] }],
+        body: {
+          type: 'object',
+          required: ['name', 'grantTypes'],
+          properties: {
+            name: { type: 'string', minLength: 1, maxLength: 100 },
+            redirectUris: {
+              type: 'array',
+              items: { type: 'string', format: 'uri', maxLength: 2048 },
+              default: [],
+            },
+            grantTypes: {
+              type: 'array',
+              items: { type: 'string', enum: OAUTH_GRANT_TYPES },
+              minItems: 1,
+            },
+            scopes: {
+              type: 'array',
+              items: { type: 'string', enum: [...OAUTH_SCOPES] },
+              minItems: 1,
+              default: ['read'],
+            },
+            confidential: { type: 'boolean', default: true },
+            firstParty: { type: 'boolean', default: false },
+            userId: { type: 'integer' },
+          },
+        },
+        response: {
+          201: {
+            type: 'object',
+            properties: {
+              client: oauthClientSchema,
+              clientSecret: { type: ['string', 'null'] },
+            },
+          },
+          400: errorSchema,
+          401: errorSchema,
+          403: errorSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Body: CreateOAuthClientBody }>, reply: FastifyReply) => {
+      const { grantTypes, redirectUris = [], confidential = true, userId } = request.body;
+
+      if (grantTypes.includes('authorization_code') && redirectUris.length === 0) {
+        throw new BadRequestError('oauthInvalidRequest', { parameter: 'redirectUris' });
+      }
+      if (
+        grantTypes.includes('client_credentials') &&
+        (!confidential || !userId || !(await User.findByPk(userId)))
+      ) {
+        throw new BadRequestError('oauthInvalidRequest', { parameter: 'userId' });
+      }
+
+      const { client, clientSecret } = await createOAuthClient({
+        name: request.body.name,
+        redirectUris,
+        grantTypes,
+        scopes: request.body.scopes ?? ['read'],
+        confidential,
+        firstParty: request.body.firstParty,
+        userId,
+      });
+
+      await recordAuditEvent(request, {
+        action: 'oauth_client.created',
+        targetType: 'oauth_client',
+        targetId: client.id,
+        after: {
+          clientId: client.clientId,
+          name: client.name,
+          grantTypes: client.grantTypes,
+          scopes: client.scopes,
+        },
+      });
+
+      return reply.code(201).send({ client: toOAuthClientResponse(client), clientSecret });
+    }
+  );
+
+  // List clients
+  fastify.get(
+    '/',
+    {
+      onRequest: fastify.authenticate,
+      preHandler: fastify.authorize('admin.oauthClients.manage'),
+      schema: {
+        tags: ['Admin'],
+        description: 'List registered OAuth clients (requires oauth-clients:write)',
+        security: [{ bearerAuth: [] }],
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              clients: { type: 'array', items: oauthClientSchema },
+            },
+          },
+          401: errorSchema,
+          403: errorSchema,
+        },
+      },
+    },
+    async (_request: FastifyRequest, reply: FastifyReply) => {
+      const clients = await listOAuthClients();
+
+      return reply.send({ clients: clients.map(toOAuthClientResponse) });
+    }
+  );
+
+  // Remove a client
+  fastify.delete<{ Params: { id: number } }>(
+    '/:id',
+    {
+      onRequest: fastify.authenticate,
+      preHandler: fastify.authorize('admin.oauthClients.manage'),
+      schema: {
+        tags: ['Admin'],
+        description:
+          'Remove an OAuth client, its consents and every token issued to it (requires oauth-clients:write)',
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: 'object',
+          properties: {
+            id: { type: 'integer' },
+          },
+          required: ['id'],
+        },
+        response: {
+          200: successSchema,
+          401: errorSchema,
+          403: errorSchema,
+          404: errorSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Params: { id: number } }>, reply: FastifyReply) => {
+      const messages = getMessages(request.locale);
+
+      if (!(await revokeOAuthClient(request.params.id))) {
+        throw new NotFoundError('oauthClientNotFound');
+      }
+
+      await recordAuditEvent(request, {
+        action: 'oauth_client.revoked',
+        targetType: 'oauth_client',
+        targetId: request.params.id,
+      });
+
+      return reply.send({ success: true, message: messages.success.oauthClientRevoked });
+    }
+  );
+};
@@ -0,0 +1,713 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { getMessages } from '../../../i18n/messages.js';
+import {
+  BadRequestError,
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+} from '../../../utils/errors.js';
+import {
+  errorSchema,
+  invitationSchema,
+  memberSchema,
+  organizationSchema,
+  successSchema,
+} from '../../../schemas/common.js';
+import {
+  acceptInvitation,
+  createInvitation,
+  createOrganization,
+  findOrganizationForUser,
+  getMembership,
+  listMembers,
+  listPendingInvitations,
+  listUserOrganizations,
+  removeMember,
+  revokeInvitation,
+  updateMemberRole,
+  type MemberChange,
+} from '../../../utils/organizations.js';
+import { Organization, type Invitation, type Membership } from '../../../models/index.js';
+import { ORGANIZATION_ROLES, type OrganizationRole } from '../../../models/Membership.js';
+import { sequelize } from '../../../database/connection.js';
+import { recordAuditEvent } from '../../../utils/audit.js';
+
+interface OrganizationParams {
+  orgId: number;
+}
+
+interface MemberParams extends OrganizationParams {
+  userId: number;
+}
+
+interface InvitationParams extends OrganizationParams {
+  id: number;
+}
+
+interface CreateOrganizationBody {
+  name: string;
+  slug?: string;
+}
+
+interface CreateInvitationBody {
+  email: string;
+  role?: OrganizationRole;
+}
+
+const slugPattern = '^[a-z0-9]+(?:-[a-z0-9]+)*$';
+
+const organizationParamsSchema = {
+  type: 'object',
+  properties: {
+    orgId: { type: 'integer' },
+  },
+  required: ['orgId'],
+} as const;
+
+const memberParamsSchema = {
+  type: 'object',
+  properties: {
+    orgId: { type: 'integer' },
+    userId: { type: 'integer' },
+  },
+  required: ['orgId', 'userId'],
+} as const;
+
+const invitationParamsSchema = {
+  type: 'object',
+  properties: {
+    orgId: { type: 'integer' },
+    id: { type: 'integer' },
+  },
+  required: ['orgId', 'id'],
+} as const;
+
+// Resource loaders for the organization policies
+const loadOrganization = (request: FastifyRequest) =>
+  findOrganizationForUser((request.params as OrganizationParams).orgId, request.user.id);
+
+const loadMemberChange = async (request: FastifyRequest): Promise<MemberChange> => {
+  const { orgId, userId } = request.params as MemberParams;
+  const [actor, target] = await Promise.all([
+    getMembership(orgId, request.user.id),
+    getMembership(orgId, userId),
+  ]);
+
+  return {
+    id: orgId,
+    actorRole: actor?.role,
+    targetRole: target?.role,
+    requestedRole: (request.body as { role?: OrganizationRole } | undefined)?.role,
+  };
+};
+
+const toOrganizationResponse = (organization: Organization) => ({
+  id: organization.id,
+  name: organization.name,
+  slug: organization.slug,
+  role: organization.memberships?.[0]?.role ?? null,
+  createdAt: organization.createdAt,
+  updatedAt: organization.updatedAt,
+});
+
+const toMemberResponse = (membership: Membership) => ({
+  userId: membership.userId,
+  name: membership.user?.name,
+  email: membership.user?.email,
+  role: membership.role,
+  joinedAt: membership.createdAt,
+});
+
+const toInvitationResponse = (invitation: Invitation) => ({
+  id: invitation.id,
+  organizationId: invitation.organizationId,
+  email: invitation.email,
+  role: invitation.role,
+  expiresAt: invitation.expiresAt,
+  createdAt: invitation.createdAt,
+});
+
+export const organizationRoutes = async (fastify: FastifyInstance) => {
+  fastify.addHook('onRequest', fastify.authenticate);
+
+  // Create an organization (the creator becomes its owner)
+  fastify.post<{ Body: CreateOrganizationBody }>(
+    '/',
+    {
+      schema: {
+        tags: ['Organizations'],
+        description: 'Create an organization owned by the current user',
+        security: [{ bearerAuth: [] }],
+        body: {
+          type: 'object',
+          required: ['name'],
+          properties: {
+            name: { type: 'string', minLength: 1, maxLength: 255 },
+            slug: { type: 'string', pattern: slugPattern, maxLength: 100 },
+          },
+        },
+        response: {
+          201: organizationSchema,
+          401: errorSchema,
+          409: errorSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Body: CreateOrganizationBody }>, reply: FastifyReply) => {
+      const result = await createOrganization(request.user.id, request.body);
+      if (result.status === 'slug_taken') {
+        throw new ConflictError('organizationSlugTaken');
+      }
+
+      return reply
+        .code(201)
+        .send({ ...toOrganizationResponse(result.organization), role: 'owner' });
+    }
+  );
+
+  // List the current user's organizations
+  fastify.get(
+    '/',
+    {
+      schema: {
+        tags: ['Organizations'],
+        description: 'List the organizations the current user belongs to, with their role',
+        security: [{ bearerAuth: [] }],
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              organizations: { type: 'array', items: organizationSchema },
+            },
+          },
+          401: errorSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const organizations = await listUserOrganizations(request.user.id);
+
+      return reply.send({ organizations: organizations.map(toOrganizationResponse) });
+    }
+  );
+
+  // Accept an invitation sent to the current user's email
+  fastify.post<{ Body: { token: string } }>(
+    '/invitations/accept',
+    {
+      schema: {
+        tags: ['Organizations'],
+        description: "Join an organization with an invitation sent to the current user's email",
+        security: [{ bearerAuth: [] }],
+        body: {
+          type: 'object',
+          required: ['token'],
+          properties: {
+            token: { type: 'string', minLength: 1 },
+          },
+        },
+        response: {
+          200: organizationSchema,
+          400: errorSchema,
+          401: errorSchema,
+          403: errorSchema,
+          409: errorSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Body: { token: string } }>, reply: FastifyReply) => {
+      const result = await acceptInvitation(request.body.token, request.user);
+
+      switch (result.status) {
+        case 'invalid':
+          throw new BadRequestError('invitationInvalid');
+        case 'expired':
+          throw new BadRequestError('invitationExpired');
+        case 'email_mismatch':
+          throw new ForbiddenError('invitationEmailMismatch');
+        case 'already_member':
+          throw new ConflictError('alreadyOrganizationMember');
+      }
+
+      await recordAuditEvent(request, {
+        action: 'organization.invitation_accepted',
+        targetType: 'organization',
+        targetId: result.membership.organizationId,
+        metadata: { role: result.membership.role },
+      });
+
+      const organization = await findOrganizationForUser(
+        result.membership.organizationId,
+        request.user.id
+      );
+      return reply.send(toOrganizationResponse(organization!));
+    }
+  );
+
+  // Get an organization
+  fastify.get<{ Params: OrganizationParams }>(
+    '/:orgId',
+    {
+      preHandler: fastify.authorize('organizations.read', loadOrganization),
+      schema: {
+        tags: ['Organizations'],
+        description: 'Get an organization the current user belongs to',
+        security: [{ bearerAuth: [] }],
+        params: organizationParamsSchema,
+        response: {
+          200: organizationSchema,
+          401: errorSchema,
+          403: errorSchema,
+          404: errorSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Params: OrganizationParams }>, reply: FastifyReply) => {
+      const organization = request.resource as Organization | null;
+
+      if (!organization) {
+        throw new NotFoundError('organizationNotFound');
+      }
+
+      return reply.send(toOrganizationResponse(organization));
+    }
+  );
+
+  // Rename an organization
+  fastify.patch<{ Params: OrganizationParams; Body: { name: string } }>(
+    '/:orgId',
+    {
+      preHandler: fastify.authorize('organizations.update', loadOrganization),
+      schema: {
+        tags: ['Organizations'],
+        description: 'Rename an organization (owners and admins)',
+        security: [{ bearerAuth: [] }],
+        params: organizationParamsSchema,
+        body: {
+          type: 'object',
+          required: ['name'],
+          properties: {
+            name: { type: 'string', minLength: 1, maxLength: 255 },
+          },
+        },
+        response: {
+          200: organizationSchema,
+          401: errorSchema,
+          403: errorSchema,
+          404: errorSchema,
+        },
+      },
+    },
+    async (
+      request: FastifyRequest<{ Params: OrganizationParams; Body: { name: string } }>,
+      reply: FastifyReply
+    ) => {
+      const organization = request.resource as Organization | null;
+
+      if (!organization) {
+        throw new NotFoundError('organizationNotFound');
+      }
+
+      await organization.update({ name: request.body.name });
+      return reply.send(toOrganizationResponse(organization));
+    }
+  );
+
+  // Delete an organization
+  fastify.delete<{ Params: OrganizationParams }>(
+    '/:orgId',
+    {
+      preHandler: fastify.authorize('organizations.delete', loadOrganization),
+      schema: {
+        tags: ['Organizations'],
+        description: 'Delete an organization with its memberships and invitations (owners only)',
+        security: [{ bearerAuth: [] }],
+        params: organizationParamsSchema,
+        response: {
+          200: successSchema,
+          401: errorSchema,
+          403: errorSchema,
+          404: errorSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Params: OrganizationParams }>, reply: FastifyReply) => {
+      const messages = getMessages(request.locale);
+      const organization = request.resource as Organization | null;
+
+      if (!organization) {
+        throw new NotFoundError('organizationNotFound');
+      }
+
+      await organization.destroy();
+      return reply.send({ success: true, message: messages.success.organizationDeleted });
+    }
+  );
+
+  // List members
+  fastify.get<{ Params: OrganizationParams }>(
+    '/:orgId/members',
+    {
+      preHandler: fastify.authorize('organizations.read', loadOrganization),
+      schema: {
+        tags: ['Organizations'],
+        description: 'List the members of an organization',
+        security: [{ bearerAuth: [] }],
+        params: organizationParamsSchema,
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              members: { type: 'array', items: memberSchema },
+            },
+          },
+          401: errorSchema,
+          403: errorSchema,
+          404: errorSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Params: OrganizationParams }>, reply: FastifyReply) => {
+      if (!request.resource) {
+        throw new NotFoundError('organizationNotFound');
+      }
+
+      const members = await listMembers(request.params.orgId);
+      return reply.send({ members: members.map(toMemberResponse) });
+    }
+  );
+
+  // Change a member's role
+  fastify.patch<{ Params: MemberParams; Body: { role: OrganizationRole } }>(
+    '/:orgId/members/:userId',
+    {
+      preHandler: fastify.authorize('organizations.members.change', loadMemberChange),
+      schema: {
+        tags: ['Organizations'],
+        description:
+          "Change a member's role (owners and admins; only owners can grant or change ownership)",
+        security: [{ bearerAuth: [] }],
+        params: memberParamsSchema,
+        body: {
+          type: 'object',
+          required: ['role'],
+          properties: {
+            role: { type: 'string', enum: [...ORGANIZATION_ROLES] },
+          },
+        },
+        response: {
+          200: successSchema,
+          400: errorSchema,
+          401: errorSchema,
+          403: errorSchema,
+          404: errorSchema,
+        },
+      },
+    },
+    async (
+      request: FastifyRequest<{ Params: MemberParams; Body: { role: OrganizationRole } }>,
+      reply: FastifyReply
+    ) => {
+      const { orgId, userId } = request.params;
+      const change = request.resource as MemberChange;
+
+      const result = await updateMemberRole(orgId, userId, request.body.role);
+
+      if (result.status === 'not_found') {
+        throw new NotFoundError('memberNotFound');
+      }
+      if (result.status === 'last_owner') {
+        throw new BadRequestError('lastOrganizationOwner');
+      }
+
+      await recordAuditEvent(request, {
+        action: 'organization.member_role_changed',
+        targetType: 'organization',
+        targetId: orgId,
+        before: { role: change.targetRole },
+        after: { role: request.body.role },
+        metadata: { userId },
+      });
+
+      return reply.send({ success: true });
+    }
+  );
+
+  // Remove a member
+  fastify.delete<{ Params: MemberParams }>(
+    '/:orgId/members/:userId',
+    {
+      preHandler: fastify.authorize('organizations.members.change', loadMemberChange),
+      schema: {
+        tags: ['Organizations'],
+        description: 'Remove a member (owners and admins; only owners can remove owners)',
+        security: [{ bearerAuth: [] }],
+        params: memberParamsSchema,
+        response: {
+          200: successSchema,
+          400: errorSchema,
+          401: errorSchema,
+          403: errorSchema,
+          404: errorSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Params: MemberParams }>, reply: FastifyReply) => {
+      const messages = getMessages(request.locale);
+      const { orgId, userId } = request.params;
+      const change = request.resource as MemberChange;
+
+      const result = await removeMember(orgId, userId);
+
+      if (result.status === 'not_found') {
+        throw new NotFoundError('memberNotFound');
+      }
+      if (result.status === 'last_owner') {
+        throw new BadRequestError('lastOrganizationOwner');
+      }
+
+      await recordAuditEvent(request, {
+        action: 'organization.member_removed',
+        targetType: 'organization',
+        targetId: orgId,
+        before: { role: change.targetRole },
+        metadata: { userId },
+      });
+
+      return reply.send({ success: true, message: messages.success.memberRemoved });
+    }
+  );
+
+  // Leave an organization
+  fastify.post<{ Params: OrganizationParams }>(
+    '/:orgId/leave',
+    {
+      preHandler: fastify.authorize('organizations.read', loadOrganization),
+      schema: {
+        tags: ['Organizations'],
+        description: 'Leave an organization (the last owner cannot leave)',
+        security: [{ bearerAuth: [] }],
+        params: organizationParamsSchema,
+        response: {
+          200: successSchema,
+          400: errorSchema,
+          401: errorSchema,
+          403: errorSchema,
+          404: errorSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Params: OrganizationParams }>, reply: FastifyReply) => {
+      const messages = getMessages(request.locale);
+
+      const result = await removeMember(request.params.orgId, request.user.id);
+
+      if (result.status === 'not_found') {
+        throw new NotFoundError('memberNotFound');
+      }
+      if (result.status === 'last_owner') {
+        throw new BadRequestError('lastOrganizationOwner');
+      }
+
+      await recordAuditEvent(request, {
+        action: 'organization.member_left',
+        targetType: 'organization',
+        targetId: request.params.orgId,
+      });
+
+      return reply.send({ success: true, message: messages.success.leftOrganization });
+    }
+  );
+
+  // Invite someone by email
+  fastify.post<{ Params: OrganizationParams; Body: CreateInvitationBody }>(
+    '/:orgId/invitations',
+    {
+      preHandler: fastify.authorize('organizations.invitations.manage', loadOrganization),
+      schema: {
+        tags: ['Organizations'],
+        description:
+          'Invite an email address to the organization (owners and admins). The token is only returned here.',
+        security: [{ bearerAuth: [] }],
+        params: organizationParamsSchema,
+        body: {
+          type: 'object',
+          required: ['email'],
+          properties: {
+            email: { type: 'string', format: 'email' },
+            role: { type: 'string', enum: ['admin', 'member'], default: 'member' },
+          },
+        },
+        response: {
+          201: {
+            type: 'object',
+            properties: {
+              invitation: invitationSchema,
+              token: { type: 'string' },
+            },
+          },
+          401: errorSchema,
+          403: errorSchema,
+          404: errorSchema,
+        },
+      },
+    },
+    async (
+      request: FastifyRequest<{ Params: OrganizationParams; Body: CreateInvitationBody }>,
+      reply: FastifyReply
+    ) => {
+      if (!request.resource) {
+        throw new NotFoundError('organizationNotFound');
+      }
+
+      const { invitation, token } = await createInvitation(request.params.orgId, {
+        email: request.body.email,
+        role: request.body.role ?? 'member',
+        invitedById: request.user.id,
+      });
+
+      await recordAuditEvent(request, {
+        action: 'organization.invitation_created',
+        targetType: 'organization',
+        targetId: request.params.orgId,
+        metadata: { invitationId: invitation.id, email: invitation.email, role: invitation.role },
+      });
+
+      return reply.code(201).send({ invitation: toInvitationResponse(invitation), token });
+    }
+  );
+
+  // List pending invitations
+  fastify.get<{ Params: OrganizationParams }>(
+    '/:orgId/invitations',
+    {
+      preHandler: fastify.authorize('organizations.invitations.manage', loadOrganization),
+      schema: {
+        tags: ['Organizations'],
+        description: 'List pending invitations (owners and admins)',
+        security: [{ bearerAuth: [] }],
+        params: organizationParamsSchema,
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              invitations: { type: 'array', items: invitationSchema },
+            },
+          },
+          401: errorSchema,
+          403: errorSchema,
+          404: errorSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Params: OrganizationParams }>, reply: FastifyReply) => {
+      if (!request.resource) {
+        throw new NotFoundError('organizationNotFound');
+      }
+
+      const invitations = await listPendingInvitations(request.params.orgId);
+      return reply.send({ invitations: invitations.map(toInvitationResponse) });
+    }
+  );
+
+  // Revoke an invitation
+  fastify.delete<{ Params: InvitationParams }>(
+    '/:orgId/invitations/:id',
+    {
+      preHandler: fastify.authorize('organizations.invitations.manage', loadOrganization),
+      schema: {
+        tags: ['Organizations'],
+        description: 'Revoke a pending invitation (owners and admins)',
+        security: [{ bearerAuth: [] }],
+        params: invitationParamsSchema,
+        response: {
+          200: successSchema,
+          401: errorSchema,
+          403: errorSchema,
+          404: errorSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Params: InvitationParams }>, reply: FastifyReply) => {
+      const messages = getMessages(request.locale);
+
+      const revoked = await revokeInvitation(request.params.orgId, request.params.id);
+      if (!revoked) {
+        throw new NotFoundError('invitationNotFound');
+      }
+
+      await recordAuditEvent(request, {
+        action: 'organization.invitation_revoked',
+        targetType: 'organization',
+        targetId: request.params.orgId,
+        metadata: { invitationId: request.params.id },
+      });
+
+      return reply.send({ success: true, message: messages.success.invitationRevoked });
+    }
+  );
+};
+
+// Platform-wide view for platform admins, registered under /api/admin/organizations
+export const adminOrganizationRoutes = async (fastify: FastifyInstance) => {
+  fastify.addHook('onRequest', fastify.authenticate);
+
+  fastify.get(
+    '/',
+    {
+      preHandler: fastify.authorize('admin.organizations.list'),
+      schema: {
+        tags: ['Admin'],
+        description: 'List all organizations with their member count (requires organizations:read)',
+        security: [{ bearerAuth: [] }],
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              organizations: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    id: { type: 'number' },
+                    name: { type: 'string' },
+                    slug: { type: 'string' },
+                    memberCount: { type: 'number' },
+                    createdAt: { type: 'string', format: 'date-time' },
+                  },
+                },
+              },
+            },
+          },
+          401: errorSchema,
+          403: errorSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const organizations = await Organization.findAll({
+        attributes: {
+          include: [
+            [
+              sequelize.literal(
+                '(SELECT COUNT(*) FROM memberships WHERE memberships.organization_id = "Organization".id)'
+              ),
+              'memberCount',
+            ],
+          ],
+        },
+        order: [['createdAt', 'DESC']],
+      });
+
+      return reply.send({
+        organizations: organizations.map((organization) => ({
+          id: organization.id,
+          name: organization.name,
+          slug: organization.slug,
+          memberCount: Number(organization.get('memberCount')),
+          createdAt: organization.createdAt,
+        })),
+      });
+    }
+  );
+};
@@ -0,0 +1,250 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { getMessages } from '../../../i18n/messages.js';
+import { BadRequestError, ConflictError, NotFoundError } from '../../../utils/errors.js';
+import {
+  errorSchema,
+  permissionSchema,
+  roleSchema,
+  successSchema,
+} from '../../../schemas/common.js';
+import {
+  createRole,
+  deleteRole,
+  listPermissions,
+  listRoles,
+  updateRole,
+} from '../../../utils/roles.js';
+import type { Role } from '../../../models/index.js';
+
+interface CreateRoleBody {
+  name: string;
+  description?: string;
+  permissions?: string[];
+}
+
+interface UpdateRoleBody {
+  description?: string | null;
+  permissions?: string[];
+}
+
+interface RoleParams {
+  id: number;
+}
+
+const roleIdParamSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'integer' },
+  },
+  required: ['id'],
+} as const;
+
+const permissionsBodySchema = {
+  type: 'array',
+  items: { type: 'string', minLength: 1 },
+} as const;
+
+const toRoleResponse = (role: Role) => ({
+  id: role.id,
+  name: role.name,
+  description: role.description ?? null,
+  isSystem: role.isSystem,
+  permissions: (role.permissions ?? []).map((p) => p.name).sort(),
+  createdAt: role.createdAt,
+  updatedAt: role.updatedAt,
+});
+
+export const roleRoutes = async (fastify: FastifyInstance) => {
+  fastify.addHook('onRequest', fastify.authenticate);
+
+  // List roles with their permissions
+  fastify.get(
+    '/',
+    {
+      preHandler: fastify.authorize('admin.roles.read'),
+      schema: {
+        tags: ['Admin'],
+        description: 'List roles and the permissions they grant',
+        security: [{ bearerAuth: [] }],
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              roles: { type: 'array', items: roleSchema },
+            },
+          },
+          401: errorSchema,
+          403: errorSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const roles = await listRoles();
+
+      return reply.send({ roles: roles.map(toRoleResponse) });
+    }
+  );
+
+  // List the permissions that can be granted
+  fastify.get(
+    '/permissions',
+    {
+      preHandler: fastify.authorize('admin.roles.read'),
+      schema: {
+        tags: ['Admin'],
+        description: 'List every permission that can be granted to a role',
+        security: [{ bearerAuth: [] }],
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              permissions: { type: 'array', items: permissionSchema },
+            },
+          },
+          401: errorSchema,
+          403: errorSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const permissions = await listPermissions();
+
+      return reply.send({
+        permissions: permissions.map((p) => ({ name: p.name, description: p.description ?? null })),
+      });
+    }
+  );
+
+  // Create a role
+  fastify.post<{ Body: CreateRoleBody }>(
+    '/',
+    {
+      preHandler: fastify.authorize('admin.roles.write'),
+      schema: {
+        tags: ['Admin'],
+        description: 'Create a role granting the given permissions',
+        security: [{ bearerAuth: [] }],
+        body: {
+          type: 'object',
+          required: ['name'],
+          properties: {
+            name: { type: 'string', pattern: '^[a-z][a-z0-9_-]*$', maxLength: 50 },
+            description: { type: 'string', maxLength: 255 },
+            permissions: { ...permissionsBodySchema, default: [] },
+          },
+        },
+        response: {
+          201: roleSchema,
+          400: errorSchema,
+          401: errorSchema,
+          403: errorSchema,
+          409: errorSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Body: CreateRoleBody }>, reply: FastifyReply) => {
+      const { name, description, permissions = [] } = request.body;
+
+      const result = await createRole({ name, description, permissions });
+
+      if (result.status === 'exists') {
+        throw new ConflictError('roleAlreadyExists');
+      }
+      if (result.status === 'unknown_permissions') {
+        throw new BadRequestError('unknownPermissions', {
+          permissions: result.permissions.join(', '),
+        });
+      }
+
+      return reply.code(201).send(toRoleResponse(result.role));
+    }
+  );
+
+  // Update a role's description or permissions
+  fastify.patch<{ Params: RoleParams; Body: UpdateRoleBody }>(
+    '/:id',
+    {
+      preHandler: fastify.authorize('admin.roles.write'),
+      schema: {
+        tags: ['Admin'],
+        description:
+          "Update a role's description and/or replace its permissions (the admin role always keeps every permission)",
+        security: [{ bearerAuth: [] }],
+        params: roleIdParamSchema,
+        body: {
+          type: 'object',
+          properties: {
+            description: { type: ['string', 'null'], maxLength: 255 },
+            permissions: permissionsBodySchema,
+          },
+        },
+        response: {
+          200: roleSchema,
+          400: errorSchema,
+          401: errorSchema,
+          403: errorSchema,
+          404: errorSchema,
+        },
+      },
+    },
+    async (
+      request: FastifyRequest<{ Params: RoleParams; Body: UpdateRoleBody }>,
+      reply: FastifyReply
+    ) => {
+      const result = await updateRole(request.params.id, request.body);
+
+      if (result.status === 'not_found') {
+        throw new NotFoundError('roleNotFound');
+      }
+      if (result.status === 'protected') {
+        throw new BadRequestError('adminRolePermissionsLocked');
+      }
+      if (result.status === 'unknown_permissions') {
+        throw new BadRequestError('unknownPermissions', {
+          permissions: result.permissions.join(', '),
+        });
+      }
+
+      return reply.send(toRoleResponse(result.role));
+    }
+  );
+
+  // Delete a custom role
+  fastify.delete<{ Params: RoleParams }>(
+    '/:id',
+    {
+      preHandler: fastify.authorize('admin.roles.write'),
+      schema: {
+        tags: ['Admin'],
+        description: 'Delete a custom role that is not assigned to any user',
+        security: [{ bearerAuth: [] }],
+        params: roleIdParamSchema,
+        response: {
+          200: successSchema,
+          400: errorSchema,
+          401: errorSchema,
+          403: errorSchema,
+          404: errorSchema,
+          409: errorSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Params: RoleParams }>, reply: FastifyReply) => {
+      const messages = getMessages(request.locale);
+
+      const result = await deleteRole(request.params.id);
+
+      if (result.status === 'not_found') {
+        throw new NotFoundError('roleNotFound');
+      }
+      if (result.status === 'protected') {
+        throw new BadRequestError('systemRoleNotDeletable');
+      }
+      if (result.status === 'in_use') {
+        throw new ConflictError('roleInUse');
+      }
+
+      return reply.send({ success: true, message: messages.success.roleDeleted });
+    }
+  );
+};
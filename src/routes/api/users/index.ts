@@ -1,18 +1,36 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
-import { User } from '../../../models/index.js';
-import { getMessages, type Locale } from '../../../i18n/messages.js';
-import { sendError } from '../../../utils/errors.js';
+import { Op, type FindOptions } from 'sequelize';
+import { Membership, User } from '../../../models/index.js';
+import { DEFAULT_ROLE, normalizeEmail, type UserRole } from '../../../models/User.js';
+import { describeRoleAssignment, getRolePermissions, roleExists } from '../../../utils/roles.js';
+import { getMembership, listSharedOrganizationUserIds } from '../../../utils/organizations.js';
+import {
+  AppError,
+  BadRequestError,
+  ConflictError,
+  ForbiddenError,
+  InternalServerError,
+  NotFoundError,
+} from '../../../utils/errors.js';
+import { listUsers, type UserListQuery } from '../../../utils/userListing.js';
+import { deleteUser } from '../../../utils/userRetention.js';
+import { diffChanges, recordAuditEvent } from '../../../utils/audit.js';
+import { sendVerificationEmail } from '../../../utils/passwords.js';
+import { config } from '../../../config/index.js';
+import type { Locale } from '../../../i18n/messages.js';
 import {
   userSchema,
-  usersArraySchema,
+  userListQuerystringSchema,
+  userPageSchema,
   errorSchema,
   idParamSchema,
+  userSecurity,
 } from '../../../schemas/common.js';
 
 interface CreateUserBody {
   name: string;
   email: string;
-  role?: 'user' | 'admin';
+  role?: UserRole;
 }
 
 interface UpdateUserBody {
@@ -24,6 +42,38 @@ interface UserParams {
   id: string;
 }
 
+// Resource loader for the ownership policies
+const loadUser = (request: FastifyRequest) => User.findByPk((request.params as UserParams).id);
+
+// Restricts user lookups to the members of an organization
+const organizationScope = (organizationId: number) => ({
+  include: [{ model: Membership, as: 'memberships', where: { organizationId }, attributes: [] }],
+});
+
+/**
+ * Restricts user lookups to the users the caller may see: the members of the active
+ * organization when the token carries one, else everyone for holders of users:read and
+ * the people sharing an organization with the caller for anyone else
+ */
+const visibleUsersScope = async (request: FastifyRequest): Promise<FindOptions> => {
+  const { id: userId, organizationId } = request.user;
+
+  if (organizationId) {
+    // The claim outlives a membership until the token expires, so check it again
+    if (!(await getMembership(organizationId, userId))) {
+      throw new ForbiddenError('notOrganizationMember');
+    }
+    return organizationScope(organizationId);
+  }
+
+  const user = await User.findByPk(userId);
+  if (user && (await getRolePermissions(user.role)).includes('users:read')) {
+    return {};
+  }
+
+  return { where: { id: await listSharedOrganizationUserIds(userId) } };
+};
+
 export const userRoutes = async (fastify: FastifyInstance) => {
   // Add authentication to all user routes
   fastify.addHook('onRequest', fastify.authenticate);
@@ -32,76 +82,84 @@ export const userRoutes = async (fastify: FastifyInstance) => {
   fastify.post<{ Body: CreateUserBody }>(
     '/',
     {
+      preHandler: fastify.authorize('users.create', (request) =>
+        describeRoleAssignment((request.body as CreateUserBody).role)
+      ),
       schema: {
         tags: ['Users'],
-        description: 'Create a new user',
-        security: [{ bearerAuth: [] }],
+        description:
+          'Create a new user (setting a role other than the default requires users:write and every permission of that role)',
+        security: userSecurity,
         body: {
           type: 'object',
           required: ['name', 'email'],
           properties: {
             name: { type: 'string', minLength: 1 },
             email: { type: 'string', format: 'email' },
-            role: { type: 'string', enum: ['user', 'admin'] },
+            role: { type: 'string', minLength: 1 },
           },
         },
         response: {
           201: userSchema,
+          400: errorSchema,
           403: errorSchema,
           500: errorSchema,
         },
       },
     },
     async (request: FastifyRequest<{ Body: CreateUserBody }>, reply: FastifyReply) => {
-      const locale = (request as any).locale as Locale;
-      const messages = getMessages(locale);
-
       try {
-        const { name, email, role } = request.body;
+        const { name, email, role = DEFAULT_ROLE } = request.body;
 
-        // Only admins can create admin users
-        if (role === 'admin' && request.user.role !== 'admin') {
-          return sendError(reply, 403, 'Insufficient permissions to create admin users');
+        if (!(await roleExists(role))) {
+          throw new BadRequestError('roleNotFound');
         }
 
-        // Default to 'user' role if not specified or if requester is not admin
-        const userRole = role && request.user.role === 'admin' ? role : 'user';
-
-        const user = await User.create({ name, email, role: userRole });
+        const user = await User.create({ name, email, role });
         return reply.code(201).send(user);
       } catch (error) {
+        if (error instanceof AppError) {
+          throw error;
+        }
         request.log.error(error);
-        return sendError(reply, 500, messages.errors.failedToCreateUser);
+        throw new InternalServerError('failedToCreateUser');
       }
     }
   );
 
   // READ - Get all users
-  fastify.get(
+  fastify.get<{ Querystring: UserListQuery }>(
     '/',
     {
+      preHandler: fastify.authorize('users.list'),
       schema: {
         tags: ['Users'],
-        description: 'Get all users',
-        security: [{ bearerAuth: [] }],
+        description:
+          'List users a page at a time: the members of the active organization when the token carries one, else everyone with users:read and the members of your organizations without it. Filter by role, provider or creation date, search name and email, and follow nextCursor for the next page.',
+        security: userSecurity,
+        querystring: userListQuerystringSchema,
         response: {
-          200: usersArraySchema,
+          200: userPageSchema,
+          400: errorSchema,
+          403: errorSchema,
           500: errorSchema,
         },
       },
     },
-    async (request: FastifyRequest, reply: FastifyReply) => {
-      const locale = (request as any).locale as Locale;
-      const messages = getMessages(locale);
-
+    async (request: FastifyRequest<{ Querystring: UserListQuery }>, reply: FastifyReply) => {
       try {
-        const users = await User.findAll({
-          order: [['createdAt', 'DESC']],
-        });
-        return reply.send(users);
+        const scope = await visibleUsersScope(request);
+        const page = await listUsers(request.query, scope);
+        if (!page) {
+          throw new BadRequestError('invalidCursor');
+        }
+        return reply.send(page);
       } catch (error) {
+        if (error instanceof AppError) {
+          throw error;
+        }
         request.log.error(error);
-        return sendError(reply, 500, messages.errors.failedToFetchUsers);
+        throw new InternalServerError('failedToFetchUsers');
       }
     }
   );
@@ -110,34 +168,41 @@ export const userRoutes = async (fastify: FastifyInstance) => {
   fastify.get<{ Params: UserParams }>(
     '/:id',
     {
+      preHandler: fastify.authorize('users.read'),
       schema: {
         tags: ['Users'],
-        description: 'Get a user by ID',
-        security: [{ bearerAuth: [] }],
+        description:
+          'Get a user by ID (limited to members of the active organization when the token carries one, or to members of your organizations without users:read)',
+        security: userSecurity,
         params: idParamSchema,
         response: {
           200: userSchema,
+          403: errorSchema,
           404: errorSchema,
           500: errorSchema,
         },
       },
     },
     async (request: FastifyRequest<{ Params: UserParams }>, reply: FastifyReply) => {
-      const locale = (request as any).locale as Locale;
-      const messages = getMessages(locale);
-
       try {
+        const scope = await visibleUsersScope(request);
         const { id } = request.params;
-        const user = await User.findByPk(id);
+        const user = await User.findOne({
+          ...scope,
+          where: { [Op.and]: [{ id }, ...(scope.where ? [scope.where] : [])] },
+        });
 
         if (!user) {
-          return sendError(reply, 404, messages.errors.userNotFound);
+          throw new NotFoundError('userNotFound');
         }
 
         return reply.send(user);
       } catch (error) {
+        if (error instanceof AppError) {
+          throw error;
+        }
         request.log.error(error);
-        return sendError(reply, 500, messages.errors.failedToFetchUser);
+        throw new InternalServerError('failedToFetchUser');
       }
     }
   );
@@ -146,10 +211,12 @@ export const userRoutes = async (fastify: FastifyInstance) => {
   fastify.put<{ Params: UserParams; Body: UpdateUserBody }>(
     '/:id',
     {
+      preHandler: fastify.authorize('users.update', loadUser),
       schema: {
         tags: ['Users'],
-        description: 'Update a user (self or admin only)',
-        security: [{ bearerAuth: [] }],
+        description:
+          'Update a user (self, or users:write for other users). A new email address is kept in pendingEmail and replaces the current one once verified through the link sent to it',
+        security: userSecurity,
         params: idParamSchema,
         body: {
           type: 'object',
@@ -162,6 +229,7 @@ export const userRoutes = async (fastify: FastifyInstance) => {
           200: userSchema,
           403: errorSchema,
           404: errorSchema,
+          409: errorSchema,
           500: errorSchema,
         },
       },
@@ -170,38 +238,75 @@ export const userRoutes = async (fastify: FastifyInstance) => {
       request: FastifyRequest<{ Params: UserParams; Body: UpdateUserBody }>,
       reply: FastifyReply
     ) => {
-      const locale = (request as any).locale as Locale;
-      const messages = getMessages(locale);
-
       try {
         const { id } = request.params;
+        const { name } = request.body;
+        const email = request.body.email && normalizeEmail(request.body.email);
 
-        // Users can only update themselves, unless they're an admin
-        if (request.user.id !== Number(id) && request.user.role !== 'admin') {
-          return sendError(reply, 403, 'Insufficient permissions to update this user');
+        // Previous values for the audit log
+        const previous = await User.findByPk(id, {
+          attributes: ['name', 'email', 'pendingEmail'],
+        });
+        if (!previous) {
+          throw new NotFoundError('userNotFound');
         }
 
-        const { name, email } = request.body;
+        // A new address only replaces the current one once its owner follows the link sent
+        // to it. Asking for the current address again cancels a pending change.
+        const emailChanged = email !== undefined && email !== previous.email;
 
         // Build update object with only defined fields
-        const updateFields: Partial<UpdateUserBody> = {};
+        const updateFields: { name?: string; pendingEmail?: string | null } = {};
         if (name !== undefined) updateFields.name = name;
-        if (email !== undefined) updateFields.email = email;
+        if (email !== undefined) updateFields.pendingEmail = emailChanged ? email : null;
 
-        // Optimized: single query update with returning the updated record
+        // The email signs in, so API keys and tokens of other clients cannot change it
+        if (emailChanged && (request.user.apiKeyId || request.user.oauthClientId)) {
+          throw new ForbiddenError('apiKeyRequiresSession');
+        }
+        if (emailChanged && (await User.count({ where: { email } })) > 0) {
+          throw new ConflictError('userAlreadyExists');
+        }
+
+        // Single query update with returning the updated record
         const [affectedCount, affectedRows] = await User.update(updateFields, {
           where: { id },
           returning: true,
         });
 
         if (affectedCount === 0) {
-          return sendError(reply, 404, messages.errors.userNotFound);
+          throw new NotFoundError('userNotFound');
+        }
+
+        const updated = affectedRows[0];
+        if (emailChanged) {
+          const token = fastify.signToken(
+            { verifyEmail: updated.id, email },
+            { expiresIn: config.passwordAuth.verificationTtl }
+          );
+          await sendVerificationEmail({ name: updated.name, email }, token, request.locale);
         }
 
-        return reply.send(affectedRows[0]);
+        const changes = diffChanges(
+          { name: previous.name, pendingEmail: previous.pendingEmail },
+          { ...updateFields }
+        );
+        if (Object.keys(changes.after).length > 0) {
+          await recordAuditEvent(request, {
+            action: 'user.updated',
+            targetType: 'user',
+            targetId: id,
+            ...changes,
+          });
+        }
+
+        return reply.send(updated);
       } catch (error) {
+        if (error instanceof AppError) {
+          throw error;
+        }
         request.log.error(error);
-        return sendError(reply, 500, messages.errors.failedToUpdateUser);
+        throw new InternalServerError('failedToUpdateUser');
       }
     }
   );
@@ -210,10 +315,11 @@ export const userRoutes = async (fastify: FastifyInstance) => {
   fastify.delete<{ Params: UserParams }>(
     '/:id',
     {
+      preHandler: fastify.authorize('users.delete', loadUser),
       schema: {
         tags: ['Users'],
-        description: 'Delete a user (self or admin only)',
-        security: [{ bearerAuth: [] }],
+        description: 'Delete a user (self, or users:delete for other users)',
+        security: userSecurity,
         params: idParamSchema,
         response: {
           204: {
@@ -227,29 +333,28 @@ export const userRoutes = async (fastify: FastifyInstance) => {
       },
     },
     async (request: FastifyRequest<{ Params: UserParams }>, reply: FastifyReply) => {
-      const locale = (request as any).locale as Locale;
-      const messages = getMessages(locale);
-
       try {
         const { id } = request.params;
 
-        // Users can only delete themselves, unless they're an admin
-        if (request.user.id !== Number(id) && request.user.role !== 'admin') {
-          return sendError(reply, 403, 'Insufficient permissions to delete this user');
+        const user = await deleteUser(Number(id));
+        if (!user) {
+          throw new NotFoundError('userNotFound');
         }
 
-        const deletedCount = await User.destroy({
-          where: { id },
+        await recordAuditEvent(request, {
+          action: 'user.deleted',
+          targetType: 'user',
+          targetId: user.id,
+          before: { email: user.email, role: user.role },
         });
 
-        if (deletedCount === 0) {
-          return sendError(reply, 404, messages.errors.userNotFound);
-        }
-
         return reply.code(204).send();
       } catch (error) {
+        if (error instanceof AppError) {
+          throw error;
+        }
         request.log.error(error);
-        return sendError(reply, 500, messages.errors.failedToDeleteUser);
+        throw new InternalServerError('failedToDeleteUser');
       }
     }
   );
@@ -1,108 +1,206 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
-import { User } from '../../models/index.js';
+import { User, UserIdentity } from '../../models/index.js';
+import { normalizeEmail } from '../../models/User.js';
 import { getMessages, type Locale } from '../../i18n/messages.js';
-import { sendError } from '../../utils/errors.js';
-import { userResponseSchema, errorSchema, tokenResponseSchema } from '../../schemas/common.js';
+import {
+  AppError,
+  BadRequestError,
+  ConflictError,
+  ForbiddenError,
+  InternalServerError,
+  NotFoundError,
+  ServiceUnavailableError,
+  TooManyRequestsError,
+  UnauthorizedError,
+} from '../../utils/errors.js';
+import {
+  userResponseSchema,
+  errorSchema,
+  tokenResponseSchema,
+  loginResponseSchema,
+  successSchema,
+  sessionSchema,
+  identitySchema,
+} from '../../schemas/common.js';
 import { config } from '../../config/index.js';
 import { fetchProviderUserInfo } from '../../utils/oauthProviders.js';
-import type { ProviderName } from '../../types/oauth.js';
+import { fetchOidcUserInfo, IdTokenNonceMismatchError } from '../../utils/oidc.js';
+import {
+  OAUTH_STATE_COOKIE,
+  OAUTH_VERIFIER_COOKIE,
+  isAllowedReturnTo,
+  oauthStateCookieOptions,
+  withTwoFactorRequired,
+} from '../../utils/oauthState.js';
+import { revokeRefreshToken, rotateRefreshToken } from '../../utils/refreshTokens.js';
+import { listActiveSessions, revokeAllSessions, revokeSession } from '../../utils/sessions.js';
+import { linkIdentity, signInWithIdentity, unlinkIdentity } from '../../utils/identities.js';
+import { recordAuditEvent, recordSignInEvent } from '../../utils/audit.js';
+import { setActiveOrganization } from '../../utils/organizations.js';
+import { consumeMagicLink, createMagicLink, sendMagicLinkEmail } from '../../utils/magicLinks.js';
+import { queueTemplatedMail } from '../../mailer/index.js';
+import {
+  ACCESS_TOKEN_COOKIE,
+  REFRESH_TOKEN_COOKIE,
+  refreshTokenCookieOptions,
+} from '../../plugins/auth.js';
+import type { OAuthTokens, OAuthUserInfo, ProviderName } from '../../types/oauth.js';
+
+// Short-lived cookie marking an OAuth round trip as "link to this user" instead of a login
+const LINK_COOKIE = 'oauthLink';
+const linkCookieOptions = {
+  httpOnly: true,
+  secure: process.env.NODE_ENV === 'production',
+  sameSite: 'lax' as const,
+  path: '/auth',
+};
 
 export const authRoutes = async (fastify: FastifyInstance) => {
+  // Get the user ID from a valid link cookie issued for this provider
+  const readLinkCookie = (request: FastifyRequest, provider: ProviderName): number | null => {
+    const value = request.cookies[LINK_COOKIE];
+    if (!value) {
+      return null;
+    }
+
+    try {
+      const payload = fastify.verifyToken<{ linkUserId: number; provider: string }>(value);
+      return payload.provider === provider ? payload.linkUserId : null;
+    } catch {
+      return null;
+    }
+  };
+
+  // Refuse API keys and tokens of other clients: only the user manages their sign-in
+  // methods and sessions
+  const refuseDelegatedCredentials = (request: FastifyRequest) => {
+    if (request.user.apiKeyId || request.user.oauthClientId) {
+      throw new ForbiddenError('apiKeyRequiresSession');
+    }
+  };
+
   // Generic OAuth callback handler for all providers
   const handleOAuthCallback = async (
     provider: ProviderName,
     request: FastifyRequest,
     reply: FastifyReply
   ) => {
-    const locale = (request as any).locale as Locale;
+    const locale = request.locale;
     const messages = getMessages(locale);
 
     try {
       const oauthInstance = fastify.oauth[provider];
 
       if (!oauthInstance) {
-        return sendError(reply, 503, `${provider} OAuth is not configured`);
+        throw new ServiceUnavailableError('oauthProviderNotConfigured', { provider });
       }
 
-      const { token } = await oauthInstance.getAccessTokenFromAuthorizationCodeFlow(request);
+      // Only complete flows started by this browser, with their PKCE code verifier
+      const flow = fastify.readOAuthFlow(request, provider);
+      if (!flow) {
+        throw new BadRequestError('invalidOAuthState');
+      }
+      if (!request.cookies[OAUTH_VERIFIER_COOKIE]) {
+        throw new BadRequestError('missingPkceVerifier');
+      }
+      reply.clearCookie(OAUTH_STATE_COOKIE, oauthStateCookieOptions);
 
-      // Fetch user info using provider-specific adapter
-      const userInfo = await fetchProviderUserInfo(provider, token.access_token);
+      // Passing the reply also clears the verifier cookie
+      const { token } = await oauthInstance.getAccessTokenFromAuthorizationCodeFlow(request, reply);
 
-      // Calculate token expiration time
-      const expiresAt = new Date();
-      expiresAt.setSeconds(expiresAt.getSeconds() + (token.expires_in || 3600));
+      // OpenID Connect providers identify the user through the verified ID token,
+      // the others through their provider-specific adapter
+      const providerConfig = config.oauth.providers[provider];
+      const userInfo = providerConfig.issuer
+        ? await fetchOidcUserInfo(providerConfig, token.id_token, flow.nonce)
+        : await fetchProviderUserInfo(provider, token.access_token);
 
-      // Create or update user in database
-      const [user, created] = await User.findOrCreate({
-        where: { email: userInfo.email },
-        defaults: {
-          name: userInfo.name,
-          email: userInfo.email,
-          oauthProvider: provider,
-          oauthId: userInfo.id,
-          oauthAccessToken: token.access_token,
-          oauthRefreshToken: token.refresh_token,
-          oauthTokenExpiresAt: expiresAt,
-        },
-      });
+      // Send the result, or go back to the page that started the flow
+      const complete = (body: Record<string, unknown>) =>
+        flow.returnTo ? reply.redirect(flow.returnTo) : reply.send(body);
 
-      // Update existing users with new OAuth data
-      if (!created) {
-        const updateFields: any = {};
-        let needsUpdate = false;
+      // Tokens without expires_in (e.g. GitHub OAuth apps) do not expire
+      const oauthTokens: OAuthTokens = {
+        accessToken: token.access_token,
+        refreshToken: token.refresh_token,
+        expiresAt: token.expires_in ? new Date(Date.now() + token.expires_in * 1000) : undefined,
+      };
 
-        if (user.oauthProvider !== provider) {
-          updateFields.oauthProvider = provider;
-          needsUpdate = true;
-        }
-        if (user.oauthId !== userInfo.id) {
-          updateFields.oauthId = userInfo.id;
-          needsUpdate = true;
-        }
-        if (user.oauthAccessToken !== token.access_token) {
-          updateFields.oauthAccessToken = token.access_token;
-          needsUpdate = true;
-        }
-        if (token.refresh_token && user.oauthRefreshToken !== token.refresh_token) {
-          updateFields.oauthRefreshToken = token.refresh_token;
-          needsUpdate = true;
-        }
-        if (user.oauthTokenExpiresAt?.getTime() !== expiresAt.getTime()) {
-          updateFields.oauthTokenExpiresAt = expiresAt;
-          needsUpdate = true;
-        }
+      // Linking flow started by POST /auth/link/:provider for a signed-in user
+      const linkUserId = readLinkCookie(request, provider);
+      if (linkUserId) {
+        reply.clearCookie(LINK_COOKIE, linkCookieOptions);
 
-        if (needsUpdate) {
-          await User.update(updateFields, { where: { id: user.id } });
-          Object.assign(user, updateFields);
+        const result = await linkIdentity(linkUserId, provider, userInfo, oauthTokens);
+        if (result.status === 'conflict') {
+          throw new ConflictError('identityLinkedToAnotherUser');
         }
+
+        await recordAuditEvent(request, {
+          action: 'auth.identity_linked',
+          actorId: linkUserId,
+          targetType: 'user',
+          targetId: linkUserId,
+          metadata: { provider },
+        });
+
+        return complete({ success: true, message: messages.success.identityLinked });
       }
 
-      // Issue JWT token
-      const jwtToken = fastify.jwt.sign(
-        {
-          userId: user.id,
-          email: user.email,
-          role: user.role,
-        },
-        {
-          expiresIn: '7d',
-        }
-      );
+      // Find the user through the identity, or create the user and/or identity
+      const result = await signInWithIdentity(provider, userInfo, oauthTokens);
+
+      if (result.status === 'refused') {
+        throw new ConflictError('accountLinkingRefused');
+      }
+      if (result.status === 'deleted') {
+        throw new ForbiddenError('accountDeleted');
+      }
 
-      // Set refresh token in cookie
-      reply.setCookie('refreshToken', jwtToken, {
-        httpOnly: true,
-        secure: process.env.NODE_ENV === 'production',
-        sameSite: 'lax',
-        path: '/',
-        maxAge: 7 * 24 * 60 * 60, // 7 days
+      // Existing account with this email: the owner must confirm from a signed-in session
+      if (result.status === 'confirmation_required') {
+        const linkToken = fastify.signToken(
+          { pendingLink: { userId: result.userId, provider, userInfo } },
+          { expiresIn: 600 }
+        );
+
+        throw new ConflictError('accountLinkConfirmationRequired').withExtensions({ linkToken });
+      }
+
+      const { user } = result;
+
+      if (result.created) {
+        void queueTemplatedMail(user.email, 'welcome', locale, {
+          name: user.name,
+          url: config.appUrl,
+        });
+      }
+
+      // The second factor is asked for before any token is issued
+      if (user.totpEnabledAt) {
+        await recordSignInEvent(request, 'auth.login_challenged', user.id, {
+          method: 'oauth',
+          provider,
+        });
+
+        const challengeToken = fastify.issueTwoFactorChallenge(reply, user);
+        return flow.returnTo
+          ? reply.redirect(withTwoFactorRequired(flow.returnTo))
+          : reply.send({ twoFactorRequired: true, challengeToken });
+      }
+
+      // Issue access and refresh tokens (sets both cookies)
+      const tokens = await fastify.issueAuthTokens(reply, user);
+
+      await recordSignInEvent(request, 'auth.login', user.id, {
+        method: 'oauth',
+        provider,
+        created: result.created,
       });
 
-      return reply.send({
+      return complete({
         success: true,
-        token: jwtToken,
+        ...tokens,
         user: {
           id: user.id,
           name: user.name,
@@ -110,13 +208,52 @@ export const authRoutes = async (fastify: FastifyInstance) => {
         },
       });
     } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      if (error instanceof IdTokenNonceMismatchError) {
+        throw new BadRequestError('invalidOidcNonce');
+      }
       request.log.error(error);
-      return sendError(reply, 500, messages.errors.authenticationFailed);
+      throw new InternalServerError('authenticationFailed');
     }
   };
 
-  // Register OAuth callback routes for each enabled provider
+  // Register OAuth start and callback routes for each enabled provider
   for (const provider of config.oauth.enabledProviders) {
+    fastify.get<{ Querystring: { returnTo?: string } }>(
+      `/auth/${provider.name}`,
+      {
+        schema: {
+          tags: ['Authentication'],
+          description: `Start ${provider.displayName} sign-in (redirects to the provider)`,
+          querystring: {
+            type: 'object',
+            properties: {
+              returnTo: {
+                type: 'string',
+                description: 'Path or allowlisted URL to redirect to after sign-in',
+              },
+            },
+          },
+          response: {
+            400: errorSchema,
+          },
+        },
+      },
+      async (request, reply) => {
+        const { returnTo } = request.query;
+
+        if (returnTo && !isAllowedReturnTo(returnTo)) {
+          throw new BadRequestError('invalidReturnTo');
+        }
+
+        const url = await fastify.startOAuthFlow(request, reply, provider.name, returnTo);
+
+        return reply.redirect(url);
+      }
+    );
+
     fastify.get(
       `/auth/${provider.name}/callback`,
       {
@@ -132,6 +269,190 @@ export const authRoutes = async (fastify: FastifyInstance) => {
     );
   }
 
+  // Email a single-use sign-in link
+  fastify.post<{ Body: { email: string; returnTo?: string; locale?: Locale } }>(
+    '/auth/magic-link',
+    {
+      schema: {
+        tags: ['Authentication'],
+        description:
+          'Email a single-use, short-lived sign-in link. An account is created on first sign-in. Rate limited per email address.',
+        body: {
+          type: 'object',
+          required: ['email'],
+          properties: {
+            email: { type: 'string', format: 'email' },
+            returnTo: {
+              type: 'string',
+              description: 'Path or allowlisted URL to redirect to after sign-in',
+            },
+            locale: { type: 'string', enum: ['en', 'es', 'fr'] },
+          },
+        },
+        response: {
+          200: successSchema,
+          400: errorSchema,
+          429: errorSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const locale = request.locale;
+      const messages = getMessages(locale);
+      const { email, returnTo, locale: emailLocale = locale } = request.body;
+
+      if (returnTo && !isAllowedReturnTo(returnTo)) {
+        throw new BadRequestError('invalidReturnTo');
+      }
+
+      const result = await createMagicLink(email, returnTo);
+      if (result.status === 'rate_limited') {
+        reply.header('Retry-After', String(result.retryAfter));
+        throw new TooManyRequestsError('tooManyMagicLinkRequests');
+      }
+
+      // Failed deliveries are retried in the background
+      await sendMagicLinkEmail(email, result.token, emailLocale);
+
+      return reply.send({ success: true, message: messages.success.magicLinkSent });
+    }
+  );
+
+  // Confirm an email address from a verification link
+  fastify.post<{ Body: { token: string } }>(
+    '/auth/verify-email',
+    {
+      schema: {
+        tags: ['Authentication'],
+        description:
+          'Mark the email address as verified with the token from a verification link. A link sent to a pending address from PUT /api/users/:id switches the account to it.',
+        body: {
+          type: 'object',
+          required: ['token'],
+          properties: {
+            token: { type: 'string', minLength: 1 },
+          },
+        },
+        response: {
+          200: successSchema,
+          400: errorSchema,
+          409: errorSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Body: { token: string } }>, reply: FastifyReply) => {
+      const messages = getMessages(request.locale);
+
+      let payload: { verifyEmail?: number; email?: string };
+      try {
+        payload = fastify.verifyToken(request.body.token);
+      } catch {
+        throw new BadRequestError('emailVerificationInvalid');
+      }
+
+      const user = payload.verifyEmail ? await User.findByPk(payload.verifyEmail) : null;
+
+      // A link sent to a pending address switches the account to it
+      if (user?.pendingEmail && user.pendingEmail === payload.email) {
+        if ((await User.count({ where: { email: user.pendingEmail } })) > 0) {
+          throw new ConflictError('userAlreadyExists');
+        }
+        await user.update({
+          email: user.pendingEmail,
+          pendingEmail: null,
+          emailVerifiedAt: new Date(),
+        });
+        return reply.send({ success: true, message: messages.success.emailVerified });
+      }
+
+      // Links sent before an email change do not verify the new address
+      if (!user || user.email !== payload.email) {
+        throw new BadRequestError('emailVerificationInvalid');
+      }
+
+      if (!user.emailVerifiedAt) {
+        await user.update({ emailVerifiedAt: new Date() });
+      }
+
+      return reply.send({ success: true, message: messages.success.emailVerified });
+    }
+  );
+
+  // Sign in with an emailed link
+  fastify.get<{ Querystring: { token: string } }>(
+    '/auth/magic-link/verify',
+    {
+      schema: {
+        tags: ['Authentication'],
+        description:
+          'Sign in with the token from an emailed link. Issues the same tokens and cookies as an OAuth login, or redirects to the returnTo given when the link was requested. With two-factor authentication enabled, a challenge is issued instead (and the redirect gets twoFactor=required).',
+        querystring: {
+          type: 'object',
+          required: ['token'],
+          properties: {
+            token: { type: 'string', minLength: 1 },
+          },
+        },
+        response: {
+          200: loginResponseSchema,
+          400: errorSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const locale = request.locale;
+
+      const result = await consumeMagicLink(request.query.token);
+      if (result.status === 'expired') {
+        throw new BadRequestError('magicLinkExpired');
+      }
+      if (result.status === 'invalid') {
+        throw new BadRequestError('magicLinkInvalid');
+      }
+
+      const { user } = result;
+
+      if (result.created) {
+        void queueTemplatedMail(user.email, 'welcome', locale, {
+          name: user.name,
+          url: config.appUrl,
+        });
+      }
+
+      if (user.totpEnabledAt) {
+        await recordSignInEvent(request, 'auth.login_challenged', user.id, {
+          method: 'magic_link',
+        });
+
+        const challengeToken = fastify.issueTwoFactorChallenge(reply, user);
+        return result.returnTo
+          ? reply.redirect(withTwoFactorRequired(result.returnTo))
+          : reply.send({ twoFactorRequired: true, challengeToken });
+      }
+
+      // Issue access and refresh tokens (sets both cookies)
+      const tokens = await fastify.issueAuthTokens(reply, user);
+
+      await recordSignInEvent(request, 'auth.login', user.id, {
+        method: 'magic_link',
+        created: result.created,
+      });
+
+      if (result.returnTo) {
+        return reply.redirect(result.returnTo);
+      }
+
+      return reply.send({
+        ...tokens,
+        user: {
+          id: user.id,
+          name: user.name,
+          email: user.email,
+        },
+      });
+    }
+  );
+
   // Get current user
   fastify.get(
     '/auth/me',
@@ -149,28 +470,29 @@ export const authRoutes = async (fastify: FastifyInstance) => {
       },
     },
     async (request: FastifyRequest, reply: FastifyReply) => {
-      const locale = (request as any).locale as Locale;
-      const messages = getMessages(locale);
-
       try {
         const user = await User.findByPk(request.user!.userId);
 
         if (!user) {
-          return sendError(reply, 404, messages.errors.userNotFound);
+          throw new NotFoundError('userNotFound');
         }
 
         const userData = {
           id: user.id,
           name: user.name,
           email: user.email,
+          emailVerifiedAt: user.emailVerifiedAt ?? null,
           createdAt: user.createdAt,
           updatedAt: user.updatedAt,
         };
 
         return reply.send({ user: userData });
       } catch (error) {
+        if (error instanceof AppError) {
+          throw error;
+        }
         request.log.error(error);
-        return sendError(reply, 500, messages.errors.failedToFetchUser);
+        throw new InternalServerError('failedToFetchUser');
       }
     }
   );
@@ -181,7 +503,7 @@ export const authRoutes = async (fastify: FastifyInstance) => {
     {
       schema: {
         tags: ['Authentication'],
-        description: 'Logout and clear refresh token cookie',
+        description: 'Logout, revoke the refresh token and clear auth cookies',
         response: {
           200: {
             type: 'object',
@@ -194,15 +516,486 @@ export const authRoutes = async (fastify: FastifyInstance) => {
       },
     },
     async (request: FastifyRequest, reply: FastifyReply) => {
-      const locale = (request as any).locale as Locale;
+      const locale = request.locale;
       const messages = getMessages(locale);
 
+      const refreshToken = request.cookies[REFRESH_TOKEN_COOKIE];
+      if (refreshToken) {
+        await revokeRefreshToken(refreshToken);
+      }
+
+      // Also end the session of the presented access token, if any
+      try {
+        const decoded = fastify.verifyToken<any>(fastify.jwt.lookupToken(request));
+        if (decoded.sid) {
+          await revokeSession(decoded.userId, decoded.sid);
+        }
+      } catch {
+        // No valid access token: nothing else to revoke
+      }
+
       return reply
-        .clearCookie('refreshToken')
+        .clearCookie(ACCESS_TOKEN_COOKIE, { path: '/' })
+        .clearCookie(REFRESH_TOKEN_COOKIE, refreshTokenCookieOptions)
         .send({ success: true, message: messages.success.loggedOutSuccessfully });
     }
   );
 
+  // Log out of every session
+  fastify.post(
+    '/auth/logout-all',
+    {
+      onRequest: [fastify.authenticate],
+      schema: {
+        tags: ['Authentication'],
+        description: 'Revoke every session of the current user, including this one',
+        security: [{ bearerAuth: [] }],
+        response: {
+          200: successSchema,
+          401: errorSchema,
+          403: errorSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      refuseDelegatedCredentials(request);
+
+      const locale = request.locale;
+      const messages = getMessages(locale);
+
+      await revokeAllSessions(request.user.id);
+      await recordAuditEvent(request, {
+        action: 'auth.sessions_revoked',
+        targetType: 'user',
+        targetId: request.user.id,
+      });
+
+      return reply
+        .clearCookie(ACCESS_TOKEN_COOKIE, { path: '/' })
+        .clearCookie(REFRESH_TOKEN_COOKIE, refreshTokenCookieOptions)
+        .send({ success: true, message: messages.success.loggedOutEverywhere });
+    }
+  );
+
+  // List active sessions
+  fastify.get(
+    '/auth/sessions',
+    {
+      onRequest: [fastify.authenticate],
+      schema: {
+        tags: ['Authentication'],
+        description: 'List active sessions of the current user with device and IP information',
+        security: [{ bearerAuth: [] }],
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              sessions: { type: 'array', items: sessionSchema },
+            },
+          },
+          401: errorSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const sessions = await listActiveSessions(request.user.id);
+
+      return reply.send({
+        sessions: sessions.map((session) => ({
+          id: session.id,
+          userAgent: session.userAgent,
+          ipAddress: session.ipAddress,
+          lastUsedAt: session.lastUsedAt,
+          expiresAt: session.expiresAt,
+          createdAt: session.createdAt,
+          current: session.id === request.user.sessionId,
+        })),
+      });
+    }
+  );
+
+  // Revoke a single session
+  fastify.delete<{ Params: { id: string } }>(
+    '/auth/sessions/:id',
+    {
+      onRequest: [fastify.authenticate],
+      schema: {
+        tags: ['Authentication'],
+        description: "Revoke one of the current user's sessions",
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+          },
+          required: ['id'],
+        },
+        response: {
+          200: successSchema,
+          401: errorSchema,
+          403: errorSchema,
+          404: errorSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+      refuseDelegatedCredentials(request);
+
+      const locale = request.locale;
+      const messages = getMessages(locale);
+
+      const revoked = await revokeSession(request.user.id, request.params.id);
+      if (!revoked) {
+        throw new NotFoundError('sessionNotFound');
+      }
+
+      await recordAuditEvent(request, {
+        action: 'auth.session_revoked',
+        targetType: 'session',
+        targetId: request.params.id,
+      });
+
+      return reply.send({ success: true, message: messages.success.sessionRevoked });
+    }
+  );
+
+  // List linked OAuth identities
+  fastify.get(
+    '/auth/identities',
+    {
+      onRequest: [fastify.authenticate],
+      schema: {
+        tags: ['Authentication'],
+        description: 'List the OAuth provider accounts linked to the current user',
+        security: [{ bearerAuth: [] }],
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              identities: { type: 'array', items: identitySchema },
+            },
+          },
+          401: errorSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const identities = await UserIdentity.findAll({
+        where: { userId: request.user.id },
+        attributes: ['provider', 'email', 'needsReconsent', 'createdAt', 'updatedAt'],
+        order: [['createdAt', 'ASC']],
+      });
+
+      return reply.send({ identities });
+    }
+  );
+
+  // Start linking another OAuth provider to the current user
+  fastify.post<{ Params: { provider: ProviderName } }>(
+    '/auth/link/:provider',
+    {
+      onRequest: [fastify.authenticate],
+      schema: {
+        tags: ['Authentication'],
+        description:
+          'Start linking an OAuth provider to the current user. Returns the provider authorization URL to open in the browser.',
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: 'object',
+          properties: {
+            provider: { type: 'string', enum: ['google', 'github', 'microsoft', 'oidc'] },
+          },
+          required: ['provider'],
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              url: { type: 'string' },
+            },
+          },
+          401: errorSchema,
+          403: errorSchema,
+          503: errorSchema,
+        },
+      },
+    },
+    async (
+      request: FastifyRequest<{ Params: { provider: ProviderName } }>,
+      reply: FastifyReply
+    ) => {
+      refuseDelegatedCredentials(request);
+
+      const { provider } = request.params;
+      const oauthInstance = fastify.oauth[provider];
+
+      if (!oauthInstance) {
+        throw new ServiceUnavailableError('oauthProviderNotConfigured', { provider });
+      }
+
+      const linkToken = fastify.signToken(
+        { linkUserId: request.user.id, provider },
+        { expiresIn: 600 }
+      );
+      reply.setCookie(LINK_COOKIE, linkToken, { ...linkCookieOptions, maxAge: 600 });
+
+      const url = await fastify.startOAuthFlow(request, reply, provider);
+
+      return reply.send({ url });
+    }
+  );
+
+  // Confirm attaching a provider account that matched an existing account by email
+  fastify.post<{ Body: { linkToken: string } }>(
+    '/auth/link/confirm',
+    {
+      onRequest: [fastify.authenticate],
+      schema: {
+        tags: ['Authentication'],
+        description:
+          'Confirm linking a provider account returned by a sign-in that matched this account by email. Must be called while signed in to the existing account.',
+        security: [{ bearerAuth: [] }],
+        body: {
+          type: 'object',
+          required: ['linkToken'],
+          properties: {
+            linkToken: { type: 'string' },
+          },
+        },
+        response: {
+          200: successSchema,
+          400: errorSchema,
+          401: errorSchema,
+          403: errorSchema,
+          409: errorSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Body: { linkToken: string } }>, reply: FastifyReply) => {
+      refuseDelegatedCredentials(request);
+
+      const locale = request.locale;
+      const messages = getMessages(locale);
+
+      let pendingLink: { userId: number; provider: string; userInfo: OAuthUserInfo };
+      try {
+        ({ pendingLink } = fastify.verifyToken<{ pendingLink: typeof pendingLink }>(
+          request.body.linkToken
+        ));
+      } catch {
+        throw new BadRequestError('invalidLinkToken');
+      }
+
+      if (!pendingLink || pendingLink.userId !== request.user.id) {
+        throw new ForbiddenError('invalidLinkToken');
+      }
+
+      const result = await linkIdentity(
+        request.user.id,
+        pendingLink.provider,
+        pendingLink.userInfo
+      );
+      if (result.status === 'conflict') {
+        throw new ConflictError('identityLinkedToAnotherUser');
+      }
+
+      await recordAuditEvent(request, {
+        action: 'auth.identity_linked',
+        targetType: 'user',
+        targetId: request.user.id,
+        metadata: { provider: pendingLink.provider, confirmed: true },
+      });
+
+      return reply.send({ success: true, message: messages.success.identityLinked });
+    }
+  );
+
+  // Unlink an OAuth provider from the current user
+  fastify.delete<{ Params: { provider: string } }>(
+    '/auth/identities/:provider',
+    {
+      onRequest: [fastify.authenticate],
+      schema: {
+        tags: ['Authentication'],
+        description:
+          'Unlink an OAuth provider from the current user (refused if the user would have no way left to sign in)',
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: 'object',
+          properties: {
+            provider: { type: 'string' },
+          },
+          required: ['provider'],
+        },
+        response: {
+          200: successSchema,
+          400: errorSchema,
+          401: errorSchema,
+          403: errorSchema,
+          404: errorSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Params: { provider: string } }>, reply: FastifyReply) => {
+      refuseDelegatedCredentials(request);
+
+      const locale = request.locale;
+      const messages = getMessages(locale);
+
+      const result = await unlinkIdentity(request.user.id, request.params.provider);
+
+      if (result.status === 'not_found') {
+        throw new NotFoundError('identityNotFound');
+      }
+      if (result.status === 'last_sign_in_method') {
+        throw new BadRequestError('cannotUnlinkLastIdentity');
+      }
+
+      await recordAuditEvent(request, {
+        action: 'auth.identity_unlinked',
+        targetType: 'user',
+        targetId: request.user.id,
+        metadata: { provider: request.params.provider },
+      });
+
+      return reply.send({ success: true, message: messages.success.identityUnlinked });
+    }
+  );
+
+  // Switch the organization carried by this session's access tokens
+  fastify.put<{ Body: { organizationId: number | null } }>(
+    '/auth/organization',
+    {
+      onRequest: [fastify.authenticate],
+      schema: {
+        tags: ['Authentication'],
+        description:
+          'Set the active organization of the current session (null to clear it) and issue a new access token carrying it',
+        security: [{ bearerAuth: [] }],
+        body: {
+          type: 'object',
+          required: ['organizationId'],
+          properties: {
+            organizationId: { type: ['integer', 'null'] },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              token: { type: 'string' },
+              expiresIn: { type: 'number', description: 'Access token lifetime in seconds' },
+              organizationId: { type: ['number', 'null'] },
+            },
+          },
+          401: errorSchema,
+          403: errorSchema,
+        },
+      },
+    },
+    async (
+      request: FastifyRequest<{ Body: { organizationId: number | null } }>,
+      reply: FastifyReply
+    ) => {
+      refuseDelegatedCredentials(request);
+
+      const { sessionId } = request.user;
+      const { organizationId } = request.body;
+
+      // Legacy tokens have no session to remember the choice
+      if (!sessionId) {
+        throw new ForbiddenError('organizationSwitchRequiresSession');
+      }
+
+      const result = await setActiveOrganization(sessionId, request.user.id, organizationId);
+      if (result === 'not_member') {
+        throw new ForbiddenError('notOrganizationMember');
+      }
+
+      const user = await User.findByPk(request.user.id);
+      if (!user) {
+        throw new UnauthorizedError('userNotFound');
+      }
+
+      const tokens = await fastify.issueAccessToken(reply, user, sessionId);
+
+      return reply.send({ ...tokens, organizationId });
+    }
+  );
+
+  // Exchange a refresh token for a new access token (rotates the refresh token)
+  fastify.post(
+    '/auth/refresh',
+    {
+      schema: {
+        tags: ['Authentication'],
+        description:
+          'Exchange a refresh token (cookie or body) for a new access token. The refresh token is rotated on every use.',
+        body: {
+          type: 'object',
+          nullable: true,
+          properties: {
+            refreshToken: { type: 'string' },
+          },
+        },
+        response: {
+          200: tokenResponseSchema,
+          401: errorSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const locale = request.locale;
+      const body = request.body as { refreshToken?: string } | undefined;
+      const presented = body?.refreshToken || request.cookies[REFRESH_TOKEN_COOKIE];
+
+      if (!presented) {
+        throw new UnauthorizedError('invalidRefreshToken');
+      }
+
+      const result = await rotateRefreshToken(presented);
+
+      if (result.status === 'reused') {
+        request.log.warn('Refresh token reuse detected, token family revoked');
+        await recordAuditEvent(request, {
+          action: 'auth.refresh_token_reused',
+          actorId: null,
+          targetType: 'user',
+          targetId: result.userId,
+        });
+
+        const owner = await User.findByPk(result.userId);
+        if (owner) {
+          void queueTemplatedMail(owner.email, 'securityAlert', locale, {
+            name: owner.name,
+            url: config.appUrl,
+          });
+        }
+      }
+
+      if (result.status !== 'rotated') {
+        reply.clearCookie(REFRESH_TOKEN_COOKIE, refreshTokenCookieOptions);
+        throw new UnauthorizedError('invalidRefreshToken');
+      }
+
+      const user = await User.findByPk(result.userId);
+      if (!user) {
+        throw new UnauthorizedError('invalidRefreshToken');
+      }
+
+      const tokens = await fastify.issueAuthTokens(reply, user, result.refreshToken);
+
+      return reply.send({
+        ...tokens,
+        user: {
+          id: user.id,
+          name: user.name,
+          email: user.email,
+        },
+      });
+    }
+  );
+
   // Get available authentication providers
   fastify.get(
     '/auth/providers',
@@ -221,6 +1014,7 @@ export const authRoutes = async (fastify: FastifyInstance) => {
                   properties: {
                     name: { type: 'string' },
                     displayName: { type: 'string' },
+                    type: { type: 'string', enum: ['oauth', 'magic_link', 'password', 'webauthn'] },
                     loginUrl: { type: 'string' },
                   },
                 },
@@ -231,11 +1025,38 @@ export const authRoutes = async (fastify: FastifyInstance) => {
       },
     },
     async (request: FastifyRequest, reply: FastifyReply) => {
-      const providers = config.oauth.enabledProviders.map((p) => ({
-        name: p.name,
-        displayName: p.displayName,
-        loginUrl: `/auth/${p.name}`,
-      }));
+      const providers = [
+        ...config.oauth.enabledProviders.map((p) => ({
+          name: p.name,
+          displayName: p.displayName,
+          type: 'oauth',
+          loginUrl: `/auth/${p.name}`,
+        })),
+        // Not a redirect: POST an email address to this URL
+        {
+          name: 'magic-link',
+          displayName: 'Email link',
+          type: 'magic_link',
+          loginUrl: '/auth/magic-link',
+        },
+        ...(config.passwordAuth.enabled
+          ? [
+              {
+                name: 'password',
+                displayName: 'Email and password',
+                type: 'password',
+                loginUrl: '/auth/login',
+              },
+            ]
+          : []),
+        // POST here for options, then the browser's credential to /auth/webauthn/login/verify
+        {
+          name: 'passkey',
+          displayName: 'Passkey',
+          type: 'webauthn',
+          loginUrl: '/auth/webauthn/login/options',
+        },
+      ];
 
       return reply.send({ providers });
     }
@@ -264,37 +1085,26 @@ export const authRoutes = async (fastify: FastifyInstance) => {
         },
       },
       async (request: FastifyRequest, reply: FastifyReply) => {
-        const locale = (request as any).locale as Locale;
-        const messages = getMessages(locale);
         const { email, name } = request.body as { email?: string; name?: string };
 
         if (!email) {
-          return sendError(reply, 400, messages.errors.emailRequired);
+          throw new BadRequestError('emailRequired');
         }
 
         // Find or create user
         const [user] = await User.findOrCreate({
-          where: { email },
+          where: { email: normalizeEmail(email) },
           defaults: {
             name: name || 'Test User',
             email,
           },
         });
 
-        // Generate token
-        const token = fastify.jwt.sign(
-          {
-            userId: user.id,
-            email: user.email,
-            role: user.role,
-          },
-          {
-            expiresIn: '7d',
-          }
-        );
+        // Issue access and refresh tokens
+        const tokens = await fastify.issueAuthTokens(reply, user);
 
         return reply.send({
-          token,
+          ...tokens,
           user: {
             id: user.id,
             name: user.name,
@@ -0,0 +1,417 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { User } from '../../models/index.js';
+import { normalizeEmail } from '../../models/User.js';
+import { getMessages, type Locale } from '../../i18n/messages.js';
+import {
+  BadRequestError,
+  ConflictError,
+  ForbiddenError,
+  LockedError,
+  UnauthorizedError,
+} from '../../utils/errors.js';
+import { errorSchema, loginResponseSchema, successSchema } from '../../schemas/common.js';
+import { config } from '../../config/index.js';
+import {
+  checkPasswordPolicy,
+  hashPassword,
+  loginWithPassword,
+  markEmailVerified,
+  passwordFingerprint,
+  sendVerificationEmail,
+  setPassword,
+  verifyPassword,
+  type PasswordPolicyViolation,
+} from '../../utils/passwords.js';
+import { revokeAllSessions } from '../../utils/sessions.js';
+import { queueTemplatedMail } from '../../mailer/index.js';
+import { recordAuditEvent, recordSignInEvent } from '../../utils/audit.js';
+
+interface RegisterBody {
+  email: string;
+  password: string;
+  name?: string;
+  locale?: Locale;
+}
+
+interface LoginBody {
+  email: string;
+  password: string;
+}
+
+interface ChangePasswordBody {
+  currentPassword: string;
+  newPassword: string;
+}
+
+interface ResetPasswordBody {
+  token: string;
+  password: string;
+}
+
+// The policy enforces the real limits with localized messages
+const passwordSchema = { type: 'string', minLength: 1, maxLength: 1024 } as const;
+const localeSchema = { type: 'string', enum: ['en', 'es', 'fr'] } as const;
+
+const policyError = (violation: PasswordPolicyViolation): BadRequestError => {
+  switch (violation.rule) {
+    case 'too_short':
+      return new BadRequestError('passwordTooShort', { minLength: String(violation.minLength) });
+    case 'too_long':
+      return new BadRequestError('passwordTooLong', { maxLength: String(violation.maxLength) });
+    case 'too_common':
+      return new BadRequestError('passwordTooCommon');
+    case 'contains_email':
+      return new BadRequestError('passwordContainsEmail');
+  }
+};
+
+const linkWithToken = (base: string, token: string): string => {
+  const url = new URL(base);
+  url.searchParams.set('token', token);
+  return url.toString();
+};
+
+// Email/password sign-in, registered unless PASSWORD_AUTH_ENABLED=false
+export const passwordRoutes = async (fastify: FastifyInstance) => {
+  // Email a link proving the user owns their address
+  const sendVerificationLink = (user: User, locale: Locale) => {
+    const token = fastify.signToken(
+      { verifyEmail: user.id, email: user.email },
+      { expiresIn: config.passwordAuth.verificationTtl }
+    );
+
+    return sendVerificationEmail(user, token, locale);
+  };
+
+  // Create an account with a password
+  fastify.post<{ Body: RegisterBody }>(
+    '/auth/register',
+    {
+      schema: {
+        tags: ['Authentication'],
+        description:
+          'Create an account with an email and password. A verification link is emailed to the address, and the password signs in once it has been opened.',
+        body: {
+          type: 'object',
+          required: ['email', 'password'],
+          properties: {
+            email: { type: 'string', format: 'email' },
+            password: passwordSchema,
+            name: { type: 'string', minLength: 1, maxLength: 255 },
+            locale: localeSchema,
+          },
+        },
+        response: {
+          201: successSchema,
+          400: errorSchema,
+          409: errorSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Body: RegisterBody }>, reply: FastifyReply) => {
+      const locale = request.locale;
+      const { password, name, locale: emailLocale = locale } = request.body;
+      const email = normalizeEmail(request.body.email);
+
+      const violation = checkPasswordPolicy(password, email);
+      if (violation) {
+        throw policyError(violation);
+      }
+
+      // Existing accounts (e.g. from OAuth) add a password through the reset flow instead
+      if (await User.findOne({ where: { email } })) {
+        throw new ConflictError('userAlreadyExists');
+      }
+
+      const user = await User.create({
+        name: name ?? email.split('@')[0],
+        email,
+        passwordHash: await hashPassword(password),
+        passwordChangedAt: new Date(),
+      });
+
+      await sendVerificationLink(user, emailLocale);
+
+      // Not signed in yet: whoever registered may not own the address
+      return reply
+        .code(201)
+        .send({ success: true, message: getMessages(locale).success.accountCreated });
+    }
+  );
+
+  // Sign in with an email and password
+  fastify.post<{ Body: LoginBody }>(
+    '/auth/login',
+    {
+      schema: {
+        tags: ['Authentication'],
+        description:
+          'Sign in with an email and password. Issues the same tokens and cookies as an OAuth login, or a challenge for POST /auth/2fa/verify when two-factor authentication is enabled. Refused until the email address is verified; repeated failures lock the account for a while.',
+        body: {
+          type: 'object',
+          required: ['email', 'password'],
+          properties: {
+            email: { type: 'string', format: 'email' },
+            password: passwordSchema,
+          },
+        },
+        response: {
+          200: loginResponseSchema,
+          401: errorSchema,
+          403: errorSchema,
+          423: errorSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Body: LoginBody }>, reply: FastifyReply) => {
+      const result = await loginWithPassword(request.body.email, request.body.password);
+      if (result.status === 'locked') {
+        if (result.lockedNow) {
+          await recordSignInEvent(request, 'auth.locked', result.userId, {
+            method: 'password',
+            retryAfter: result.retryAfter,
+          });
+        }
+        reply.header('Retry-After', String(result.retryAfter));
+        throw new LockedError('accountLocked');
+      }
+      if (result.status === 'invalid') {
+        throw new UnauthorizedError('invalidCredentials');
+      }
+      if (result.status === 'unverified') {
+        throw new ForbiddenError('emailNotVerified');
+      }
+
+      const { user } = result;
+
+      if (user.totpEnabledAt) {
+        await recordSignInEvent(request, 'auth.login_challenged', user.id, { method: 'password' });
+
+        const challengeToken = fastify.issueTwoFactorChallenge(reply, user);
+        return reply.send({ twoFactorRequired: true, challengeToken });
+      }
+
+      const tokens = await fastify.issueAuthTokens(reply, user);
+
+      await recordSignInEvent(request, 'auth.login', user.id, { method: 'password' });
+
+      return reply.send({
+        ...tokens,
+        user: {
+          id: user.id,
+          name: user.name,
+          email: user.email,
+        },
+      });
+    }
+  );
+
+  // Change the password of the signed-in user
+  fastify.put<{ Body: ChangePasswordBody }>(
+    '/auth/password',
+    {
+      onRequest: fastify.authenticate,
+      schema: {
+        tags: ['Authentication'],
+        description:
+          'Change the password of the current user. Every other session is signed out. Accounts without a password set one through the forgot password flow.',
+        security: [{ bearerAuth: [] }],
+        body: {
+          type: 'object',
+          required: ['currentPassword', 'newPassword'],
+          properties: {
+            currentPassword: passwordSchema,
+            newPassword: passwordSchema,
+          },
+        },
+        response: {
+          200: successSchema,
+          400: errorSchema,
+          401: errorSchema,
+          403: errorSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Body: ChangePasswordBody }>, reply: FastifyReply) => {
+      const locale = request.locale;
+      const messages = getMessages(locale);
+      const { currentPassword, newPassword } = request.body;
+
+      if (request.user.apiKeyId || request.user.oauthClientId) {
+        throw new ForbiddenError('apiKeyRequiresSession');
+      }
+
+      const user = await User.findByPk(request.user.id);
+      if (!user) {
+        throw new UnauthorizedError('userNotFound');
+      }
+      if (!user.passwordHash) {
+        throw new BadRequestError('passwordNotSet');
+      }
+      if (!(await verifyPassword(currentPassword, user.passwordHash))) {
+        throw new BadRequestError('currentPasswordIncorrect');
+      }
+
+      const violation = checkPasswordPolicy(newPassword, user.email);
+      if (violation) {
+        throw policyError(violation);
+      }
+
+      await setPassword(user, newPassword);
+      await revokeAllSessions(user.id, request.user.sessionId);
+      await recordAuditEvent(request, {
+        action: 'auth.password_changed',
+        targetType: 'user',
+        targetId: user.id,
+      });
+
+      return reply.send({ success: true, message: messages.success.passwordChanged });
+    }
+  );
+
+  // Email a password reset link
+  fastify.post<{ Body: { email: string; locale?: Locale } }>(
+    '/auth/password/forgot',
+    {
+      schema: {
+        tags: ['Authentication'],
+        description:
+          'Email a link to choose a new password. Also lets accounts created through OAuth or a magic link set a first password. The response is the same whether or not the account exists.',
+        body: {
+          type: 'object',
+          required: ['email'],
+          properties: {
+            email: { type: 'string', format: 'email' },
+            locale: localeSchema,
+          },
+        },
+        response: {
+          200: successSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const locale = request.locale;
+      const messages = getMessages(locale);
+      const { email, locale: emailLocale = locale } = request.body;
+
+      const user = await User.findOne({ where: { email: normalizeEmail(email) } });
+      if (user) {
+        const token = fastify.signToken(
+          { passwordReset: user.id, fingerprint: passwordFingerprint(user) },
+          { expiresIn: config.passwordAuth.resetTtl }
+        );
+
+        // Not awaited, so the response time does not reveal whether the account exists
+        void queueTemplatedMail(user.email, 'passwordReset', emailLocale, {
+          name: user.name,
+          url: linkWithToken(config.passwordAuth.resetUrl, token),
+          expiresInMinutes: Math.round(config.passwordAuth.resetTtl / 60),
+        });
+      }
+
+      return reply.send({ success: true, message: messages.success.passwordResetEmailSent });
+    }
+  );
+
+  // Choose a new password from a reset link
+  fastify.post<{ Body: ResetPasswordBody }>(
+    '/auth/password/reset',
+    {
+      schema: {
+        tags: ['Authentication'],
+        description:
+          'Set a new password with the token from a reset link. The link works once, and every session is signed out. On an account whose email was never verified, its other credentials are removed too.',
+        body: {
+          type: 'object',
+          required: ['token', 'password'],
+          properties: {
+            token: { type: 'string', minLength: 1 },
+            password: passwordSchema,
+          },
+        },
+        response: {
+          200: successSchema,
+          400: errorSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Body: ResetPasswordBody }>, reply: FastifyReply) => {
+      const locale = request.locale;
+      const messages = getMessages(locale);
+      const { token, password } = request.body;
+
+      let payload: { passwordReset?: number; fingerprint?: string };
+      try {
+        payload = fastify.verifyToken(token);
+      } catch {
+        throw new BadRequestError('passwordResetInvalid');
+      }
+
+      // The fingerprint no longer matches once the password has changed
+      const user = payload.passwordReset ? await User.findByPk(payload.passwordReset) : null;
+      if (!user || payload.fingerprint !== passwordFingerprint(user)) {
+        throw new BadRequestError('passwordResetInvalid');
+      }
+
+      const violation = checkPasswordPolicy(password, user.email);
+      if (violation) {
+        throw policyError(violation);
+      }
+
+      // Receiving the link proves the address, as a magic link does
+      await markEmailVerified(user);
+      await setPassword(user, password);
+      await revokeAllSessions(user.id);
+      await recordAuditEvent(request, {
+        action: 'auth.password_reset',
+        actorId: user.id,
+        targetType: 'user',
+        targetId: user.id,
+      });
+
+      return reply.send({ success: true, message: messages.success.passwordReset });
+    }
+  );
+
+  // Send the verification link again
+  fastify.post<{ Body: { locale?: Locale } }>(
+    '/auth/verify-email/resend',
+    {
+      onRequest: fastify.authenticate,
+      schema: {
+        tags: ['Authentication'],
+        description: 'Email a new verification link to the current user',
+        security: [{ bearerAuth: [] }],
+        body: {
+          type: 'object',
+          nullable: true,
+          properties: {
+            locale: localeSchema,
+          },
+        },
+        response: {
+          200: successSchema,
+          401: errorSchema,
+          409: errorSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Body: { locale?: Locale } }>, reply: FastifyReply) => {
+      const locale = request.locale;
+      const messages = getMessages(locale);
+
+      const user = await User.findByPk(request.user.id);
+      if (!user) {
+        throw new UnauthorizedError('userNotFound');
+      }
+      if (user.emailVerifiedAt) {
+        throw new ConflictError('emailAlreadyVerified');
+      }
+
+      await sendVerificationLink(user, request.body?.locale ?? locale);
+
+      return reply.send({ success: true, message: messages.success.verificationEmailSent });
+    }
+  );
+};
@@ -0,0 +1,372 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { User } from '../../models/index.js';
+import { getMessages } from '../../i18n/messages.js';
+import {
+  BadRequestError,
+  ConflictError,
+  ForbiddenError,
+  LockedError,
+  UnauthorizedError,
+} from '../../utils/errors.js';
+import { errorSchema, successSchema, tokenResponseSchema } from '../../schemas/common.js';
+import {
+  countRemainingRecoveryCodes,
+  disableTotp,
+  enableTotp,
+  isTwoFactorRequired,
+  regenerateRecoveryCodes,
+  startTotpEnrollment,
+  verifySecondFactor,
+} from '../../utils/twoFactor.js';
+import {
+  clearFailedLogins,
+  lockoutRemaining,
+  recordFailedLogin,
+} from '../../utils/loginLockout.js';
+import { recordAuditEvent, recordSignInEvent } from '../../utils/audit.js';
+import { TWO_FACTOR_CHALLENGE_COOKIE, refreshTokenCookieOptions } from '../../plugins/auth.js';
+
+interface CodeBody {
+  code: string;
+}
+
+interface VerifyBody extends CodeBody {
+  challengeToken?: string;
+}
+
+// A 6-digit TOTP code or a recovery code such as 4f9a1-c03e7
+const codeSchema = { type: 'string', minLength: 6, maxLength: 32 } as const;
+
+const codeBodySchema = {
+  type: 'object',
+  required: ['code'],
+  properties: {
+    code: codeSchema,
+  },
+} as const;
+
+const recoveryCodesSchema = {
+  type: 'object',
+  properties: {
+    recoveryCodes: {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'Single-use codes for when the authenticator is unavailable, shown only once',
+    },
+  },
+} as const;
+
+// Enrollment and management of the second factor, plus the second step of a login
+export const twoFactorRoutes = async (fastify: FastifyInstance) => {
+  // Resolve the user managing their own second factor (API keys cannot)
+  const loadSessionUser = async (request: FastifyRequest): Promise<User> => {
+    if (request.user.apiKeyId || request.user.oauthClientId) {
+      throw new ForbiddenError('apiKeyRequiresSession');
+    }
+
+    const user = await User.findByPk(request.user.id);
+    if (!user) {
+      throw new UnauthorizedError('userNotFound');
+    }
+
+    return user;
+  };
+
+  // Get the user ID of a challenge issued by a first-factor login
+  const readChallenge = (request: FastifyRequest<{ Body: VerifyBody }>): number | null => {
+    const token = request.body.challengeToken || request.cookies[TWO_FACTOR_CHALLENGE_COOKIE];
+    if (!token) {
+      return null;
+    }
+
+    try {
+      return fastify.verifyToken<{ twoFactorChallenge: number }>(token).twoFactorChallenge ?? null;
+    } catch {
+      return null;
+    }
+  };
+
+  // Second-factor status of the current user
+  fastify.get(
+    '/auth/2fa',
+    {
+      onRequest: fastify.authenticate,
+      schema: {
+        tags: ['Authentication'],
+        description:
+          'Whether two-factor authentication is enabled or required for the current user',
+        security: [{ bearerAuth: [] }],
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              enabled: { type: 'boolean' },
+              required: { type: 'boolean', description: 'Required for the role of the user' },
+              recoveryCodesRemaining: { type: 'number' },
+            },
+          },
+          401: errorSchema,
+          403: errorSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const user = await loadSessionUser(request);
+
+      return reply.send({
+        enabled: !!user.totpEnabledAt,
+        required: isTwoFactorRequired(user),
+        recoveryCodesRemaining: user.totpEnabledAt ? await countRemainingRecoveryCodes(user.id) : 0,
+      });
+    }
+  );
+
+  // Start TOTP enrollment
+  fastify.post(
+    '/auth/2fa/totp',
+    {
+      onRequest: fastify.authenticate,
+      schema: {
+        tags: ['Authentication'],
+        description:
+          'Generate a TOTP secret for an authenticator app. Show otpauthUri as a QR code (or the secret for manual entry), then confirm with a code from the app. Starting again replaces an unconfirmed secret.',
+        security: [{ bearerAuth: [] }],
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              secret: { type: 'string', description: 'Base32 secret for manual entry' },
+              otpauthUri: { type: 'string' },
+              qrPayload: { type: 'string', description: 'Text to encode in the QR code' },
+            },
+          },
+          401: errorSchema,
+          403: errorSchema,
+          409: errorSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const user = await loadSessionUser(request);
+
+      const result = await startTotpEnrollment(user);
+      if (result.status === 'already_enabled') {
+        throw new ConflictError('twoFactorAlreadyEnabled');
+      }
+
+      return reply.send({
+        secret: result.secret,
+        otpauthUri: result.otpauthUri,
+        qrPayload: result.otpauthUri,
+      });
+    }
+  );
+
+  // Confirm TOTP enrollment with a first code
+  fastify.post<{ Body: CodeBody }>(
+    '/auth/2fa/totp/confirm',
+    {
+      onRequest: fastify.authenticate,
+      schema: {
+        tags: ['Authentication'],
+        description:
+          'Enable two-factor authentication with a code from the authenticator app. Returns ten recovery codes, each usable once instead of a code.',
+        security: [{ bearerAuth: [] }],
+        body: codeBodySchema,
+        response: {
+          200: recoveryCodesSchema,
+          400: errorSchema,
+          401: errorSchema,
+          403: errorSchema,
+          409: errorSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Body: CodeBody }>, reply: FastifyReply) => {
+      const user = await loadSessionUser(request);
+
+      const result = await enableTotp(user, request.body.code);
+      switch (result.status) {
+        case 'already_enabled':
+          throw new ConflictError('twoFactorAlreadyEnabled');
+        case 'not_started':
+          throw new BadRequestError('twoFactorSetupNotStarted');
+        case 'invalid_code':
+          throw new BadRequestError('invalidTwoFactorCode');
+      }
+
+      await recordAuditEvent(request, {
+        action: 'auth.two_factor_enabled',
+        targetType: 'user',
+        targetId: user.id,
+      });
+
+      return reply.send({ recoveryCodes: result.recoveryCodes });
+    }
+  );
+
+  // Replace the recovery codes
+  fastify.post<{ Body: CodeBody }>(
+    '/auth/2fa/recovery-codes',
+    {
+      onRequest: fastify.authenticate,
+      schema: {
+        tags: ['Authentication'],
+        description:
+          'Replace every recovery code with ten new ones. Requires a current code (or an unused recovery code).',
+        security: [{ bearerAuth: [] }],
+        body: codeBodySchema,
+        response: {
+          200: recoveryCodesSchema,
+          400: errorSchema,
+          401: errorSchema,
+          403: errorSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Body: CodeBody }>, reply: FastifyReply) => {
+      const user = await loadSessionUser(request);
+
+      if (!user.totpEnabledAt) {
+        throw new BadRequestError('twoFactorNotEnabled');
+      }
+      if (!(await verifySecondFactor(user, request.body.code))) {
+        throw new BadRequestError('invalidTwoFactorCode');
+      }
+
+      const recoveryCodes = await regenerateRecoveryCodes(user);
+      await recordAuditEvent(request, {
+        action: 'auth.recovery_codes_regenerated',
+        targetType: 'user',
+        targetId: user.id,
+      });
+
+      return reply.send({ recoveryCodes });
+    }
+  );
+
+  // Turn two-factor authentication off
+  fastify.delete<{ Body: CodeBody }>(
+    '/auth/2fa/totp',
+    {
+      onRequest: fastify.authenticate,
+      schema: {
+        tags: ['Authentication'],
+        description:
+          'Disable two-factor authentication and delete the recovery codes. Requires a current code (or an unused recovery code). Not allowed when 2FA is required for the role of the user.',
+        security: [{ bearerAuth: [] }],
+        body: codeBodySchema,
+        response: {
+          200: successSchema,
+          400: errorSchema,
+          401: errorSchema,
+          403: errorSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Body: CodeBody }>, reply: FastifyReply) => {
+      const messages = getMessages(request.locale);
+      const user = await loadSessionUser(request);
+
+      if (!user.totpEnabledAt) {
+        throw new BadRequestError('twoFactorNotEnabled');
+      }
+      if (isTwoFactorRequired(user)) {
+        throw new ForbiddenError('twoFactorRequiredCannotDisable');
+      }
+      if (!(await verifySecondFactor(user, request.body.code))) {
+        throw new BadRequestError('invalidTwoFactorCode');
+      }
+
+      await disableTotp(user);
+      await recordAuditEvent(request, {
+        action: 'auth.two_factor_disabled',
+        targetType: 'user',
+        targetId: user.id,
+      });
+
+      return reply.send({ success: true, message: messages.success.twoFactorDisabled });
+    }
+  );
+
+  // Second step of a login
+  fastify.post<{ Body: VerifyBody }>(
+    '/auth/2fa/verify',
+    {
+      schema: {
+        tags: ['Authentication'],
+        description:
+          'Finish a login that answered twoFactorRequired with a code from the authenticator app or a recovery code. The challenge is read from challengeToken or, for browsers, from its cookie. Wrong codes count toward the account lockout.',
+        body: {
+          type: 'object',
+          required: ['code'],
+          properties: {
+            code: codeSchema,
+            challengeToken: { type: 'string' },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              ...tokenResponseSchema.properties,
+              recoveryCodesRemaining: {
+                type: 'number',
+                description: 'Only set when a recovery code was used',
+              },
+            },
+          },
+          401: errorSchema,
+          423: errorSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Body: VerifyBody }>, reply: FastifyReply) => {
+      const userId = readChallenge(request);
+      const user = userId ? await User.findByPk(userId) : null;
+      if (!user?.totpEnabledAt) {
+        throw new UnauthorizedError('twoFactorChallengeInvalid');
+      }
+
+      const retryAfter = lockoutRemaining(user);
+      if (retryAfter > 0) {
+        reply.header('Retry-After', String(retryAfter));
+        throw new LockedError('accountLocked');
+      }
+
+      const method = await verifySecondFactor(user, request.body.code);
+      if (!method) {
+        const lockedFor = await recordFailedLogin(user);
+        if (lockedFor) {
+          await recordSignInEvent(request, 'auth.locked', user.id, {
+            method: 'two_factor',
+            retryAfter: lockedFor,
+          });
+          reply.header('Retry-After', String(lockedFor));
+          throw new LockedError('accountLocked');
+        }
+        throw new UnauthorizedError('invalidTwoFactorCode');
+      }
+
+      await clearFailedLogins(user);
+      reply.clearCookie(TWO_FACTOR_CHALLENGE_COOKIE, refreshTokenCookieOptions);
+
+      const tokens = await fastify.issueAuthTokens(reply, user);
+
+      // The first factor was recorded with the challenge
+      await recordSignInEvent(request, 'auth.login', user.id, { method });
+
+      return reply.send({
+        ...tokens,
+        user: {
+          id: user.id,
+          name: user.name,
+          email: user.email,
+        },
+        ...(method === 'recovery_code' && {
+          recoveryCodesRemaining: await countRemainingRecoveryCodes(user.id),
+        }),
+      });
+    }
+  );
+};
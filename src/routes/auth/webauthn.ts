@@ -0,0 +1,339 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { User, WebAuthnCredential } from '../../models/index.js';
+import { getMessages } from '../../i18n/messages.js';
+import {
+  BadRequestError,
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+  UnauthorizedError,
+} from '../../utils/errors.js';
+import {
+  errorSchema,
+  loginResponseSchema,
+  passkeySchema,
+  successSchema,
+} from '../../schemas/common.js';
+import {
+  createAuthenticationOptions,
+  createRegistrationOptions,
+  verifyAuthentication,
+  verifyRegistration,
+  type AuthenticationResponseJSON,
+  type RegistrationResponseJSON,
+} from '../../utils/webauthn.js';
+import { recordAuditEvent, recordSignInEvent } from '../../utils/audit.js';
+
+interface RegisterVerifyBody {
+  credential: RegistrationResponseJSON;
+  name?: string;
+}
+
+interface LoginVerifyBody {
+  credential: AuthenticationResponseJSON;
+}
+
+// Options are passed to the browser as they are, so the schema keeps every field
+const optionsSchema = {
+  type: 'object',
+  additionalProperties: true,
+  properties: {
+    challenge: { type: 'string', description: 'Base64url challenge, valid once' },
+  },
+} as const;
+
+const credentialBaseProperties = {
+  id: { type: 'string', minLength: 1 },
+  rawId: { type: 'string', minLength: 1, maxLength: 1366 },
+  type: { type: 'string', enum: ['public-key'] },
+} as const;
+
+const toPasskey = (credential: WebAuthnCredential) => ({
+  id: credential.id,
+  name: credential.name,
+  transports: credential.transports,
+  lastUsedAt: credential.lastUsedAt ?? null,
+  createdAt: credential.createdAt,
+});
+
+// Passkey registration, sign-in and management
+export const webauthnRoutes = async (fastify: FastifyInstance) => {
+  // Start registering a passkey for the current user
+  fastify.post(
+    '/auth/webauthn/register/options',
+    {
+      onRequest: fastify.authenticate,
+      schema: {
+        tags: ['Authentication'],
+        description:
+          'Get the options for navigator.credentials.create() to register a passkey for the current user',
+        security: [{ bearerAuth: [] }],
+        response: {
+          200: optionsSchema,
+          401: errorSchema,
+          403: errorSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      if (request.user.apiKeyId || request.user.oauthClientId) {
+        throw new ForbiddenError('apiKeyRequiresSession');
+      }
+
+      const user = await User.findByPk(request.user.id);
+      if (!user) {
+        throw new UnauthorizedError('userNotFound');
+      }
+
+      return reply.send(await createRegistrationOptions(user));
+    }
+  );
+
+  // Finish registering a passkey
+  fastify.post<{ Body: RegisterVerifyBody }>(
+    '/auth/webauthn/register/verify',
+    {
+      onRequest: fastify.authenticate,
+      schema: {
+        tags: ['Authentication'],
+        description:
+          'Register the credential returned by navigator.credentials.create() (in its toJSON() form)',
+        security: [{ bearerAuth: [] }],
+        body: {
+          type: 'object',
+          required: ['credential'],
+          properties: {
+            name: { type: 'string', minLength: 1, maxLength: 255 },
+            credential: {
+              type: 'object',
+              required: ['id', 'rawId', 'type', 'response'],
+              properties: {
+                ...credentialBaseProperties,
+                response: {
+                  type: 'object',
+                  required: ['clientDataJSON', 'attestationObject'],
+                  properties: {
+                    clientDataJSON: { type: 'string' },
+                    attestationObject: { type: 'string' },
+                    transports: { type: 'array', items: { type: 'string' } },
+                  },
+                },
+              },
+            },
+          },
+        },
+        response: {
+          201: { type: 'object', properties: { passkey: passkeySchema } },
+          400: errorSchema,
+          401: errorSchema,
+          403: errorSchema,
+          409: errorSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Body: RegisterVerifyBody }>, reply: FastifyReply) => {
+      if (request.user.apiKeyId || request.user.oauthClientId) {
+        throw new ForbiddenError('apiKeyRequiresSession');
+      }
+
+      const user = await User.findByPk(request.user.id);
+      if (!user) {
+        throw new UnauthorizedError('userNotFound');
+      }
+
+      const result = await verifyRegistration(user, request.body.credential, request.body.name);
+      if (result.status === 'already_registered') {
+        throw new ConflictError('passkeyAlreadyRegistered');
+      }
+      if (result.status === 'invalid') {
+        request.log.warn(
+          { userId: user.id, reason: result.reason },
+          'Passkey registration refused'
+        );
+        throw new BadRequestError('passkeyRegistrationFailed');
+      }
+
+      await recordAuditEvent(request, {
+        action: 'auth.passkey_registered',
+        targetType: 'passkey',
+        targetId: result.credential.id,
+        metadata: { name: result.credential.name },
+      });
+
+      return reply.code(201).send({ passkey: toPasskey(result.credential) });
+    }
+  );
+
+  // Start a passkey sign-in
+  fastify.post(
+    '/auth/webauthn/login/options',
+    {
+      schema: {
+        tags: ['Authentication'],
+        description:
+          'Get the options for navigator.credentials.get(). The user picks one of their passkeys, no email address is needed.',
+        response: {
+          200: optionsSchema,
+        },
+      },
+    },
+    async (_request: FastifyRequest, reply: FastifyReply) => {
+      return reply.send(await createAuthenticationOptions());
+    }
+  );
+
+  // Finish a passkey sign-in
+  fastify.post<{ Body: LoginVerifyBody }>(
+    '/auth/webauthn/login/verify',
+    {
+      schema: {
+        tags: ['Authentication'],
+        description:
+          'Sign in with the credential returned by navigator.credentials.get() (in its toJSON() form). Issues the same tokens and cookies as an OAuth login. Users with two-factor authentication get a challenge instead when the authenticator did not verify them (PIN or biometrics).',
+        body: {
+          type: 'object',
+          required: ['credential'],
+          properties: {
+            credential: {
+              type: 'object',
+              required: ['id', 'rawId', 'type', 'response'],
+              properties: {
+                ...credentialBaseProperties,
+                response: {
+                  type: 'object',
+                  required: ['clientDataJSON', 'authenticatorData', 'signature'],
+                  properties: {
+                    clientDataJSON: { type: 'string' },
+                    authenticatorData: { type: 'string' },
+                    signature: { type: 'string' },
+                    userHandle: { type: ['string', 'null'] },
+                  },
+                },
+              },
+            },
+          },
+        },
+        response: {
+          200: loginResponseSchema,
+          401: errorSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Body: LoginVerifyBody }>, reply: FastifyReply) => {
+      const result = await verifyAuthentication(request.body.credential);
+      if (result.status === 'counter_mismatch') {
+        // Either a cloned authenticator or a replayed response: refuse and leave a trace
+        request.log.warn(
+          { userId: result.credential.userId, passkeyId: result.credential.id },
+          'Passkey signature counter did not increase'
+        );
+        throw new UnauthorizedError('passkeyAuthenticationFailed');
+      }
+      if (result.status === 'invalid') {
+        request.log.info({ reason: result.reason }, 'Passkey sign-in refused');
+        throw new UnauthorizedError('passkeyAuthenticationFailed');
+      }
+
+      const { user } = result;
+
+      // A passkey with user verification is already two factors (possession and PIN/biometrics)
+      if (user.totpEnabledAt && !result.userVerified) {
+        await recordSignInEvent(request, 'auth.login_challenged', user.id, { method: 'passkey' });
+
+        const challengeToken = fastify.issueTwoFactorChallenge(reply, user);
+        return reply.send({ twoFactorRequired: true, challengeToken });
+      }
+
+      const tokens = await fastify.issueAuthTokens(reply, user);
+
+      await recordSignInEvent(request, 'auth.login', user.id, { method: 'passkey' });
+
+      return reply.send({
+        ...tokens,
+        user: {
+          id: user.id,
+          name: user.name,
+          email: user.email,
+        },
+      });
+    }
+  );
+
+  // List the current user's passkeys
+  fastify.get(
+    '/auth/webauthn/credentials',
+    {
+      onRequest: fastify.authenticate,
+      schema: {
+        tags: ['Authentication'],
+        description: "List the current user's passkeys",
+        security: [{ bearerAuth: [] }],
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              passkeys: { type: 'array', items: passkeySchema },
+            },
+          },
+          401: errorSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const credentials = await WebAuthnCredential.findAll({
+        where: { userId: request.user.id },
+        order: [['createdAt', 'ASC']],
+      });
+
+      return reply.send({ passkeys: credentials.map(toPasskey) });
+    }
+  );
+
+  // Remove a passkey
+  fastify.delete<{ Params: { id: number } }>(
+    '/auth/webauthn/credentials/:id',
+    {
+      onRequest: fastify.authenticate,
+      schema: {
+        tags: ['Authentication'],
+        description: "Remove one of the current user's passkeys",
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: 'object',
+          properties: {
+            id: { type: 'integer' },
+          },
+          required: ['id'],
+        },
+        response: {
+          200: successSchema,
+          401: errorSchema,
+          403: errorSchema,
+          404: errorSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Params: { id: number } }>, reply: FastifyReply) => {
+      const messages = getMessages(request.locale);
+
+      if (request.user.apiKeyId || request.user.oauthClientId) {
+        throw new ForbiddenError('apiKeyRequiresSession');
+      }
+
+      const removed = await WebAuthnCredential.destroy({
+        where: { id: request.params.id, userId: request.user.id },
+      });
+      if (removed === 0) {
+        throw new NotFoundError('passkeyNotFound');
+      }
+
+      await recordAuditEvent(request, {
+        action: 'auth.passkey_removed',
+        targetType: 'passkey',
+        targetId: request.params.id,
+      });
+
+      return reply.send({ success: true, message: messages.success.passkeyDeleted });
+    }
+  );
+};
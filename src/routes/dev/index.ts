@@ -0,0 +1,74 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { successSchema } from '../../schemas/common.js';
+import { clearCapturedMail, getMailQueue, listCapturedMail } from '../../mailer/index.js';
+
+// Development-only helpers, registered when NODE_ENV is development or test
+export const devRoutes = async (fastify: FastifyInstance) => {
+  // List emails sent since the server started
+  fastify.get<{ Querystring: { to?: string } }>(
+    '/dev/emails',
+    {
+      schema: {
+        tags: ['Development'],
+        description:
+          'List recently sent emails, newest first, whatever the transport (development only)',
+        querystring: {
+          type: 'object',
+          properties: {
+            to: { type: 'string', description: 'Only emails sent to this address' },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              emails: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    from: { type: 'string' },
+                    to: { type: 'string' },
+                    subject: { type: 'string' },
+                    text: { type: 'string' },
+                    html: { type: 'string' },
+                    transport: { type: 'string' },
+                    sentAt: { type: 'string', format: 'date-time' },
+                  },
+                },
+              },
+              pendingRetries: { type: 'number' },
+            },
+          },
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Querystring: { to?: string } }>, reply: FastifyReply) => {
+      const { to } = request.query;
+      const emails = listCapturedMail().filter(
+        (mail) => !to || mail.to.toLowerCase() === to.toLowerCase()
+      );
+
+      return reply.send({ emails, pendingRetries: getMailQueue().size });
+    }
+  );
+
+  // Forget the captured emails
+  fastify.delete(
+    '/dev/emails',
+    {
+      schema: {
+        tags: ['Development'],
+        description: 'Clear the list of captured emails (development only)',
+        response: {
+          200: successSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      clearCapturedMail();
+
+      return reply.send({ success: true });
+    }
+  );
+};
@@ -0,0 +1,765 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { Session, User, type OAuthClient } from '../../models/index.js';
+import { formatMessage, getMessages } from '../../i18n/messages.js';
+import { BadRequestError, ForbiddenError, NotFoundError } from '../../utils/errors.js';
+import { errorSchema, successSchema } from '../../schemas/common.js';
+import { issueRefreshToken, rotateRefreshToken } from '../../utils/refreshTokens.js';
+import { createSession, isSessionActive, revokeSession } from '../../utils/sessions.js';
+import { recordAuditEvent } from '../../utils/audit.js';
+import {
+  authenticateOAuthClient,
+  createAuthorizationCode,
+  exchangeAuthorizationCode,
+  findActiveOAuthClient,
+  grantConsent,
+  hasConsent,
+  isClientRefreshTokenActive,
+  listConsents,
+  resolveScopes,
+  revokeClientRefreshToken,
+  revokeConsent,
+} from '../../utils/oauthServer.js';
+import { config } from '../../config/index.js';
+
+interface AuthorizeParams {
+  response_type?: string;
+  client_id?: string;
+  redirect_uri?: string;
+  scope?: string;
+  state?: string;
+  code_challenge?: string;
+  code_challenge_method?: string;
+}
+
+interface AuthorizeBody extends AuthorizeParams {
+  approve: boolean;
+}
+
+interface TokenBody {
+  grant_type?: string;
+  code?: string;
+  redirect_uri?: string;
+  code_verifier?: string;
+  refresh_token?: string;
+  scope?: string;
+  client_id?: string;
+  client_secret?: string;
+}
+
+interface TokenActionBody {
+  token?: string;
+  token_type_hint?: string;
+  client_id?: string;
+  client_secret?: string;
+}
+
+// Validated authorization request; errors the client should see are sent to its redirect URI,
+// except for an unknown client or redirect URI, where redirecting could be abused
+type AuthorizationRequest =
+  | { status: 'invalid'; error: BadRequestError }
+  | { status: 'error'; redirectTo: string }
+  | {
+      status: 'valid';
+      client: OAuthClient;
+      redirectUri: string;
+      scopes: string[];
+      state?: string;
+      codeChallenge: string;
+    };
+
+const authorizeParamsSchema = {
+  type: 'object',
+  properties: {
+    response_type: { type: 'string' },
+    client_id: { type: 'string' },
+    redirect_uri: { type: 'string' },
+    scope: { type: 'string' },
+    state: { type: 'string' },
+    code_challenge: { type: 'string' },
+    code_challenge_method: { type: 'string' },
+  },
+} as const;
+
+// Errors of the token, revocation and introspection endpoints (RFC 6749 section 5.2)
+const oauthErrorSchema = {
+  type: 'object',
+  properties: {
+    error: { type: 'string' },
+    error_description: { type: 'string' },
+  },
+} as const;
+
+const clientCredentialProperties = {
+  client_id: { type: 'string' },
+  client_secret: { type: 'string' },
+} as const;
+
+const withParams = (uri: string, params: Record<string, string | undefined>): string => {
+  const url = new URL(uri);
+  for (const [name, value] of Object.entries(params)) {
+    if (value !== undefined) {
+      url.searchParams.set(name, value);
+    }
+  }
+  return url.toString();
+};
+
+const validateAuthorizationRequest = async (
+  params: AuthorizeParams
+): Promise<AuthorizationRequest> => {
+  const client = params.client_id ? await findActiveOAuthClient(params.client_id) : null;
+  if (!client || !client.grantTypes.includes('authorization_code')) {
+    return { status: 'invalid', error: new BadRequestError('oauthInvalidClient') };
+  }
+
+  const redirectUri = params.redirect_uri;
+  if (!redirectUri || !client.redirectUris.includes(redirectUri)) {
+    return { status: 'invalid', error: new BadRequestError('oauthInvalidRedirectUri') };
+  }
+
+  const fail = (error: string): AuthorizationRequest => ({
+    status: 'error',
+    redirectTo: withParams(redirectUri, { error, state: params.state }),
+  });
+
+  if (params.response_type !== 'code') {
+    return fail('unsupported_response_type');
+  }
+  // Every client uses PKCE, with the S256 method only
+  if (!params.code_challenge || params.code_challenge_method !== 'S256') {
+    return fail('invalid_request');
+  }
+
+  const scopes = resolveScopes(client, params.scope);
+  if (!scopes) {
+    return fail('invalid_scope');
+  }
+
+  return {
+    status: 'valid',
+    client,
+    redirectUri,
+    scopes,
+    state: params.state,
+    codeChallenge: params.code_challenge,
+  };
+};
+
+const sendOAuthError = (
+  reply: FastifyReply,
+  statusCode: number,
+  error: string,
+  description: string
+) => {
+  return reply
+    .code(statusCode)
+    .header('Cache-Control', 'no-store')
+    .send({ error, error_description: description });
+};
+
+// Client credentials from HTTP Basic authentication (client_secret_basic) or the body
+const readClientCredentials = (
+  request: FastifyRequest,
+  body: { client_id?: string; client_secret?: string }
+): { clientId?: string; clientSecret?: string } => {
+  const [scheme, encoded] = (request.headers.authorization || '').split(' ');
+  if (scheme?.toLowerCase() === 'basic' && encoded) {
+    const decoded = Buffer.from(encoded, 'base64').toString('utf8');
+    const separator = decoded.indexOf(':');
+    try {
+      if (separator > 0) {
+        return {
+          clientId: decodeURIComponent(decoded.slice(0, separator)),
+          clientSecret: decodeURIComponent(decoded.slice(separator + 1)) || undefined,
+        };
+      }
+    } catch {
+      // Malformed percent-encoding: the client cannot be authenticated
+    }
+    return {};
+  }
+
+  return { clientId: body.client_id, clientSecret: body.client_secret };
+};
+
+// OAuth2 authorization server: authorization code with PKCE, refresh token and client
+// credentials grants, token revocation (RFC 7009) and introspection (RFC 7662)
+export const oauthServerRoutes = async (fastify: FastifyInstance) => {
+  // Token, revocation and introspection requests are form-encoded
+  fastify.addContentTypeParser(
+    'application/x-www-form-urlencoded',
+    { parseAs: 'string' },
+    (_request, body, done) => {
+      done(null, Object.fromEntries(new URLSearchParams(body as string)));
+    }
+  );
+
+  // Authenticate the client of a token, revocation or introspection request
+  const authenticateClient = async (
+    request: FastifyRequest<{ Body: TokenBody | TokenActionBody }>,
+    reply: FastifyReply
+  ): Promise<OAuthClient | null> => {
+    const messages = getMessages(request.locale);
+    const { clientId, clientSecret } = readClientCredentials(request, request.body ?? {});
+
+    const client = clientId ? await authenticateOAuthClient(clientId, clientSecret) : null;
+    if (!client) {
+      request.log.info({ clientId }, 'OAuth client authentication failed');
+      sendOAuthError(reply, 401, 'invalid_client', messages.errors.oauthInvalidClient);
+      return null;
+    }
+
+    return client;
+  };
+
+  // Refuse API keys and tokens of other clients: only the user can authorize a client
+  const refuseDelegatedCredentials = (request: FastifyRequest) => {
+    if (request.user.apiKeyId || request.user.oauthClientId) {
+      throw new ForbiddenError('apiKeyRequiresSession');
+    }
+  };
+
+  // Start an authorization: redirect back with a code when the client needs no (more) consent
+  fastify.get<{ Querystring: AuthorizeParams }>(
+    '/oauth/authorize',
+    {
+      onRequest: fastify.authenticate,
+      schema: {
+        tags: ['OAuth'],
+        description:
+          'Authorization endpoint for the authorization code grant with PKCE (S256). Redirects to the client with a code when the signed-in user already allowed it (or it is first-party); otherwise describes the request so the app can show a consent screen and answer with POST /oauth/authorize.',
+        security: [{ bearerAuth: [] }],
+        querystring: authorizeParamsSchema,
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              consentRequired: { type: 'boolean' },
+              client: {
+                type: 'object',
+                properties: {
+                  clientId: { type: 'string' },
+                  name: { type: 'string' },
+                },
+              },
+              scopes: { type: 'array', items: { type: 'string' } },
+            },
+          },
+          302: { type: 'null', description: 'Redirect to the client with a code or an error' },
+          400: errorSchema,
+          401: errorSchema,
+          403: errorSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Querystring: AuthorizeParams }>, reply: FastifyReply) => {
+      refuseDelegatedCredentials(request);
+
+      const authorization = await validateAuthorizationRequest(request.query);
+      if (authorization.status === 'invalid') {
+        throw authorization.error;
+      }
+      if (authorization.status === 'error') {
+        return reply.redirect(authorization.redirectTo);
+      }
+
+      const { client, scopes } = authorization;
+      if (!(await hasConsent(request.user.id, client, scopes))) {
+        return reply.send({
+          consentRequired: true,
+          client: { clientId: client.clientId, name: client.name },
+          scopes,
+        });
+      }
+
+      const code = await createAuthorizationCode(client, request.user.id, authorization);
+      return reply.redirect(
+        withParams(authorization.redirectUri, { code, state: authorization.state })
+      );
+    }
+  );
+
+  // Answer the consent screen
+  fastify.post<{ Body: AuthorizeBody }>(
+    '/oauth/authorize',
+    {
+      onRequest: fastify.authenticate,
+      schema: {
+        tags: ['OAuth'],
+        description:
+          "Allow or deny the authorization request shown on the consent screen, with the same parameters as GET /oauth/authorize. Returns the client's redirect URI with a code or an access_denied error.",
+        security: [{ bearerAuth: [] }],
+        body: {
+          ...authorizeParamsSchema,
+          required: ['approve'],
+          properties: {
+            ...authorizeParamsSchema.properties,
+            approve: { type: 'boolean' },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              redirectTo: { type: 'string' },
+            },
+          },
+          400: errorSchema,
+          401: errorSchema,
+          403: errorSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Body: AuthorizeBody }>, reply: FastifyReply) => {
+      const messages = getMessages(request.locale);
+
+      refuseDelegatedCredentials(request);
+
+      const authorization = await validateAuthorizationRequest(request.body);
+      if (authorization.status === 'invalid') {
+        throw authorization.error;
+      }
+      if (authorization.status === 'error') {
+        return reply.send({ redirectTo: authorization.redirectTo });
+      }
+
+      const { client, redirectUri, scopes, state } = authorization;
+      if (!request.body.approve) {
+        return reply.send({
+          redirectTo: withParams(redirectUri, {
+            error: 'access_denied',
+            error_description: messages.errors.oauthAccessDenied,
+            state,
+          }),
+        });
+      }
+
+      await grantConsent(request.user.id, client, scopes);
+      const code = await createAuthorizationCode(client, request.user.id, authorization);
+
+      return reply.send({ redirectTo: withParams(redirectUri, { code, state }) });
+    }
+  );
+
+  // Token endpoint
+  fastify.post<{ Body: TokenBody }>(
+    '/oauth/token',
+    {
+      schema: {
+        tags: ['OAuth'],
+        description:
+          'Exchange an authorization code (with its PKCE code_verifier), a refresh token or client credentials for an access token. Accepts form-encoded or JSON bodies; confidential clients authenticate with HTTP Basic or client_secret in the body.',
+        body: {
+          type: 'object',
+          properties: {
+            grant_type: { type: 'string' },
+            code: { type: 'string' },
+            redirect_uri: { type: 'string' },
+            code_verifier: { type: 'string' },
+            refresh_token: { type: 'string' },
+            scope: { type: 'string' },
+            ...clientCredentialProperties,
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              access_token: { type: 'string' },
+              token_type: { type: 'string' },
+              expires_in: { type: 'number' },
+              refresh_token: { type: 'string' },
+              scope: { type: 'string' },
+            },
+          },
+          400: oauthErrorSchema,
+          401: oauthErrorSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Body: TokenBody }>, reply: FastifyReply) => {
+      const messages = getMessages(request.locale);
+      const body = request.body ?? {};
+
+      const client = await authenticateClient(request, reply);
+      if (!client) {
+        return;
+      }
+
+      const grantType = body.grant_type;
+      if (
+        grantType !== 'authorization_code' &&
+        grantType !== 'refresh_token' &&
+        grantType !== 'client_credentials'
+      ) {
+        return sendOAuthError(
+          reply,
+          400,
+          'unsupported_grant_type',
+          messages.errors.oauthUnsupportedGrantType
+        );
+      }
+      if (!client.grantTypes.includes(grantType)) {
+        return sendOAuthError(
+          reply,
+          400,
+          'unauthorized_client',
+          messages.errors.oauthUnsupportedGrantType
+        );
+      }
+
+      const invalidGrant = () =>
+        sendOAuthError(reply, 400, 'invalid_grant', messages.errors.oauthInvalidGrant);
+      const missing = (parameter: string) =>
+        sendOAuthError(
+          reply,
+          400,
+          'invalid_request',
+          formatMessage(messages.errors.oauthInvalidRequest, { parameter })
+        );
+
+      let user: User | null;
+      let scopes: string[];
+      let accessToken: string;
+      let refreshToken: string | undefined;
+
+      if (grantType === 'authorization_code') {
+        if (!body.code) {
+          return missing('code');
+        }
+
+        const result = await exchangeAuthorizationCode(
+          client,
+          body.code,
+          body.redirect_uri,
+          body.code_verifier
+        );
+        user = result.status === 'valid' ? await User.findByPk(result.userId) : null;
+        if (result.status !== 'valid' || !user) {
+          return invalidGrant();
+        }
+
+        // The authorization starts a session for the client, listed with the user's sessions
+        scopes = result.scopes;
+        const session = await createSession(
+          user.id,
+          { userAgent: request.headers['user-agent'], ipAddress: request.ip },
+          { oauthClientId: client.id, scopes }
+        );
+        accessToken = await fastify.signAccessToken(user, session.id);
+        if (client.grantTypes.includes('refresh_token')) {
+          refreshToken = (await issueRefreshToken(user.id, session.id)).token;
+        }
+      } else if (grantType === 'refresh_token') {
+        if (!body.refresh_token) {
+          return missing('refresh_token');
+        }
+
+        const result = await rotateRefreshToken(body.refresh_token, client.id);
+        if (result.status === 'reused') {
+          request.log.warn(
+            { clientId: client.clientId },
+            'OAuth refresh token reuse detected, token family revoked'
+          );
+          await recordAuditEvent(request, {
+            action: 'auth.refresh_token_reused',
+            actorId: null,
+            targetType: 'user',
+            targetId: result.userId,
+            metadata: { clientId: client.clientId },
+          });
+        }
+        user = result.status === 'rotated' ? await User.findByPk(result.userId) : null;
+        if (result.status !== 'rotated' || !user) {
+          return invalidGrant();
+        }
+
+        const session = await Session.findByPk(result.refreshToken.familyId);
+        scopes = session?.scopes ?? [];
+        accessToken = await fastify.signAccessToken(user, result.refreshToken.familyId);
+        refreshToken = result.refreshToken.token;
+      } else {
+        // Client credentials: the client acts as its service user, within its scopes
+        const resolved = resolveScopes(client, body.scope);
+        if (!resolved) {
+          return sendOAuthError(reply, 400, 'invalid_scope', messages.errors.oauthInvalidScope);
+        }
+
+        user = client.confidential && client.userId ? await User.findByPk(client.userId) : null;
+        if (!user) {
+          return sendOAuthError(
+            reply,
+            400,
+            'unauthorized_client',
+            messages.errors.oauthUnsupportedGrantType
+          );
+        }
+
+        scopes = resolved;
+        accessToken = await fastify.signAccessToken(user, null, {
+          scope: scopes.join(' '),
+          client_id: client.clientId,
+        });
+      }
+
+      return reply
+        .header('Cache-Control', 'no-store')
+        .header('Pragma', 'no-cache')
+        .send({
+          access_token: accessToken,
+          token_type: 'Bearer',
+          expires_in: config.jwt.accessTokenTtl,
+          ...(refreshToken && { refresh_token: refreshToken }),
+          scope: scopes.join(' '),
+        });
+    }
+  );
+
+  // Revocation endpoint (RFC 7009)
+  fastify.post<{ Body: TokenActionBody }>(
+    '/oauth/revoke',
+    {
+      schema: {
+        tags: ['OAuth'],
+        description:
+          "Revoke a refresh token or an access token issued to the calling client, along with the session they belong to. Answers 200 even for unknown tokens. Client credentials access tokens can't be revoked one by one; they expire, or stop working when the client is removed.",
+        body: {
+          type: 'object',
+          properties: {
+            token: { type: 'string' },
+            token_type_hint: { type: 'string' },
+            ...clientCredentialProperties,
+          },
+        },
+        response: {
+          200: { type: 'object', properties: {} },
+          400: oauthErrorSchema,
+          401: oauthErrorSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Body: TokenActionBody }>, reply: FastifyReply) => {
+      const messages = getMessages(request.locale);
+      const { token, token_type_hint: hint } = request.body ?? {};
+
+      const client = await authenticateClient(request, reply);
+      if (!client) {
+        return;
+      }
+      if (!token) {
+        return sendOAuthError(
+          reply,
+          400,
+          'invalid_request',
+          formatMessage(messages.errors.oauthInvalidRequest, { parameter: 'token' })
+        );
+      }
+
+      if (hint === 'access_token' || !(await revokeClientRefreshToken(client, token))) {
+        try {
+          const payload = fastify.verifyToken<{ userId: number; sid?: string; client_id?: string }>(
+            token
+          );
+          if (payload.client_id === client.clientId && payload.sid) {
+            await revokeSession(payload.userId, payload.sid);
+          }
+        } catch {
+          // Unknown or expired token: nothing to revoke
+        }
+      }
+
+      return reply.send({});
+    }
+  );
+
+  // Introspection endpoint (RFC 7662), for the resource servers of confidential clients
+  fastify.post<{ Body: TokenActionBody }>(
+    '/oauth/introspect',
+    {
+      schema: {
+        tags: ['OAuth'],
+        description:
+          'Tell whether an access token (or a refresh token of the calling client) is active, with its claims. Only confidential clients can introspect tokens.',
+        body: {
+          type: 'object',
+          properties: {
+            token: { type: 'string' },
+            token_type_hint: { type: 'string' },
+            ...clientCredentialProperties,
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              active: { type: 'boolean' },
+              scope: { type: 'string' },
+              client_id: { type: 'string' },
+              username: { type: 'string' },
+              token_type: { type: 'string' },
+              sub: { type: 'string' },
+              exp: { type: 'number' },
+              iat: { type: 'number' },
+              iss: { type: 'string' },
+              aud: { type: 'string' },
+              jti: { type: 'string' },
+            },
+          },
+          400: oauthErrorSchema,
+          401: oauthErrorSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Body: TokenActionBody }>, reply: FastifyReply) => {
+      const messages = getMessages(request.locale);
+      const { token, token_type_hint: hint } = request.body ?? {};
+
+      const client = await authenticateClient(request, reply);
+      if (!client) {
+        return;
+      }
+      if (!client.confidential) {
+        return sendOAuthError(reply, 401, 'invalid_client', messages.errors.oauthInvalidClient);
+      }
+      if (!token) {
+        return sendOAuthError(
+          reply,
+          400,
+          'invalid_request',
+          formatMessage(messages.errors.oauthInvalidRequest, { parameter: 'token' })
+        );
+      }
+
+      reply.header('Cache-Control', 'no-store');
+
+      if (hint !== 'refresh_token') {
+        try {
+          const payload = fastify.verifyToken<Record<string, any>>(token);
+          const active =
+            !!payload.userId &&
+            (payload.sid
+              ? await isSessionActive(payload.sid)
+              : !payload.client_id || !!(await findActiveOAuthClient(payload.client_id)));
+
+          if (active) {
+            return reply.send({
+              active: true,
+              scope: payload.scope,
+              client_id: payload.client_id,
+              username: payload.email,
+              token_type: 'Bearer',
+              sub: payload.sub,
+              exp: payload.exp,
+              iat: payload.iat,
+              iss: payload.iss,
+              aud: payload.aud,
+              jti: payload.jti,
+            });
+          }
+        } catch {
+          // Not a valid access token: it may be a refresh token
+        }
+      }
+
+      const refresh = await isClientRefreshTokenActive(client, token);
+      if (refresh.active) {
+        return reply.send({
+          active: true,
+          scope: (refresh.session.scopes ?? []).join(' '),
+          client_id: client.clientId,
+          token_type: 'refresh_token',
+          sub: String(refresh.session.userId),
+          exp: Math.floor(refresh.expiresAt.getTime() / 1000),
+        });
+      }
+
+      return reply.send({ active: false });
+    }
+  );
+
+  // Applications the current user allowed
+  fastify.get(
+    '/oauth/consents',
+    {
+      onRequest: fastify.authenticate,
+      schema: {
+        tags: ['OAuth'],
+        description: 'List the applications the current user allowed, with their scopes',
+        security: [{ bearerAuth: [] }],
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              consents: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    clientId: { type: 'string' },
+                    name: { type: 'string' },
+                    scopes: { type: 'array', items: { type: 'string' } },
+                    createdAt: { type: 'string', format: 'date-time' },
+                  },
+                },
+              },
+            },
+          },
+          401: errorSchema,
+          403: errorSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      refuseDelegatedCredentials(request);
+
+      const consents = await listConsents(request.user.id);
+
+      return reply.send({
+        consents: consents.map((consent) => ({
+          clientId: consent.client!.clientId,
+          name: consent.client!.name,
+          scopes: consent.scopes,
+          createdAt: consent.createdAt,
+        })),
+      });
+    }
+  );
+
+  // Withdraw an application's access
+  fastify.delete<{ Params: { clientId: string } }>(
+    '/oauth/consents/:clientId',
+    {
+      onRequest: fastify.authenticate,
+      schema: {
+        tags: ['OAuth'],
+        description:
+          "Withdraw the current user's consent for an application and revoke the tokens it holds for them",
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: 'object',
+          properties: {
+            clientId: { type: 'string' },
+          },
+          required: ['clientId'],
+        },
+        response: {
+          200: successSchema,
+          401: errorSchema,
+          403: errorSchema,
+          404: errorSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Params: { clientId: string } }>, reply: FastifyReply) => {
+      const messages = getMessages(request.locale);
+
+      refuseDelegatedCredentials(request);
+
+      if (!(await revokeConsent(request.user.id, request.params.clientId))) {
+        throw new NotFoundError('oauthConsentNotFound');
+      }
+
+      return reply.send({ success: true, message: messages.success.oauthConsentRevoked });
+    }
+  );
+};
@@ -0,0 +1,60 @@
+import { FastifyInstance, FastifyReply } from 'fastify';
+import { config } from '../../config/index.js';
+
+// Public keys may be cached by verifiers: a new key is added to the keyring before it signs
+const JWKS_MAX_AGE = 300;
+
+// Public metadata other services use to trust our tokens
+export const wellKnownRoutes = async (fastify: FastifyInstance) => {
+  // Every key of the keyring that verifies tokens, current signing key first
+  const jwks = {
+    keys: Object.entries(config.jwt.keyring.keys)
+      .sort(([a], [b]) =>
+        a === config.jwt.keyring.currentKeyId ? -1 : b === config.jwt.keyring.currentKeyId ? 1 : 0
+      )
+      .map(([kid, key]) => ({
+        ...key.publicKey.export({ format: 'jwk' }),
+        kid,
+        alg: key.algorithm,
+        use: 'sig',
+      })),
+  };
+
+  fastify.get(
+    '/.well-known/jwks.json',
+    {
+      schema: {
+        tags: ['Authentication'],
+        description:
+          'JSON Web Key Set with the public keys that verify access tokens. Pick the key by the kid header of a token.',
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              keys: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    kty: { type: 'string' },
+                    kid: { type: 'string' },
+                    alg: { type: 'string' },
+                    use: { type: 'string' },
+                    n: { type: 'string' },
+                    e: { type: 'string' },
+                    crv: { type: 'string' },
+                    x: { type: 'string' },
+                    y: { type: 'string' },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (_request, reply: FastifyReply) => {
+      return reply.header('Cache-Control', `public, max-age=${JWKS_MAX_AGE}`).send(jwks);
+    }
+  );
+};
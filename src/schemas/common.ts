@@ -3,11 +3,27 @@
  * Provides single source of truth for reusable schema definitions
  */
 
+// RFC 7807 problem details, sent as application/problem+json
 export const errorSchema = {
   type: 'object',
   properties: {
-    error: { type: 'string' },
-    statusCode: { type: 'number' },
+    type: { type: 'string', description: 'Problem type URI (about:blank: see status and code)' },
+    title: { type: 'string', description: 'Localized summary of the HTTP status' },
+    status: { type: 'number' },
+    detail: { type: 'string', description: 'Localized explanation of this occurrence' },
+    code: { type: 'string', description: 'Stable machine-readable code, e.g. USER_NOT_FOUND' },
+    errors: {
+      type: 'array',
+      description: 'Invalid fields, on VALIDATION_FAILED problems',
+      items: {
+        type: 'object',
+        properties: {
+          field: { type: 'string', description: 'Field path, e.g. email or redirectUris[0]' },
+          rule: { type: 'string', description: 'Failed schema rule, e.g. required or format' },
+          message: { type: 'string', description: 'Localized explanation' },
+        },
+      },
+    },
   },
 } as const;
 
@@ -17,11 +33,21 @@ export const userSchema = {
     id: { type: 'number' },
     name: { type: 'string' },
     email: { type: 'string', format: 'email' },
-    role: { type: 'string', enum: ['user', 'admin'] },
+    emailVerifiedAt: { type: ['string', 'null'], format: 'date-time' },
+    pendingEmail: {
+      type: ['string', 'null'],
+      description: 'New email address waiting for verification',
+    },
+    role: { type: 'string' },
     oauthProvider: { type: ['string', 'null'] },
     oauthId: { type: ['string', 'null'] },
     createdAt: { type: 'string', format: 'date-time' },
     updatedAt: { type: 'string', format: 'date-time' },
+    deletedAt: {
+      type: ['string', 'null'],
+      format: 'date-time',
+      description: 'Set on deleted users (only listed with includeDeleted)',
+    },
   },
 } as const;
 
@@ -37,6 +63,54 @@ export const usersArraySchema = {
   items: userSchema,
 } as const;
 
+// Unknown parameters are dropped, so admin-only ones never reach regular listings
+export const userListQuerystringSchema = {
+  type: 'object',
+  additionalProperties: false,
+  properties: {
+    limit: { type: 'integer', minimum: 1, maximum: 100, default: 20 },
+    cursor: { type: 'string', description: 'nextCursor of the previous page' },
+    sort: { type: 'string', enum: ['createdAt', 'name', 'email', 'role'], default: 'createdAt' },
+    order: { type: 'string', enum: ['asc', 'desc'], default: 'desc' },
+    role: { type: 'string', minLength: 1 },
+    oauthProvider: { type: 'string', minLength: 1 },
+    createdAfter: { type: 'string', format: 'date-time' },
+    createdBefore: { type: 'string', format: 'date-time' },
+    search: {
+      type: 'string',
+      maxLength: 100,
+      description: 'Case-insensitive match on name or email',
+    },
+  },
+} as const;
+
+// Admin tables can also jump to a page by offset
+export const adminUserListQuerystringSchema = {
+  type: 'object',
+  additionalProperties: false,
+  properties: {
+    ...userListQuerystringSchema.properties,
+    offset: { type: 'integer', minimum: 0, description: 'Rows to skip (not with cursor)' },
+    includeDeleted: {
+      type: 'boolean',
+      default: false,
+      description: 'Also list deleted users that can still be restored',
+    },
+  },
+} as const;
+
+export const userPageSchema = {
+  type: 'object',
+  properties: {
+    users: usersArraySchema,
+    nextCursor: {
+      type: ['string', 'null'],
+      description: 'Pass as cursor to get the next page (null on the last page)',
+    },
+    total: { type: 'number', description: 'Users matching the filters across all pages' },
+  },
+} as const;
+
 export const successSchema = {
   type: 'object',
   properties: {
@@ -49,10 +123,207 @@ export const tokenResponseSchema = {
   type: 'object',
   properties: {
     token: { type: 'string' },
+    refreshToken: { type: 'string' },
+    expiresIn: { type: 'number', description: 'Access token lifetime in seconds' },
     user: userSchema,
   },
 } as const;
 
+// Login routes answer with tokens, or with a challenge when the user has a second factor
+export const loginResponseSchema = {
+  type: 'object',
+  properties: {
+    ...tokenResponseSchema.properties,
+    twoFactorRequired: { type: 'boolean' },
+    challengeToken: {
+      type: 'string',
+      description: 'Send with a code to POST /auth/2fa/verify to finish signing in',
+    },
+  },
+} as const;
+
+export const sessionSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string', format: 'uuid' },
+    userAgent: { type: ['string', 'null'] },
+    ipAddress: { type: ['string', 'null'] },
+    lastUsedAt: { type: 'string', format: 'date-time' },
+    expiresAt: { type: 'string', format: 'date-time' },
+    createdAt: { type: 'string', format: 'date-time' },
+    current: { type: 'boolean', description: 'Whether this is the session making the request' },
+  },
+} as const;
+
+export const identitySchema = {
+  type: 'object',
+  properties: {
+    provider: { type: 'string' },
+    email: { type: ['string', 'null'] },
+    needsReconsent: {
+      type: 'boolean',
+      description: 'The provider revoked access, sign in with it again to restore it',
+    },
+    createdAt: { type: 'string', format: 'date-time' },
+    updatedAt: { type: 'string', format: 'date-time' },
+  },
+} as const;
+
+export const apiKeySchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'number' },
+    name: { type: 'string' },
+    prefix: { type: 'string', description: 'First characters of the key' },
+    scopes: { type: 'array', items: { type: 'string', enum: ['read', 'write'] } },
+    expiresAt: { type: ['string', 'null'], format: 'date-time' },
+    lastUsedAt: { type: ['string', 'null'], format: 'date-time' },
+    createdAt: { type: 'string', format: 'date-time' },
+  },
+} as const;
+
+export const oauthClientSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'number' },
+    clientId: { type: 'string' },
+    name: { type: 'string' },
+    redirectUris: { type: 'array', items: { type: 'string' } },
+    grantTypes: { type: 'array', items: { type: 'string' } },
+    scopes: { type: 'array', items: { type: 'string' } },
+    confidential: { type: 'boolean', description: 'Whether the client has a secret' },
+    firstParty: { type: 'boolean', description: 'Authorized without a consent screen' },
+    userId: {
+      type: ['number', 'null'],
+      description: 'User the client acts as with the client credentials grant',
+    },
+    createdAt: { type: 'string', format: 'date-time' },
+  },
+} as const;
+
+export const passkeySchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'number' },
+    name: { type: 'string' },
+    transports: { type: 'array', items: { type: 'string' } },
+    lastUsedAt: { type: ['string', 'null'], format: 'date-time' },
+    createdAt: { type: 'string', format: 'date-time' },
+  },
+} as const;
+
+export const permissionSchema = {
+  type: 'object',
+  properties: {
+    name: { type: 'string', description: 'Permission in resource:action form' },
+    description: { type: ['string', 'null'] },
+  },
+} as const;
+
+export const roleSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'number' },
+    name: { type: 'string' },
+    description: { type: ['string', 'null'] },
+    isSystem: { type: 'boolean', description: 'Built-in roles cannot be deleted' },
+    permissions: { type: 'array', items: { type: 'string' } },
+    createdAt: { type: 'string', format: 'date-time' },
+    updatedAt: { type: 'string', format: 'date-time' },
+  },
+} as const;
+
+export const organizationSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'number' },
+    name: { type: 'string' },
+    slug: { type: 'string' },
+    role: {
+      type: ['string', 'null'],
+      enum: ['owner', 'admin', 'member', null],
+      description: "The current user's role in the organization",
+    },
+    createdAt: { type: 'string', format: 'date-time' },
+    updatedAt: { type: 'string', format: 'date-time' },
+  },
+} as const;
+
+export const memberSchema = {
+  type: 'object',
+  properties: {
+    userId: { type: 'number' },
+    name: { type: 'string' },
+    email: { type: 'string', format: 'email' },
+    role: { type: 'string', enum: ['owner', 'admin', 'member'] },
+    joinedAt: { type: 'string', format: 'date-time' },
+  },
+} as const;
+
+export const invitationSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'number' },
+    organizationId: { type: 'number' },
+    email: { type: 'string', format: 'email' },
+    role: { type: 'string' },
+    expiresAt: { type: 'string', format: 'date-time' },
+    createdAt: { type: 'string', format: 'date-time' },
+  },
+} as const;
+
+export const userInvitationSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'number' },
+    email: { type: 'string', format: 'email' },
+    name: { type: ['string', 'null'] },
+    role: { type: 'string' },
+    invitedById: { type: ['number', 'null'] },
+    expiresAt: { type: 'string', format: 'date-time' },
+    createdAt: { type: 'string', format: 'date-time' },
+  },
+} as const;
+
+export const auditEventSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'number' },
+    actorId: { type: ['number', 'null'], description: 'User who acted' },
+    action: { type: 'string', description: 'What happened, e.g. user.role_changed' },
+    targetType: { type: ['string', 'null'] },
+    targetId: { type: ['string', 'null'] },
+    before: { type: ['object', 'null'], additionalProperties: true },
+    after: { type: ['object', 'null'], additionalProperties: true },
+    metadata: { type: ['object', 'null'], additionalProperties: true },
+    ipAddress: { type: ['string', 'null'] },
+    userAgent: { type: ['string', 'null'] },
+    requestId: { type: ['string', 'null'] },
+    createdAt: { type: 'string', format: 'date-time' },
+  },
+} as const;
+
+export const auditQuerystringSchema = {
+  type: 'object',
+  additionalProperties: false,
+  properties: {
+    limit: { type: 'integer', minimum: 1, maximum: 200, default: 50 },
+    cursor: { type: 'string', description: 'nextCursor of the previous page' },
+    actorId: { type: 'integer' },
+    action: { type: 'string', minLength: 1 },
+    targetType: { type: 'string', minLength: 1 },
+    targetId: { type: 'string', minLength: 1 },
+    createdAfter: { type: 'string', format: 'date-time' },
+    createdBefore: { type: 'string', format: 'date-time' },
+  },
+} as const;
+
+// Routes accepting either a JWT or an API key
+export const userSecurity: Array<Record<string, string[]>> = [
+  { bearerAuth: [] },
+  { apiKeyAuth: [] },
+];
+
 // Common parameter schemas
 export const idParamSchema = {
   type: 'object',
@@ -0,0 +1,82 @@
+#!/usr/bin/env tsx
+
+/**
+ * Re-encrypt stored OAuth tokens with the current encryption key
+ *
+ * Encrypts values still stored as plaintext and rewraps values whose data key is
+ * wrapped by a retired key. Run after adding a new key in front of
+ * TOKEN_ENCRYPTION_KEYS; once it reports no remaining values, the old key can be
+ * removed from the keyring.
+ *
+ * Usage: pnpm tokens:reencrypt [--dry-run]
+ */
+
+import { QueryTypes } from 'sequelize';
+import { sequelize } from '../database/connection.js';
+import { needsReencryption, reencryptSecret } from '../utils/encryption.js';
+
+const dryRun = process.argv.includes('--dry-run');
+const BATCH_SIZE = 500;
+
+// Encrypted token columns by table
+const tables: Record<string, string[]> = {
+  user_identities: ['access_token', 'refresh_token'],
+  users: ['oauth_access_token', 'oauth_refresh_token'],
+};
+
+const reencryptTable = async (table: string, columns: string[]): Promise<number> => {
+  const hasValue = columns.map((column) => `${column} IS NOT NULL`).join(' OR ');
+  let lastId = 0;
+  let updated = 0;
+
+  for (;;) {
+    const rows = await sequelize.query<Record<string, string | null> & { id: number }>(
+      `SELECT id, ${columns.join(', ')} FROM ${table}
+       WHERE id > :lastId AND (${hasValue})
+       ORDER BY id LIMIT :limit`,
+      { replacements: { lastId, limit: BATCH_SIZE }, type: QueryTypes.SELECT }
+    );
+
+    if (rows.length === 0) {
+      return updated;
+    }
+
+    for (const row of rows) {
+      const changes = Object.fromEntries(
+        columns
+          .filter((column) => row[column] && needsReencryption(row[column]!))
+          .map((column) => [column, reencryptSecret(row[column]!)])
+      );
+
+      if (Object.keys(changes).length > 0) {
+        updated++;
+        if (!dryRun) {
+          const assignments = Object.keys(changes).map((column) => `${column} = :${column}`);
+          await sequelize.query(`UPDATE ${table} SET ${assignments.join(', ')} WHERE id = :id`, {
+            replacements: { ...changes, id: row.id },
+          });
+        }
+      }
+    }
+
+    lastId = rows[rows.length - 1].id;
+  }
+};
+
+const main = async () => {
+  try {
+    await sequelize.authenticate();
+
+    for (const [table, columns] of Object.entries(tables)) {
+      const updated = await reencryptTable(table, columns);
+      console.log(`✓ ${table}: ${updated} row(s) ${dryRun ? 'to re-encrypt' : 're-encrypted'}`);
+    }
+
+    await sequelize.close();
+  } catch (error) {
+    console.error('✗ Token re-encryption failed:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+};
+
+main();
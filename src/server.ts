@@ -1,7 +1,9 @@
-import Fastify from 'fastify';
+import { randomUUID } from 'crypto';
+import Fastify, { type FastifyError } from 'fastify';
 import { config } from './config/index.js';
 import swagger from './plugins/swagger.js';
-import { getLocaleFromHeader } from './i18n/messages.js';
+import { getLocaleFromHeader, type Locale } from './i18n/messages.js';
+import { NotFoundError, sendProblem, toAppError } from './utils/errors.js';
 
 // Check if pino-pretty is available (dev dependency)
 let hasPinoPretty = false;
@@ -12,6 +14,13 @@ try {
   // pino-pretty not available (production build)
 }
 
+declare module 'fastify' {
+  interface FastifyRequest {
+    // Detected from the Accept-Language header of every request
+    locale: Locale;
+  }
+}
+
 export const buildServer = () => {
   const fastify = Fastify({
     logger:
@@ -41,13 +50,21 @@ export const buildServer = () => {
         : config.env === 'development'
           ? { level: 'info' } // Development without pino-pretty
           : { level: 'error' }, // Production
+    // Invitation links carry a signed token (a JWT) as a path parameter
+    routerOptions: { maxParamLength: 500 },
+    // Keep the ID a proxy or caller assigned, so audit events and logs can be correlated
+    requestIdHeader: 'x-request-id',
+    genReqId: () => randomUUID(),
+    // Report every invalid field, not only the first
+    ajv: { customOptions: { allErrors: true } },
   });
 
   // Locale detection and consolidated development logging
   fastify.addHook('onRequest', async (request, reply) => {
     // Detect locale from Accept-Language header
     const locale = getLocaleFromHeader(request.headers['accept-language']);
-    (request as any).locale = locale;
+    request.locale = locale;
+    reply.header('x-request-id', request.id);
 
     // Development logging
     if (config.env === 'development') {
@@ -84,9 +101,13 @@ export const buildServer = () => {
     });
   }
 
-  // Error handler to log invalid JSON
-  fastify.setErrorHandler((error: any, request, reply) => {
-    if (error.code === 'FST_ERR_CTP_INVALID_JSON_BODY' && config.env === 'development') {
+  // Every error, thrown by a route or by Fastify, is answered as a problem+json document
+  fastify.setErrorHandler((error: FastifyError | Error, request, reply) => {
+    if (
+      'code' in error &&
+      error.code === 'FST_ERR_CTP_INVALID_JSON_BODY' &&
+      config.env === 'development'
+    ) {
       request.log.error(
         {
           error: error.message,
@@ -96,10 +117,18 @@ export const buildServer = () => {
       );
     }
 
-    // Send the error response
-    reply.status(error.statusCode || 500).send({
-      error: error.message,
-      statusCode: error.statusCode || 500,
+    const appError = toAppError(error);
+    if (appError.statusCode >= 500) {
+      request.log.error(error);
+    }
+
+    return sendProblem(reply, appError, request.locale);
+  });
+
+  fastify.setNotFoundHandler(async (request) => {
+    throw new NotFoundError('routeNotFound', {
+      method: request.method,
+      url: request.url.split('?')[0],
     });
   });
 
@@ -0,0 +1,10 @@
+/**
+ * Encryption-at-rest Types
+ */
+
+export interface EncryptionKeyring {
+  // Key ID used for new values
+  currentKeyId: string;
+  // All known 256-bit keys by ID, including retired ones still needed for decryption
+  keys: Record<string, Buffer>;
+}
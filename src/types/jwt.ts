@@ -0,0 +1,21 @@
+/**
+ * JWT Signing Key Types
+ */
+
+import type { KeyObject } from 'crypto';
+
+export type JwtAlgorithm = 'RS256' | 'ES256';
+
+export interface JwtKey {
+  algorithm: JwtAlgorithm;
+  // Only set for keys this server can sign with
+  privateKey?: KeyObject;
+  publicKey: KeyObject;
+}
+
+export interface JwtKeyring {
+  // Key ID (kid) used to sign new tokens
+  currentKeyId: string;
+  // All trusted keys by ID, including retired ones still accepted for verification
+  keys: Record<string, JwtKey>;
+}
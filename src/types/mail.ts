@@ -0,0 +1,57 @@
+/**
+ * Mail Types
+ */
+
+export type MailTransportName = 'smtp' | 'file' | 'console' | 'memory';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+// A message ready for delivery, with its sender filled in
+export interface OutgoingMail extends MailMessage {
+  from: string;
+}
+
+// A delivered message kept for inspection outside production
+export interface CapturedMail extends OutgoingMail {
+  transport: MailTransportName;
+  sentAt: Date;
+}
+
+export interface MailTransport {
+  name: MailTransportName;
+  send(mail: OutgoingMail): Promise<void>;
+}
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  // Implicit TLS (usually port 465). Otherwise STARTTLS is used when the server offers it.
+  secure: boolean;
+  user?: string;
+  password?: string;
+  // Socket inactivity timeout, in milliseconds
+  timeoutMs: number;
+}
+
+export interface MailRetryOptions {
+  // Delivery attempts per message, including the first one
+  maxAttempts: number;
+  // Delay before the first retry, in milliseconds; doubled after each failure
+  retryDelayMs: number;
+}
+
+export interface MailConfig {
+  transport: MailTransportName;
+  from: string;
+  // Directory the file transport writes messages to
+  fileDir: string;
+  smtp: SmtpOptions;
+  retry: MailRetryOptions;
+  // Keep recently sent messages in memory for the dev-only /dev/emails route
+  capture: boolean;
+}
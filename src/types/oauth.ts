@@ -8,11 +8,16 @@ export interface OAuthProvider {
   clientId: string;
   clientSecret: string;
   enabled: boolean;
+  scopes: string[];
+  // Issuer URL for generic OpenID Connect providers (discovery and ID token validation)
+  issuer?: string;
 }
 
 export interface OAuthUserInfo {
   id: string;
   email: string;
+  // Whether the provider vouches that the user owns this email address
+  emailVerified: boolean;
   name: string;
   picture?: string;
 }
@@ -20,7 +25,16 @@ export interface OAuthUserInfo {
 export interface OAuthTokens {
   accessToken: string;
   refreshToken?: string;
-  expiresAt: Date;
+  // Absent for tokens that do not expire
+  expiresAt?: Date;
 }
 
-export type ProviderName = 'google' | 'github' | 'microsoft';
+export type ProviderName = 'google' | 'github' | 'microsoft' | 'oidc';
+
+/**
+ * How a provider sign-in is attached to an existing account with the same email
+ * - verified: link automatically when the provider verified the email, otherwise ask for confirmation
+ * - confirm: always ask the user to confirm from a signed-in session
+ * - refuse: never link by email, providers can only be linked through POST /auth/link/:provider
+ */
+export type AccountLinkingPolicy = 'verified' | 'confirm' | 'refuse';
@@ -0,0 +1,124 @@
+/**
+ * API key utilities
+ *
+ * API keys let scripts and CI jobs authenticate without a browser sign-in. They
+ * are random strings shown once at creation; only their SHA-256 hash is stored.
+ * Each key is limited by its scopes and an optional expiry, and can be revoked
+ * at any time.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { Op } from 'sequelize';
+import { ApiKey, User } from '../models/index.js';
+
+// read: safe methods (GET, HEAD, OPTIONS), write: everything else
+export const API_KEY_SCOPES = ['read', 'write'] as const;
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+// Prefix making keys recognizable to secret scanners and in the Authorization header
+const KEY_PREFIX = 'ak_';
+const DISPLAY_PREFIX_LENGTH = 11;
+
+// Write the last-used timestamp at most once a minute per key
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+export interface CreateApiKeyOptions {
+  name: string;
+  scopes: ApiKeyScope[];
+  expiresAt?: Date | null;
+}
+
+export type VerifyApiKeyResult =
+  | { status: 'valid'; apiKey: ApiKey; user: User }
+  | { status: 'invalid' | 'expired' };
+
+/**
+ * Hash an API key for storage and lookup
+ */
+export const hashApiKey = (key: string): string => {
+  return createHash('sha256').update(key).digest('hex');
+};
+
+/**
+ * Check whether a key's scopes allow the given HTTP method
+ */
+export const apiKeyAllowsMethod = (scopes: string[], method: string): boolean => {
+  return SAFE_METHODS.includes(method.toUpperCase())
+    ? scopes.includes('read') || scopes.includes('write')
+    : scopes.includes('write');
+};
+
+/**
+ * Create a key for a user, returning the only copy of the plain key
+ */
+export async function createApiKey(
+  userId: number,
+  options: CreateApiKeyOptions
+): Promise<{ apiKey: ApiKey; key: string }> {
+  const key = `${KEY_PREFIX}${randomBytes(32).toString('base64url')}`;
+
+  const apiKey = await ApiKey.create({
+    userId,
+    name: options.name,
+    prefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+    keyHash: hashApiKey(key),
+    scopes: [...new Set(options.scopes)],
+    expiresAt: options.expiresAt ?? null,
+  });
+
+  return { apiKey, key };
+}
+
+/**
+ * List a user's keys that are not revoked (expired keys stay visible until revoked)
+ */
+export async function listApiKeys(userId: number): Promise<ApiKey[]> {
+  return ApiKey.findAll({
+    where: { userId, revokedAt: { [Op.is]: null } },
+    order: [['createdAt', 'DESC']],
+  });
+}
+
+/**
+ * Revoke one of the user's keys, returning false if it does not exist or is already revoked
+ */
+export async function revokeApiKey(userId: number, id: number): Promise<boolean> {
+  const [affectedCount] = await ApiKey.update(
+    { revokedAt: new Date() },
+    { where: { id, userId, revokedAt: { [Op.is]: null } } }
+  );
+  return affectedCount > 0;
+}
+
+/**
+ * Resolve a presented key to its record and owner, recording when it was used
+ */
+export async function verifyApiKey(key: string): Promise<VerifyApiKeyResult> {
+  if (!key.startsWith(KEY_PREFIX)) {
+    return { status: 'invalid' };
+  }
+
+  const apiKey = await ApiKey.findOne({ where: { keyHash: hashApiKey(key) } });
+
+  if (!apiKey || apiKey.revokedAt) {
+    return { status: 'invalid' };
+  }
+
+  if (apiKey.expiresAt && apiKey.expiresAt.getTime() <= Date.now()) {
+    return { status: 'expired' };
+  }
+
+  const user = await User.findByPk(apiKey.userId);
+  if (!user) {
+    return { status: 'invalid' };
+  }
+
+  const now = new Date();
+  if (!apiKey.lastUsedAt || now.getTime() - apiKey.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+    await apiKey.update({ lastUsedAt: now });
+  }
+
+  return { status: 'valid', apiKey, user };
+}
@@ -0,0 +1,194 @@
+/**
+ * Audit log utilities
+ *
+ * Security-relevant actions (sign-ins, lockouts, refresh token reuse, role changes,
+ * user updates and deletes) are recorded as append-only audit events with the acting
+ * user, the target, the fields that changed and where the request came from. Admins
+ * page through them with an opaque cursor or export them as NDJSON.
+ */
+
+import type { FastifyRequest } from 'fastify';
+import { Op, type WhereOptions } from 'sequelize';
+import { AuditEvent } from '../models/index.js';
+
+export const DEFAULT_AUDIT_PAGE_SIZE = 50;
+export const MAX_AUDIT_PAGE_SIZE = 200;
+
+// Events read per query while exporting
+const EXPORT_BATCH_SIZE = 500;
+
+export interface AuditEntry {
+  action: string;
+  // Defaults to the authenticated user; set it on routes that sign someone in
+  actorId?: number | null;
+  targetType?: string;
+  targetId?: string | number;
+  before?: Record<string, unknown> | null;
+  after?: Record<string, unknown> | null;
+  metadata?: Record<string, unknown>;
+}
+
+export interface AuditQuery {
+  limit?: number;
+  cursor?: string;
+  actorId?: number;
+  action?: string;
+  targetType?: string;
+  targetId?: string;
+  createdAfter?: string;
+  createdBefore?: string;
+}
+
+export interface AuditPage {
+  events: AuditEvent[];
+  nextCursor: string | null;
+  total: number;
+}
+
+/**
+ * Keep only the fields whose value changed, as before and after snapshots
+ */
+export function diffChanges(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>
+): { before: Record<string, unknown>; after: Record<string, unknown> } {
+  const changed = Object.keys(after).filter(
+    (key) => JSON.stringify(before[key]) !== JSON.stringify(after[key])
+  );
+
+  return {
+    before: Object.fromEntries(changed.map((key) => [key, before[key] ?? null])),
+    after: Object.fromEntries(changed.map((key) => [key, after[key] ?? null])),
+  };
+}
+
+/**
+ * Record an audit event for the request. A failure is logged rather than failing the
+ * action that was already carried out.
+ */
+export async function recordAuditEvent(request: FastifyRequest, entry: AuditEntry): Promise<void> {
+  // request.user is only set on authenticated routes
+  const user = request.user as { id?: number } | undefined;
+
+  try {
+    await AuditEvent.create({
+      actorId: entry.actorId !== undefined ? entry.actorId : (user?.id ?? null),
+      action: entry.action,
+      targetType: entry.targetType ?? null,
+      targetId: entry.targetId !== undefined ? String(entry.targetId) : null,
+      before: entry.before ?? null,
+      after: entry.after ?? null,
+      metadata: entry.metadata ?? null,
+      ipAddress: request.ip,
+      userAgent: request.headers['user-agent']?.slice(0, 512) ?? null,
+      requestId: request.id,
+    });
+  } catch (error) {
+    request.log.error({ err: error, action: entry.action }, 'Failed to record audit event');
+  }
+}
+
+/**
+ * Record a sign-in event (auth.login, auth.login_challenged, auth.locked...) about the
+ * user signing in, who is not authenticated yet. The metadata names the method used.
+ */
+export function recordSignInEvent(
+  request: FastifyRequest,
+  action: string,
+  userId: number,
+  metadata: { method: string } & Record<string, unknown>
+): Promise<void> {
+  return recordAuditEvent(request, {
+    action,
+    actorId: userId,
+    targetType: 'user',
+    targetId: userId,
+    metadata,
+  });
+}
+
+const filtersFor = (query: AuditQuery): WhereOptions[] => {
+  const filters: WhereOptions[] = [];
+
+  if (query.actorId !== undefined) {
+    filters.push({ actorId: query.actorId });
+  }
+  if (query.action) {
+    filters.push({ action: query.action });
+  }
+  if (query.targetType) {
+    filters.push({ targetType: query.targetType });
+  }
+  if (query.targetId) {
+    filters.push({ targetId: query.targetId });
+  }
+  if (query.createdAfter) {
+    filters.push({ createdAt: { [Op.gte]: new Date(query.createdAfter) } });
+  }
+  if (query.createdBefore) {
+    filters.push({ createdAt: { [Op.lt]: new Date(query.createdBefore) } });
+  }
+
+  return filters;
+};
+
+const encodeCursor = (id: number): string => Buffer.from(String(id)).toString('base64url');
+
+const decodeCursor = (cursor: string): number | null => {
+  const id = Number(Buffer.from(cursor, 'base64url').toString('utf8'));
+  return Number.isSafeInteger(id) && id > 0 ? id : null;
+};
+
+/**
+ * List one page of audit events matching the query, newest first
+ * @returns null when the cursor is invalid
+ */
+export async function listAuditEvents(query: AuditQuery): Promise<AuditPage | null> {
+  const limit = Math.min(query.limit ?? DEFAULT_AUDIT_PAGE_SIZE, MAX_AUDIT_PAGE_SIZE);
+  const filters = filtersFor(query);
+
+  const pageFilters = [...filters];
+  if (query.cursor) {
+    const beforeId = decodeCursor(query.cursor);
+    if (!beforeId) {
+      return null;
+    }
+    pageFilters.push({ id: { [Op.lt]: beforeId } });
+  }
+
+  // Fetch one extra row to know whether another page follows
+  const rows = await AuditEvent.findAll({
+    where: { [Op.and]: pageFilters },
+    order: [['id', 'DESC']],
+    limit: limit + 1,
+  });
+  const total = await AuditEvent.count({ where: { [Op.and]: filters } });
+
+  const events = rows.slice(0, limit);
+  const nextCursor = rows.length > limit ? encodeCursor(events[events.length - 1].id) : null;
+
+  return { events, nextCursor, total };
+}
+
+/**
+ * Read every audit event matching the query, newest first, in batches
+ */
+export async function* exportAuditEvents(query: AuditQuery): AsyncGenerator<AuditEvent> {
+  const filters = filtersFor(query);
+  let beforeId: number | null = null;
+
+  for (;;) {
+    const batch: AuditEvent[] = await AuditEvent.findAll({
+      where: { [Op.and]: [...filters, ...(beforeId ? [{ id: { [Op.lt]: beforeId } }] : [])] },
+      order: [['id', 'DESC']],
+      limit: EXPORT_BATCH_SIZE,
+    });
+
+    yield* batch;
+
+    if (batch.length < EXPORT_BATCH_SIZE) {
+      return;
+    }
+    beforeId = batch[batch.length - 1].id;
+  }
+}
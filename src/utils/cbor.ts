@@ -0,0 +1,172 @@
+/**
+ * CBOR (RFC 8949)
+ *
+ * The subset WebAuthn uses: integers, byte and text strings, arrays, maps, and
+ * the simple values false, true and null. Maps decode to Map, since COSE keys
+ * use integer labels. Indefinite lengths, tags and floats are not supported.
+ */
+
+export type CborValue =
+  | number
+  | string
+  | boolean
+  | null
+  | Buffer
+  | CborValue[]
+  | Map<CborValue, CborValue>;
+
+export class CborError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CborError';
+  }
+}
+
+const MAJOR_UNSIGNED = 0;
+const MAJOR_NEGATIVE = 1;
+const MAJOR_BYTES = 2;
+const MAJOR_TEXT = 3;
+const MAJOR_ARRAY = 4;
+const MAJOR_MAP = 5;
+const MAJOR_SIMPLE = 7;
+
+/**
+ * Decode the CBOR item at the start of a buffer
+ * @returns The value and the number of bytes it took (data may follow it)
+ */
+export function decodeCborPrefix(buffer: Buffer): { value: CborValue; length: number } {
+  let offset = 0;
+
+  const need = (bytes: number) => {
+    if (offset + bytes > buffer.length) {
+      throw new CborError('Unexpected end of CBOR data');
+    }
+  };
+
+  const readArgument = (info: number): number => {
+    if (info < 24) {
+      return info;
+    }
+    const size = { 24: 1, 25: 2, 26: 4, 27: 8 }[info];
+    if (!size) {
+      throw new CborError(`Unsupported CBOR additional information: ${info}`);
+    }
+    need(size);
+    const value =
+      size === 8 ? Number(buffer.readBigUInt64BE(offset)) : buffer.readUIntBE(offset, size);
+    offset += size;
+    if (!Number.isSafeInteger(value)) {
+      throw new CborError('CBOR integer out of range');
+    }
+    return value;
+  };
+
+  const readItem = (): CborValue => {
+    need(1);
+    const initial = buffer[offset++];
+    const major = initial >> 5;
+    const info = initial & 0x1f;
+
+    if (major === MAJOR_SIMPLE) {
+      const simple = { 20: false, 21: true, 22: null } as Record<number, CborValue>;
+      if (!(info in simple)) {
+        throw new CborError(`Unsupported CBOR simple value: ${info}`);
+      }
+      return simple[info];
+    }
+
+    const argument = readArgument(info);
+    switch (major) {
+      case MAJOR_UNSIGNED:
+        return argument;
+      case MAJOR_NEGATIVE:
+        return -1 - argument;
+      case MAJOR_BYTES:
+      case MAJOR_TEXT: {
+        need(argument);
+        const bytes = buffer.subarray(offset, offset + argument);
+        offset += argument;
+        return major === MAJOR_TEXT ? bytes.toString('utf8') : Buffer.from(bytes);
+      }
+      case MAJOR_ARRAY:
+        return Array.from({ length: argument }, readItem);
+      case MAJOR_MAP: {
+        const map = new Map<CborValue, CborValue>();
+        for (let i = 0; i < argument; i++) {
+          const key = readItem();
+          map.set(key, readItem());
+        }
+        return map;
+      }
+      default:
+        throw new CborError(`Unsupported CBOR major type: ${major}`);
+    }
+  };
+
+  const value = readItem();
+  return { value, length: offset };
+}
+
+/**
+ * Decode a buffer holding exactly one CBOR item
+ */
+export function decodeCbor(buffer: Buffer): CborValue {
+  const { value, length } = decodeCborPrefix(buffer);
+  if (length !== buffer.length) {
+    throw new CborError('Unexpected data after CBOR item');
+  }
+  return value;
+}
+
+const encodeHead = (major: number, argument: number): Buffer => {
+  if (argument < 24) {
+    return Buffer.from([(major << 5) | argument]);
+  }
+  for (const [info, size] of [
+    [24, 1],
+    [25, 2],
+    [26, 4],
+  ]) {
+    if (argument < 2 ** (size * 8)) {
+      const head = Buffer.alloc(1 + size);
+      head[0] = (major << 5) | info;
+      head.writeUIntBE(argument, 1, size);
+      return head;
+    }
+  }
+  const head = Buffer.alloc(9);
+  head[0] = (major << 5) | 27;
+  head.writeBigUInt64BE(BigInt(argument), 1);
+  return head;
+};
+
+/**
+ * Encode a value as CBOR (plain objects are encoded as maps with text keys)
+ */
+export function encodeCbor(value: CborValue | Record<string, CborValue>): Buffer {
+  if (value === false || value === true || value === null) {
+    return Buffer.from([(MAJOR_SIMPLE << 5) | (value === null ? 22 : value ? 21 : 20)]);
+  }
+  if (typeof value === 'number') {
+    if (!Number.isSafeInteger(value)) {
+      throw new CborError('Only integers can be encoded');
+    }
+    return value >= 0 ? encodeHead(MAJOR_UNSIGNED, value) : encodeHead(MAJOR_NEGATIVE, -1 - value);
+  }
+  if (typeof value === 'string') {
+    const bytes = Buffer.from(value, 'utf8');
+    return Buffer.concat([encodeHead(MAJOR_TEXT, bytes.length), bytes]);
+  }
+  if (Buffer.isBuffer(value)) {
+    return Buffer.concat([encodeHead(MAJOR_BYTES, value.length), value]);
+  }
+  if (Array.isArray(value)) {
+    return Buffer.concat([encodeHead(MAJOR_ARRAY, value.length), ...value.map(encodeCbor)]);
+  }
+
+  const entries = value instanceof Map ? [...value.entries()] : Object.entries(value);
+  return Buffer.concat([
+    encodeHead(MAJOR_MAP, entries.length),
+    ...entries.flatMap(([key, item]) => [encodeCbor(key), encodeCbor(item)]),
+  ]);
+}
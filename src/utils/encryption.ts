@@ -0,0 +1,140 @@
+/**
+ * Envelope encryption for secrets stored in the database
+ *
+ * Every value is encrypted with its own random data key (AES-256-GCM), and the
+ * data key is wrapped with a key from the configured keyring. The stored value
+ * records the ID of the wrapping key, so keys can be rotated: new values use
+ * the current key, old values stay readable while their key is in the keyring,
+ * and re-encryption only has to rewrap the data keys.
+ *
+ * Stored format: enc:v1:<keyId>:<wrappedDataKey>:<iv>:<ciphertext>:<authTag> (base64url)
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+import { config } from '../config/index.js';
+import type { EncryptionKeyring } from '../types/encryption.js';
+
+const PREFIX = 'enc:v1:';
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+interface Envelope {
+  keyId: string;
+  wrappedKey: Buffer;
+  iv: Buffer;
+  ciphertext: Buffer;
+  tag: Buffer;
+}
+
+const seal = (key: Buffer, plaintext: Buffer, aad: string) => {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(ALGORITHM, key, iv).setAAD(Buffer.from(aad));
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return { iv, ciphertext, tag: cipher.getAuthTag() };
+};
+
+const open = (key: Buffer, iv: Buffer, ciphertext: Buffer, tag: Buffer, aad: string) => {
+  const decipher = createDecipheriv(ALGORITHM, key, iv).setAAD(Buffer.from(aad));
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+};
+
+const getKey = (keyring: EncryptionKeyring, keyId: string): Buffer => {
+  const key = keyring.keys[keyId];
+  if (!key) {
+    throw new Error(`Unknown encryption key ID: ${keyId}`);
+  }
+  return key;
+};
+
+// The wrapping key ID is authenticated along with the data key
+const wrapKey = (keyring: EncryptionKeyring, dataKey: Buffer) => {
+  const keyId = keyring.currentKeyId;
+  const { iv, ciphertext, tag } = seal(getKey(keyring, keyId), dataKey, keyId);
+  return { keyId, wrappedKey: Buffer.concat([iv, ciphertext, tag]) };
+};
+
+const unwrapKey = (keyring: EncryptionKeyring, { keyId, wrappedKey }: Envelope) => {
+  const iv = wrappedKey.subarray(0, IV_LENGTH);
+  const ciphertext = wrappedKey.subarray(IV_LENGTH, wrappedKey.length - TAG_LENGTH);
+  const tag = wrappedKey.subarray(wrappedKey.length - TAG_LENGTH);
+  return open(getKey(keyring, keyId), iv, ciphertext, tag, keyId);
+};
+
+const parseEnvelope = (value: string): Envelope => {
+  const [keyId, ...parts] = value.slice(PREFIX.length).split(':');
+  if (!keyId || parts.length !== 4) {
+    throw new Error('Malformed encrypted value');
+  }
+
+  const [wrappedKey, iv, ciphertext, tag] = parts.map((part) => Buffer.from(part, 'base64url'));
+  return { keyId, wrappedKey, iv, ciphertext, tag };
+};
+
+const formatEnvelope = ({ keyId, wrappedKey, iv, ciphertext, tag }: Envelope): string => {
+  const parts = [wrappedKey, iv, ciphertext, tag].map((part) => part.toString('base64url'));
+  return `${PREFIX}${[keyId, ...parts].join(':')}`;
+};
+
+/**
+ * Check whether a stored value is an encrypted envelope (older rows may still hold plaintext)
+ */
+export const isEncrypted = (value: string): boolean => value.startsWith(PREFIX);
+
+/**
+ * Encrypt a secret with a fresh data key wrapped by the current key
+ */
+export function encryptSecret(
+  plaintext: string,
+  keyring: EncryptionKeyring = config.encryption
+): string {
+  const dataKey = randomBytes(32);
+  const { iv, ciphertext, tag } = seal(dataKey, Buffer.from(plaintext, 'utf8'), PREFIX);
+
+  return formatEnvelope({ ...wrapKey(keyring, dataKey), iv, ciphertext, tag });
+}
+
+/**
+ * Decrypt a stored secret; plaintext written before encryption was enabled is returned as is
+ */
+export function decryptSecret(
+  value: string,
+  keyring: EncryptionKeyring = config.encryption
+): string {
+  if (!isEncrypted(value)) {
+    return value;
+  }
+
+  const envelope = parseEnvelope(value);
+  const dataKey = unwrapKey(keyring, envelope);
+
+  return open(dataKey, envelope.iv, envelope.ciphertext, envelope.tag, PREFIX).toString('utf8');
+}
+
+/**
+ * Check whether a stored secret is plaintext or wrapped by a key other than the current one
+ */
+export function needsReencryption(
+  value: string,
+  keyring: EncryptionKeyring = config.encryption
+): boolean {
+  return !isEncrypted(value) || parseEnvelope(value).keyId !== keyring.currentKeyId;
+}
+
+/**
+ * Bring a stored secret onto the current key: encrypt plaintext, rewrap the data key otherwise
+ */
+export function reencryptSecret(
+  value: string,
+  keyring: EncryptionKeyring = config.encryption
+): string {
+  if (!isEncrypted(value)) {
+    return encryptSecret(value, keyring);
+  }
+
+  const envelope = parseEnvelope(value);
+  const dataKey = unwrapKey(keyring, envelope);
+
+  return formatEnvelope({ ...envelope, ...wrapKey(keyring, dataKey) });
+}
@@ -1,44 +1,197 @@
 /**
  * Error handling utilities
- * Provides centralized error handling to eliminate repetitive try-catch blocks
+ * Routes throw the typed errors below; the server's error handler renders every error
+ * as an RFC 7807 problem (application/problem+json) with a stable machine-readable code
+ * and a title and detail in the request's language.
  */
 
-import { FastifyReply } from 'fastify';
-import { getMessages, type Locale } from '../i18n/messages.js';
+import { STATUS_CODES } from 'http';
+import type { FastifyError, FastifyReply } from 'fastify';
+import { formatMessage, getMessages, type Locale, type Messages } from '../i18n/messages.js';
+import { toFieldErrors, toFieldViolations, type FieldViolation } from './validation.js';
 
-export interface ErrorResponse {
-  error: string;
-  statusCode: number;
+export type ErrorMessageKey = keyof Messages['errors'];
+type MessageParams = Record<string, string>;
+
+export interface Problem {
+  type: string;
+  title: string;
+  status: number;
+  detail?: string;
+  code: string;
+  [extension: string]: unknown;
 }
 
+// Localized titles; other statuses fall back to the English reason phrase
+const PROBLEM_TITLES: Partial<Record<number, keyof Messages['problems']>> = {
+  400: 'badRequest',
+  401: 'unauthorized',
+  403: 'forbidden',
+  404: 'notFound',
+  409: 'conflict',
+  413: 'payloadTooLarge',
+  415: 'unsupportedMediaType',
+  423: 'locked',
+  429: 'tooManyRequests',
+  500: 'internalServerError',
+  503: 'serviceUnavailable',
+};
+
+// userNotFound -> USER_NOT_FOUND, Payload Too Large -> PAYLOAD_TOO_LARGE
+const toCode = (name: string): string =>
+  name
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .replace(/\s+/g, '_')
+    .toUpperCase();
+
 /**
- * Send standardized error response
+ * An error with an HTTP status. The message key names the localized detail and, in
+ * upper snake case, is the error code clients can rely on.
  */
-export const sendError = (
-  reply: FastifyReply,
-  statusCode: number,
-  message: string
-): FastifyReply => {
-  return reply.status(statusCode).send({
-    error: message,
-    statusCode,
-  });
+export class AppError extends Error {
+  readonly code: string;
+  // Extra members of the problem, e.g. a token the client needs to go on
+  readonly extensions: Record<string, unknown> = {};
+
+  constructor(
+    readonly statusCode: number,
+    readonly messageKey?: ErrorMessageKey,
+    readonly params: MessageParams = {}
+  ) {
+    // The English detail, for logs
+    super(
+      messageKey
+        ? formatMessage(getMessages('en').errors[messageKey], params)
+        : (STATUS_CODES[statusCode] ?? 'Error')
+    );
+    this.name = new.target.name;
+    this.code = toCode(messageKey ?? STATUS_CODES[statusCode] ?? 'Error');
+  }
+
+  withExtensions(extensions: Record<string, unknown>): this {
+    Object.assign(this.extensions, extensions);
+    return this;
+  }
+
+  // Extension members in the response language
+  problemExtensions(locale: Locale): Record<string, unknown> {
+    return this.extensions;
+  }
+}
+
+export class BadRequestError extends AppError {
+  constructor(messageKey: ErrorMessageKey, params?: MessageParams) {
+    super(400, messageKey, params);
+  }
+}
+
+// A request that does not match the route's schema, with what is wrong with each field
+export class ValidationError extends AppError {
+  constructor(readonly violations: FieldViolation[] = []) {
+    super(400, 'validationFailed');
+  }
+
+  problemExtensions(locale: Locale): Record<string, unknown> {
+    return { ...this.extensions, errors: toFieldErrors(this.violations, locale) };
+  }
+}
+
+export class UnauthorizedError extends AppError {
+  constructor(messageKey: ErrorMessageKey, params?: MessageParams) {
+    super(401, messageKey, params);
+  }
+}
+
+export class ForbiddenError extends AppError {
+  constructor(messageKey: ErrorMessageKey, params?: MessageParams) {
+    super(403, messageKey, params);
+  }
+}
+
+export class NotFoundError extends AppError {
+  constructor(messageKey: ErrorMessageKey, params?: MessageParams) {
+    super(404, messageKey, params);
+  }
+}
+
+export class ConflictError extends AppError {
+  constructor(messageKey: ErrorMessageKey, params?: MessageParams) {
+    super(409, messageKey, params);
+  }
+}
+
+export class LockedError extends AppError {
+  constructor(messageKey: ErrorMessageKey, params?: MessageParams) {
+    super(423, messageKey, params);
+  }
+}
+
+export class TooManyRequestsError extends AppError {
+  constructor(messageKey: ErrorMessageKey, params?: MessageParams) {
+    super(429, messageKey, params);
+  }
+}
+
+export class InternalServerError extends AppError {
+  constructor(messageKey: ErrorMessageKey, params?: MessageParams) {
+    super(500, messageKey, params);
+  }
+}
+
+export class ServiceUnavailableError extends AppError {
+  constructor(messageKey: ErrorMessageKey, params?: MessageParams) {
+    super(503, messageKey, params);
+  }
+}
+
+/**
+ * Map any thrown error to an AppError. Fastify's own client errors keep their status,
+ * anything else is an internal error whose message is not shown to clients.
+ */
+export const toAppError = (error: unknown): AppError => {
+  if (error instanceof AppError) {
+    return error;
+  }
+
+  const { code, statusCode, validation, validationContext } = error as Partial<FastifyError>;
+  if (validation) {
+    return new ValidationError(toFieldViolations(validation, validationContext ?? 'body'));
+  }
+  if (code === 'FST_ERR_CTP_INVALID_JSON_BODY' || code === 'FST_ERR_CTP_EMPTY_JSON_BODY') {
+    return new BadRequestError('invalidJsonBody');
+  }
+  if (statusCode && statusCode >= 400 && statusCode < 500) {
+    return new AppError(statusCode);
+  }
+
+  return new InternalServerError('internalError');
 };
 
 /**
- * Route handler wrapper that catches errors and formats responses
+ * Build the problem details of an error in the given language
  */
-export const asyncHandler = <T>(
-  handler: (request: any, reply: FastifyReply, locale: Locale) => Promise<T>
-) => {
-  return async (request: any, reply: FastifyReply): Promise<void> => {
-    try {
-      const locale = request.locale as Locale;
-      await handler(request, reply, locale);
-    } catch (error) {
-      request.log.error(error);
-      const messages = getMessages(request.locale);
-      return sendError(reply, 500, messages.errors.authenticationFailed);
-    }
+export const toProblem = (error: AppError, locale: Locale): Problem => {
+  const messages = getMessages(locale);
+  const title = PROBLEM_TITLES[error.statusCode];
+
+  return {
+    type: 'about:blank',
+    title: title ? messages.problems[title] : (STATUS_CODES[error.statusCode] ?? 'Error'),
+    status: error.statusCode,
+    ...(error.messageKey && {
+      detail: formatMessage(messages.errors[error.messageKey], error.params),
+    }),
+    code: error.code,
+    ...error.problemExtensions(locale),
   };
 };
+
+/**
+ * Send an error as application/problem+json
+ */
+export const sendProblem = (reply: FastifyReply, error: AppError, locale: Locale): FastifyReply => {
+  return reply
+    .status(error.statusCode)
+    .type('application/problem+json')
+    .send(toProblem(error, locale));
+};
@@ -0,0 +1,178 @@
+/**
+ * Linked OAuth identities
+ *
+ * A user can sign in through several providers. Each provider account is an
+ * identity row, so signing in through a new provider adds a link instead of
+ * overwriting the previous one. Whether a new provider may be attached to an
+ * existing account with the same email is decided by the account linking policy.
+ */
+
+import { User, UserIdentity, WebAuthnCredential } from '../models/index.js';
+import { normalizeEmail } from '../models/User.js';
+import { config } from '../config/index.js';
+import type { AccountLinkingPolicy, OAuthTokens, OAuthUserInfo } from '../types/oauth.js';
+
+export type SignInWithIdentityResult =
+  | { status: 'signed_in'; user: User; created: boolean }
+  | { status: 'confirmation_required'; userId: number }
+  | { status: 'refused' }
+  | { status: 'deleted' };
+
+export type LinkIdentityResult =
+  | { status: 'linked'; identity: UserIdentity }
+  | { status: 'conflict' };
+
+export type UnlinkIdentityResult = { status: 'unlinked' | 'not_found' | 'last_sign_in_method' };
+
+const tokenFields = (tokens?: OAuthTokens) =>
+  tokens
+    ? {
+        accessToken: tokens.accessToken,
+        tokenExpiresAt: tokens.expiresAt ?? null,
+        // Providers only return a refresh token on first consent, keep the stored one otherwise
+        ...(tokens.refreshToken && { refreshToken: tokens.refreshToken }),
+        // Signing in again is the re-consent
+        needsReconsent: false,
+      }
+    : {};
+
+/**
+ * Resolve the user for a provider sign-in, creating the user and/or identity as needed
+ */
+export async function signInWithIdentity(
+  provider: string,
+  userInfo: OAuthUserInfo,
+  tokens: OAuthTokens,
+  policy: AccountLinkingPolicy = config.oauth.accountLinking
+): Promise<SignInWithIdentityResult> {
+  const identity = await UserIdentity.findOne({
+    where: { provider, providerUserId: userInfo.id },
+  });
+
+  if (identity) {
+    // The identity is kept while its user is deleted, so a restore brings it back
+    const user = await User.findByPk(identity.userId);
+    if (!user) {
+      return { status: 'deleted' };
+    }
+    await identity.update({ email: userInfo.email, ...tokenFields(tokens) });
+    return { status: 'signed_in', user, created: false };
+  }
+
+  const existing = await User.findOne({ where: { email: normalizeEmail(userInfo.email) } });
+
+  if (existing) {
+    // Never attach a provider to an existing account on an unverified email alone, or to
+    // an account whose own address was never verified: whoever set it up may not own it
+    if (policy === 'refuse') {
+      return { status: 'refused' };
+    }
+    if (policy === 'confirm' || !userInfo.emailVerified || !existing.emailVerifiedAt) {
+      return { status: 'confirmation_required', userId: existing.id };
+    }
+  }
+
+  const user =
+    existing ||
+    (await User.create({
+      name: userInfo.name,
+      email: userInfo.email,
+      oauthProvider: provider,
+      oauthId: userInfo.id,
+      emailVerifiedAt: userInfo.emailVerified ? new Date() : null,
+    }));
+
+  // The first linked identity becomes the user's primary provider
+  if (!user.oauthProvider) {
+    await user.update({ oauthProvider: provider, oauthId: userInfo.id });
+  }
+
+  await UserIdentity.create({
+    userId: user.id,
+    provider,
+    providerUserId: userInfo.id,
+    email: userInfo.email,
+    ...tokenFields(tokens),
+  });
+
+  return { status: 'signed_in', user, created: !existing };
+}
+
+/**
+ * Attach a provider account to an already signed-in user
+ */
+export async function linkIdentity(
+  userId: number,
+  provider: string,
+  userInfo: OAuthUserInfo,
+  tokens?: OAuthTokens
+): Promise<LinkIdentityResult> {
+  const existing = await UserIdentity.findOne({
+    where: { provider, providerUserId: userInfo.id },
+  });
+
+  if (existing && existing.userId !== userId) {
+    return { status: 'conflict' };
+  }
+
+  // Replace a different account of the same provider, if any
+  await UserIdentity.destroy({ where: { userId, provider } });
+
+  const identity = await UserIdentity.create({
+    userId,
+    provider,
+    providerUserId: userInfo.id,
+    email: userInfo.email,
+    ...tokenFields(tokens),
+    ...(existing && !tokens?.refreshToken && { refreshToken: existing.refreshToken }),
+  });
+
+  const user = await User.findByPk(userId);
+  if (user && !user.oauthProvider) {
+    await user.update({ oauthProvider: provider, oauthId: userInfo.id });
+  }
+
+  return { status: 'linked', identity };
+}
+
+/**
+ * Remove a provider link, refusing to leave the user without any way to sign in
+ */
+export async function unlinkIdentity(
+  userId: number,
+  provider: string
+): Promise<UnlinkIdentityResult> {
+  const identities = await UserIdentity.findAll({
+    where: { userId },
+    order: [['createdAt', 'ASC']],
+  });
+  const identity = identities.find((i) => i.provider === provider);
+
+  if (!identity) {
+    return { status: 'not_found' };
+  }
+
+  const user = await User.findByPk(userId);
+
+  // A password or a passkey still signs the user in without any provider
+  if (
+    identities.length === 1 &&
+    !user?.passwordHash &&
+    (await WebAuthnCredential.count({ where: { userId } })) === 0
+  ) {
+    return { status: 'last_sign_in_method' };
+  }
+
+  await identity.destroy();
+
+  // Promote the oldest remaining identity if the primary one was removed
+  if (user && user.oauthProvider === provider) {
+    const next = identities.find((i) => i.provider !== provider);
+    await user.update({
+      oauthProvider: next?.provider ?? null,
+      oauthId: next?.providerUserId ?? null,
+    });
+  }
+
+  return { status: 'unlinked' };
+}
@@ -0,0 +1,47 @@
+/**
+ * Login lockout
+ *
+ * Failed password and second-factor attempts count toward the same limit. Once a
+ * user reaches PASSWORD_MAX_ATTEMPTS failures in a row, logins are refused for
+ * PASSWORD_LOCKOUT_DURATION seconds, even with the right credentials.
+ */
+
+import type { User } from '../models/index.js';
+import { config } from '../config/index.js';
+
+/**
+ * Seconds left before a locked account accepts logins again (0 when not locked)
+ */
+export const lockoutRemaining = (user: Pick<User, 'lockedUntil'>): number => {
+  const remaining = user.lockedUntil ? user.lockedUntil.getTime() - Date.now() : 0;
+  return remaining > 0 ? Math.ceil(remaining / 1000) : 0;
+};
+
+/**
+ * Count a failed attempt, locking the account when it reaches the limit
+ * @returns The lockout duration in seconds when this failure locked the account, or null
+ */
+export async function recordFailedLogin(user: User): Promise<number | null> {
+  await user.increment('failedLoginAttempts');
+  await user.reload({ attributes: ['id', 'failedLoginAttempts'] });
+
+  const { maxAttempts, lockoutDuration } = config.passwordAuth;
+  if (user.failedLoginAttempts < maxAttempts) {
+    return null;
+  }
+
+  await user.update({
+    failedLoginAttempts: 0,
+    lockedUntil: new Date(Date.now() + lockoutDuration * 1000),
+  });
+  return lockoutDuration;
+}
+
+/**
+ * Forget failed attempts after a successful login
+ */
+export async function clearFailedLogins(user: User): Promise<void> {
+  if (user.failedLoginAttempts || user.lockedUntil) {
+    await user.update({ failedLoginAttempts: 0, lockedUntil: null });
+  }
+}
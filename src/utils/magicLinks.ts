@@ -0,0 +1,126 @@
+/**
+ * Magic link utilities
+ *
+ * Passwordless sign-in: a short-lived, single-use token is emailed to an address
+ * and signing in with it proves the address is reachable. Only the token hash is
+ * stored. Requests are rate limited per email address by counting the links
+ * issued for it recently, so the limit holds across server instances.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { Op } from 'sequelize';
+import { MagicLinkToken, User } from '../models/index.js';
+import { normalizeEmail } from '../models/User.js';
+import { config } from '../config/index.js';
+import type { Locale } from '../i18n/messages.js';
+import { queueTemplatedMail } from '../mailer/index.js';
+import { markEmailVerified } from './passwords.js';
+
+export type CreateMagicLinkResult =
+  | { status: 'created'; token: string; expiresAt: Date }
+  | { status: 'rate_limited'; retryAfter: number };
+
+export type ConsumeMagicLinkResult =
+  | { status: 'signed_in'; user: User; created: boolean; returnTo: string | null }
+  | { status: 'invalid' }
+  | { status: 'expired' };
+
+/**
+ * Hash a magic link token for storage and lookup
+ */
+export const hashMagicLinkToken = (token: string): string => {
+  return createHash('sha256').update(token).digest('hex');
+};
+
+/**
+ * Issue a sign-in token for an email address, unless too many were issued recently
+ */
+export async function createMagicLink(
+  email: string,
+  returnTo?: string
+): Promise<CreateMagicLinkResult> {
+  const address = normalizeEmail(email);
+  const { maxRequests, rateLimitWindow } = config.magicLink;
+  const windowStart = new Date(Date.now() - rateLimitWindow * 1000);
+
+  const recent = await MagicLinkToken.findAll({
+    where: { email: address, createdAt: { [Op.gt]: windowStart } },
+    attributes: ['createdAt'],
+    order: [['createdAt', 'ASC']],
+  });
+
+  if (recent.length >= maxRequests) {
+    // Seconds until the oldest link in the window stops counting
+    const oldest = recent[0].createdAt.getTime();
+    const retryAfter = Math.max(
+      1,
+      Math.ceil((oldest + rateLimitWindow * 1000 - Date.now()) / 1000)
+    );
+    return { status: 'rate_limited', retryAfter };
+  }
+
+  const token = randomBytes(32).toString('base64url');
+  const expiresAt = new Date(Date.now() + config.magicLink.ttl * 1000);
+
+  await MagicLinkToken.create({
+    email: address,
+    tokenHash: hashMagicLinkToken(token),
+    returnTo: returnTo ?? null,
+    expiresAt,
+  });
+
+  return { status: 'created', token, expiresAt };
+}
+
+/**
+ * Use a token once and resolve its user, creating the account on first sign-in
+ */
+export async function consumeMagicLink(token: string): Promise<ConsumeMagicLinkResult> {
+  const magicLink = await MagicLinkToken.findOne({
+    where: { tokenHash: hashMagicLinkToken(token) },
+  });
+
+  if (!magicLink || magicLink.usedAt) {
+    return { status: 'invalid' };
+  }
+
+  if (magicLink.expiresAt.getTime() <= Date.now()) {
+    return { status: 'expired' };
+  }
+
+  // Conditional update so two concurrent requests cannot both use the token
+  const [affectedCount] = await MagicLinkToken.update(
+    { usedAt: new Date() },
+    { where: { id: magicLink.id, usedAt: { [Op.is]: null } } }
+  );
+  if (affectedCount === 0) {
+    return { status: 'invalid' };
+  }
+
+  // Opening the link proves the address
+  const [user, created] = await User.findOrCreate({
+    where: { email: magicLink.email },
+    defaults: {
+      name: magicLink.email.split('@')[0],
+      email: magicLink.email,
+      emailVerifiedAt: new Date(),
+    },
+  });
+  await markEmailVerified(user);
+
+  return { status: 'signed_in', user, created, returnTo: magicLink.returnTo ?? null };
+}
+
+/**
+ * Email a sign-in link
+ * @returns Whether the first delivery attempt succeeded
+ */
+export function sendMagicLinkEmail(email: string, token: string, locale: Locale): Promise<boolean> {
+  const url = new URL(`${config.appUrl}/auth/magic-link/verify`);
+  url.searchParams.set('token', token);
+
+  return queueTemplatedMail(email, 'magicLink', locale, {
+    url: url.toString(),
+    expiresInMinutes: Math.round(config.magicLink.ttl / 60),
+  });
+}
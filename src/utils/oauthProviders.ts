@@ -25,6 +25,12 @@ interface GitHubUserInfo {
   avatar_url: string;
 }
 
+interface GitHubEmail {
+  email: string;
+  primary: boolean;
+  verified: boolean;
+}
+
 interface MicrosoftUserInfo {
   id: string;
   userPrincipalName: string;
@@ -49,6 +55,7 @@ export async function fetchGoogleUserInfo(accessToken: string): Promise<OAuthUse
   return {
     id: data.id,
     email: data.email,
+    emailVerified: data.verified_email === true,
     name: data.name,
     picture: data.picture,
   };
@@ -72,26 +79,26 @@ export async function fetchGitHubUserInfo(accessToken: string): Promise<OAuthUse
 
   const profile = (await profileResponse.json()) as GitHubUserInfo;
 
-  // GitHub might not provide email in profile, fetch from emails endpoint
+  // The emails endpoint is the only place GitHub reports verification status
+  let emails: GitHubEmail[] = [];
+  const emailsResponse = await fetch('https://api.github.com/user/emails', {
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      Accept: 'application/vnd.github.v3+json',
+    },
+  });
+
+  if (emailsResponse.ok) {
+    emails = (await emailsResponse.json()) as GitHubEmail[];
+  }
+
+  // GitHub might not provide email in profile, fall back to the emails list
   let email = profile.email;
   if (!email) {
-    const emailsResponse = await fetch('https://api.github.com/user/emails', {
-      headers: {
-        Authorization: `Bearer ${accessToken}`,
-        Accept: 'application/vnd.github.v3+json',
-      },
-    });
-
-    if (emailsResponse.ok) {
-      const emails = (await emailsResponse.json()) as Array<{
-        email: string;
-        primary: boolean;
-        verified: boolean;
-      }>;
-      const primaryEmail = emails.find((e) => e.primary && e.verified);
-      email = primaryEmail?.email || emails[0]?.email;
-    }
+    const primaryEmail = emails.find((e) => e.primary && e.verified);
+    email = primaryEmail?.email || emails[0]?.email;
   }
+  const emailVerified = emails.some((e) => e.email === email && e.verified);
 
   if (!email) {
     throw new Error('No email found in GitHub account');
@@ -100,6 +107,7 @@ export async function fetchGitHubUserInfo(accessToken: string): Promise<OAuthUse
   return {
     id: String(profile.id),
     email,
+    emailVerified,
     name: profile.name || profile.login,
     picture: profile.avatar_url,
   };
@@ -122,14 +130,19 @@ export async function fetchMicrosoftUserInfo(accessToken: string): Promise<OAuth
   return {
     id: data.id,
     email: data.mail || data.userPrincipalName,
+    // Graph does not verify `mail` or `userPrincipalName`: tenant admins can set any value
+    emailVerified: false,
     name: data.displayName,
   };
 }
 
 /**
  * Provider-specific user info fetchers
+ * (OpenID Connect providers read the ID token instead, see utils/oidc.ts)
  */
-export const providerAdapters = {
+export const providerAdapters: Partial<
+  Record<ProviderName, (accessToken: string) => Promise<OAuthUserInfo>>
+> = {
   google: fetchGoogleUserInfo,
   github: fetchGitHubUserInfo,
   microsoft: fetchMicrosoftUserInfo,
@@ -0,0 +1,339 @@
+/**
+ * OAuth2 authorization server utilities
+ *
+ * Registered clients get tokens from this API directly: first-party and partner
+ * apps through the authorization code grant with PKCE (S256), and confidential
+ * clients acting as their service user through the client credentials grant.
+ * Client secrets and authorization codes are only stored as SHA-256 hashes.
+ * Authorizing a client starts a session bound to it, so its tokens use the
+ * same refresh token rotation and revocation as direct sign-ins.
+ */
+
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { Op } from 'sequelize';
+import {
+  OAuthAuthorizationCode,
+  OAuthClient,
+  OAuthConsent,
+  RefreshToken,
+  Session,
+} from '../models/index.js';
+import type { OAuthGrantType } from '../models/OAuthClient.js';
+import { config } from '../config/index.js';
+import { API_KEY_SCOPES } from './apiKeys.js';
+import { hashRefreshToken, revokeRefreshTokenFamily } from './refreshTokens.js';
+
+// Same meaning as API key scopes: read for safe methods, write for everything else
+export const OAUTH_SCOPES = API_KEY_SCOPES;
+
+export const OAUTH_GRANT_TYPES: OAuthGrantType[] = [
+  'authorization_code',
+  'refresh_token',
+  'client_credentials',
+];
+
+const CLIENT_ID_PREFIX = 'oc_';
+const CLIENT_SECRET_PREFIX = 'ocs_';
+
+// RFC 7636: 43 to 128 unreserved characters
+const CODE_VERIFIER_PATTERN = /^[A-Za-z0-9\-._~]{43,128}$/;
+
+export interface CreateOAuthClientOptions {
+  name: string;
+  redirectUris: string[];
+  grantTypes: OAuthGrantType[];
+  scopes: string[];
+  // Confidential clients get a secret; public clients (mobile apps, SPAs) do not
+  confidential: boolean;
+  firstParty?: boolean;
+  userId?: number | null;
+}
+
+export type ExchangeAuthorizationCodeResult =
+  | { status: 'valid'; userId: number; scopes: string[] }
+  | { status: 'invalid' };
+
+const sha256 = (value: string): string => createHash('sha256').update(value).digest('hex');
+
+/**
+ * Hash a client secret for storage and comparison
+ */
+export const hashClientSecret = sha256;
+
+/**
+ * Register a client, returning the only copy of its secret (null for public clients)
+ */
+export async function createOAuthClient(
+  options: CreateOAuthClientOptions
+): Promise<{ client: OAuthClient; clientSecret: string | null }> {
+  const clientSecret = options.confidential
+    ? `${CLIENT_SECRET_PREFIX}${randomBytes(32).toString('base64url')}`
+    : null;
+
+  const client = await OAuthClient.create({
+    clientId: `${CLIENT_ID_PREFIX}${randomBytes(16).toString('base64url')}`,
+    clientSecretHash: clientSecret ? hashClientSecret(clientSecret) : null,
+    name: options.name,
+    redirectUris: [...new Set(options.redirectUris)],
+    grantTypes: [...new Set(options.grantTypes)],
+    scopes: [...new Set(options.scopes)],
+    firstParty: options.firstParty ?? false,
+    userId: options.userId ?? null,
+  });
+
+  return { client, clientSecret };
+}
+
+/**
+ * List the clients that are not revoked
+ */
+export async function listOAuthClients(): Promise<OAuthClient[]> {
+  return OAuthClient.findAll({
+    where: { revokedAt: { [Op.is]: null } },
+    order: [['createdAt', 'DESC']],
+  });
+}
+
+/**
+ * Revoke a client along with its consents, pending codes and every session authorized for it
+ * @returns false when the client does not exist or is already revoked
+ */
+export async function revokeOAuthClient(id: number): Promise<boolean> {
+  const [affectedCount] = await OAuthClient.update(
+    { revokedAt: new Date() },
+    { where: { id, revokedAt: { [Op.is]: null } } }
+  );
+  if (affectedCount === 0) {
+    return false;
+  }
+
+  await OAuthConsent.destroy({ where: { oauthClientId: id } });
+  await OAuthAuthorizationCode.destroy({ where: { oauthClientId: id } });
+  await revokeClientSessions({ oauthClientId: id });
+  return true;
+}
+
+const revokeClientSessions = async (where: { oauthClientId: number; userId?: number }) => {
+  const sessions = await Session.findAll({
+    where: { ...where, revokedAt: { [Op.is]: null } },
+    attributes: ['id'],
+  });
+
+  for (const session of sessions) {
+    await revokeRefreshTokenFamily(session.id);
+  }
+};
+
+/**
+ * Find a client that is not revoked by its public client ID
+ */
+export async function findActiveOAuthClient(clientId: string): Promise<OAuthClient | null> {
+  return OAuthClient.findOne({ where: { clientId, revokedAt: { [Op.is]: null } } });
+}
+
+/**
+ * Authenticate a client at the token, revocation or introspection endpoint. Confidential
+ * clients must present their secret; public clients must not have one.
+ */
+export async function authenticateOAuthClient(
+  clientId: string,
+  clientSecret?: string
+): Promise<OAuthClient | null> {
+  const client = await findActiveOAuthClient(clientId);
+  if (!client) {
+    return null;
+  }
+
+  if (!client.clientSecretHash) {
+    return clientSecret ? null : client;
+  }
+
+  return clientSecret &&
+    timingSafeEqual(
+      Buffer.from(hashClientSecret(clientSecret)),
+      Buffer.from(client.clientSecretHash)
+    )
+    ? client
+    : null;
+}
+
+/**
+ * Resolve a requested scope ("read write") against the scopes a client may use
+ * @returns The granted scopes (all of the client's scopes when none are requested), or null
+ *   when a requested scope is not allowed
+ */
+export function resolveScopes(client: OAuthClient, scope?: string): string[] | null {
+  if (!scope?.trim()) {
+    return client.scopes;
+  }
+
+  const requested = [...new Set(scope.trim().split(/\s+/))];
+  return requested.every((item) => client.scopes.includes(item)) ? requested : null;
+}
+
+/**
+ * Check whether the user already allowed the client these scopes (first-party clients
+ * never need consent)
+ */
+export async function hasConsent(
+  userId: number,
+  client: OAuthClient,
+  scopes: string[]
+): Promise<boolean> {
+  if (client.firstParty) {
+    return true;
+  }
+
+  const consent = await OAuthConsent.findOne({ where: { userId, oauthClientId: client.id } });
+  return !!consent && scopes.every((scope) => consent.scopes.includes(scope));
+}
+
+/**
+ * Record that the user allowed the client these scopes, adding to earlier consent
+ */
+export async function grantConsent(
+  userId: number,
+  client: OAuthClient,
+  scopes: string[]
+): Promise<void> {
+  const consent = await OAuthConsent.findOne({ where: { userId, oauthClientId: client.id } });
+
+  if (consent) {
+    await consent.update({ scopes: [...new Set([...consent.scopes, ...scopes])] });
+  } else {
+    await OAuthConsent.create({ userId, oauthClientId: client.id, scopes });
+  }
+}
+
+/**
+ * List the applications a user has allowed, with their clients
+ */
+export async function listConsents(userId: number): Promise<OAuthConsent[]> {
+  return OAuthConsent.findAll({
+    where: { userId },
+    include: [{ model: OAuthClient, as: 'client', where: { revokedAt: { [Op.is]: null } } }],
+    order: [['createdAt', 'ASC']],
+  });
+}
+
+/**
+ * Withdraw a user's consent for a client and end the sessions authorized for it
+ * @returns false when the user never allowed the client
+ */
+export async function revokeConsent(userId: number, clientId: string): Promise<boolean> {
+  const client = await OAuthClient.findOne({ where: { clientId } });
+  const removed = client
+    ? await OAuthConsent.destroy({ where: { userId, oauthClientId: client.id } })
+    : 0;
+  if (!client || removed === 0) {
+    return false;
+  }
+
+  await revokeClientSessions({ oauthClientId: client.id, userId });
+  return true;
+}
+
+/**
+ * Issue a single-use authorization code for the client and redirect URI
+ */
+export async function createAuthorizationCode(
+  client: OAuthClient,
+  userId: number,
+  request: { redirectUri: string; scopes: string[]; codeChallenge: string }
+): Promise<string> {
+  const code = randomBytes(32).toString('base64url');
+
+  await OAuthAuthorizationCode.create({
+    codeHash: sha256(code),
+    oauthClientId: client.id,
+    userId,
+    redirectUri: request.redirectUri,
+    scopes: request.scopes,
+    codeChallenge: request.codeChallenge,
+    expiresAt: new Date(Date.now() + config.oauthServer.authorizationCodeTtl * 1000),
+  });
+
+  return code;
+}
+
+/**
+ * Check a PKCE code verifier against its S256 challenge
+ */
+export function verifyCodeChallenge(codeVerifier: string, codeChallenge: string): boolean {
+  return (
+    CODE_VERIFIER_PATTERN.test(codeVerifier) &&
+    createHash('sha256').update(codeVerifier).digest('base64url') === codeChallenge
+  );
+}
+
+/**
+ * Exchange an authorization code. The code is used up by the first attempt, even a failed one.
+ */
+export async function exchangeAuthorizationCode(
+  client: OAuthClient,
+  code: string,
+  redirectUri: string | undefined,
+  codeVerifier: string | undefined
+): Promise<ExchangeAuthorizationCodeResult> {
+  const stored = await OAuthAuthorizationCode.findOne({ where: { codeHash: sha256(code) } });
+  if (!stored) {
+    return { status: 'invalid' };
+  }
+
+  // Conditional delete so a code cannot be exchanged twice concurrently
+  const removed = await OAuthAuthorizationCode.destroy({ where: { id: stored.id } });
+  if (
+    removed === 0 ||
+    stored.oauthClientId !== client.id ||
+    stored.redirectUri !== redirectUri ||
+    stored.expiresAt.getTime() <= Date.now() ||
+    !codeVerifier ||
+    !verifyCodeChallenge(codeVerifier, stored.codeChallenge)
+  ) {
+    return { status: 'invalid' };
+  }
+
+  return { status: 'valid', userId: stored.userId, scopes: stored.scopes };
+}
+
+/**
+ * Revoke a refresh token issued to the client, along with its session
+ * @returns false when the token is unknown or belongs to another client
+ */
+export async function revokeClientRefreshToken(
+  client: OAuthClient,
+  token: string
+): Promise<boolean> {
+  const stored = await RefreshToken.findOne({ where: { tokenHash: hashRefreshToken(token) } });
+  const session = stored ? await Session.findByPk(stored.familyId) : null;
+  if (!stored || session?.oauthClientId !== client.id) {
+    return false;
+  }
+
+  await revokeRefreshTokenFamily(stored.familyId);
+  return true;
+}
+
+/**
+ * Check whether a refresh token issued to the client can still be used
+ */
+export async function isClientRefreshTokenActive(
+  client: OAuthClient,
+  token: string
+): Promise<{ active: false } | { active: true; session: Session; expiresAt: Date }> {
+  const stored = await RefreshToken.findOne({ where: { tokenHash: hashRefreshToken(token) } });
+  const session = stored ? await Session.findByPk(stored.familyId) : null;
+
+  if (
+    !stored ||
+    !session ||
+    session.oauthClientId !== client.id ||
+    stored.revokedAt ||
+    stored.rotatedAt ||
+    stored.expiresAt.getTime() <= Date.now()
+  ) {
+    return { active: false };
+  }
+
+  return { active: true, session, expiresAt: stored.expiresAt };
+}
@@ -0,0 +1,258 @@
+/**
+ * Generic OpenID Connect support
+ *
+ * Reads the issuer's discovery document, verifies ID tokens against the
+ * issuer's JWKS and maps the standard claims into OAuthUserInfo. Works with
+ * any compliant issuer (Okta, Keycloak, Auth0, ...).
+ */
+
+import { createPublicKey, verify, constants, type KeyObject, type webcrypto } from 'crypto';
+import type { OAuthProvider, OAuthUserInfo } from '../types/oauth.js';
+
+export interface OidcDiscoveryDocument {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  userinfo_endpoint?: string;
+  id_token_signing_alg_values_supported?: string[];
+}
+
+export interface OidcIdTokenClaims {
+  iss: string;
+  sub: string;
+  aud: string | string[];
+  exp: number;
+  iat: number;
+  azp?: string;
+  nonce?: string;
+  email?: string;
+  email_verified?: boolean;
+  name?: string;
+  preferred_username?: string;
+  picture?: string;
+}
+
+export interface VerifyIdTokenOptions {
+  issuer: string;
+  clientId: string;
+  // Allowed difference between our clock and the issuer's, in seconds
+  clockTolerance?: number;
+  // Nonce sent with the authorization request, the ID token must echo it
+  nonce?: string;
+}
+
+/**
+ * Thrown when an ID token was not issued for the sign-in being completed (replayed or injected)
+ */
+export class IdTokenNonceMismatchError extends Error {
+  constructor() {
+    super('ID token nonce mismatch');
+    this.name = 'IdTokenNonceMismatchError';
+  }
+}
+
+interface Jwk extends webcrypto.JsonWebKey {
+  kid?: string;
+  use?: string;
+}
+
+// Signature algorithms accepted for ID tokens (never 'none' or HMAC)
+const signatureAlgorithms: Record<string, { hash: string; padding?: number; dsa?: boolean }> = {
+  RS256: { hash: 'sha256' },
+  RS384: { hash: 'sha384' },
+  RS512: { hash: 'sha512' },
+  PS256: { hash: 'sha256', padding: constants.RSA_PKCS1_PSS_PADDING },
+  PS384: { hash: 'sha384', padding: constants.RSA_PKCS1_PSS_PADDING },
+  PS512: { hash: 'sha512', padding: constants.RSA_PKCS1_PSS_PADDING },
+  ES256: { hash: 'sha256', dsa: true },
+  ES384: { hash: 'sha384', dsa: true },
+  ES512: { hash: 'sha512', dsa: true },
+};
+
+const discoveryCache = new Map<string, OidcDiscoveryDocument>();
+const jwksCache = new Map<string, Jwk[]>();
+
+const normalizeIssuer = (issuer: string) => issuer.replace(/\/+$/, '');
+
+const decodeSegment = <T>(segment: string): T => {
+  return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8')) as T;
+};
+
+/**
+ * Fetch (and cache) the issuer's .well-known/openid-configuration
+ */
+export async function discoverOidcConfiguration(issuer: string): Promise<OidcDiscoveryDocument> {
+  const normalized = normalizeIssuer(issuer);
+  const cached = discoveryCache.get(normalized);
+  if (cached) {
+    return cached;
+  }
+
+  const response = await fetch(`${normalized}/.well-known/openid-configuration`);
+  if (!response.ok) {
+    throw new Error('Failed to fetch OpenID Connect discovery document');
+  }
+
+  const document = (await response.json()) as OidcDiscoveryDocument;
+
+  // The document must describe the issuer we asked for (OpenID Connect Discovery 1.0, section 4.3)
+  if (normalizeIssuer(document.issuer || '') !== normalized) {
+    throw new Error('OpenID Connect discovery document issuer mismatch');
+  }
+  if (!document.jwks_uri) {
+    throw new Error('OpenID Connect discovery document has no jwks_uri');
+  }
+
+  discoveryCache.set(normalized, document);
+  return document;
+}
+
+/**
+ * Fetch the issuer's signing keys, bypassing the cache when asked to (key rotation)
+ */
+async function fetchJwks(jwksUri: string, refresh: boolean): Promise<Jwk[]> {
+  const cached = jwksCache.get(jwksUri);
+  if (cached && !refresh) {
+    return cached;
+  }
+
+  const response = await fetch(jwksUri);
+  if (!response.ok) {
+    throw new Error('Failed to fetch OpenID Connect JWKS');
+  }
+
+  const { keys } = (await response.json()) as { keys: Jwk[] };
+  jwksCache.set(jwksUri, keys || []);
+  return keys || [];
+}
+
+/**
+ * Find the public key for a token header, refetching the JWKS once for unknown key IDs
+ */
+async function getSigningKey(jwksUri: string, kid?: string): Promise<KeyObject> {
+  const select = (keys: Jwk[]) =>
+    keys.find((k) => (kid ? k.kid === kid : true) && (!k.use || k.use === 'sig'));
+
+  let jwk = select(await fetchJwks(jwksUri, false));
+  if (!jwk) {
+    jwk = select(await fetchJwks(jwksUri, true));
+  }
+  if (!jwk) {
+    throw new Error('No matching key found in OpenID Connect JWKS');
+  }
+
+  return createPublicKey({ key: jwk, format: 'jwk' });
+}
+
+/**
+ * Verify an ID token's signature and standard claims
+ */
+export async function verifyIdToken(
+  idToken: string,
+  options: VerifyIdTokenOptions
+): Promise<OidcIdTokenClaims> {
+  const segments = idToken.split('.');
+  if (segments.length !== 3) {
+    throw new Error('Malformed ID token');
+  }
+
+  const [encodedHeader, encodedPayload, encodedSignature] = segments;
+  const header = decodeSegment<{ alg: string; kid?: string }>(encodedHeader);
+  const algorithm = signatureAlgorithms[header.alg];
+  if (!algorithm) {
+    throw new Error(`Unsupported ID token algorithm: ${header.alg}`);
+  }
+
+  const discovery = await discoverOidcConfiguration(options.issuer);
+  const key = await getSigningKey(discovery.jwks_uri, header.kid);
+
+  const valid = verify(
+    algorithm.hash,
+    Buffer.from(`${encodedHeader}.${encodedPayload}`),
+    {
+      key,
+      ...(algorithm.padding && {
+        padding: algorithm.padding,
+        saltLength: constants.RSA_PSS_SALTLEN_DIGEST,
+      }),
+      ...(algorithm.dsa && { dsaEncoding: 'ieee-p1363' as const }),
+    },
+    Buffer.from(encodedSignature, 'base64url')
+  );
+  if (!valid) {
+    throw new Error('Invalid ID token signature');
+  }
+
+  const claims = decodeSegment<OidcIdTokenClaims>(encodedPayload);
+  const now = Math.floor(Date.now() / 1000);
+  const tolerance = options.clockTolerance ?? 60;
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+
+  if (normalizeIssuer(claims.iss || '') !== normalizeIssuer(discovery.issuer)) {
+    throw new Error('ID token issuer mismatch');
+  }
+  if (!audiences.includes(options.clientId)) {
+    throw new Error('ID token audience mismatch');
+  }
+  if (audiences.length > 1 && claims.azp !== options.clientId) {
+    throw new Error('ID token authorized party mismatch');
+  }
+  if (typeof claims.exp !== 'number' || claims.exp + tolerance < now) {
+    throw new Error('ID token has expired');
+  }
+  if (typeof claims.iat === 'number' && claims.iat - tolerance > now) {
+    throw new Error('ID token issued in the future');
+  }
+  if (options.nonce !== undefined && claims.nonce !== options.nonce) {
+    throw new IdTokenNonceMismatchError();
+  }
+
+  return claims;
+}
+
+/**
+ * Map standard OpenID Connect claims into the common user info format
+ */
+export function mapOidcClaims(claims: OidcIdTokenClaims): OAuthUserInfo {
+  if (!claims.email) {
+    throw new Error('No email claim in ID token');
+  }
+
+  return {
+    id: claims.sub,
+    email: claims.email,
+    emailVerified: claims.email_verified === true,
+    name: claims.name || claims.preferred_username || claims.email,
+    picture: claims.picture,
+  };
+}
+
+/**
+ * Get user info for an OpenID Connect sign-in from its verified ID token
+ */
+export async function fetchOidcUserInfo(
+  provider: OAuthProvider,
+  idToken?: string,
+  nonce?: string
+): Promise<OAuthUserInfo> {
+  if (!idToken || !provider.issuer) {
+    throw new Error('OpenID Connect sign-in without ID token');
+  }
+
+  const claims = await verifyIdToken(idToken, {
+    issuer: provider.issuer,
+    clientId: provider.clientId,
+    nonce,
+  });
+
+  return mapOidcClaims(claims);
+}
+
+/**
+ * Clear cached discovery documents and keys (used by tests)
+ */
+export function clearOidcCache(): void {
+  discoveryCache.clear();
+  jwksCache.clear();
+}
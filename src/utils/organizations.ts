@@ -0,0 +1,315 @@
+/**
+ * Organization utilities
+ *
+ * Organizations group users into tenants. A user can belong to several
+ * organizations through memberships, each with its own role (owner, admin or
+ * member), independent of the user's platform role. Every organization keeps at
+ * least one owner. New members join by accepting an invitation sent to their
+ * email address; the invitation token is shown once and only its hash is stored.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { Op, UniqueConstraintError } from 'sequelize';
+import { sequelize } from '../database/connection.js';
+import { Invitation, Membership, Organization, Session, User } from '../models/index.js';
+import type { OrganizationRole } from '../models/Membership.js';
+
+// Roles that can manage members and invitations
+export const ORGANIZATION_MANAGER_ROLES: OrganizationRole[] = ['owner', 'admin'];
+
+const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface CreateInvitationOptions {
+  email: string;
+  role: OrganizationRole;
+  invitedById: number;
+}
+
+// What a member change would do, for the ownership rules of the organization policies
+export interface MemberChange {
+  id: number;
+  actorRole?: OrganizationRole;
+  targetRole?: OrganizationRole;
+  requestedRole?: OrganizationRole;
+}
+
+export type CreateOrganizationResult =
+  | { status: 'created'; organization: Organization }
+  | { status: 'slug_taken' };
+
+export type MemberChangeResult =
+  | { status: 'updated' | 'removed' }
+  | { status: 'not_found' }
+  | { status: 'last_owner' };
+
+export type AcceptInvitationResult =
+  | { status: 'accepted'; membership: Membership }
+  | { status: 'invalid' | 'expired' | 'email_mismatch' | 'already_member' };
+
+/**
+ * Derive a URL-friendly slug from an organization name
+ */
+export const slugify = (name: string): string => {
+  return name
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 100);
+};
+
+/**
+ * Hash an invitation token for storage and lookup
+ */
+export const hashInvitationToken = (token: string): string => {
+  return createHash('sha256').update(token).digest('hex');
+};
+
+/**
+ * Create an organization owned by the given user
+ */
+export async function createOrganization(
+  ownerId: number,
+  attributes: { name: string; slug?: string }
+): Promise<CreateOrganizationResult> {
+  const slug = attributes.slug || slugify(attributes.name);
+
+  try {
+    const organization = await sequelize.transaction(async (transaction) => {
+      const created = await Organization.create({ name: attributes.name, slug }, { transaction });
+      await Membership.create(
+        { organizationId: created.id, userId: ownerId, role: 'owner' },
+        { transaction }
+      );
+      return created;
+    });
+
+    return { status: 'created', organization };
+  } catch (error) {
+    if (error instanceof UniqueConstraintError) {
+      return { status: 'slug_taken' };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Get a user's membership in an organization
+ */
+export async function getMembership(
+  organizationId: number,
+  userId: number
+): Promise<Membership | null> {
+  return Membership.findOne({ where: { organizationId, userId } });
+}
+
+/**
+ * Load an organization along with the given user's membership (if any) in `memberships`
+ */
+export async function findOrganizationForUser(
+  organizationId: number,
+  userId: number
+): Promise<Organization | null> {
+  return Organization.findByPk(organizationId, {
+    include: [{ model: Membership, as: 'memberships', where: { userId }, required: false }],
+  });
+}
+
+/**
+ * List the organizations a user belongs to, with their membership
+ */
+export async function listUserOrganizations(userId: number): Promise<Organization[]> {
+  return Organization.findAll({
+    include: [{ model: Membership, as: 'memberships', where: { userId } }],
+    order: [['name', 'ASC']],
+  });
+}
+
+/**
+ * List the ids of the users sharing at least one organization with a user, the user included
+ */
+export async function listSharedOrganizationUserIds(userId: number): Promise<number[]> {
+  const memberships = await Membership.findAll({
+    where: { userId },
+    attributes: ['organizationId'],
+  });
+  const members = await Membership.findAll({
+    where: { organizationId: memberships.map((membership) => membership.organizationId) },
+    attributes: ['userId'],
+  });
+
+  return [...new Set([userId, ...members.map((member) => member.userId)])];
+}
+
+/**
+ * List the members of an organization with their user record
+ */
+export async function listMembers(organizationId: number): Promise<Membership[]> {
+  return Membership.findAll({
+    where: { organizationId },
+    // Deleted users keep their memberships for a restore but are not listed
+    include: [{ model: User, as: 'user', required: true }],
+    order: [['createdAt', 'ASC']],
+  });
+}
+
+/**
+ * Check whether removing or demoting this membership would leave the organization without an owner
+ */
+const isLastOwner = async (membership: Membership): Promise<boolean> => {
+  if (membership.role !== 'owner') {
+    return false;
+  }
+  const owners = await Membership.count({
+    where: { organizationId: membership.organizationId, role: 'owner' },
+  });
+  return owners <= 1;
+};
+
+/**
+ * Change a member's role within an organization
+ */
+export async function updateMemberRole(
+  organizationId: number,
+  userId: number,
+  role: OrganizationRole
+): Promise<MemberChangeResult> {
+  const membership = await getMembership(organizationId, userId);
+  if (!membership) {
+    return { status: 'not_found' };
+  }
+
+  if (role !== 'owner' && (await isLastOwner(membership))) {
+    return { status: 'last_owner' };
+  }
+
+  await membership.update({ role });
+  return { status: 'updated' };
+}
+
+/**
+ * Remove a member from an organization, clearing it as their active organization
+ */
+export async function removeMember(
+  organizationId: number,
+  userId: number
+): Promise<MemberChangeResult> {
+  const membership = await getMembership(organizationId, userId);
+  if (!membership) {
+    return { status: 'not_found' };
+  }
+
+  if (await isLastOwner(membership)) {
+    return { status: 'last_owner' };
+  }
+
+  await membership.destroy();
+  await Session.update(
+    { activeOrganizationId: null },
+    { where: { userId, activeOrganizationId: organizationId } }
+  );
+  return { status: 'removed' };
+}
+
+/**
+ * Invite an email address to an organization, returning the only copy of the token
+ */
+export async function createInvitation(
+  organizationId: number,
+  options: CreateInvitationOptions
+): Promise<{ invitation: Invitation; token: string }> {
+  const token = randomBytes(32).toString('base64url');
+
+  const invitation = await Invitation.create({
+    organizationId,
+    email: options.email.toLowerCase(),
+    role: options.role,
+    invitedById: options.invitedById,
+    tokenHash: hashInvitationToken(token),
+    expiresAt: new Date(Date.now() + INVITATION_TTL_MS),
+  });
+
+  return { invitation, token };
+}
+
+/**
+ * List an organization's pending invitations
+ */
+export async function listPendingInvitations(organizationId: number): Promise<Invitation[]> {
+  return Invitation.findAll({
+    where: {
+      organizationId,
+      acceptedAt: { [Op.is]: null },
+      revokedAt: { [Op.is]: null },
+      expiresAt: { [Op.gt]: new Date() },
+    },
+    order: [['createdAt', 'DESC']],
+  });
+}
+
+/**
+ * Revoke a pending invitation, returning false if it does not exist or was already used
+ */
+export async function revokeInvitation(organizationId: number, id: number): Promise<boolean> {
+  const [affectedCount] = await Invitation.update(
+    { revokedAt: new Date() },
+    { where: { id, organizationId, acceptedAt: { [Op.is]: null }, revokedAt: { [Op.is]: null } } }
+  );
+  return affectedCount > 0;
+}
+
+/**
+ * Accept an invitation on behalf of the signed-in user it was sent to
+ */
+export async function acceptInvitation(
+  token: string,
+  user: Pick<User, 'id' | 'email'>
+): Promise<AcceptInvitationResult> {
+  const invitation = await Invitation.findOne({ where: { tokenHash: hashInvitationToken(token) } });
+
+  if (!invitation || invitation.acceptedAt || invitation.revokedAt) {
+    return { status: 'invalid' };
+  }
+
+  if (invitation.expiresAt.getTime() <= Date.now()) {
+    return { status: 'expired' };
+  }
+
+  if (invitation.email !== user.email.toLowerCase()) {
+    return { status: 'email_mismatch' };
+  }
+
+  if (await getMembership(invitation.organizationId, user.id)) {
+    return { status: 'already_member' };
+  }
+
+  const membership = await sequelize.transaction(async (transaction) => {
+    await invitation.update({ acceptedAt: new Date() }, { transaction });
+    return Membership.create(
+      { organizationId: invitation.organizationId, userId: user.id, role: invitation.role },
+      { transaction }
+    );
+  });
+
+  return { status: 'accepted', membership };
+}
+
+/**
+ * Set the organization carried by a session's access tokens (null to clear it)
+ */
+export async function setActiveOrganization(
+  sessionId: string,
+  userId: number,
+  organizationId: number | null
+): Promise<'updated' | 'not_member'> {
+  if (organizationId !== null && !(await getMembership(organizationId, userId))) {
+    return 'not_member';
+  }
+
+  await Session.update(
+    { activeOrganizationId: organizationId },
+    { where: { id: sessionId, userId } }
+  );
+  return 'updated';
+}
@@ -0,0 +1,257 @@
+/**
+ * Password utilities
+ *
+ * Passwords are hashed with scrypt from Node's crypto module. The stored value
+ * carries its own parameters (scrypt$N$r$p$salt$hash), so the cost can be raised
+ * later: older hashes still verify and are upgraded on the next successful login.
+ * Repeated failed logins lock the account for a while (see loginLockout.ts), and a
+ * password only signs in once the email address has been verified.
+ */
+
+import { createHash, randomBytes, scrypt, timingSafeEqual, type ScryptOptions } from 'crypto';
+import { Op } from 'sequelize';
+import { ApiKey, RecoveryCode, User, UserIdentity, WebAuthnCredential } from '../models/index.js';
+import { normalizeEmail } from '../models/User.js';
+import { sequelize } from '../database/connection.js';
+import { config } from '../config/index.js';
+import { clearFailedLogins, lockoutRemaining, recordFailedLogin } from './loginLockout.js';
+import { revokeAllSessions } from './sessions.js';
+import type { Locale } from '../i18n/messages.js';
+import { queueTemplatedMail } from '../mailer/index.js';
+
+// Longer inputs only cost hashing time without adding strength
+export const MAX_PASSWORD_LENGTH = 128;
+
+const SCRYPT_PARAMS = { N: 2 ** 15, r: 8, p: 1 };
+const KEY_LENGTH = 64;
+const SALT_LENGTH = 16;
+
+// A few of the most common passwords; the length rule rejects most of the rest
+const COMMON_PASSWORDS = new Set([
+  '123456789012',
+  'password1234',
+  'password123!',
+  'qwertyuiop12',
+  'qwertyuiopas',
+  '1q2w3e4r5t6y',
+  'iloveyou1234',
+  'letmein12345',
+  'welcome12345',
+  'administrator',
+  'changeme1234',
+  'passwordpassword',
+]);
+
+export type PasswordPolicyViolation =
+  | { rule: 'too_short'; minLength: number }
+  | { rule: 'too_long'; maxLength: number }
+  | { rule: 'too_common' }
+  | { rule: 'contains_email' };
+
+export type PasswordLoginResult =
+  | { status: 'signed_in'; user: User }
+  | { status: 'invalid' }
+  | { status: 'unverified' }
+  // lockedNow is set when this attempt is the failure that locked the account
+  | { status: 'locked'; retryAfter: number; userId: number; lockedNow: boolean };
+
+const deriveKey = (password: string, salt: Buffer, params: ScryptOptions, keyLength: number) =>
+  new Promise<Buffer>((resolve, reject) => {
+    // maxmem must cover 128 * N * r bytes
+    const maxmem = 256 * params.N! * params.r!;
+    scrypt(password.normalize('NFKC'), salt, keyLength, { ...params, maxmem }, (error, key) =>
+      error ? reject(error) : resolve(key)
+    );
+  });
+
+/**
+ * Hash a password for storage
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(SALT_LENGTH);
+  const key = await deriveKey(password, salt, SCRYPT_PARAMS, KEY_LENGTH);
+  const { N, r, p } = SCRYPT_PARAMS;
+
+  return ['scrypt', N, r, p, salt.toString('base64url'), key.toString('base64url')].join('$');
+}
+
+/**
+ * Check a password against a stored hash, in constant time
+ */
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, N, r, p, salt, hash] = stored.split('$');
+  if (scheme !== 'scrypt' || !hash) {
+    return false;
+  }
+
+  const expected = Buffer.from(hash, 'base64url');
+  const key = await deriveKey(
+    password,
+    Buffer.from(salt, 'base64url'),
+    { N: Number(N), r: Number(r), p: Number(p) },
+    expected.length
+  );
+  return timingSafeEqual(key, expected);
+}
+
+/**
+ * Whether a hash was made with other parameters than the current ones
+ */
+export const needsRehash = (stored: string): boolean => {
+  const { N, r, p } = SCRYPT_PARAMS;
+  return !stored.startsWith(`scrypt$${N}$${r}$${p}$`);
+};
+
+/**
+ * Check a new password against the password policy
+ * @returns The first rule it breaks, or null when it is acceptable
+ */
+export function checkPasswordPolicy(
+  password: string,
+  email: string
+): PasswordPolicyViolation | null {
+  const { minLength } = config.passwordAuth;
+
+  if (password.length < minLength) {
+    return { rule: 'too_short', minLength };
+  }
+  if (password.length > MAX_PASSWORD_LENGTH) {
+    return { rule: 'too_long', maxLength: MAX_PASSWORD_LENGTH };
+  }
+
+  const lower = password.toLowerCase();
+  if (COMMON_PASSWORDS.has(lower) || new Set(lower).size < 4) {
+    return { rule: 'too_common' };
+  }
+
+  const localPart = email.toLowerCase().split('@')[0];
+  if (localPart.length >= 4 && lower.includes(localPart)) {
+    return { rule: 'contains_email' };
+  }
+
+  return null;
+}
+
+/**
+ * Fingerprint of the current password, embedded in reset tokens so that a token
+ * stops working once the password it was issued for changes
+ */
+export const passwordFingerprint = (user: Pick<User, 'passwordHash'>): string => {
+  return createHash('sha256')
+    .update(user.passwordHash ?? '')
+    .digest('base64url')
+    .slice(0, 16);
+};
+
+/**
+ * Set a new password, clearing any lockout
+ */
+export async function setPassword(user: User, password: string): Promise<void> {
+  await user.update({
+    passwordHash: await hashPassword(password),
+    passwordChangedAt: new Date(),
+    failedLoginAttempts: 0,
+    lockedUntil: null,
+  });
+}
+
+/**
+ * Email a link proving the user owns their address. The token is signed with
+ * { verifyEmail: user.id, email: user.email } for POST /auth/verify-email.
+ * @returns Whether the first delivery attempt succeeded
+ */
+export function sendVerificationEmail(
+  user: Pick<User, 'name' | 'email'>,
+  token: string,
+  locale: Locale
+): Promise<boolean> {
+  const url = new URL(config.passwordAuth.verificationUrl);
+  url.searchParams.set('token', token);
+
+  return queueTemplatedMail(user.email, 'verifyEmail', locale, {
+    name: user.name,
+    url: url.toString(),
+  });
+}
+
+/**
+ * Record that a magic link or a password reset link proved the user's email address.
+ * Everything set up while the address was unverified may come from someone who registered
+ * it before its owner, so every other way into the account is removed: the password,
+ * second factor, passkeys, API keys, linked identities and sessions.
+ */
+export async function markEmailVerified(user: User): Promise<void> {
+  if (user.emailVerifiedAt) {
+    return;
+  }
+
+  await sequelize.transaction(async (transaction) => {
+    await UserIdentity.destroy({ where: { userId: user.id }, transaction });
+    await WebAuthnCredential.destroy({ where: { userId: user.id }, transaction });
+    await RecoveryCode.destroy({ where: { userId: user.id }, transaction });
+    await ApiKey.update(
+      { revokedAt: new Date() },
+      { where: { userId: user.id, revokedAt: { [Op.is]: null } }, transaction }
+    );
+    await user.update(
+      {
+        emailVerifiedAt: new Date(),
+        passwordHash: null,
+        passwordChangedAt: null,
+        totpSecret: null,
+        totpEnabledAt: null,
+        totpLastStep: null,
+        oauthProvider: null,
+        oauthId: null,
+      },
+      { transaction }
+    );
+  });
+  await revokeAllSessions(user.id);
+}
+
+// Verified against when the email is unknown, so both cases take the same time
+let dummyHash: Promise<string> | null = null;
+
+/**
+ * Check an email and password, counting failures toward the account lockout
+ */
+export async function loginWithPassword(
+  email: string,
+  password: string
+): Promise<PasswordLoginResult> {
+  const user = await User.findOne({ where: { email: normalizeEmail(email) } });
+
+  if (!user?.passwordHash) {
+    dummyHash ??= hashPassword(randomBytes(16).toString('hex'));
+    await verifyPassword(password, await dummyHash);
+    return { status: 'invalid' };
+  }
+
+  const retryAfter = lockoutRemaining(user);
+  if (retryAfter > 0) {
+    return { status: 'locked', retryAfter, userId: user.id, lockedNow: false };
+  }
+
+  if (!(await verifyPassword(password, user.passwordHash))) {
+    const lockedFor = await recordFailedLogin(user);
+    return lockedFor
+      ? { status: 'locked', retryAfter: lockedFor, userId: user.id, lockedNow: true }
+      : { status: 'invalid' };
+  }
+
+  // Anyone can register someone else's address, so the password is not trusted before
+  if (!user.emailVerifiedAt) {
+    return { status: 'unverified' };
+  }
+
+  // With two-factor enabled, the count is only reset once the second factor passes too
+  if (!user.totpEnabledAt) {
+    await clearFailedLogins(user);
+  }
+  if (needsRehash(user.passwordHash)) {
+    await user.update({ passwordHash: await hashPassword(password) });
+  }
+
+  return { status: 'signed_in', user };
+}
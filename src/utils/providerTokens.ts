@@ -0,0 +1,140 @@
+/**
+ * Upstream OAuth provider tokens
+ *
+ * Features that call Google, GitHub, Microsoft or OpenID Connect APIs on a
+ * user's behalf get the access token from here instead of reading the identity
+ * directly. Tokens close to expiry are refreshed through the provider's token
+ * endpoint and saved. When the provider reports the grant as revoked, the stored
+ * tokens are cleared and the identity is flagged until the user signs in with
+ * the provider again.
+ */
+
+import { UserIdentity } from '../models/index.js';
+import { config } from '../config/index.js';
+import { discoverOidcConfiguration } from './oidc.js';
+import type { ProviderName } from '../types/oauth.js';
+
+export type ProviderAccessTokenResult =
+  | { status: 'valid'; accessToken: string; expiresAt: Date | null }
+  | { status: 'not_linked' | 'reconsent_required' };
+
+interface TokenEndpointResponse {
+  access_token?: string;
+  refresh_token?: string;
+  expires_in?: number;
+  error?: string;
+}
+
+// Refresh tokens expiring within this window so callers never get one that dies mid-request
+const REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+const tokenEndpoints: Partial<Record<ProviderName, string>> = {
+  google: 'https://oauth2.googleapis.com/token',
+  github: 'https://github.com/login/oauth/access_token',
+  microsoft: 'https://login.microsoftonline.com/common/oauth2/v2.0/token',
+};
+
+// Errors meaning the refresh token is no longer valid (RFC 6749 section 5.2, GitHub)
+const revokedGrantErrors = ['invalid_grant', 'bad_refresh_token'];
+
+// In-flight refreshes by identity, so concurrent callers share one token request
+const pendingRefreshes = new Map<number, Promise<ProviderAccessTokenResult>>();
+
+const getTokenEndpoint = async (provider: string): Promise<string> => {
+  const issuer = config.oauth.providers[provider]?.issuer;
+  if (issuer) {
+    return (await discoverOidcConfiguration(issuer)).token_endpoint;
+  }
+
+  const endpoint = tokenEndpoints[provider as ProviderName];
+  if (!endpoint) {
+    throw new Error(`Unsupported provider: ${provider}`);
+  }
+  return endpoint;
+};
+
+const requireReconsent = async (identity: UserIdentity): Promise<ProviderAccessTokenResult> => {
+  await identity.update({
+    accessToken: null,
+    refreshToken: null,
+    tokenExpiresAt: null,
+    needsReconsent: true,
+  });
+  return { status: 'reconsent_required' };
+};
+
+/**
+ * Exchange the identity's refresh token for a new access token and save the result
+ */
+async function refreshIdentityTokens(identity: UserIdentity): Promise<ProviderAccessTokenResult> {
+  if (!identity.refreshToken) {
+    return requireReconsent(identity);
+  }
+
+  const provider = config.oauth.providers[identity.provider];
+  const response = await fetch(await getTokenEndpoint(identity.provider), {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      Accept: 'application/json',
+    },
+    body: new URLSearchParams({
+      grant_type: 'refresh_token',
+      refresh_token: identity.refreshToken,
+      client_id: provider?.clientId || '',
+      client_secret: provider?.clientSecret || '',
+    }),
+  });
+
+  const data = (await response.json().catch(() => ({}))) as TokenEndpointResponse;
+
+  if (data.error && revokedGrantErrors.includes(data.error)) {
+    return requireReconsent(identity);
+  }
+
+  if (!response.ok || !data.access_token) {
+    throw new Error(`Failed to refresh ${identity.provider} access token`);
+  }
+
+  const expiresAt = data.expires_in ? new Date(Date.now() + data.expires_in * 1000) : null;
+
+  await identity.update({
+    accessToken: data.access_token,
+    tokenExpiresAt: expiresAt,
+    // Some providers rotate the refresh token on every use
+    ...(data.refresh_token && { refreshToken: data.refresh_token }),
+  });
+
+  return { status: 'valid', accessToken: data.access_token, expiresAt };
+}
+
+/**
+ * Get a usable access token for the user's identity at a provider, refreshing it if needed
+ */
+export async function getProviderAccessToken(
+  userId: number,
+  provider: string
+): Promise<ProviderAccessTokenResult> {
+  const identity = await UserIdentity.findOne({ where: { userId, provider } });
+
+  if (!identity) {
+    return { status: 'not_linked' };
+  }
+
+  if (identity.needsReconsent || !identity.accessToken) {
+    return { status: 'reconsent_required' };
+  }
+
+  const expiresAt = identity.tokenExpiresAt ?? null;
+  if (!expiresAt || expiresAt.getTime() - Date.now() > REFRESH_MARGIN_MS) {
+    return { status: 'valid', accessToken: identity.accessToken, expiresAt };
+  }
+
+  let pending = pendingRefreshes.get(identity.id);
+  if (!pending) {
+    pending = refreshIdentityTokens(identity).finally(() => pendingRefreshes.delete(identity.id));
+    pendingRefreshes.set(identity.id, pending);
+  }
+
+  return pending;
+}
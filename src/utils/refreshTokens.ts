@@ -0,0 +1,124 @@
+/**
+ * Refresh token utilities
+ *
+ * Refresh tokens are opaque random strings. Only their SHA-256 hash is stored,
+ * and every token belongs to a family that starts at login (the family ID is the
+ * session ID). Each use rotates the token; presenting an already-rotated token
+ * revokes the whole family and its session.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { Op } from 'sequelize';
+import { RefreshToken, Session } from '../models/index.js';
+import { config } from '../config/index.js';
+
+export interface IssuedRefreshToken {
+  token: string;
+  familyId: string;
+  expiresAt: Date;
+}
+
+export type RotateRefreshTokenResult =
+  | { status: 'rotated'; userId: number; refreshToken: IssuedRefreshToken }
+  | { status: 'reused'; userId: number }
+  | { status: 'invalid' | 'expired' };
+
+/**
+ * Hash an opaque refresh token for storage and lookup
+ */
+export const hashRefreshToken = (token: string): string => {
+  return createHash('sha256').update(token).digest('hex');
+};
+
+/**
+ * Issue a new refresh token in the given family (session)
+ */
+export async function issueRefreshToken(
+  userId: number,
+  familyId: string
+): Promise<IssuedRefreshToken> {
+  const token = randomBytes(32).toString('base64url');
+  const expiresAt = new Date(Date.now() + config.jwt.refreshTokenTtl * 1000);
+
+  await RefreshToken.create({
+    userId,
+    familyId,
+    tokenHash: hashRefreshToken(token),
+    expiresAt,
+  });
+
+  return { token, familyId, expiresAt };
+}
+
+/**
+ * Revoke every token in a family that is not already revoked, along with its session
+ */
+export async function revokeRefreshTokenFamily(familyId: string): Promise<void> {
+  const revokedAt = new Date();
+
+  await RefreshToken.update({ revokedAt }, { where: { familyId, revokedAt: { [Op.is]: null } } });
+  await Session.update({ revokedAt }, { where: { id: familyId, revokedAt: { [Op.is]: null } } });
+}
+
+/**
+ * Exchange a refresh token for a new one in the same family
+ * @param oauthClientId OAuth client presenting the token (null for direct sign-ins), which
+ *   must be the one its session was authorized for
+ */
+export async function rotateRefreshToken(
+  token: string,
+  oauthClientId: number | null = null
+): Promise<RotateRefreshTokenResult> {
+  const stored = await RefreshToken.findOne({ where: { tokenHash: hashRefreshToken(token) } });
+
+  if (!stored || stored.revokedAt) {
+    return { status: 'invalid' };
+  }
+
+  // A token issued to an OAuth client cannot be refreshed as a full sign-in, or by another client
+  const session = await Session.findByPk(stored.familyId, { attributes: ['oauthClientId'] });
+  if ((session?.oauthClientId ?? null) !== oauthClientId) {
+    return { status: 'invalid' };
+  }
+
+  // A rotated token should never come back: assume it was stolen
+  if (stored.rotatedAt) {
+    await revokeRefreshTokenFamily(stored.familyId);
+    return { status: 'reused', userId: stored.userId };
+  }
+
+  if (stored.expiresAt.getTime() <= Date.now()) {
+    return { status: 'expired' };
+  }
+
+  // Conditional update so two concurrent refreshes cannot both succeed
+  const [affectedCount] = await RefreshToken.update(
+    { rotatedAt: new Date() },
+    { where: { id: stored.id, rotatedAt: { [Op.is]: null } } }
+  );
+
+  if (affectedCount === 0) {
+    await revokeRefreshTokenFamily(stored.familyId);
+    return { status: 'reused', userId: stored.userId };
+  }
+
+  const refreshToken = await issueRefreshToken(stored.userId, stored.familyId);
+
+  await Session.update(
+    { lastUsedAt: new Date(), expiresAt: refreshToken.expiresAt },
+    { where: { id: stored.familyId } }
+  );
+
+  return { status: 'rotated', userId: stored.userId, refreshToken };
+}
+
+/**
+ * Revoke the family of the given refresh token (used on logout)
+ */
+export async function revokeRefreshToken(token: string): Promise<void> {
+  const stored = await RefreshToken.findOne({ where: { tokenHash: hashRefreshToken(token) } });
+
+  if (stored) {
+    await revokeRefreshTokenFamily(stored.familyId);
+  }
+}
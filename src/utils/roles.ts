@@ -0,0 +1,186 @@
+/**
+ * Role and permission utilities
+ *
+ * Roles are rows in the roles table, each granting a set of permissions named
+ * `resource:action` (for example `users:delete`). A user has exactly one role,
+ * stored by name on the user row. The built-in `user` and `admin` roles cannot
+ * be deleted, and `admin` always keeps every permission so the application
+ * cannot be locked out of role management.
+ */
+
+import { sequelize } from '../database/connection.js';
+import { Permission, Role, User } from '../models/index.js';
+
+export const ADMIN_ROLE = 'admin';
+
+export interface RoleInput {
+  name: string;
+  description?: string | null;
+  permissions: string[];
+}
+
+export interface RoleUpdate {
+  description?: string | null;
+  permissions?: string[];
+}
+
+// What a role assignment would grant and take away, for the user policies
+export interface RoleAssignment {
+  // The user whose role changes (unset when creating a user)
+  id?: number;
+  role?: string;
+  requestedPermissions: string[];
+  currentPermissions: string[];
+}
+
+export type CreateRoleResult =
+  | { status: 'created'; role: Role }
+  | { status: 'exists' }
+  | { status: 'unknown_permissions'; permissions: string[] };
+
+export type UpdateRoleResult =
+  | { status: 'updated'; role: Role }
+  | { status: 'not_found' }
+  | { status: 'protected' }
+  | { status: 'unknown_permissions'; permissions: string[] };
+
+export type DeleteRoleResult = { status: 'deleted' | 'not_found' | 'protected' | 'in_use' };
+
+const withPermissions = {
+  include: [{ model: Permission, as: 'permissions', through: { attributes: [] } }],
+};
+
+/**
+ * Resolve permission names to their rows, reporting any name that does not exist
+ */
+const findPermissions = async (
+  names: string[]
+): Promise<{ permissions: Permission[]; unknown: string[] }> => {
+  const unique = [...new Set(names)];
+  const permissions = await Permission.findAll({ where: { name: unique } });
+  const found = new Set(permissions.map((p) => p.name));
+  return { permissions, unknown: unique.filter((name) => !found.has(name)) };
+};
+
+/**
+ * Get the permission names granted by a role (empty for unknown roles)
+ */
+export async function getRolePermissions(roleName: string): Promise<string[]> {
+  const role = await Role.findOne({ where: { name: roleName }, ...withPermissions });
+  return role?.permissions?.map((p) => p.name) ?? [];
+}
+
+/**
+ * Describe giving a role to a user, or to a new user when no user id is given
+ */
+export async function describeRoleAssignment(
+  role: string | undefined,
+  userId?: number
+): Promise<RoleAssignment> {
+  const user = userId !== undefined ? await User.findByPk(userId, { attributes: ['role'] }) : null;
+
+  return {
+    id: userId,
+    role,
+    requestedPermissions: role ? await getRolePermissions(role) : [],
+    currentPermissions: user ? await getRolePermissions(user.role) : [],
+  };
+}
+
+/**
+ * List every role with its permissions
+ */
+export async function listRoles(): Promise<Role[]> {
+  return Role.findAll({ ...withPermissions, order: [['name', 'ASC']] });
+}
+
+/**
+ * List every permission that can be granted to a role
+ */
+export async function listPermissions(): Promise<Permission[]> {
+  return Permission.findAll({ order: [['name', 'ASC']] });
+}
+
+/**
+ * Check whether a role with this name exists
+ */
+export async function roleExists(name: string): Promise<boolean> {
+  return (await Role.count({ where: { name } })) > 0;
+}
+
+/**
+ * Create a custom role with the given permissions
+ */
+export async function createRole(input: RoleInput): Promise<CreateRoleResult> {
+  if (await roleExists(input.name)) {
+    return { status: 'exists' };
+  }
+
+  const { permissions, unknown } = await findPermissions(input.permissions);
+  if (unknown.length > 0) {
+    return { status: 'unknown_permissions', permissions: unknown };
+  }
+
+  const role = await sequelize.transaction(async (transaction) => {
+    const created = await Role.create(
+      { name: input.name, description: input.description ?? null },
+      { transaction }
+    );
+    await created.setPermissions(permissions, { transaction });
+    return created;
+  });
+
+  return { status: 'created', role: (await Role.findByPk(role.id, withPermissions))! };
+}
+
+/**
+ * Update a role's description and/or replace its permissions
+ */
+export async function updateRole(id: number, update: RoleUpdate): Promise<UpdateRoleResult> {
+  const role = await Role.findByPk(id);
+  if (!role) {
+    return { status: 'not_found' };
+  }
+
+  if (role.name === ADMIN_ROLE && update.permissions !== undefined) {
+    return { status: 'protected' };
+  }
+
+  const found = update.permissions ? await findPermissions(update.permissions) : null;
+  if (found && found.unknown.length > 0) {
+    return { status: 'unknown_permissions', permissions: found.unknown };
+  }
+
+  await sequelize.transaction(async (transaction) => {
+    if (update.description !== undefined) {
+      await role.update({ description: update.description }, { transaction });
+    }
+    if (found) {
+      await role.setPermissions(found.permissions, { transaction });
+    }
+  });
+
+  return { status: 'updated', role: (await Role.findByPk(id, withPermissions))! };
+}
+
+/**
+ * Delete a custom role that no user is assigned to
+ */
+export async function deleteRole(id: number): Promise<DeleteRoleResult> {
+  const role = await Role.findByPk(id);
+  if (!role) {
+    return { status: 'not_found' };
+  }
+
+  if (role.isSystem) {
+    return { status: 'protected' };
+  }
+
+  // Deleted users count too: they keep their role when restored
+  if ((await User.count({ where: { role: role.name }, paranoid: false })) > 0) {
+    return { status: 'in_use' };
+  }
+
+  await role.destroy();
+  return { status: 'deleted' };
+}
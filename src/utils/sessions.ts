@@ -0,0 +1,102 @@
+/**
+ * Session utilities
+ *
+ * A session is created at every login and backs both the `sid` claim of access
+ * tokens and the family of its refresh tokens. Revoking a session invalidates
+ * both immediately.
+ */
+
+import { Op } from 'sequelize';
+import { Session } from '../models/index.js';
+import { config } from '../config/index.js';
+import { revokeRefreshTokenFamily } from './refreshTokens.js';
+
+export interface SessionClientInfo {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+// Set for sessions authorized for an OAuth client rather than started by a direct sign-in
+export interface SessionGrant {
+  oauthClientId: number;
+  scopes: string[];
+}
+
+/**
+ * Start a new session for a user
+ */
+export async function createSession(
+  userId: number,
+  client: SessionClientInfo,
+  grant?: SessionGrant
+): Promise<Session> {
+  const now = new Date();
+
+  return Session.create({
+    userId,
+    userAgent: client.userAgent?.slice(0, 512) || null,
+    ipAddress: client.ipAddress || null,
+    oauthClientId: grant?.oauthClientId ?? null,
+    scopes: grant?.scopes ?? null,
+    lastUsedAt: now,
+    expiresAt: new Date(now.getTime() + config.jwt.refreshTokenTtl * 1000),
+  });
+}
+
+/**
+ * Check whether a session exists and has been neither revoked nor expired
+ */
+export async function isSessionActive(sessionId: string): Promise<boolean> {
+  const session = await Session.findByPk(sessionId);
+  return !!session && !session.revokedAt && session.expiresAt.getTime() > Date.now();
+}
+
+/**
+ * List a user's active sessions, most recently used first
+ */
+export async function listActiveSessions(userId: number): Promise<Session[]> {
+  return Session.findAll({
+    where: {
+      userId,
+      revokedAt: { [Op.is]: null },
+      expiresAt: { [Op.gt]: new Date() },
+    },
+    order: [['lastUsedAt', 'DESC']],
+  });
+}
+
+/**
+ * Revoke one of a user's sessions
+ * @returns false when the session does not exist or belongs to another user
+ */
+export async function revokeSession(userId: number, sessionId: string): Promise<boolean> {
+  const session = await Session.findOne({ where: { id: sessionId, userId } });
+
+  if (!session) {
+    return false;
+  }
+
+  await revokeRefreshTokenFamily(session.id);
+  return true;
+}
+
+/**
+ * Revoke every active session of a user, optionally keeping one (e.g. the current session)
+ * @returns Number of sessions revoked
+ */
+export async function revokeAllSessions(userId: number, exceptSessionId?: string): Promise<number> {
+  const sessions = await Session.findAll({
+    where: {
+      userId,
+      revokedAt: { [Op.is]: null },
+      ...(exceptSessionId && { id: { [Op.ne]: exceptSessionId } }),
+    },
+    attributes: ['id'],
+  });
+
+  for (const session of sessions) {
+    await revokeRefreshTokenFamily(session.id);
+  }
+
+  return sessions.length;
+}
@@ -0,0 +1,130 @@
+/**
+ * TOTP (RFC 6238)
+ *
+ * Time-based one-time passwords as used by authenticator apps: HMAC-SHA1 over the
+ * number of 30-second steps since the epoch, truncated to 6 digits. Secrets are
+ * exchanged in base32 through an otpauth:// URI, usually shown as a QR code.
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export const TOTP_PERIOD = 30;
+export const TOTP_DIGITS = 6;
+
+// Steps accepted on either side of the current one, for clock drift
+const ALLOWED_DRIFT = 1;
+
+/**
+ * Encode bytes as unpadded base32 (RFC 4648)
+ */
+export const base32Encode = (buffer: Buffer): string => {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+};
+
+/**
+ * Decode base32, ignoring case, spaces and padding
+ */
+export const base32Decode = (input: string): Buffer => {
+  const cleaned = input.toUpperCase().replace(/[\s=]/g, '');
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error(`Invalid base32 character: ${char}`);
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+};
+
+/**
+ * Generate a new 160-bit secret, base32 encoded
+ */
+export const generateTotpSecret = (): string => base32Encode(randomBytes(20));
+
+/**
+ * Time step of a moment (default: now)
+ */
+export const totpStep = (time: number = Date.now()): number =>
+  Math.floor(time / 1000 / TOTP_PERIOD);
+
+/**
+ * Code for a secret at a given time step
+ */
+export const generateTotpCode = (secret: string, step: number = totpStep()): string => {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+
+  const hmac = createHmac('sha1', base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, '0');
+};
+
+/**
+ * Check a code against the steps around now
+ * @returns The matching time step, or null when the code is wrong
+ */
+export function verifyTotpCode(
+  secret: string,
+  code: string,
+  time: number = Date.now()
+): number | null {
+  const normalized = code.replace(/\s/g, '');
+  if (!/^\d+$/.test(normalized) || normalized.length !== TOTP_DIGITS) {
+    return null;
+  }
+
+  const current = totpStep(time);
+  for (let step = current - ALLOWED_DRIFT; step <= current + ALLOWED_DRIFT; step++) {
+    if (timingSafeEqual(Buffer.from(generateTotpCode(secret, step)), Buffer.from(normalized))) {
+      return step;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Key URI understood by authenticator apps (and encoded in enrollment QR codes)
+ */
+export const totpKeyUri = (secret: string, account: string, issuer: string): string => {
+  const label = encodeURIComponent(`${issuer}:${account}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD),
+  });
+
+  return `otpauth://totp/${label}?${params.toString()}`;
+};
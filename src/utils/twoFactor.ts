@@ -0,0 +1,166 @@
+/**
+ * Two-factor authentication
+ *
+ * Users enroll an authenticator app (TOTP) by scanning a secret and confirming
+ * it with a first code, which also issues ten single-use recovery codes. A code
+ * is accepted once: TOTP codes must be from a later time step than the last
+ * accepted one, and recovery codes are marked as used. Only recovery code
+ * hashes are stored; the TOTP secret is encrypted at rest like OAuth tokens.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { Op } from 'sequelize';
+import { RecoveryCode, User } from '../models/index.js';
+import { sequelize } from '../database/connection.js';
+import { config } from '../config/index.js';
+import { generateTotpSecret, totpKeyUri, verifyTotpCode } from './totp.js';
+
+export const RECOVERY_CODE_COUNT = 10;
+
+export type StartEnrollmentResult =
+  | { status: 'started'; secret: string; otpauthUri: string }
+  | { status: 'already_enabled' };
+
+export type EnableTotpResult =
+  | { status: 'enabled'; recoveryCodes: string[] }
+  | { status: 'not_started' }
+  | { status: 'already_enabled' }
+  | { status: 'invalid_code' };
+
+export type SecondFactorMethod = 'totp' | 'recovery_code';
+
+/**
+ * Hash a recovery code for storage and lookup (case and separators are ignored)
+ */
+export const hashRecoveryCode = (code: string): string => {
+  const normalized = code.toLowerCase().replace(/[^a-z0-9]/g, '');
+  return createHash('sha256').update(normalized).digest('hex');
+};
+
+// Ten lowercase hex characters in two groups, e.g. 4f9a1-c03e7
+const generateRecoveryCode = (): string => {
+  const hex = randomBytes(5).toString('hex');
+  return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+};
+
+/**
+ * Whether the configuration requires this user to use a second factor
+ */
+export const isTwoFactorRequired = (user: Pick<User, 'role'>): boolean => {
+  return config.twoFactor.requiredForAdmins && user.role === 'admin';
+};
+
+/**
+ * Store a new secret for the user to scan. It is only used for logins once a
+ * code from it is confirmed, and starting again replaces it.
+ */
+export async function startTotpEnrollment(user: User): Promise<StartEnrollmentResult> {
+  if (user.totpEnabledAt) {
+    return { status: 'already_enabled' };
+  }
+
+  const secret = generateTotpSecret();
+  await user.update({ totpSecret: secret, totpLastStep: null });
+
+  return {
+    status: 'started',
+    secret,
+    otpauthUri: totpKeyUri(secret, user.email, config.twoFactor.issuer),
+  };
+}
+
+/**
+ * Replace the user's recovery codes with a new set
+ * @returns The new codes, in plain text (they cannot be shown again)
+ */
+export async function regenerateRecoveryCodes(user: User): Promise<string[]> {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, generateRecoveryCode);
+
+  await sequelize.transaction(async (transaction) => {
+    await RecoveryCode.destroy({ where: { userId: user.id }, transaction });
+    await RecoveryCode.bulkCreate(
+      codes.map((code) => ({ userId: user.id, codeHash: hashRecoveryCode(code) })),
+      { transaction }
+    );
+  });
+
+  return codes;
+}
+
+/**
+ * Turn TOTP on with a first code from the pending secret
+ */
+export async function enableTotp(user: User, code: string): Promise<EnableTotpResult> {
+  if (user.totpEnabledAt) {
+    return { status: 'already_enabled' };
+  }
+  if (!user.totpSecret) {
+    return { status: 'not_started' };
+  }
+
+  const step = verifyTotpCode(user.totpSecret, code);
+  if (step === null) {
+    return { status: 'invalid_code' };
+  }
+
+  await user.update({ totpEnabledAt: new Date(), totpLastStep: step });
+  const recoveryCodes = await regenerateRecoveryCodes(user);
+
+  return { status: 'enabled', recoveryCodes };
+}
+
+/**
+ * Check a TOTP code or, failing that, a recovery code, and use it up
+ * @returns How the user proved the second factor, or null when the code is wrong
+ */
+export async function verifySecondFactor(
+  user: User,
+  code: string
+): Promise<SecondFactorMethod | null> {
+  if (!user.totpEnabledAt || !user.totpSecret) {
+    return null;
+  }
+
+  const step = verifyTotpCode(user.totpSecret, code);
+  if (step !== null) {
+    // Conditional update so a code cannot be replayed, even by concurrent requests
+    const [affectedCount] = await User.update(
+      { totpLastStep: step },
+      {
+        where: {
+          id: user.id,
+          [Op.or]: [{ totpLastStep: { [Op.is]: null } }, { totpLastStep: { [Op.lt]: step } }],
+        },
+      }
+    );
+    return affectedCount > 0 ? 'totp' : null;
+  }
+
+  const [affectedCount] = await RecoveryCode.update(
+    { usedAt: new Date() },
+    {
+      where: { userId: user.id, codeHash: hashRecoveryCode(code), usedAt: { [Op.is]: null } },
+    }
+  );
+  return affectedCount > 0 ? 'recovery_code' : null;
+}
+
+/**
+ * Remove the TOTP secret and every recovery code
+ */
+export async function disableTotp(user: User): Promise<void> {
+  await sequelize.transaction(async (transaction) => {
+    await RecoveryCode.destroy({ where: { userId: user.id }, transaction });
+    await user.update(
+      { totpSecret: null, totpEnabledAt: null, totpLastStep: null },
+      { transaction }
+    );
+  });
+}
+
+/**
+ * Number of recovery codes the user has not used yet
+ */
+export const countRemainingRecoveryCodes = (userId: number): Promise<number> => {
+  return RecoveryCode.count({ where: { userId, usedAt: { [Op.is]: null } } });
+};
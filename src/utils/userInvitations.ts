@@ -0,0 +1,180 @@
+/**
+ * User invitation utilities
+ *
+ * Invitations onboard people who do not have an account yet. An admin invites an
+ * email address with a pre-assigned role; the invitee receives a link carrying a
+ * signed, expiring token and creates their account by accepting it. The token only
+ * identifies the invitation, so revoking or accepting the invitation invalidates
+ * it even before it expires.
+ */
+
+import { Op, UniqueConstraintError } from 'sequelize';
+import { sequelize } from '../database/connection.js';
+import { User, UserInvitation } from '../models/index.js';
+import { DEFAULT_ROLE, type UserRole } from '../models/User.js';
+import { config } from '../config/index.js';
+import type { Locale } from '../i18n/messages.js';
+import { queueTemplatedMail } from '../mailer/index.js';
+
+export interface CreateUserInvitationOptions {
+  email: string;
+  name?: string;
+  role?: UserRole;
+  invitedById: number;
+}
+
+export type CreateUserInvitationResult =
+  | { status: 'created'; invitation: UserInvitation }
+  | { status: 'user_exists' };
+
+export type FindUserInvitationResult =
+  | { status: 'pending'; invitation: UserInvitation }
+  | { status: 'invalid' }
+  | { status: 'expired' };
+
+export type AcceptUserInvitationResult =
+  | { status: 'accepted'; user: User }
+  | { status: 'invalid' }
+  | { status: 'user_exists' };
+
+// Thrown inside the acceptance transaction to roll back the new account
+class InvitationAlreadyUsedError extends Error {}
+
+const pendingWhere = () => ({
+  acceptedAt: { [Op.is]: null },
+  revokedAt: { [Op.is]: null },
+  expiresAt: { [Op.gt]: new Date() },
+});
+
+/**
+ * Invite an email address, replacing any pending invitation for it
+ */
+export async function createUserInvitation(
+  options: CreateUserInvitationOptions
+): Promise<CreateUserInvitationResult> {
+  const email = options.email.toLowerCase();
+
+  if (await User.findOne({ where: { email } })) {
+    return { status: 'user_exists' };
+  }
+
+  const invitation = await sequelize.transaction(async (transaction) => {
+    await UserInvitation.update(
+      { revokedAt: new Date() },
+      { where: { email, ...pendingWhere() }, transaction }
+    );
+    return UserInvitation.create(
+      {
+        email,
+        name: options.name ?? null,
+        role: options.role ?? DEFAULT_ROLE,
+        invitedById: options.invitedById,
+        expiresAt: new Date(Date.now() + config.invitations.ttl * 1000),
+      },
+      { transaction }
+    );
+  });
+
+  return { status: 'created', invitation };
+}
+
+/**
+ * List invitations that can still be accepted
+ */
+export async function listPendingUserInvitations(): Promise<UserInvitation[]> {
+  return UserInvitation.findAll({
+    where: pendingWhere(),
+    order: [['createdAt', 'DESC']],
+  });
+}
+
+/**
+ * Revoke a pending invitation, returning false if it does not exist or was already used
+ */
+export async function revokeUserInvitation(id: number): Promise<boolean> {
+  const [affectedCount] = await UserInvitation.update(
+    { revokedAt: new Date() },
+    { where: { id, acceptedAt: { [Op.is]: null }, revokedAt: { [Op.is]: null } } }
+  );
+  return affectedCount > 0;
+}
+
+/**
+ * Load the invitation a verified token refers to, with the user who sent it
+ */
+export async function findPendingUserInvitation(id: number): Promise<FindUserInvitationResult> {
+  const invitation = await UserInvitation.findByPk(id, {
+    include: [{ model: User, as: 'invitedBy', attributes: ['id', 'name'] }],
+  });
+
+  if (!invitation || invitation.acceptedAt || invitation.revokedAt) {
+    return { status: 'invalid' };
+  }
+
+  if (invitation.expiresAt.getTime() <= Date.now()) {
+    return { status: 'expired' };
+  }
+
+  return { status: 'pending', invitation };
+}
+
+/**
+ * Create the invited account with the pre-assigned role
+ */
+export async function acceptUserInvitation(
+  invitation: UserInvitation,
+  name?: string
+): Promise<AcceptUserInvitationResult> {
+  try {
+    const user = await sequelize.transaction(async (transaction) => {
+      const created = await User.create(
+        {
+          name: name || invitation.name || invitation.email.split('@')[0],
+          email: invitation.email,
+          role: invitation.role,
+          // The invitation was opened from the mailbox
+          emailVerifiedAt: new Date(),
+        },
+        { transaction }
+      );
+
+      // Only one acceptance wins if the link is opened twice at once
+      const [affectedCount] = await UserInvitation.update(
+        { acceptedAt: new Date(), acceptedUserId: created.id },
+        { where: { id: invitation.id, ...pendingWhere() }, transaction }
+      );
+      if (affectedCount === 0) {
+        throw new InvitationAlreadyUsedError();
+      }
+
+      return created;
+    });
+
+    return { status: 'accepted', user };
+  } catch (error) {
+    if (error instanceof InvitationAlreadyUsedError) {
+      return { status: 'invalid' };
+    }
+    if (error instanceof UniqueConstraintError) {
+      return { status: 'user_exists' };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Email the invitation link to the invitee (retried in the background if delivery fails)
+ * @returns Whether the first delivery attempt succeeded
+ */
+export async function sendUserInvitationEmail(
+  invitation: UserInvitation,
+  options: { token: string; inviterName: string; locale: Locale }
+): Promise<boolean> {
+  const url = `${config.invitations.acceptUrl}?token=${encodeURIComponent(options.token)}`;
+
+  return queueTemplatedMail(invitation.email, 'invitation', options.locale, {
+    inviterName: options.inviterName,
+    url,
+    expiresAt: invitation.expiresAt,
+  });
+}
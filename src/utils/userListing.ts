@@ -0,0 +1,157 @@
+/**
+ * User listing utilities
+ *
+ * Listings are paginated with an opaque cursor naming the last row seen (its sort
+ * value and id), so pages stay stable while users are added or removed. Admin
+ * tables can also jump to an offset. Filters, search and the sort order apply to
+ * both, and the total counts every matching user across all pages.
+ */
+
+import { Op, type FindOptions, type WhereOptions } from 'sequelize';
+import { User } from '../models/index.js';
+
+export const USER_SORT_FIELDS = ['createdAt', 'name', 'email', 'role'] as const;
+export type UserSortField = (typeof USER_SORT_FIELDS)[number];
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+export interface UserListQuery {
+  limit?: number;
+  cursor?: string;
+  offset?: number;
+  sort?: UserSortField;
+  order?: 'asc' | 'desc';
+  role?: string;
+  oauthProvider?: string;
+  createdAfter?: string;
+  createdBefore?: string;
+  search?: string;
+  // Also list soft-deleted users (admin listings only)
+  includeDeleted?: boolean;
+}
+
+export interface UserPage {
+  users: User[];
+  nextCursor: string | null;
+  total: number;
+}
+
+interface Cursor {
+  sort: UserSortField;
+  order: 'asc' | 'desc';
+  value: string;
+  id: number;
+}
+
+const encodeCursor = (cursor: Cursor): string =>
+  Buffer.from(JSON.stringify(cursor)).toString('base64url');
+
+// A cursor only continues the listing it came from, with the same sort order
+const decodeCursor = (token: string, sort: UserSortField, order: 'asc' | 'desc') => {
+  try {
+    const cursor = JSON.parse(Buffer.from(token, 'base64url').toString('utf8')) as Cursor;
+    const valid =
+      cursor.sort === sort &&
+      cursor.order === order &&
+      typeof cursor.value === 'string' &&
+      Number.isInteger(cursor.id) &&
+      (sort !== 'createdAt' || !Number.isNaN(Date.parse(cursor.value)));
+    return valid ? cursor : null;
+  } catch {
+    return null;
+  }
+};
+
+// Match search terms literally, not as LIKE patterns
+const escapeLike = (value: string): string => value.replace(/[\\%_]/g, '\\$&');
+
+const filtersFor = (query: UserListQuery): WhereOptions[] => {
+  const filters: WhereOptions[] = [];
+
+  if (query.role) {
+    filters.push({ role: query.role });
+  }
+  if (query.oauthProvider) {
+    filters.push({ oauthProvider: query.oauthProvider });
+  }
+  if (query.createdAfter) {
+    filters.push({ createdAt: { [Op.gte]: new Date(query.createdAfter) } });
+  }
+  if (query.createdBefore) {
+    filters.push({ createdAt: { [Op.lt]: new Date(query.createdBefore) } });
+  }
+  if (query.search?.trim()) {
+    const pattern = `%${escapeLike(query.search.trim())}%`;
+    filters.push({
+      [Op.or]: [{ name: { [Op.iLike]: pattern } }, { email: { [Op.iLike]: pattern } }],
+    });
+  }
+
+  return filters;
+};
+
+/**
+ * List one page of users matching the query
+ * @param scope - Extra find options restricting the listing (e.g. to an organization)
+ * @returns null when the cursor is invalid or belongs to another sort order
+ */
+export async function listUsers(
+  query: UserListQuery,
+  scope: FindOptions = {}
+): Promise<UserPage | null> {
+  const sort = query.sort ?? 'createdAt';
+  const order = query.order ?? 'desc';
+  const limit = Math.min(query.limit ?? DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+  // The scope's conditions apply along with the query's
+  const filters = [...(scope.where ? [scope.where] : []), ...filtersFor(query)];
+
+  const pageFilters = [...filters];
+  if (query.cursor) {
+    const cursor = decodeCursor(query.cursor, sort, order);
+    if (!cursor) {
+      return null;
+    }
+
+    // Rows after the cursor: a later sort value, or the same one and a later id
+    const after = order === 'desc' ? Op.lt : Op.gt;
+    const value = sort === 'createdAt' ? new Date(cursor.value) : cursor.value;
+    pageFilters.push({
+      [Op.or]: [{ [sort]: { [after]: value } }, { [sort]: value, id: { [after]: cursor.id } }],
+    });
+  }
+
+  // Fetch one extra row to know whether another page follows
+  const rows = await User.findAll({
+    ...scope,
+    where: { [Op.and]: pageFilters },
+    order: [
+      [sort, order.toUpperCase()],
+      ['id', order.toUpperCase()],
+    ],
+    limit: limit + 1,
+    offset: query.cursor ? undefined : query.offset,
+    paranoid: !query.includeDeleted,
+  });
+  const total = await User.count({
+    ...scope,
+    where: { [Op.and]: filters },
+    distinct: true,
+    col: 'id',
+    paranoid: !query.includeDeleted,
+  });
+
+  const users = rows.slice(0, limit);
+  const last = users[users.length - 1];
+  const nextCursor =
+    rows.length > limit
+      ? encodeCursor({
+          sort,
+          order,
+          value: sort === 'createdAt' ? last.createdAt.toISOString() : String(last[sort]),
+          id: last.id,
+        })
+      : null;
+
+  return { users, nextCursor, total };
+}
@@ -0,0 +1,92 @@
+/**
+ * User deletion and retention utilities
+ *
+ * Deleting a user only sets its deletedAt (Sequelize paranoid mode): the user
+ * disappears from lookups and listings and its sessions are revoked, but an admin
+ * can restore it with everything it owned. A scheduled purge removes deleted users
+ * for good once the retention window has passed, along with their cascaded rows.
+ */
+
+import type { FastifyBaseLogger } from 'fastify';
+import { Op } from 'sequelize';
+import { User } from '../models/index.js';
+import { config } from '../config/index.js';
+import { revokeAllSessions } from './sessions.js';
+
+export type RestoreUserResult =
+  | { status: 'restored'; user: User }
+  | { status: 'not_found' }
+  | { status: 'email_taken' };
+
+/**
+ * Soft-delete a user and sign it out everywhere
+ * @returns The deleted user, or null when it does not exist or is already deleted
+ */
+export async function deleteUser(id: number): Promise<User | null> {
+  const user = await User.findByPk(id);
+  if (!user || (await User.destroy({ where: { id } })) === 0) {
+    return null;
+  }
+
+  await revokeAllSessions(id);
+  return user;
+}
+
+/**
+ * Bring back a deleted user, unless another user has taken its email since
+ */
+export async function restoreUser(id: number): Promise<RestoreUserResult> {
+  const user = await User.findOne({
+    where: { id, deletedAt: { [Op.ne]: null } },
+    paranoid: false,
+  });
+  if (!user) {
+    return { status: 'not_found' };
+  }
+
+  if (await User.findOne({ where: { email: user.email } })) {
+    return { status: 'email_taken' };
+  }
+
+  await user.restore();
+  return { status: 'restored', user };
+}
+
+/**
+ * Permanently remove users deleted more than retentionDays ago
+ * @returns Number of users removed
+ */
+export async function purgeDeletedUsers(
+  retentionDays: number = config.userRetention.retentionDays
+): Promise<number> {
+  const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+
+  return User.destroy({
+    where: { deletedAt: { [Op.lt]: cutoff } },
+    force: true,
+  });
+}
+
+/**
+ * Run the purge now and then every purgeInterval minutes. The timer does not keep the
+ * process alive.
+ * @returns A function stopping the schedule
+ */
+export function scheduleUserPurge(logger: FastifyBaseLogger): () => void {
+  const run = async () => {
+    try {
+      const purged = await purgeDeletedUsers();
+      if (purged > 0) {
+        logger.info({ purged }, 'Purged deleted users past the retention window');
+      }
+    } catch (error) {
+      logger.error({ err: error }, 'Failed to purge deleted users');
+    }
+  };
+
+  void run();
+  const timer = setInterval(run, config.userRetention.purgeInterval * 60 * 1000);
+  timer.unref();
+
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,113 @@
+/**
+ * Schema validation errors
+ *
+ * Fastify validates bodies, query strings and params with AJV. Its errors are turned
+ * into one violation per failed rule, named after the AJV keyword, and translated with
+ * the messages in `messages.validation` when the response is rendered.
+ */
+
+import type { FastifySchemaValidationError } from 'fastify';
+import { formatMessage, getMessages, type Locale, type Messages } from '../i18n/messages.js';
+
+type ValidationMessageKey = keyof Messages['validation'];
+
+export interface FieldViolation {
+  // Path of the field, e.g. email or redirectUris[0]
+  field: string;
+  // The AJV keyword that failed, e.g. required or format
+  rule: string;
+  params: Record<string, string>;
+}
+
+export interface FieldError {
+  field: string;
+  rule: string;
+  message: string;
+}
+
+// Formats with a dedicated message; others use the generic format message
+const FORMAT_MESSAGES: Record<string, ValidationMessageKey> = {
+  email: 'invalidEmail',
+  'date-time': 'invalidDateTime',
+  uri: 'invalidUri',
+  uuid: 'invalidUuid',
+};
+
+// /redirectUris/0 -> redirectUris[0], following JSON pointer escapes
+const toFieldPath = (instancePath: string, property?: unknown): string => {
+  const segments = instancePath
+    .split('/')
+    .slice(1)
+    .map((segment) => segment.replace(/~1/g, '/').replace(/~0/g, '~'));
+  if (typeof property === 'string') {
+    segments.push(property);
+  }
+
+  return segments.reduce(
+    (path, segment) =>
+      /^\d+$/.test(segment) ? `${path}[${segment}]` : path ? `${path}.${segment}` : segment,
+    ''
+  );
+};
+
+const toParams = (error: FastifySchemaValidationError): Record<string, string> => {
+  const { params } = error;
+
+  switch (error.keyword) {
+    case 'type':
+      return { type: [params.type].flat().join(', ') };
+    case 'format':
+      return { format: String(params.format) };
+    case 'enum':
+      return { allowedValues: (params.allowedValues as unknown[]).join(', ') };
+    case 'minLength':
+    case 'maxLength':
+    case 'minimum':
+    case 'maximum':
+    case 'minItems':
+      return { limit: String(params.limit) };
+    default:
+      return {};
+  }
+};
+
+/**
+ * Turn AJV errors into field violations
+ * @param dataVar - Part of the request that failed (body, querystring, params or headers)
+ */
+export const toFieldViolations = (
+  errors: FastifySchemaValidationError[],
+  dataVar: string
+): FieldViolation[] =>
+  errors.map((error) => {
+    // required and additionalProperties are reported on the parent object
+    const property = error.params.missingProperty ?? error.params.additionalProperty;
+
+    return {
+      field: toFieldPath(error.instancePath, property) || dataVar,
+      rule: error.keyword,
+      params: toParams(error),
+    };
+  });
+
+const messageKeyFor = (violation: FieldViolation): ValidationMessageKey => {
+  if (violation.rule === 'format') {
+    return FORMAT_MESSAGES[violation.params.format] ?? 'format';
+  }
+
+  const key = violation.rule as ValidationMessageKey;
+  return key in getMessages('en').validation ? key : 'invalid';
+};
+
+/**
+ * Translate field violations for the response
+ */
+export const toFieldErrors = (violations: FieldViolation[], locale: Locale): FieldError[] => {
+  const messages = getMessages(locale);
+
+  return violations.map((violation) => ({
+    field: violation.field,
+    rule: violation.rule,
+    message: formatMessage(messages.validation[messageKeyFor(violation)], violation.params),
+  }));
+};
@@ -0,0 +1,397 @@
+/**
+ * WebAuthn (passkeys)
+ *
+ * Registration and authentication ceremonies for the relying party in
+ * config.webauthn. Options are handed to navigator.credentials.create/get in
+ * their JSON form (binary fields as base64url) and the resulting credential is
+ * posted back as PublicKeyCredential.toJSON() produces it.
+ *
+ * Challenges are stored and deleted on first use, so a response cannot be
+ * replayed. Attestation is not requested ("none"): a passkey proves control of
+ * a key, not the make of the authenticator. Signature counters are checked to
+ * detect cloned authenticators.
+ */
+
+import { createHash, createPublicKey, randomBytes, verify, type KeyObject } from 'crypto';
+import { Op } from 'sequelize';
+import { User, WebAuthnChallenge, WebAuthnCredential } from '../models/index.js';
+import type { WebAuthnCeremony } from '../models/WebAuthnChallenge.js';
+import { config } from '../config/index.js';
+import { CborError, decodeCbor, decodeCborPrefix, type CborValue } from './cbor.js';
+
+// COSE algorithm identifiers this server accepts, in order of preference
+export const COSE_ALGORITHMS = { ES256: -7, EdDSA: -8, RS256: -257 } as const;
+
+// Authenticator data flags
+const FLAG_USER_PRESENT = 0x01;
+const FLAG_USER_VERIFIED = 0x04;
+const FLAG_ATTESTED_CREDENTIAL = 0x40;
+
+export interface AuthenticatorData {
+  rpIdHash: Buffer;
+  userPresent: boolean;
+  userVerified: boolean;
+  signCount: number;
+  credential?: {
+    aaguid: Buffer;
+    credentialId: Buffer;
+    publicKey: Map<CborValue, CborValue>;
+  };
+}
+
+export interface RegistrationResponseJSON {
+  id: string;
+  rawId: string;
+  type: string;
+  response: {
+    clientDataJSON: string;
+    attestationObject: string;
+    transports?: string[];
+  };
+}
+
+export interface AuthenticationResponseJSON {
+  id: string;
+  rawId: string;
+  type: string;
+  response: {
+    clientDataJSON: string;
+    authenticatorData: string;
+    signature: string;
+    userHandle?: string | null;
+  };
+}
+
+export type VerifyRegistrationResult =
+  | { status: 'registered'; credential: WebAuthnCredential }
+  | { status: 'already_registered' }
+  | { status: 'invalid'; reason: string };
+
+export type VerifyAuthenticationResult =
+  | { status: 'signed_in'; user: User; credential: WebAuthnCredential; userVerified: boolean }
+  | { status: 'counter_mismatch'; credential: WebAuthnCredential }
+  | { status: 'invalid'; reason: string };
+
+class WebAuthnVerificationError extends Error {}
+
+const fail = (reason: string): never => {
+  throw new WebAuthnVerificationError(reason);
+};
+
+// Malformed signatures make some key types throw instead of returning false
+const verifySignature = (
+  digest: string | null,
+  data: Buffer,
+  key: KeyObject,
+  signature: Buffer
+) => {
+  try {
+    return verify(digest, data, key, signature);
+  } catch {
+    return false;
+  }
+};
+
+const sha256 = (data: Buffer | string) => createHash('sha256').update(data).digest();
+
+// The user handle identifies the account to a discoverable credential
+export const userHandleFor = (userId: number): string =>
+  Buffer.from(String(userId)).toString('base64url');
+
+/**
+ * Parse the authenticator data of an attestation or assertion
+ */
+export function parseAuthenticatorData(data: Buffer): AuthenticatorData {
+  if (data.length < 37) {
+    fail('authenticator data too short');
+  }
+
+  const flags = data[32];
+  const parsed: AuthenticatorData = {
+    rpIdHash: data.subarray(0, 32),
+    userPresent: !!(flags & FLAG_USER_PRESENT),
+    userVerified: !!(flags & FLAG_USER_VERIFIED),
+    signCount: data.readUInt32BE(33),
+  };
+
+  if (flags & FLAG_ATTESTED_CREDENTIAL) {
+    if (data.length < 55) {
+      fail('attested credential data too short');
+    }
+    const idLength = data.readUInt16BE(53);
+    const credentialId = data.subarray(55, 55 + idLength);
+    const { value } = decodeCborPrefix(data.subarray(55 + idLength));
+    if (!(value instanceof Map)) {
+      fail('credential public key is not a COSE key');
+    }
+
+    parsed.credential = {
+      aaguid: data.subarray(37, 53),
+      credentialId,
+      publicKey: value as Map<CborValue, CborValue>,
+    };
+  }
+
+  return parsed;
+}
+
+const base64url = (value: CborValue | undefined): string => {
+  if (!Buffer.isBuffer(value)) {
+    fail('malformed COSE key');
+  }
+  return (value as Buffer).toString('base64url');
+};
+
+/**
+ * Convert a COSE public key to a Node key object
+ */
+export function coseToPublicKey(cose: Map<CborValue, CborValue>): {
+  key: KeyObject;
+  algorithm: number;
+} {
+  const kty = cose.get(1);
+  const algorithm = cose.get(3) as number;
+  let jwk: Record<string, string>;
+
+  if (kty === 2 && algorithm === COSE_ALGORITHMS.ES256 && cose.get(-1) === 1) {
+    jwk = { kty: 'EC', crv: 'P-256', x: base64url(cose.get(-2)), y: base64url(cose.get(-3)) };
+  } else if (kty === 1 && algorithm === COSE_ALGORITHMS.EdDSA && cose.get(-1) === 6) {
+    jwk = { kty: 'OKP', crv: 'Ed25519', x: base64url(cose.get(-2)) };
+  } else if (kty === 3 && algorithm === COSE_ALGORITHMS.RS256) {
+    jwk = { kty: 'RSA', n: base64url(cose.get(-1)), e: base64url(cose.get(-2)) };
+  } else {
+    return fail(`unsupported key type ${String(kty)} / algorithm ${String(algorithm)}`);
+  }
+
+  try {
+    return { key: createPublicKey({ key: jwk, format: 'jwk' }), algorithm };
+  } catch {
+    return fail('invalid credential public key');
+  }
+}
+
+/**
+ * Check the client data of a ceremony and use up its challenge
+ */
+async function verifyClientData(
+  clientDataJSON: string,
+  ceremony: WebAuthnCeremony,
+  userId: number | null
+): Promise<Buffer> {
+  const raw = Buffer.from(clientDataJSON, 'base64url');
+  let clientData: { type?: string; challenge?: string; origin?: string };
+  try {
+    clientData = JSON.parse(raw.toString('utf8')) ?? {};
+  } catch {
+    return fail('client data is not JSON');
+  }
+
+  // Deleting the challenge makes it single-use, even across concurrent requests and
+  // for responses rejected below
+  const consumed = await WebAuthnChallenge.destroy({
+    where: {
+      challenge: typeof clientData.challenge === 'string' ? clientData.challenge : '',
+      ceremony,
+      userId,
+      expiresAt: { [Op.gt]: new Date() },
+    },
+  });
+  if (consumed === 0) {
+    fail('unknown, used or expired challenge');
+  }
+
+  const expectedType = ceremony === 'registration' ? 'webauthn.create' : 'webauthn.get';
+  if (clientData.type !== expectedType) {
+    fail(`unexpected client data type ${clientData.type}`);
+  }
+  if (!clientData.origin || !config.webauthn.origins.includes(clientData.origin)) {
+    fail(`origin ${clientData.origin} is not allowed`);
+  }
+
+  return raw;
+}
+
+const checkRelyingParty = (authData: AuthenticatorData) => {
+  if (!authData.rpIdHash.equals(sha256(config.webauthn.rpId))) {
+    fail('credential is for another relying party');
+  }
+  if (!authData.userPresent) {
+    fail('user presence flag not set');
+  }
+};
+
+// Store a new challenge, dropping expired ones on the way
+async function createChallenge(ceremony: WebAuthnCeremony, userId: number | null) {
+  await WebAuthnChallenge.destroy({ where: { expiresAt: { [Op.lt]: new Date() } } });
+
+  const challenge = randomBytes(32).toString('base64url');
+  await WebAuthnChallenge.create({
+    challenge,
+    ceremony,
+    userId,
+    expiresAt: new Date(Date.now() + config.webauthn.challengeTtl * 1000),
+  });
+
+  return challenge;
+}
+
+/**
+ * Options for navigator.credentials.create(), registering a passkey for a user
+ */
+export async function createRegistrationOptions(user: User) {
+  const existing = await WebAuthnCredential.findAll({ where: { userId: user.id } });
+
+  return {
+    challenge: await createChallenge('registration', user.id),
+    rp: { id: config.webauthn.rpId, name: config.webauthn.rpName },
+    user: { id: userHandleFor(user.id), name: user.email, displayName: user.name },
+    pubKeyCredParams: Object.values(COSE_ALGORITHMS).map((alg) => ({ type: 'public-key', alg })),
+    timeout: config.webauthn.challengeTtl * 1000,
+    attestation: 'none',
+    authenticatorSelection: { residentKey: 'required', userVerification: 'preferred' },
+    // The same authenticator cannot be registered twice
+    excludeCredentials: existing.map((credential) => ({
+      type: 'public-key',
+      id: credential.credentialId,
+      transports: credential.transports,
+    })),
+  };
+}
+
+/**
+ * Verify a registration response and store the new credential
+ */
+export async function verifyRegistration(
+  user: User,
+  credential: RegistrationResponseJSON,
+  name?: string
+): Promise<VerifyRegistrationResult> {
+  try {
+    if (credential.type !== 'public-key') {
+      fail('not a public key credential');
+    }
+    await verifyClientData(credential.response.clientDataJSON, 'registration', user.id);
+
+    const attestation = decodeCbor(Buffer.from(credential.response.attestationObject, 'base64url'));
+    if (!(attestation instanceof Map) || !Buffer.isBuffer(attestation.get('authData'))) {
+      fail('malformed attestation object');
+    }
+    const attestationMap = attestation as Map<CborValue, CborValue>;
+    if (attestationMap.get('fmt') !== 'none') {
+      fail(`attestation format ${String(attestationMap.get('fmt'))} was not requested`);
+    }
+
+    const authData = parseAuthenticatorData(attestationMap.get('authData') as Buffer);
+    checkRelyingParty(authData);
+    if (!authData.credential) {
+      fail('no attested credential data');
+    }
+
+    const { credentialId, publicKey } = authData.credential!;
+    if (credentialId.toString('base64url') !== credential.rawId) {
+      fail('credential ID does not match rawId');
+    }
+    const { key, algorithm } = coseToPublicKey(publicKey);
+
+    if (await WebAuthnCredential.findOne({ where: { credentialId: credential.rawId } })) {
+      return { status: 'already_registered' };
+    }
+
+    const stored = await WebAuthnCredential.create({
+      userId: user.id,
+      credentialId: credential.rawId,
+      publicKey: key.export({ type: 'spki', format: 'der' }).toString('base64url'),
+      algorithm,
+      signCount: authData.signCount,
+      transports: credential.response.transports ?? [],
+      name: name || 'Passkey',
+    });
+
+    return { status: 'registered', credential: stored };
+  } catch (error) {
+    if (error instanceof WebAuthnVerificationError || error instanceof CborError) {
+      return { status: 'invalid', reason: error.message };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Options for navigator.credentials.get(). Credentials are discoverable, so the
+ * user picks a passkey without typing an email address first.
+ */
+export async function createAuthenticationOptions() {
+  return {
+    challenge: await createChallenge('authentication', null),
+    rpId: config.webauthn.rpId,
+    timeout: config.webauthn.challengeTtl * 1000,
+    userVerification: 'preferred',
+    allowCredentials: [],
+  };
+}
+
+/**
+ * Verify an authentication response and resolve the user it signs in
+ */
+export async function verifyAuthentication(
+  credential: AuthenticationResponseJSON
+): Promise<VerifyAuthenticationResult> {
+  try {
+    if (credential.type !== 'public-key') {
+      fail('not a public key credential');
+    }
+    const clientData = await verifyClientData(
+      credential.response.clientDataJSON,
+      'authentication',
+      null
+    );
+
+    const stored = await WebAuthnCredential.findOne({
+      where: { credentialId: credential.rawId },
+      // Passkeys of deleted users are kept for a restore but cannot sign in
+      include: [{ model: User, as: 'user', required: true }],
+    });
+    if (!stored) {
+      return fail('unknown credential');
+    }
+
+    const { userHandle } = credential.response;
+    if (userHandle && userHandle !== userHandleFor(stored.userId)) {
+      fail('user handle does not match the credential');
+    }
+
+    const rawAuthData = Buffer.from(credential.response.authenticatorData, 'base64url');
+    const authData = parseAuthenticatorData(rawAuthData);
+    checkRelyingParty(authData);
+
+    const key = createPublicKey({
+      key: Buffer.from(stored.publicKey, 'base64url'),
+      format: 'der',
+      type: 'spki',
+    });
+    const signed = Buffer.concat([rawAuthData, sha256(clientData)]);
+    const digest = stored.algorithm === COSE_ALGORITHMS.EdDSA ? null : 'sha256';
+    const signature = Buffer.from(credential.response.signature, 'base64url');
+    if (!verifySignature(digest, signed, key, signature)) {
+      fail('invalid signature');
+    }
+
+    // Authenticators without a counter always report 0; otherwise it must increase
+    if (
+      (authData.signCount > 0 || stored.signCount > 0) &&
+      authData.signCount <= stored.signCount
+    ) {
+      return { status: 'counter_mismatch', credential: stored };
+    }
+
+    await stored.update({ signCount: authData.signCount, lastUsedAt: new Date() });
+
+    const user = (stored as WebAuthnCredential & { user: User }).user;
+    return { status: 'signed_in', user, credential: stored, userVerified: authData.userVerified };
+  } catch (error) {
+    if (error instanceof WebAuthnVerificationError || error instanceof CborError) {
+      return { status: 'invalid', reason: error.message };
+    }
+    throw error;
+  }
+}